@@ -0,0 +1,89 @@
+import { ChapterRevisionAgent, chooseRevisionAgent, applyRevision, StaleRevisionError } from '@/agents/chapter-revision-agent'
+import { callAgentStructured } from '@/lib/openai'
+import { prisma } from '@/lib/prisma'
+
+// Mock external dependencies
+jest.mock('@/lib/openai')
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    character: {
+      findMany: jest.fn()
+    },
+    agentSession: {
+      create: jest.fn()
+    }
+  }
+}))
+
+const mockCallAgentStructured = callAgentStructured as jest.MockedFunction<typeof callAgentStructured>
+const mockPrisma = prisma as jest.Mocked<typeof prisma>
+
+describe('ChapterRevisionAgent - The Gentle Editor ✏️', () => {
+  const content = 'Mira crept into the cave.\n\nThe wolf snarled and bared its teeth.\n\nShe held her lantern high.'
+  const passage = 'The wolf snarled and bared its teeth.'
+  const selection = { start: content.indexOf(passage), end: content.indexOf(passage) + passage.length }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockPrisma.character.findMany.mockResolvedValue([{ name: 'Mira' }] as any)
+  })
+
+  describe('chooseRevisionAgent', () => {
+    it('should send character and dialogue requests to the Character Soul', () => {
+      expect(chooseRevisionAgent('add more dialogue for the fox')).toBe('character_soul')
+      expect(chooseRevisionAgent('make Mira braver here', ['Mira'])).toBe('character_soul')
+      expect(chooseRevisionAgent('make this gentler for a 6-year-old', ['Mira'])).toBe('wisdom_weaver')
+    })
+  })
+
+  describe('proposeRevision', () => {
+    it('should return the rewrite as a word-level diff and log the session', async () => {
+      // Arrange
+      mockCallAgentStructured.mockResolvedValue({
+        content: '{}',
+        tokensUsed: 90,
+        agentType: 'wisdom_weaver',
+        usage: { model: 'stub-model', promptTokens: 70, completionTokens: 20 },
+        attempts: 1,
+        data: { revised: 'The wolf yawned and blinked its sleepy eyes.', rationale: 'Softened the threat for young readers' }
+      })
+
+      // Act
+      const proposal = await new ChapterRevisionAgent('story-123').proposeRevision({
+        chapterNumber: 2,
+        chapterTitle: 'The Cave',
+        content,
+        selection,
+        instruction: 'make this gentler for a 6-year-old',
+        targetAge: 'child'
+      })
+
+      // Assert
+      expect(proposal.agentType).toBe('wisdom_weaver')
+      expect(proposal.original).toBe(passage)
+      expect(proposal.diff[0]).toEqual({ type: 'equal', text: 'The wolf ' })
+      expect(proposal.diff).toContainEqual({ type: 'delete', text: 'snarled' })
+      expect(proposal.diff).toContainEqual({ type: 'insert', text: 'yawned' })
+
+      const prompt = mockCallAgentStructured.mock.calls[0][0].messages[0].content
+      expect(prompt).toContain('PASSAGE TO REWRITE:\nThe wolf snarled and bared its teeth.')
+      expect(prompt).toContain('Audience: child')
+      expect(mockPrisma.agentSession.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ storyId: 'story-123', agentType: 'wisdom_weaver', tokensUsed: 90 })
+      })
+    })
+  })
+
+  describe('applyRevision', () => {
+    const proposal = { chapterNumber: 2, selection, original: passage, revised: 'The wolf yawned.' }
+
+    it('should replace the passage, finding it again if earlier text moved', () => {
+      expect(applyRevision(content, proposal)).toBe('Mira crept into the cave.\n\nThe wolf yawned.\n\nShe held her lantern high.')
+      expect(applyRevision(`Once upon a time. ${content}`, proposal)).toContain('\n\nThe wolf yawned.\n\n')
+    })
+
+    it('should refuse when the passage was edited away', () => {
+      expect(() => applyRevision(content.replace('snarled', 'growled'), proposal)).toThrow(StaleRevisionError)
+    })
+  })
+})
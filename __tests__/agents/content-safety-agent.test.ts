@@ -0,0 +1,76 @@
+import { ContentSafetyAgent } from '@/agents/content-safety-agent'
+import { prisma } from '@/lib/prisma'
+
+// Mock external dependencies
+jest.mock('@/lib/openai')
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    story: {
+      findUnique: jest.fn(),
+      update: jest.fn()
+    },
+    safetyReview: {
+      findMany: jest.fn()
+    }
+  }
+}))
+
+const mockPrisma = prisma as unknown as {
+  story: Record<'findUnique' | 'update', jest.Mock>
+  safetyReview: Record<'findMany', jest.Mock>
+}
+
+describe('ContentSafetyAgent - The Guardian of Young Readers 🛡️', () => {
+  const chapter = { id: 'ch1', number: 1, revision: 2, content: 'Luna found the lantern.' }
+  const review = (passed: boolean) => ({
+    chapterId: 'ch1',
+    revision: 2,
+    audience: 'child',
+    passed,
+    annotations: [],
+    thorough: true
+  })
+
+  let agent: ContentSafetyAgent
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    agent = new ContentSafetyAgent('story-123')
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  describe('unpublishIfUnsafe', () => {
+    it('should unpublish a public story whose current text fails the review', async () => {
+      mockPrisma.story.findUnique
+        .mockResolvedValueOnce({ isPublic: true, targetAge: 'children' })
+        .mockResolvedValueOnce({ targetAge: 'children', chapters: [chapter] })
+      mockPrisma.safetyReview.findMany.mockResolvedValue([review(false)])
+
+      const report = await agent.unpublishIfUnsafe()
+
+      expect(report?.passed).toBe(false)
+      expect(mockPrisma.story.update).toHaveBeenCalledWith({ where: { id: 'story-123' }, data: { isPublic: false } })
+    })
+
+    it('should leave a public story that still passes alone', async () => {
+      mockPrisma.story.findUnique
+        .mockResolvedValueOnce({ isPublic: true, targetAge: 'children' })
+        .mockResolvedValueOnce({ targetAge: 'children', chapters: [chapter] })
+      mockPrisma.safetyReview.findMany.mockResolvedValue([review(true)])
+
+      expect(await agent.unpublishIfUnsafe()).toBeNull()
+      expect(mockPrisma.story.update).not.toHaveBeenCalled()
+    })
+
+    it('should not review a private story', async () => {
+      mockPrisma.story.findUnique.mockResolvedValueOnce({ isPublic: false, targetAge: 'children' })
+
+      expect(await agent.unpublishIfUnsafe()).toBeNull()
+      expect(mockPrisma.safetyReview.findMany).not.toHaveBeenCalled()
+    })
+  })
+})
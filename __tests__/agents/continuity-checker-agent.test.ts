@@ -0,0 +1,98 @@
+import { ContinuityCheckerAgent, findDeadCharacterActions } from '@/agents/continuity-checker-agent'
+import { StoryBible, selectRelevantEntries, formatBibleSection } from '@/agents/story-bible-agent'
+import { callAgentStructured } from '@/lib/openai'
+
+// Mock external dependencies
+jest.mock('@/lib/openai')
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    agentSession: {
+      create: jest.fn()
+    }
+  }
+}))
+
+const mockCallAgentStructured = callAgentStructured as jest.MockedFunction<typeof callAgentStructured>
+
+describe('ContinuityCheckerAgent - The Reader Who Never Forgets 📖', () => {
+  const bible: StoryBible = {
+    characters: [
+      { name: 'Luna', role: 'protagonist', archetype: 'seeker', description: 'a small silver fox with emerald eyes', status: 'alive', firstChapter: 1, lastChapter: 3 },
+      { name: 'Old Oak', role: 'guide', archetype: 'mentor', description: 'an ancient talking tree', status: 'dead', firstChapter: 1, lastChapter: 2 },
+      { name: 'Bramble', role: 'supporting', archetype: 'trickster', description: 'a hedgehog who hums', status: 'alive', firstChapter: 1, lastChapter: 1 }
+    ],
+    settings: [
+      { name: 'Whispering Grove', description: 'a ring of silver birches', mood: 'hushed', symbolism: 'listening', firstChapter: 1, lastChapter: 3 }
+    ],
+    facts: [
+      { kind: 'fact', subject: 'Luna', detail: 'has emerald green eyes', chapterNumber: 1 },
+      { kind: 'object', subject: 'Moon Lantern', detail: 'glows only when someone tells the truth', chapterNumber: 2 },
+      { kind: 'fact', subject: 'Bramble', detail: 'is afraid of water', chapterNumber: 1 }
+    ]
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('findDeadCharacterActions', () => {
+    it('should flag a dead character speaking in the present', () => {
+      const issues = findDeadCharacterActions('Luna ran to the grove. "Be brave," said Old Oak, rustling his leaves.', bible)
+
+      expect(issues).toHaveLength(1)
+      expect(issues[0]).toMatchObject({ kind: 'dead_character', subject: 'Old Oak', severity: 'major' })
+      expect(issues[0].contradiction).toContain('said Old Oak')
+    })
+
+    it('should allow the dead to appear in memories', () => {
+      const issues = findDeadCharacterActions('Luna remembered how Old Oak said the roots hold everything together.', bible)
+
+      expect(issues).toEqual([])
+    })
+  })
+
+  describe('selectRelevantEntries', () => {
+    it('should keep protagonists, recent and mentioned characters with their facts', () => {
+      const relevant = selectRelevantEntries(bible, { number: 4, title: 'The Lantern Dims', plan: 'Luna carries the Moon Lantern' })
+
+      expect(relevant.characters.map(character => character.name)).toEqual(['Luna', 'Old Oak'])
+      expect(relevant.facts.map(fact => fact.subject)).toEqual(['Moon Lantern', 'Luna'])
+      expect(formatBibleSection(relevant)).toContain('Old Oak (guide, dead - may appear only in memories')
+    })
+  })
+
+  describe('checkChapter', () => {
+    it('should merge model findings with the text checks', async () => {
+      mockCallAgentStructured.mockResolvedValue({
+        content: '{}',
+        tokensUsed: 120,
+        agentType: 'continuity_checker',
+        usage: { model: 'stub-model', promptTokens: 100, completionTokens: 20 },
+        attempts: 1,
+        data: {
+          issues: [
+            { subject: 'Luna', established: 'has emerald green eyes', contradiction: 'her blue eyes sparkled', severity: 'major' as const },
+            { subject: 'Old Oak', established: 'died in chapter 2', contradiction: 'Old Oak nodded', severity: 'major' as const }
+          ]
+        }
+      })
+
+      const report = await new ContinuityCheckerAgent('test-story-123')
+        .checkChapter(4, 'Luna blinked, her blue eyes sparkled. Old Oak nodded slowly.', bible)
+
+      expect(report.tokens).toBe(120)
+      expect(report.issues.map(issue => [issue.kind, issue.subject])).toEqual([
+        ['dead_character', 'Old Oak'],
+        ['contradiction', 'Luna']
+      ])
+    })
+
+    it('should spend no tokens when only the text checks are requested', async () => {
+      const report = await new ContinuityCheckerAgent('test-story-123')
+        .checkChapter(4, 'Luna and Bramble crossed the stream.', bible, { thorough: false })
+
+      expect(mockCallAgentStructured).not.toHaveBeenCalled()
+      expect(report).toEqual({ chapterNumber: 4, issues: [], tokens: 0 })
+    })
+  })
+})
@@ -0,0 +1,84 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { DiaMeistroWorker, DiaMeistroWorkerError } from '@/agents/dia-meistro-worker'
+
+// A stand-in for dia-meistro-worker.py that speaks the same JSON-lines protocol
+const FAKE_WORKER = `
+const readline = require('readline')
+const send = message => process.stdout.write(JSON.stringify(message) + '\\n')
+let served = 0
+process.stdout.write('a library banner that is not JSON\\n')
+send({ type: 'ready', device: 'cpu' })
+readline.createInterface({ input: process.stdin }).on('line', line => {
+  const request = JSON.parse(line)
+  if (request.type === 'shutdown') process.exit(0)
+  if (request.type === 'health') return send({ id: request.id, type: 'health', device: 'cpu', uptime: 1, requests: served })
+  for (const segment of request.segments) {
+    if (segment.text === 'crash') { console.error('model exploded'); process.exit(3) }
+    if (segment.text === 'hang') return
+    if (segment.text === 'fail') send({ id: request.id, type: 'segment_error', segmentId: segment.id, error: 'bad text' })
+    else send({ id: request.id, type: 'segment', segmentId: segment.id, path: segment.outputPath })
+  }
+  served++
+  send({ id: request.id, type: 'done' })
+})
+`
+
+describe('DiaMeistroWorker - One model load, every voice 🎙️', () => {
+  let scriptPath: string
+  let worker: DiaMeistroWorker
+
+  const segment = (id: string, text: string) => ({ id, text, speed: 1, outputPath: `/tmp/${id}.wav` })
+
+  beforeAll(async () => {
+    scriptPath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'dia-worker-')), 'fake-worker.js')
+    await fs.writeFile(scriptPath, FAKE_WORKER)
+  })
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    worker = new DiaMeistroWorker({ diaPath: '.', pythonPath: process.execPath, scriptPath, segmentTimeoutMs: 500 })
+  })
+
+  afterEach(async () => {
+    await worker.stop()
+    jest.restoreAllMocks()
+  })
+
+  it('should stream each finished segment and return a batch in request order', async () => {
+    const streamed: string[] = []
+    const results = await worker.synthesize(
+      [segment('a', 'She said "hello" - and meant it'), segment('b', 'fail')],
+      result => streamed.push(result.segmentId)
+    )
+
+    expect(streamed).toEqual(['a', 'b'])
+    expect(results).toEqual([
+      { segmentId: 'a', audioPath: '/tmp/a.wav' },
+      { segmentId: 'b', error: 'bad text' }
+    ])
+    expect(await worker.health()).toEqual({ device: 'cpu', uptimeSeconds: 1, requestsServed: 1 })
+  })
+
+  it('should reject the requests of a worker that dies and start a new one next time', async () => {
+    await expect(worker.synthesize([segment('c', 'crash')])).rejects.toThrow(/model exploded/)
+    expect(worker.running).toBe(false)
+
+    expect(await worker.health()).toMatchObject({ requestsServed: 0 })
+    expect(worker.running).toBe(true)
+  })
+
+  it('should give up on a worker that stops answering', async () => {
+    await expect(worker.synthesize([segment('d', 'hang')])).rejects.toThrow(DiaMeistroWorkerError)
+    await expect(worker.health()).resolves.toMatchObject({ device: 'cpu' })
+  })
+
+  it('should restart gracefully', async () => {
+    await worker.synthesize([segment('e', 'once')])
+    await worker.restart()
+
+    expect(worker.running).toBe(true)
+    expect(await worker.health()).toMatchObject({ requestsServed: 0 })
+  })
+})
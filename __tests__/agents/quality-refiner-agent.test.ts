@@ -0,0 +1,155 @@
+import { QualityRefinerAgent, prioritizeRecommendations } from '@/agents/quality-refiner-agent'
+import { ChapterAnalyzerAgent, ChapterAnalysis, Recommendation } from '@/agents/chapter-analyzer-agent'
+import { ContentParserAgent } from '@/agents/content-parser-agent'
+import { callAgent } from '@/lib/openai'
+
+// Mock external dependencies
+jest.mock('@/lib/openai')
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    agentSession: {
+      create: jest.fn()
+    }
+  }
+}))
+
+const mockCallAgent = callAgent as jest.MockedFunction<typeof callAgent>
+
+function recommendation(priority: Recommendation['priority'], issue: string): Recommendation {
+  return { type: 'structure', priority, issue, suggestion: `Fix ${issue}` }
+}
+
+function analysis(overallScore: number, recommendations: Recommendation[] = []): ChapterAnalysis {
+  return {
+    overallScore,
+    recommendations,
+    learningIntegration: { explicitLessons: [`Lesson at ${overallScore}`] },
+    tokensUsed: 50
+  } as unknown as ChapterAnalysis
+}
+
+describe('QualityRefinerAgent - Every chapter gets a second look 🔁', () => {
+  const chapterContext = {
+    number: 3,
+    title: 'The Lantern Dims',
+    storyThemes: ['courage'],
+    targetAge: 'children',
+    overallStoryArc: 'Finding inner light'
+  }
+  const options = { qualityThreshold: 0.7, maxIterations: 3, shouldStop: () => false }
+
+  let analyzeChapter: jest.Mock
+  let refiner: QualityRefinerAgent
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    analyzeChapter = jest.fn()
+    const analyzer = { analyzeChapter } as unknown as ChapterAnalyzerAgent
+    const parser = {
+      parseChapterContent: jest.fn(async (content: string) => ({ content, wordCount: content.split(' ').length }))
+    } as unknown as ContentParserAgent
+    refiner = new QualityRefinerAgent('story-123', analyzer, parser)
+
+    let rewrites = 0
+    mockCallAgent.mockImplementation(async () => ({
+      content: `Rewrite ${++rewrites}`,
+      tokensUsed: 100,
+      agentType: 'soulscribe',
+      usage: { model: 'stub-model', promptTokens: 80, completionTokens: 20 }
+    }))
+  })
+
+  it('should leave a chapter that already passes alone', async () => {
+    const result = await refiner.refine('First draft', chapterContext, options, analysis(0.82))
+
+    expect(mockCallAgent).not.toHaveBeenCalled()
+    expect(result).toMatchObject({ content: 'First draft', initialScore: 0.82, finalScore: 0.82, stoppedBecause: 'passed', iterations: [] })
+  })
+
+  it('should rewrite with the recommendations until the chapter passes', async () => {
+    analyzeChapter
+      .mockResolvedValueOnce(analysis(0.65, [recommendation('medium', 'pacing')]))
+      .mockResolvedValueOnce(analysis(0.78))
+
+    const result = await refiner.refine('First draft', chapterContext, options, analysis(0.5, [recommendation('high', 'flat dialogue')]))
+
+    expect(mockCallAgent.mock.calls[0][0].messages[0].content).toContain('[high] flat dialogue - Fix flat dialogue')
+    expect(mockCallAgent.mock.calls[1][0].messages[0].content).toContain('Rewrite 1')
+    expect(result.content).toBe('Rewrite 2')
+    expect(result.analysis.learningIntegration.explicitLessons).toEqual(['Lesson at 0.78'])
+    expect(result.iterations.map(({ scoreBefore, scoreAfter, kept }) => ({ scoreBefore, scoreAfter, kept }))).toEqual([
+      { scoreBefore: 0.5, scoreAfter: 0.65, kept: true },
+      { scoreBefore: 0.65, scoreAfter: 0.78, kept: true }
+    ])
+    // Two rewrites and the analysis of each
+    expect(result).toMatchObject({ initialScore: 0.5, finalScore: 0.78, stoppedBecause: 'passed', tokens: 300 })
+  })
+
+  it('should refine a high-scoring chapter that still has critical recommendations', async () => {
+    analyzeChapter.mockResolvedValueOnce(analysis(0.8))
+
+    const result = await refiner.refine('First draft', chapterContext, options, analysis(0.9, [recommendation('critical', 'frightening ending')]))
+
+    expect(mockCallAgent).toHaveBeenCalledTimes(1)
+    expect(result.iterations[0]).toMatchObject({ criticalBefore: 1, criticalAfter: 0, kept: true })
+    expect(result).toMatchObject({ content: 'Rewrite 1', finalScore: 0.8, stoppedBecause: 'passed' })
+  })
+
+  it('should stop at the iteration cap', async () => {
+    analyzeChapter
+      .mockResolvedValueOnce(analysis(0.55))
+      .mockResolvedValueOnce(analysis(0.6))
+
+    const result = await refiner.refine('First draft', chapterContext, { ...options, maxIterations: 2 }, analysis(0.5))
+
+    expect(mockCallAgent).toHaveBeenCalledTimes(2)
+    expect(result).toMatchObject({ content: 'Rewrite 2', initialScore: 0.5, finalScore: 0.6, stoppedBecause: 'max_iterations' })
+  })
+
+  it('should throw away a rewrite that is no better and try again from the kept text', async () => {
+    analyzeChapter
+      .mockResolvedValueOnce(analysis(0.4))
+      .mockResolvedValueOnce(analysis(0.75))
+
+    const result = await refiner.refine('First draft', chapterContext, options, analysis(0.5))
+
+    expect(result.iterations[0]).toMatchObject({ scoreBefore: 0.5, scoreAfter: 0.4, kept: false, content: 'Rewrite 1' })
+    expect(mockCallAgent.mock.calls[1][0].messages[0].content).toContain('First draft')
+    expect(result).toMatchObject({ content: 'Rewrite 2', finalScore: 0.75, stoppedBecause: 'passed' })
+  })
+
+  it('should report no improvement when every rewrite was thrown away', async () => {
+    analyzeChapter.mockResolvedValue(analysis(0.4))
+
+    const result = await refiner.refine('First draft', chapterContext, options, analysis(0.5))
+
+    expect(mockCallAgent).toHaveBeenCalledTimes(3)
+    expect(result).toMatchObject({ content: 'First draft', finalScore: 0.5, stoppedBecause: 'no_improvement' })
+  })
+
+  it('should count the analysis it runs itself', async () => {
+    analyzeChapter.mockResolvedValueOnce(analysis(0.82))
+
+    const result = await refiner.refine('First draft', chapterContext, options)
+
+    expect(result).toMatchObject({ stoppedBecause: 'passed', tokens: 50 })
+  })
+
+  it('should stop before a rewrite when told to save tokens', async () => {
+    const result = await refiner.refine('First draft', chapterContext, { ...options, shouldStop: () => true }, analysis(0.5))
+
+    expect(mockCallAgent).not.toHaveBeenCalled()
+    expect(result.stoppedBecause).toBe('budget')
+  })
+
+  it('should put critical recommendations first', () => {
+    const ordered = prioritizeRecommendations([
+      recommendation('low', 'a'),
+      recommendation('critical', 'b'),
+      recommendation('medium', 'c'),
+      recommendation('high', 'd')
+    ], 3)
+
+    expect(ordered.map(item => item.priority)).toEqual(['critical', 'high', 'medium'])
+  })
+})
@@ -0,0 +1,134 @@
+import { StoryBibleAgent, StoryBible, selectRelevantEntries } from '@/agents/story-bible-agent'
+import { prisma } from '@/lib/prisma'
+
+// Mock external dependencies
+jest.mock('@/lib/openai')
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    character: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn()
+    },
+    setting: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn()
+    },
+    storyFact: {
+      findMany: jest.fn(),
+      createMany: jest.fn(),
+      deleteMany: jest.fn()
+    }
+  }
+}))
+
+const mockPrisma = prisma as unknown as {
+  character: Record<'findMany' | 'upsert' | 'update' | 'delete', jest.Mock>
+  setting: Record<'findMany' | 'upsert' | 'update' | 'delete', jest.Mock>
+  storyFact: Record<'findMany' | 'createMany' | 'deleteMany', jest.Mock>
+}
+
+describe('StoryBibleAgent - The Keeper of What Is True in This World 📜', () => {
+  let agent: StoryBibleAgent
+
+  const oak = { id: 'c2', name: 'Old Oak', role: 'guide', archetype: 'mentor', description: 'an ancient talking tree', status: 'dead', firstChapter: 1, lastChapter: 4 }
+  const appearance = (subject: string, detail: string, chapterNumber: number) => ({ kind: 'appearance', subject, detail, chapterNumber })
+
+  beforeEach(() => {
+    agent = new StoryBibleAgent('story-123')
+    jest.clearAllMocks()
+    mockPrisma.character.findMany.mockResolvedValue([])
+    mockPrisma.setting.findMany.mockResolvedValue([])
+    mockPrisma.storyFact.findMany.mockResolvedValue([])
+  })
+
+  describe('load', () => {
+    it('should read the bible as it stood before a chapter', async () => {
+      mockPrisma.character.findMany.mockResolvedValue([oak])
+      mockPrisma.storyFact.findMany.mockResolvedValue([
+        appearance('Old Oak', 'alive', 1),
+        { kind: 'fact', subject: 'Old Oak', detail: 'speaks only at dawn', chapterNumber: 1 },
+        appearance('Old Oak', 'alive', 2)
+      ])
+
+      const bible = await agent.load({ beforeChapter: 3 })
+
+      expect(mockPrisma.character.findMany.mock.calls[0][0].where).toEqual({
+        storyId: 'story-123',
+        OR: [{ firstChapter: null }, { firstChapter: { lt: 3 } }]
+      })
+      expect(mockPrisma.storyFact.findMany.mock.calls[0][0].where).toEqual({ storyId: 'story-123', chapterNumber: { lt: 3 } })
+      // Old Oak dies in chapter 4 - chapter 3 still knows him alive
+      expect(bible.characters).toEqual([expect.objectContaining({ name: 'Old Oak', status: 'alive', firstChapter: 1, lastChapter: 2 })])
+      expect(bible.facts).toEqual([{ kind: 'fact', subject: 'Old Oak', detail: 'speaks only at dawn', chapterNumber: 1 }])
+    })
+
+    it('should fall back to the stored columns for chapters recorded without appearances', async () => {
+      mockPrisma.character.findMany.mockResolvedValue([oak])
+
+      const bible = await agent.load({ beforeChapter: 3 })
+
+      expect(bible.characters[0]).toMatchObject({ status: 'dead', firstChapter: 1, lastChapter: 2 })
+    })
+  })
+
+  describe('merge', () => {
+    it('should record who appeared in the chapter with their status', async () => {
+      await agent.merge(2, {
+        characters: [{ name: 'Luna', role: 'protagonist', description: 'a silver fox', status: 'departed' }],
+        places: [{ name: 'Whispering Grove', description: 'silver birches' }],
+        objects: [],
+        facts: []
+      })
+
+      expect(mockPrisma.character.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        create: expect.objectContaining({ name: 'Luna', status: 'departed', firstChapter: 2, lastChapter: 2 })
+      }))
+      expect(mockPrisma.storyFact.createMany).toHaveBeenCalledWith({
+        data: [
+          { kind: 'appearance', subject: 'Luna', detail: 'departed', chapterNumber: 2, storyId: 'story-123' },
+          { kind: 'visit', subject: 'Whispering Grove', detail: '', chapterNumber: 2, storyId: 'story-123' }
+        ]
+      })
+    })
+  })
+
+  describe('forgetChapter', () => {
+    it('should drop what the chapter established, including the characters met only there', async () => {
+      mockPrisma.storyFact.findMany.mockResolvedValue([
+        { kind: 'appearance', subject: 'Bramble', chapterNumber: 4 }
+      ])
+      mockPrisma.character.findMany.mockResolvedValue([
+        { id: 'c3', name: 'Bramble', lastChapter: 4 },
+        { id: 'c4', name: 'Thistle', lastChapter: 3 }
+      ])
+
+      await agent.forgetChapter(3)
+
+      expect(mockPrisma.storyFact.deleteMany).toHaveBeenCalledWith({ where: { storyId: 'story-123', chapterNumber: 3 } })
+      expect(mockPrisma.character.update).toHaveBeenCalledWith({ where: { id: 'c3' }, data: { firstChapter: 4 } })
+      expect(mockPrisma.character.delete).toHaveBeenCalledWith({ where: { id: 'c4' } })
+    })
+  })
+
+  describe('selectRelevantEntries', () => {
+    const bible: StoryBible = {
+      characters: [
+        { name: 'Luna', role: 'protagonist', archetype: 'seeker', description: 'a silver fox', status: 'alive', firstChapter: 1, lastChapter: 5 },
+        { name: 'Bramble', role: 'supporting', archetype: 'trickster', description: 'a hedgehog who hums', status: 'alive', firstChapter: 1, lastChapter: 5 },
+        { name: 'Ember', role: 'antagonist', archetype: 'shadow', description: 'a fire sprite', status: 'alive', firstChapter: 4, lastChapter: 5 }
+      ],
+      settings: [],
+      facts: []
+    }
+
+    it('should not introduce characters ahead of their first chapter', () => {
+      const relevant = selectRelevantEntries(bible, { number: 3, title: 'Ember Rises', plan: 'Luna first meets Ember' })
+
+      expect(relevant.characters.map(character => character.name)).toEqual(['Luna'])
+    })
+  })
+})
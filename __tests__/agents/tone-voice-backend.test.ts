@@ -0,0 +1,93 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { ToneVoiceBackend } from '@/agents/tone-voice-backend'
+import { DEFAULT_VOICE_PROFILES } from '@/agents/voice-backend'
+import { VoiceCharacterAssignmentAgent, StoryVoiceMap } from '@/agents/voice-character-agent'
+import { readWavInfo } from '@/lib/wav'
+
+jest.mock('@/lib/openai')
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    agentSession: {
+      create: jest.fn()
+    }
+  }
+}))
+
+describe('ToneVoiceBackend - A stand-in voice that never surprises 🔔', () => {
+  const [narrator, elder] = DEFAULT_VOICE_PROFILES
+  let outputDirectory: string
+  let backend: ToneVoiceBackend
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    outputDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'tone-voice-'))
+    backend = new ToneVoiceBackend()
+  })
+
+  afterEach(async () => {
+    await fs.rm(outputDirectory, { recursive: true, force: true })
+    jest.restoreAllMocks()
+  })
+
+  it('should write the same WAV file for the same text, voice and speed', async () => {
+    const request = { text: 'Luna walked into the woods.', voiceProfile: narrator, speed: 0.9 }
+    const first = await backend.generateAudio({ ...request, outputPath: path.join(outputDirectory, 'a.wav') })
+    const second = await backend.generateAudio({ ...request, outputPath: path.join(outputDirectory, 'b.wav') })
+
+    expect(first).toMatchObject({ success: true, duration: 1944, voiceProfileUsed: 'narrator_main' })
+    expect(second.duration).toBe(first.duration)
+    expect(await fs.readFile(path.join(outputDirectory, 'a.wav'))).toEqual(await fs.readFile(path.join(outputDirectory, 'b.wav')))
+  })
+
+  it('should voice a chapter into a timeline and one joined file', async () => {
+    const ready: number[] = []
+    const result = await backend.generateChapterAudio({
+      chapterNumber: 1,
+      chapterTitle: 'The Oak',
+      content: 'Luna walked into the woods.\n[S1] "Hello there," said the oak. (with warmth)\n\nThe end.',
+      characterVoiceMap: new Map([['Speaker1', elder]]),
+      narratorVoice: narrator,
+      outputDirectory,
+      onSegmentReady: segment => ready.push(segment.segmentIndex)
+    })
+
+    expect(result.success).toBe(true)
+    expect(ready).toEqual([0, 1, 2])
+    expect(result.audioSegments.map(segment => [segment.speaker, segment.startTime, segment.duration])).toEqual([
+      ['narrator', 0, 1944],
+      ['Speaker1', 1944, 1750],
+      ['narrator', 3694, 778]
+    ])
+    expect(readWavInfo(await fs.readFile(result.fullChapterAudioPath!))).toMatchObject({ sampleRate: 22050, durationMs: 4472 })
+    // Read-along timings come from the backend and point back into the chapter text
+    expect(result.words?.map(word => [word.word, word.start, word.charStart])).toEqual([
+      ['Luna', 0, 0], ['walked', 389, 5], ['into', 778, 12], ['the', 1166, 17], ['woods.', 1555, 21],
+      ['"Hello', 1944, 33], ['there,"', 2294, 40], ['said', 2644, 48], ['the', 2994, 53], ['oak.', 3344, 57],
+      ['The', 3694, 77], ['end.', 4083, 81]
+    ])
+  })
+
+  it('should give character voice previews without any speech engine installed', async () => {
+    const agent = new VoiceCharacterAssignmentAgent('test-story', new ToneVoiceBackend({ mode: 'silence' }))
+    const voiceMap = {
+      storyId: 'test-story',
+      narratorVoice: narrator,
+      characterAssignments: new Map([['Oak', {
+        characterName: 'Oak',
+        assignedVoiceProfile: elder,
+        confidence: 0.9,
+        reasoning: 'Ancient and kind',
+        alternativeVoices: [],
+        emotionalModifiers: {}
+      }]])
+    } as unknown as StoryVoiceMap
+
+    const previews = await agent.generateCharacterVoicePreviews(voiceMap, { Oak: 'Welcome, dear child.', Nobody: 'Unused' })
+
+    expect(Object.keys(previews)).toEqual(['Oak'])
+    expect(readWavInfo(await fs.readFile(previews.Oak))).toMatchObject({ durationMs: 1050 })
+    await fs.unlink(previews.Oak)
+  })
+})
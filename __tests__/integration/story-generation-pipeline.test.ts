@@ -1,595 +1,466 @@
-import { StoryGenerationPipeline } from '@/agents/story-generation-pipeline'
-import { EncouragementAgent } from '@/agents/encouragement-agent'
-import { ContentParserAgent } from '@/agents/content-parser-agent'
-import { VoiceCharacterAssignmentAgent } from '@/agents/voice-character-assignment-agent'
-import { ParallelProcessor } from '@/agents/parallel-processor'
-import { callAgent } from '@/lib/openai'
+import path from 'path'
+import { StoryGenerationPipeline, StoryGenerationRequest, GenerationProgress } from '@/agents/story-generation-pipeline'
+import { ParallelChapterProcessor, ChapterJob } from '@/agents/parallel-processor'
+import { configureFixtures, resetFixtureConfig } from '@/lib/llm-fixtures'
+import { registerProvider, resetProviders } from '@/lib/llm-providers'
+import { AgentType, configureAgentModels, resetAgentModels } from '@/lib/openai'
 import { prisma } from '@/lib/prisma'
 
-// Mock external dependencies
-jest.mock('@/lib/openai')
+/**
+ * The pipeline end to end, answered by the transcripts in __fixtures__/llm.
+ * Only the database is mocked - every agent call goes through callAgent and is
+ * replayed from disk by the hash of its request.
+ *
+ * The transcripts are hand-written, not recorded from a model: the scripted
+ * transcript below answers each agent prompt, and recording saves those answers.
+ * When a prompt changes the replay fails on the missing request - record again:
+ *
+ *   rm -r __tests__/integration/__fixtures__/llm
+ *   SOULSCRIBE_LLM_MODE=record npx jest __tests__/integration
+ */
+
+const FIXTURE_DIR = path.join(__dirname, '__fixtures__', 'llm')
+
 jest.mock('@/lib/prisma', () => ({
   prisma: {
     story: {
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      update: jest.fn()
+    },
+    chapter: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn()
+    },
+    chapterVersion: {
       create: jest.fn(),
-      update: jest.fn(),
       findUnique: jest.fn()
     },
+    storyVersion: {
+      findFirst: jest.fn(),
+      create: jest.fn()
+    },
     agentSession: {
+      create: jest.fn()
+    },
+    tokenUsage: {
       create: jest.fn(),
-      findMany: jest.fn()
-    }
+      aggregate: jest.fn()
+    },
+    user: {
+      findUnique: jest.fn()
+    },
+    generationCheckpoint: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      deleteMany: jest.fn()
+    },
+    character: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn()
+    },
+    setting: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn()
+    },
+    storyFact: {
+      findMany: jest.fn(),
+      createMany: jest.fn(),
+      deleteMany: jest.fn()
+    },
+    storyPassage: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+      createMany: jest.fn()
+    },
+    $transaction: jest.fn()
   }
 }))
 
-const mockCallAgent = callAgent as jest.MockedFunction<typeof callAgent>
-const mockPrisma = prisma as jest.Mocked<typeof prisma>
-
-describe('Story Generation Pipeline Integration Tests 🌟', () => {
-  let pipeline: StoryGenerationPipeline
-  const mockUserId = 'user-123'
-
-  const mockQuestionnaire = {
-    genre: 'mystical-fable',
-    targetAge: 'all_ages',
-    chapterCount: 3,
-    estimatedLength: 'medium',
-    primaryTheme: 'self-discovery',
-    lifeLesson: 'Inner wisdom guides us home',
-    spiritualElements: ['nature_connection', 'inner_voice', 'transformation'],
-    metaphorPreferences: ['journey', 'light_and_shadow', 'natural_cycles'],
-    characterTypes: ['seeker', 'wise_guide', 'inner_critic'],
-    settingPreferences: ['enchanted_forest', 'sacred_grove'],
-    toneKeywords: ['mystical', 'warm', 'inspiring'],
-    writingStyle: 'poetic',
-    chatResponses: []
-  }
-
-  beforeEach(() => {
-    pipeline = new StoryGenerationPipeline(mockUserId)
-    jest.clearAllMocks()
-    
-    // Setup default mock responses
-    mockPrisma.story.create.mockResolvedValue({ id: 'story-123' } as any)
-    mockPrisma.story.update.mockResolvedValue({} as any)
-    mockPrisma.agentSession.create.mockResolvedValue({} as any)
-  })
+const mockPrisma = prisma as unknown as Record<string, Record<string, jest.Mock>> & { $transaction: jest.Mock }
 
-  describe('Complete Story Generation Flow', () => {
-    it('should generate a complete story from questionnaire to final output', async () => {
-      // Arrange - Mock the complete flow of agent responses
-      const mockOutline = `OUTLINE: The Journey of Luna's Awakening
+// The hand-written transcript the fixtures are recorded from
+const OUTLINE = `Title: The Lantern in the Oak
 
-Story Premise: Luna, a young seeker feeling disconnected from her true self, embarks on a mystical journey through an enchanted forest where she encounters wise guides who help her rediscover her inner wisdom.
+Story Premise: Luna, a young seeker who feels restless in her quiet village, follows a pull into the enchanted forest. There the Elder Oak helps her discover that the wisdom she has been searching for already lives within her.
 
 Character Arcs:
-- Luna: From self-doubt to self-trust
-- Elder Oak: Wise guide representing ancient wisdom  
-- Shadow Voice: Inner critic that becomes ally
+- Luna: from restless doubt to quiet self-trust
+- Elder Oak: an ancient guide who teaches by listening
 
-Chapter Breakdown:
-Chapter 1: The Call to Adventure - Luna feels the pull to leave her comfort zone
-Chapter 2: Meeting the Wise Guide - Elder Oak shares the first teaching
-Chapter 3: Integration and Return - Luna embodies her wisdom and returns transformed
+Chapter Progression:
+Chapter 1: Luna feels the call of the forest and leaves her window seat behind.
+Chapter 2: The Elder Oak speaks, and Luna learns that the answers were inside her all along.
 
-Spiritual Elements: Connection to nature, listening to inner voice, transforming fear into wisdom
+Symbols: the lantern of inner light, the roots that connect all living things, the path that leads home.
 
-Learning Journey: Discovering that the answers we seek are already within us`
+Spiritual Journey: Listening outward teaches Luna to listen inward, so that inner wisdom can guide her home.`
 
-      const mockTOC = `Table of Contents
+const TOC = `Chapter 1: The Restless Heart
+Chapter 2: The Voice of Ancient Wisdom`
 
-Chapter 1: The Restless Heart
-Chapter 2: The Voice of Ancient Wisdom  
-Chapter 3: The Return to Wholeness`
+const INTRODUCTION = `Welcome, dear reader, to a village at the edge of an enchanted forest, where the wind carries the scent of pine and the trees remember every footstep. Here lives Luna, a curious girl with a restless heart, who is about to discover that the lantern she searches for has been glowing inside her all along. Come, walk the forest path with her.`
 
-      const mockChapter1 = `Luna sat by her window, watching the autumn leaves dance in the wind. Despite having everything she thought she wanted, a restless energy stirred within her heart.
+const CHAPTERS: { [number: number]: string } = {
+  1: `Luna sat by her window, watching the autumn leaves dance in the wind. Her room was warm and her books were many, yet a restless energy stirred within her heart.
 
 [S1] "There must be more to life than this," she whispered to herself. (with longing)
 
-The wind seemed to answer, carrying the scent of pine and earth from the forest beyond the town. Something deep within her knew that the answers she sought lay not in books or advice, but in the wild spaces where ancient wisdom still lived.
+The wind seemed to answer, carrying the scent of pine and earth from the forest beyond the village. Luna pulled on her red cloak, lit her small brass lantern, and stepped onto the path that wound between the first silver birches.
 
-That night, Luna dreamed of golden paths winding through emerald woods, and a voice calling her name with infinite love.
+Every step felt lighter than the last. An owl called from a high branch, and Luna laughed, because for the first time in weeks she felt awake.
 
-What did we learn from this chapter? Sometimes our restlessness is not a problem to solve, but a call to adventure waiting to be answered.`
+What did we learn from this chapter? Sometimes our restlessness is not a problem to solve, but a gentle call to adventure waiting to be answered.`,
+  2: `The morning sun filtered through the canopy as Luna reached the heart of the forest. There stood the Elder Oak, its bark etched with the stories of centuries.
 
-      const mockChapter2 = `The morning sun filtered through the canopy as Luna stepped onto the forest path. Each footstep felt like a prayer, each breath a homecoming.
+[S2] "Welcome, dear child," rumbled a voice that seemed to rise from the roots themselves. (with ancient warmth)
 
-[S2] "Welcome, dear child," rumbled a voice that seemed to come from the very earth itself. (with ancient warmth)
+[S1] "Are you speaking to me?" Luna asked, holding her lantern a little higher. (with awe)
 
-Luna looked up to see a massive oak tree, its bark etched with the stories of centuries. She could feel its presence like a gentle grandfather's embrace.
+[S2] "I speak to all who remember how to listen," the Elder Oak spoke. "You carry the same wisdom that flows through my roots. Trust what you already know." (with patient knowing)
 
-[S1] "Are... are you speaking to me?" Luna asked, wonder filling her voice. (with awe)
+Luna closed her eyes. In the quiet she heard her own heart, steady and sure, and her lantern glowed brighter than it ever had. She walked home smiling, knowing the way.
 
-[S2] "I speak to all who remember how to listen," the Elder Oak replied. "You carry within you the same wisdom that flows through my roots. Trust what you already know." (with patient knowing)
+What did we learn from this chapter? True wisdom is not something we find far away, but something we remember when we take the time to listen.`
+}
 
-As the words settled into her heart, Luna felt something shift. The answers weren't out there—they were within, waiting to be remembered.
+const REFLECTION = `What did we learn from this story? Like Luna, we often look far away for answers, yet the deepest wisdom is already within us. When we slow down and listen - to the wind, to the trees, to our own hearts - we remember what we have always known. Carry your own lantern, and let your inner light guide you home.`
 
-What did we learn from this chapter? True wisdom isn't something we acquire, but something we remember. Nature reflects back our own inner knowing.`
+const chapterIn = (prompt: string) =>
+  Number(Object.keys(CHAPTERS).find(number => prompt.includes(CHAPTERS[Number(number)].slice(0, 40))) ?? 0)
 
-      const mockChapter3 = `Luna walked back toward town, but she was no longer the same person who had left. The forest had awakened something ancient and true within her.
+const json = (value: unknown) => JSON.stringify(value, null, 2)
 
-[S3] "You think you've learned something special," whispered a familiar voice—her own inner doubt. (with skepticism)
-
-[S1] "I have," Luna replied with gentle confidence. "I've learned to trust the voice that has always been guiding me." (with inner strength)
-
-She placed her hand on her heart and felt the same presence she had encountered in the Elder Oak. The wisdom of the forest lived within her, as it had all along.
+function answer(agentType: AgentType, prompt: string): string {
+  if (agentType === 'content_parser') {
+    const raw = prompt.split('Raw SoulScribe Response:\n')[1]?.split('\n\nLOVINGLY REMOVE')[0]
+    if (raw !== undefined) return raw
+  }
 
-As she reached the edge of town, Luna smiled. The restlessness was gone, replaced by a deep peace and knowing. She was home—not in the place, but in herself.
+  if (agentType === 'soulscribe') {
+    if (prompt.includes('Celebrate this amazing achievement')) {
+      return 'What a beautiful piece of work! The imagery is alive and the lesson lands gently. On to the next step of the journey!'
+    }
+    if (prompt.includes('Create a comprehensive story outline')) return OUTLINE
+    if (prompt.includes('Create a Table of Contents')) return TOC
+    if (prompt.includes('Write a captivating introduction')) return INTRODUCTION
+    const generate = prompt.match(/Generate Chapter (\d+)/)
+    if (generate) return CHAPTERS[Number(generate[1])]
+    if (chapterIn(prompt)) return CHAPTERS[chapterIn(prompt)]
+    if (/Transition|encourag|Encourag/.test(prompt)) {
+      return 'You are doing wonderful work, SoulScribe. Carry that warmth into the next step!'
+    }
+  }
 
-What did we learn from this chapter? The journey outward always leads us back to the truth within. We are never separate from the wisdom we seek.`
+  if (agentType === 'quality_guardian' && chapterIn(prompt)) {
+    return CHAPTERS[chapterIn(prompt)]
+  }
 
-      const mockReflection = `This story teaches us that our deepest wisdom doesn't come from external sources, but from reconnecting with the knowing that already lives within us. Like Luna, we often look outside ourselves for answers, but nature and quiet listening can help us remember what we've always known. The restlessness we feel is often our soul calling us to remember who we truly are.`
+  if (agentType === 'learning_synthesis') return REFLECTION
 
-      // Mock agent responses in sequence
-      let callCount = 0
-      mockCallAgent.mockImplementation(async ({ agentType, messages }) => {
-        callCount++
-        
-        switch (callCount) {
-          case 1: // Initial outline generation
-            return { content: mockOutline, tokensUsed: 200 }
-          case 2: // TOC generation
-            return { content: mockTOC, tokensUsed: 80 }
-          case 3: // Chapter 1 generation
-            return { content: mockChapter1, tokensUsed: 150 }
-          case 4: // Chapter 2 generation
-            return { content: mockChapter2, tokensUsed: 160 }
-          case 5: // Chapter 3 generation
-            return { content: mockChapter3, tokensUsed: 140 }
-          case 6: // Final reflection
-            return { content: mockReflection, tokensUsed: 100 }
-          default:
-            // Content parsing and encouragement calls
-            if (agentType === 'content_parser') {
-              const prompt = messages[0].content as string
-              if (prompt.includes('outline')) return { content: mockOutline, tokensUsed: 50 }
-              if (prompt.includes('toc')) return { content: mockTOC, tokensUsed: 30 }
-              if (prompt.includes('Chapter 1')) return { content: mockChapter1, tokensUsed: 40 }
-              if (prompt.includes('Chapter 2')) return { content: mockChapter2, tokensUsed: 45 }
-              if (prompt.includes('Chapter 3')) return { content: mockChapter3, tokensUsed: 42 }
-            }
-            return { content: 'Encouragement or other response', tokensUsed: 25 }
-        }
+  if (agentType === 'toc_processor') {
+    if (prompt.includes('"estimatedReadTime"')) {
+      return json({
+        chapters: [
+          { number: 1, title: 'The Restless Heart', subtitle: 'A call from the forest', description: 'Luna leaves her window seat and follows the wind into the forest.', estimatedReadTime: 4, spiritualThemes: ['nature_connection'], characterFocus: ['Luna'], learningObjectives: ['Restlessness can be a call to grow'], difficulty: 'gentle' },
+          { number: 2, title: 'The Voice of Ancient Wisdom', subtitle: 'Listening inward', description: 'The Elder Oak teaches Luna to trust her inner voice.', estimatedReadTime: 5, spiritualThemes: ['inner_voice'], characterFocus: ['Luna', 'Elder Oak'], learningObjectives: ['Wisdom is remembered, not found'], difficulty: 'moderate' }
+        ]
       })
-
-      // Act
-      const progressUpdates: any[] = []
-      const result = await pipeline.generateCompleteStory(
-        mockQuestionnaire,
-        (progress) => progressUpdates.push(progress)
-      )
-
-      // Assert - Complete story structure
-      expect(result).toBeDefined()
-      expect(result.story).toBeDefined()
-      expect(result.story.outline).toContain('Luna\'s Awakening')
-      expect(result.story.tableOfContents).toBeDefined()
-      expect(result.story.chapters).toHaveLength(3)
-      expect(result.story.learningReflection).toContain('deepest wisdom')
-
-      // Assert - Chapter content quality
-      const chapter1 = result.story.chapters[0]
-      expect(chapter1.title).toBe('The Restless Heart')
-      expect(chapter1.content).toContain('[S1]')
-      expect(chapter1.content).toContain('What did we learn')
-      expect(chapter1.keyLessons).toContain('call to adventure')
-
-      const chapter2 = result.story.chapters[1]
-      expect(chapter2.content).toContain('[S2]')
-      expect(chapter2.content).toContain('Elder Oak')
-      expect(chapter2.content).toContain('ancient warmth')
-
-      // Assert - Progress tracking
-      expect(progressUpdates.length).toBeGreaterThan(5)
-      expect(progressUpdates[0].phase).toBe('outline')
-      expect(progressUpdates.some(p => p.phase === 'chapters')).toBe(true)
-      expect(progressUpdates[progressUpdates.length - 1].phase).toBe('completion')
-
-      // Assert - Voice character integration
-      expect(result.voiceMap).toBeDefined()
-      expect(result.voiceMap.characterAssignments.size).toBeGreaterThan(0)
-
-      // Assert - Encouragement integration
-      expect(result.encouragementLog.length).toBeGreaterThan(0)
-
-      // Assert - Performance metrics
-      expect(result.performance.totalTokensUsed).toBeGreaterThan(500)
-      expect(result.performance.totalGenerationTime).toBeGreaterThan(0)
-      expect(result.performance.averageChapterTime).toBeGreaterThan(0)
-    }, 30000) // Longer timeout for integration test
-
-    it('should handle different questionnaire configurations', async () => {
-      // Test with different parameters
-      const alternativeQuestionnaire = {
-        ...mockQuestionnaire,
-        genre: 'spiritual-adventure',
-        targetAge: 'child',
-        chapterCount: 5,
-        writingStyle: 'conversational',
-        primaryTheme: 'courage_and_kindness'
-      }
-
-      mockCallAgent.mockResolvedValue({ content: 'Mock content', tokensUsed: 50 })
-
-      const result = await pipeline.generateCompleteStory(alternativeQuestionnaire)
-
-      expect(result.story.chapters).toHaveLength(5)
-      expect(result.story.genre).toBe('spiritual-adventure')
-      expect(result.story.targetAge).toBe('child')
-    })
-
-    it('should maintain spiritual coherence throughout the generation process', async () => {
-      // Mock responses that emphasize spiritual elements
-      mockCallAgent.mockImplementation(async ({ agentType }) => {
-        if (agentType === 'soulscribe') {
-          return {
-            content: `Spiritual content with awakening themes, inner wisdom, and transformative journey elements. [S1] "The light within you knows the way," said the guide. What did we learn? Every moment offers a chance for awakening.`,
-            tokensUsed: 80
-          }
-        }
-        return { content: 'Content preservation response', tokensUsed: 20 }
+    }
+    if (prompt.includes('"arcs"')) {
+      return json({ arcs: [{ name: 'Awakening', chapters: [1, 2], centralLesson: 'Inner wisdom guides us home', arcType: 'exploration' }] })
+    }
+    if (prompt.includes('"startingPoint"')) {
+      return json({
+        startingPoint: 'Restless and looking outward for answers',
+        endingPoint: 'Calm and trusting her inner voice',
+        keyTransformations: [{ atChapter: 2, transformation: 'Luna hears her own heart in the silence' }],
+        wisdomMilestones: [{ atChapter: 1, wisdom: 'Restlessness is a call' }, { atChapter: 2, wisdom: 'Wisdom lives within' }]
       })
-
-      const result = await pipeline.generateCompleteStory(mockQuestionnaire)
-
-      // Should maintain spiritual themes throughout
-      const allContent = [
-        result.story.outline,
-        result.story.tableOfContents.rawContent,
-        ...result.story.chapters.map(c => c.content),
-        result.story.learningReflection
-      ].join(' ')
-
-      expect(allContent.toLowerCase()).toMatch(/(wisdom|awakening|transform|spirit|sacred|inner|light|journey)/g)
-      expect(result.story.chapters.every(c => c.content.includes('What did we learn'))).toBe(true)
-    })
-  })
-
-  describe('Agent Coordination and Communication', () => {
-    it('should coordinate agents in proper sequence with encouragement flow', async () => {
-      const agentCallLog: string[] = []
-      
-      mockCallAgent.mockImplementation(async ({ agentType, messages }) => {
-        agentCallLog.push(agentType)
-        return { 
-          content: `Mock ${agentType} response for coordination test`,
-          tokensUsed: 50
-        }
+    }
+    if (prompt.includes('"acts"')) {
+      return json({
+        acts: [{
+          title: 'The Call and the Answer',
+          summary: 'Luna leaves home and finds the Elder Oak',
+          arcType: 'exploration',
+          chapters: [
+            {
+              title: 'The Restless Heart',
+              summary: 'Luna feels the pull of the forest and sets out with her lantern.',
+              lesson: 'Restlessness can be a call to adventure',
+              characters: ['Luna'],
+              beats: [
+                { description: 'Luna watches the leaves from her window', characters: ['Luna'] },
+                { description: 'The wind carries the scent of the forest', characters: ['Luna'] },
+                { description: 'Luna lights her lantern and steps onto the path', characters: ['Luna'] }
+              ]
+            },
+            {
+              title: 'The Voice of Ancient Wisdom',
+              summary: 'The Elder Oak speaks and Luna learns to trust her inner voice.',
+              lesson: 'True wisdom is remembered',
+              characters: ['Luna', 'Elder Oak'],
+              beats: [
+                { description: 'Luna reaches the heart of the forest', characters: ['Luna'] },
+                { description: 'The Elder Oak welcomes her', characters: ['Luna', 'Elder Oak'] },
+                { description: 'Luna listens inward and walks home', characters: ['Luna'] }
+              ]
+            }
+          ]
+        }]
       })
+    }
+  }
 
-      await pipeline.generateCompleteStory(mockQuestionnaire)
-
-      // Should include encouragement throughout the process
-      expect(agentCallLog.filter(type => type === 'soulscribe')).toBeTruthy()
-      expect(agentCallLog.filter(type => type === 'content_parser')).toBeTruthy()
-      
-      // Should follow logical sequence
-      const firstSoulScribeIndex = agentCallLog.indexOf('soulscribe')
-      const firstParserIndex = agentCallLog.indexOf('content_parser')
-      expect(firstSoulScribeIndex).toBeLessThan(firstParserIndex) // Generation before parsing
-    })
-
-    it('should handle agent failures gracefully with retry mechanisms', async () => {
-      let attemptCount = 0
-      mockCallAgent.mockImplementation(async ({ agentType }) => {
-        attemptCount++
-        
-        // Simulate failure on first attempt, success on retry
-        if (attemptCount === 1) {
-          throw new Error('Simulated API failure')
-        }
-        
-        return { content: 'Success after retry', tokensUsed: 50 }
+  if (agentType === 'chapter_analyzer') {
+    const chapter = chapterIn(prompt) || 1
+    if (prompt.includes('"wisdomQuotient"')) {
+      return json({ themes: ['inner wisdom', 'nature'], wisdomQuotient: 0.85, metaphorRichness: 0.8, hasLearningMoment: true, hasReflectionSpace: true, preachiness: 0.15, authenticity: 0.9, universalTruths: ['The answers we seek live within us'] })
+    }
+    if (prompt.includes('"tensionCurve"')) {
+      return json({ connectionToPrevious: 0.85, setupForNext: 0.8, internalConsistency: 0.9, emotionalBeats: ['longing', 'wonder'], tensionCurve: 'rising', voiceConsistency: 0.9, hasOpeningHook: true, hasProperPacing: true, hasClimaxMoment: true, hasResolution: true })
+    }
+    if (prompt.includes('"charactersPresent"')) {
+      return json({
+        charactersPresent: chapter === 2 ? ['Luna', 'Elder Oak'] : ['Luna'],
+        growthMoments: [{ character: 'Luna', growth: chapter === 2 ? 'learns to trust her inner voice' : 'answers the call of the forest' }],
+        relationshipDynamics: chapter === 2 ? [{ characters: ['Luna', 'Elder Oak'], dynamic: 'mentor-student' }] : [],
+        archetypeBalance: chapter === 2 ? { seeker: 0.8, wise_elder: 0.8 } : { seeker: 0.9 },
+        emotionalRange: ['longing', 'wonder', 'peace']
       })
-
-      const result = await pipeline.generateCompleteStory(mockQuestionnaire)
-
-      expect(result).toBeDefined()
-      expect(attemptCount).toBeGreaterThan(1) // Should have retried
-    })
-
-    it('should pass context between agents correctly', async () => {
-      const contextLog: any[] = []
-      
-      mockCallAgent.mockImplementation(async ({ messages }) => {
-        contextLog.push(messages[0].content)
-        return { content: 'Context test response', tokensUsed: 50 }
+    }
+    if (prompt.includes('"explicitLessons"')) {
+      return json({
+        explicitLessons: [chapter === 2 ? 'True wisdom is remembered when we listen' : 'Restlessness can be a call to adventure'],
+        implicitWisdom: ['Nature mirrors our inner life'],
+        actionableInsights: ['Take a quiet moment to listen to your heart'],
+        learningStyle: 'experiential',
+        ageAppropriate: true
       })
+    }
+  }
 
-      await pipeline.generateCompleteStory(mockQuestionnaire)
-
-      // Verify context flows correctly between phases
-      const outlineCall = contextLog.find(msg => typeof msg === 'string' && msg.includes('outline'))
-      const tocCall = contextLog.find(msg => typeof msg === 'string' && msg.includes('Table of Contents'))
-      const chapterCall = contextLog.find(msg => typeof msg === 'string' && msg.includes('chapter'))
-
-      expect(outlineCall).toBeTruthy()
-      expect(tocCall).toBeTruthy()
-      expect(chapterCall).toBeTruthy()
+  if (agentType === 'story_bible') {
+    const chapter = chapterIn(prompt)
+    return json({
+      characters: [
+        { name: 'Luna', role: 'protagonist', archetype: 'seeker', description: 'a curious girl in a red cloak who carries a brass lantern', status: 'alive' },
+        ...(chapter === 2 ? [{ name: 'Elder Oak', role: 'guide', archetype: 'wise_elder', description: 'an ancient talking oak', status: 'alive' }] : [])
+      ],
+      places: [chapter === 2
+        ? { name: 'Heart of the Forest', description: 'a sunlit clearing around the Elder Oak', mood: 'peaceful' }
+        : { name: 'Forest Path', description: 'a path winding between silver birches', mood: 'inviting' }],
+      objects: [{ name: 'Brass Lantern', detail: 'Luna\'s small lantern that glows brighter when she trusts herself' }],
+      facts: [{ subject: 'Luna', fact: 'wears a red cloak' }]
     })
-  })
-
-  describe('Parallel Processing Integration', () => {
-    it('should generate chapters in parallel while maintaining quality', async () => {
-      const chapterStartTimes: number[] = []
-      const chapterEndTimes: number[] = []
-
-      mockCallAgent.mockImplementation(async ({ messages }) => {
-        const isChapterGeneration = messages.some(msg => 
-          typeof msg.content === 'string' && msg.content.includes('Generate Chapter')
-        )
-        
-        if (isChapterGeneration) {
-          chapterStartTimes.push(Date.now())
-          
-          // Simulate some processing time
-          await new Promise(resolve => setTimeout(resolve, 100))
-          
-          chapterEndTimes.push(Date.now())
-          return { 
-            content: `Chapter content with [S1] dialogue and learning reflection: What did we learn? Parallel processing maintains quality.`,
-            tokensUsed: 120
-          }
-        }
-        
-        return { content: 'Non-chapter response', tokensUsed: 30 }
-      })
-
-      const result = await pipeline.generateCompleteStory({
-        ...mockQuestionnaire,
-        chapterCount: 3
-      })
+  }
 
-      // Chapters should be generated with some parallelism
-      expect(result.story.chapters).toHaveLength(3)
-      
-      // Verify parallel processing benefits
-      if (chapterStartTimes.length >= 2) {
-        const sequentialTime = chapterEndTimes[0] - chapterStartTimes[0]
-        const parallelWindow = Math.max(...chapterEndTimes) - Math.min(...chapterStartTimes)
-        
-        // Parallel processing should be more efficient than pure sequential
-        expect(parallelWindow).toBeLessThan(sequentialTime * 3)
+  throw new Error(`The transcript has no answer for ${agentType}: ${prompt.slice(0, 300)}`)
+}
+
+const SCRIPTED_AGENTS: AgentType[] = [
+  'soulscribe', 'quality_guardian', 'learning_synthesis', 'content_parser', 'toc_processor', 'chapter_analyzer', 'story_bible'
+]
+
+// Answers every agent from the transcript above - only used to record the fixtures
+function useScriptedTranscript(): void {
+  for (const agentType of SCRIPTED_AGENTS) {
+    registerProvider(`scripted-${agentType}`, {
+      name: `scripted-${agentType}`,
+      defaultModel: 'scripted-transcript',
+      async complete({ messages }) {
+        const prompt = messages[messages.length - 1].content
+        const content = answer(agentType, prompt)
+        const promptTokens = Math.ceil(prompt.length / 4)
+        const completionTokens = Math.ceil(content.length / 4)
+        return { content, model: 'scripted-transcript', promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
       }
-
-      // Quality should be maintained
-      result.story.chapters.forEach(chapter => {
-        expect(chapter.content).toContain('What did we learn')
-        expect(chapter.keyLessons).toBeDefined()
-      })
     })
+    configureAgentModels({ [agentType]: { provider: `scripted-${agentType}` } })
+  }
+}
 
-    it('should balance load across different chapter difficulties', async () => {
-      const processingTimes = new Map<number, number>()
-
-      mockCallAgent.mockImplementation(async ({ messages }) => {
-        const chapterMatch = messages[0].content?.match(/Chapter (\d+)/)
-        if (chapterMatch) {
-          const chapterNum = parseInt(chapterMatch[1])
-          const startTime = Date.now()
-          
-          // Simulate different complexities
-          const delay = chapterNum === 2 ? 200 : 100 // Chapter 2 is more complex
-          await new Promise(resolve => setTimeout(resolve, delay))
-          
-          processingTimes.set(chapterNum, Date.now() - startTime)
-          
-          return {
-            content: `Chapter ${chapterNum} content with appropriate complexity. What did we learn? Load balancing adapts to content complexity.`,
-            tokensUsed: 100 + (chapterNum * 20) // More tokens for complex chapters
-          }
-        }
-        
-        return { content: 'Standard response', tokensUsed: 50 }
-      })
-
-      const result = await pipeline.generateCompleteStory({
-        ...mockQuestionnaire,
-        chapterCount: 3
-      })
+describe('Story Generation Pipeline Integration Tests 🌟', () => {
+  const storyId = 'story-123'
 
-      expect(result.story.chapters).toHaveLength(3)
-      
-      // Should handle different complexities appropriately
-      const performanceMetrics = result.performance.chapterMetrics
-      expect(performanceMetrics).toBeDefined()
-    })
-  })
+  const questionnaire: StoryGenerationRequest['questionnaire'] = {
+    genre: 'mystical-fable',
+    targetAge: 'all_ages',
+    chapterCount: 2,
+    primaryTheme: 'self-discovery',
+    lifeLesson: 'Inner wisdom guides us home',
+    spiritualElements: ['nature_connection', 'inner_voice'],
+    metaphorPreferences: ['journey', 'light_and_shadow'],
+    characterTypes: ['seeker', 'wise_guide'],
+    settingPreferences: ['enchanted_forest'],
+    toneKeywords: ['mystical', 'warm'],
+    writingStyle: 'poetic',
+    chatResponses: []
+  }
 
-  describe('Voice Integration Flow', () => {
-    it('should integrate voice character assignment throughout story generation', async () => {
-      mockCallAgent.mockImplementation(async ({ agentType, messages }) => {
-        if (agentType === 'soulscribe') {
-          return {
-            content: `[S1] "Hello, seeker," said the wise guide. (with warmth)\n[S2] "Who are you?" asked Luna. (with curiosity)\n[S3] "I am your inner wisdom," replied the voice within. (with love)\n\nWhat did we learn? Every character voice reflects an aspect of our inner journey.`,
-            tokensUsed: 100
-          }
-        }
-        return { content: 'Voice integration response', tokensUsed: 30 }
-      })
+  const request: StoryGenerationRequest = {
+    storyId,
+    questionnaire,
+    userPreferences: { generateAudio: false, realTimeUpdates: true, qualityLevel: 'fast' }
+  }
 
-      const result = await pipeline.generateCompleteStory(mockQuestionnaire)
+  // What the mocked database holds for the story while it is written
+  let story: Record<string, unknown>
+  let chapters: Map<number, Record<string, unknown>>
+  let checkpoints: Map<string, Record<string, unknown>>
 
-      expect(result.voiceMap).toBeDefined()
-      expect(result.voiceMap.characterAssignments.size).toBeGreaterThan(0)
-      
-      // Should assign appropriate voice profiles
-      const assignments = Array.from(result.voiceMap.characterAssignments.values())
-      expect(assignments.some(a => a.assignedVoiceProfile.archetype === 'wise_elder')).toBe(true)
-      expect(assignments.some(a => a.assignedVoiceProfile.archetype === 'seeker')).toBe(true)
-    })
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    // Replays unless asked to record - and records only from the scripted transcript
+    if (process.env.SOULSCRIBE_LLM_MODE === 'record') {
+      useScriptedTranscript()
+      configureFixtures({ mode: 'record', directory: FIXTURE_DIR })
+    } else {
+      configureFixtures({ mode: 'replay', directory: FIXTURE_DIR })
+    }
 
-    it('should maintain voice consistency across chapters', async () => {
-      mockCallAgent.mockImplementation(async () => ({
-        content: `[S1] "Chapter dialogue from guide," said the Elder. (with wisdom)\n[S2] "Response from seeker," replied Luna. (with growth)\n\nWhat did we learn? Consistency builds character depth.`,
-        tokensUsed: 80
-      }))
-
-      const result = await pipeline.generateCompleteStory(mockQuestionnaire)
-
-      // Same characters should have consistent voice assignments
-      const chapter1Voices = result.story.chapters[0].voiceAssignments
-      const chapter2Voices = result.story.chapters[1].voiceAssignments
-
-      if (chapter1Voices && chapter2Voices) {
-        const s1InChapter1 = chapter1Voices.find(v => v.speakerTag === '[S1]')
-        const s1InChapter2 = chapter2Voices.find(v => v.speakerTag === '[S1]')
-        
-        if (s1InChapter1 && s1InChapter2) {
-          expect(s1InChapter1.assignedVoiceProfile.id).toBe(s1InChapter2.assignedVoiceProfile.id)
-        }
-      }
+    story = {
+      id: storyId,
+      userId: 'user-123',
+      title: 'Untitled Story',
+      summary: null,
+      tokenBudget: null,
+      user: null,
+      qualityLevel: 'fast',
+      pipelineStages: null,
+      beatSheet: null,
+      beatSheetApprovedAt: null
+    }
+    chapters = new Map()
+    checkpoints = new Map()
+
+    mockPrisma.$transaction.mockImplementation(async (work: unknown) =>
+      Array.isArray(work) ? Promise.all(work) : (work as (tx: typeof prisma) => Promise<unknown>)(prisma)
+    )
+    mockPrisma.story.findUnique.mockImplementation(async () => story)
+    mockPrisma.story.findUniqueOrThrow.mockImplementation(async () => story)
+    mockPrisma.story.update.mockImplementation(async ({ data }) => Object.assign(story, data))
+
+    mockPrisma.chapter.findUnique.mockImplementation(async ({ where }) =>
+      chapters.get(where.storyId_number?.number) ?? null
+    )
+    mockPrisma.chapter.create.mockImplementation(async ({ data }) => {
+      const chapter = { id: `chapter-${data.number}`, revision: 1, summary: null, ...data }
+      chapters.set(data.number, chapter)
+      return chapter
     })
-  })
-
-  describe('Error Handling and Recovery', () => {
-    it('should recover from partial failures without losing progress', async () => {
-      let callCount = 0
-      mockCallAgent.mockImplementation(async ({ agentType }) => {
-        callCount++
-        
-        // Fail on the 3rd call (middle of process)
-        if (callCount === 3) {
-          throw new Error('Partial failure simulation')
-        }
-        
-        return { content: `Recovery test content ${callCount}`, tokensUsed: 50 }
-      })
-
-      // Should handle the failure and continue
-      const result = await pipeline.generateCompleteStory(mockQuestionnaire)
-      
-      expect(result).toBeDefined()
-      expect(callCount).toBeGreaterThan(3) // Should have retried and continued
+    mockPrisma.chapter.update.mockImplementation(async ({ where, data }) => {
+      const chapter = Array.from(chapters.values()).find(candidate => candidate.id === where.id)!
+      const { revision, ...fields } = data
+      return Object.assign(chapter, fields, revision ? { revision: (chapter.revision as number) + 1 } : {})
     })
+    mockPrisma.chapterVersion.findUnique.mockResolvedValue({ id: 'version' })
 
-    it('should provide meaningful error reporting', async () => {
-      mockCallAgent.mockRejectedValue(new Error('Critical API failure'))
-
-      await expect(pipeline.generateCompleteStory(mockQuestionnaire))
-        .rejects.toThrow('Critical API failure')
+    mockPrisma.generationCheckpoint.findMany.mockImplementation(async () => Array.from(checkpoints.values()))
+    mockPrisma.generationCheckpoint.upsert.mockImplementation(async ({ create }) => {
+      const row = { ...create, updatedAt: new Date('2026-10-19T12:00:00Z') }
+      checkpoints.set(`${create.phase}:${create.chapterNumber}`, row)
+      return row
     })
 
-    it('should validate story completeness before returning', async () => {
-      // Mock incomplete responses
-      mockCallAgent.mockImplementation(async ({ agentType }) => {
-        if (agentType === 'soulscribe') {
-          return { content: 'Incomplete content without learning section', tokensUsed: 30 }
-        }
-        return { content: 'Parser response', tokensUsed: 20 }
-      })
+    mockPrisma.tokenUsage.aggregate.mockResolvedValue({ _sum: { totalTokens: 0 } })
+    mockPrisma.character.findMany.mockResolvedValue([])
+    mockPrisma.setting.findMany.mockResolvedValue([])
+    mockPrisma.storyFact.findMany.mockResolvedValue([])
+    mockPrisma.storyPassage.findFirst.mockResolvedValue(null)
+    mockPrisma.storyPassage.findMany.mockResolvedValue([])
+  })
 
-      const result = await pipeline.generateCompleteStory(mockQuestionnaire)
+  afterEach(() => {
+    resetFixtureConfig()
+    resetAgentModels()
+    resetProviders()
+    jest.restoreAllMocks()
+  })
 
-      // Should have attempted to complete missing elements
-      expect(result.validation.isComplete).toBeDefined()
-      expect(result.validation.missingElements).toBeDefined()
+  describe('Complete Story Generation Flow', () => {
+    it('should write a whole story from the transcripts', async () => {
+      const progress: GenerationProgress[] = []
+      const pipeline = new StoryGenerationPipeline(storyId, update => progress.push(update))
+
+      const result = await pipeline.generateCompleteStory(request)
+
+      expect(result.errors).toEqual([])
+      expect(result.success).toBe(true)
+      expect(result.story.title).toBe('The Lantern in the Oak')
+      expect(result.story.chapters.map(chapter => chapter.title)).toEqual(['The Restless Heart', 'The Voice of Ancient Wisdom'])
+      expect(result.story.chapters[0].content).toContain('Luna sat by her window')
+      expect(result.story.chapters[1].content).toContain('Elder Oak')
+      expect(result.story.introduction).toContain('Welcome')
+      expect(result.story.learningReflection).toContain('wisdom')
+      expect(result.analytics.tokensUsed).toBeGreaterThan(0)
+
+      // Progress runs from the outline through the chapters to the end
+      const phases = progress.map(update => update.phase)
+      expect(phases[0]).toBe('initializing')
+      expect(phases).toContain('chapters')
+      expect(phases[phases.length - 1]).toBe('complete')
+
+      // The finished chapters and the title are saved
+      expect(Array.from(chapters.keys())).toEqual([1, 2])
+      expect(chapters.get(1)).toMatchObject({ title: 'The Restless Heart', status: 'final' })
+      expect(story).toMatchObject({ title: 'The Lantern in the Oak', generationStatus: 'completed' })
     })
-  })
 
-  describe('Performance and Scalability', () => {
-    it('should complete story generation within reasonable time limits', async () => {
-      mockCallAgent.mockImplementation(async () => {
-        // Simulate realistic API response time
-        await new Promise(resolve => setTimeout(resolve, 50))
-        return { content: 'Performance test content with [S1] dialogue. What did we learn? Speed and quality can coexist.', tokensUsed: 60 }
-      })
+    it('should resume a finished run from its checkpoints', async () => {
+      const first = await new StoryGenerationPipeline(storyId).generateCompleteStory(request)
 
-      const startTime = Date.now()
-      const result = await pipeline.generateCompleteStory(mockQuestionnaire)
-      const endTime = Date.now()
+      const rerun = await new StoryGenerationPipeline(storyId).generateCompleteStory(request)
 
-      const totalTime = endTime - startTime
-      expect(totalTime).toBeLessThan(10000) // Should complete within 10 seconds for 3 chapters
-      
-      expect(result.performance.totalGenerationTime).toBeLessThan(totalTime)
-      expect(result.performance.averageChapterTime).toBeGreaterThan(0)
+      expect(rerun.resumedFrom).toBe('reflection')
+      expect(rerun.story.chapters.map(chapter => chapter.content)).toEqual(first.story.chapters.map(chapter => chapter.content))
     })
 
-    it('should scale efficiently with chapter count', async () => {
-      const chapterCounts = [3, 5, 8]
-      const results: any[] = []
-
-      for (const chapterCount of chapterCounts) {
-        mockCallAgent.mockImplementation(async () => {
-          await new Promise(resolve => setTimeout(resolve, 30))
-          return { content: 'Scaling test content. What did we learn? Efficiency scales with parallelism.', tokensUsed: 50 }
-        })
-
-        const startTime = Date.now()
-        const result = await pipeline.generateCompleteStory({
-          ...mockQuestionnaire,
-          chapterCount
-        })
-        const endTime = Date.now()
-
-        results.push({
-          chapterCount,
-          totalTime: endTime - startTime,
-          story: result.story
-        })
-      }
+    it('should stop after the beat sheet when the author reviews the outline', async () => {
+      const pipeline = new StoryGenerationPipeline(storyId)
 
-      // Verify scaling efficiency
-      const timePerChapter = results.map(r => r.totalTime / r.chapterCount)
-      
-      // Time per chapter should not increase linearly (benefit of parallelism)
-      expect(timePerChapter[2]).toBeLessThan(timePerChapter[0] * 2)
-      
-      // All stories should be complete
-      results.forEach(r => {
-        expect(r.story.chapters).toHaveLength(r.chapterCount)
+      const result = await pipeline.generateCompleteStory({
+        ...request,
+        userPreferences: { ...request.userPreferences, reviewOutline: true }
       })
-    })
 
-    it('should manage memory usage efficiently during generation', async () => {
-      mockCallAgent.mockImplementation(async () => ({
-        content: 'Memory efficiency test content. What did we learn? Smart memory management prevents bottlenecks.',
-        tokensUsed: 50
-      }))
-
-      // Generate multiple stories to test memory management
-      const stories = []
-      for (let i = 0; i < 3; i++) {
-        const result = await pipeline.generateCompleteStory(mockQuestionnaire)
-        stories.push(result)
-      }
-
-      // All stories should be complete and memory should be managed
-      expect(stories).toHaveLength(3)
-      stories.forEach(story => {
-        expect(story.story.chapters).toHaveLength(mockQuestionnaire.chapterCount)
-      })
+      expect(result.awaitingOutlineReview).toBe(true)
+      expect(result.story.chapters).toEqual([])
+      expect(story.generationStatus).toBe('outline_review')
+      expect(story.beatSheet).toBeTruthy()
     })
   })
 
-  describe('Data Persistence and Retrieval', () => {
-    it('should save story progress to database at key milestones', async () => {
-      mockCallAgent.mockResolvedValue({ content: 'DB persistence test', tokensUsed: 50 })
-
-      await pipeline.generateCompleteStory(mockQuestionnaire)
+  describe('Parallel Processing Integration', () => {
+    it('should write chapters side by side from the transcripts', async () => {
+      const job = (chapterNumber: number, title: string): ChapterJob => ({
+        chapterNumber,
+        title,
+        storyContext: 'Luna, a young seeker, learns to trust her inner wisdom in an enchanted forest.',
+        questionnaire,
+        dependencies: chapterNumber > 1 ? [chapterNumber - 1] : [],
+        priority: 'normal',
+        estimatedComplexity: 1
+      })
+      const processor = new ParallelChapterProcessor(storyId, { retryAttempts: 1, useAdaptiveEncouragement: false })
 
-      // Should create initial story record
-      expect(mockPrisma.story.create).toHaveBeenCalled()
-      
-      // Should update story progress multiple times
-      expect(mockPrisma.story.update).toHaveBeenCalledTimes(
-        expect.any(Number)
+      const { results, completedChapters, analytics } = await processor.processChaptersInParallel(
+        [job(1, 'The Restless Heart'), job(2, 'The Voice of Ancient Wisdom')],
+        'A mystical fable about self-discovery'
       )
-      
-      // Should log agent sessions
-      expect(mockPrisma.agentSession.create).toHaveBeenCalled()
-    })
-
-    it('should handle database connection issues gracefully', async () => {
-      mockCallAgent.mockResolvedValue({ content: 'DB resilience test', tokensUsed: 50 })
-      mockPrisma.story.create.mockRejectedValue(new Error('Database connection failed'))
 
-      // Should not fail story generation due to DB issues
-      const result = await pipeline.generateCompleteStory(mockQuestionnaire)
-      
-      expect(result.story).toBeDefined()
-      expect(result.story.chapters).toHaveLength(mockQuestionnaire.chapterCount)
+      expect(results.map(result => result.success)).toEqual([true, true])
+      expect(completedChapters.map(chapter => chapter.title)).toEqual(['The Restless Heart', 'The Voice of Ancient Wisdom'])
+      expect(completedChapters[0].content).toContain('Luna')
+      expect(analytics.tokensUsed).toBeGreaterThan(0)
     })
   })
-})
\ No newline at end of file
+})
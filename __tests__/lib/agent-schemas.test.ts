@@ -0,0 +1,97 @@
+import { schema, parseStructuredOutput, StructuredOutputError } from '@/lib/agent-schemas'
+import { callAgentStructured, configureAgentModels, resetAgentModels, learningSynthesisSchema } from '@/lib/openai'
+import { registerProvider, resetProviders, LLMProvider } from '@/lib/llm-providers'
+
+describe('Agent Schemas - Structured output you can trust 🧩', () => {
+  const flowSchema = schema.object({
+    tensionCurve: schema.enum(['rising', 'falling', 'plateau', 'peak'] as const),
+    voiceConsistency: schema.number({ min: 0, max: 1 }),
+    emotionalBeats: schema.array(schema.string()),
+    subtitle: schema.string().optional()
+  })
+
+  describe('parseStructuredOutput', () => {
+    it('should repair code fences, surrounding prose and trailing commas', () => {
+      const reply = 'Here is the analysis:\n```json\n{"tensionCurve": "Rising", "voiceConsistency": "0.85", "emotionalBeats": ["hope",],}\n```'
+
+      const result = parseStructuredOutput(reply, flowSchema)
+
+      expect(result).toEqual({
+        success: true,
+        data: { tensionCurve: 'rising', voiceConsistency: 0.85, emotionalBeats: ['hope'] }
+      })
+    })
+
+    it('should report every field that does not match', () => {
+      const result = parseStructuredOutput('{"tensionCurve": "sideways", "voiceConsistency": 3, "emotionalBeats": "hope"}', flowSchema)
+
+      expect(result.success).toBe(false)
+      expect('issues' in result && result.issues.map(issue => issue.path)).toEqual([
+        '$.tensionCurve',
+        '$.voiceConsistency',
+        '$.emotionalBeats'
+      ])
+    })
+
+    it('should reject replies that are not JSON at all', () => {
+      const result = parseStructuredOutput('I would love to help with that chapter!', flowSchema)
+
+      expect(result).toEqual({ success: false, issues: [{ path: '$', message: 'response is not valid JSON' }] })
+    })
+  })
+
+  describe('callAgentStructured', () => {
+    let stubProvider: LLMProvider & { complete: jest.Mock }
+
+    const reply = (content: string) => ({
+      content,
+      model: 'stub-model',
+      promptTokens: 10,
+      completionTokens: 20,
+      totalTokens: 30
+    })
+
+    const request = {
+      agentType: 'learning_synthesis' as const,
+      messages: [{ role: 'user' as const, content: 'Summarize Luna\'s first chapter' }],
+      schema: learningSynthesisSchema
+    }
+
+    beforeEach(() => {
+      stubProvider = { name: 'stub', defaultModel: 'stub-model', complete: jest.fn() }
+      registerProvider('stub', stubProvider)
+      configureAgentModels({ learning_synthesis: { provider: 'stub' } })
+    })
+
+    afterEach(() => {
+      resetAgentModels()
+      resetProviders()
+    })
+
+    it('should retry with the validation issues and sum tokens across attempts', async () => {
+      // Arrange
+      stubProvider.complete
+        .mockResolvedValueOnce(reply('{"summary": "Luna finds courage"}'))
+        .mockResolvedValueOnce(reply('{"summary": "Luna finds courage", "lessons": ["Fear shrinks when named"]}'))
+
+      // Act
+      const response = await callAgentStructured(request)
+
+      // Assert
+      expect(response.data).toEqual({ summary: 'Luna finds courage', lessons: ['Fear shrinks when named'] })
+      expect(response.attempts).toBe(2)
+      expect(response.tokensUsed).toBe(60)
+
+      const retryMessages = stubProvider.complete.mock.calls[1][0].messages
+      expect(retryMessages).toHaveLength(3)
+      expect(retryMessages[2].content).toContain('$.lessons')
+    })
+
+    it('should throw a typed error instead of returning a placeholder', async () => {
+      stubProvider.complete.mockResolvedValue(reply('Chapter summary processing error'))
+
+      await expect(callAgentStructured({ ...request, maxRetries: 2 })).rejects.toBeInstanceOf(StructuredOutputError)
+      expect(stubProvider.complete).toHaveBeenCalledTimes(3)
+    })
+  })
+})
@@ -0,0 +1,44 @@
+import { BackgroundJobError, runBackgroundJob } from '@/lib/background-jobs'
+
+describe('Background Jobs - Waiting on work the server does in the background ⏳', () => {
+  const job = (status: string, extra: object = {}) => ({ id: 'job-1', status, progress: null, result: null, error: null, ...extra })
+  const answer = (status: number, body: object) => Promise.resolve(new Response(JSON.stringify(body), { status }))
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should queue the job and follow it to its result', async () => {
+    const fetchMock = jest.spyOn(global, 'fetch')
+      .mockImplementationOnce(() => answer(202, { job: job('QUEUED') }))
+      .mockImplementationOnce(() => answer(200, { job: job('RUNNING', { progress: { phase: 'voicing' } }) }))
+      .mockImplementationOnce(() => answer(200, { job: job('SUCCEEDED', { result: { audioUrl: '/api/audio/a1' } }) }))
+    const progress: unknown[] = []
+
+    const result = await runBackgroundJob('/api/generate-audio', { text: 'Hello' }, {
+      pollIntervalMs: 0,
+      onProgress: update => progress.push(update)
+    })
+
+    expect(result).toEqual({ audioUrl: '/api/audio/a1' })
+    expect(progress).toEqual([{ phase: 'voicing' }])
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual(['/api/generate-audio', '/api/jobs/job-1', '/api/jobs/job-1'])
+  })
+
+  it('should fail with the job when it fails', async () => {
+    jest.spyOn(global, 'fetch')
+      .mockImplementationOnce(() => answer(202, { job: job('QUEUED') }))
+      .mockImplementationOnce(() => answer(200, { job: job('FAILED', { error: 'No voice engine available' }) }))
+
+    const run = runBackgroundJob('/api/generate-audio', { text: 'Hello' }, { pollIntervalMs: 0 })
+
+    await expect(run).rejects.toThrow(BackgroundJobError)
+    await expect(run).rejects.toThrow('No voice engine available')
+  })
+
+  it('should report a refused request without waiting', async () => {
+    jest.spyOn(global, 'fetch').mockImplementationOnce(() => answer(404, { error: 'Chapter not found' }))
+
+    await expect(runBackgroundJob('/api/generate-chapter-audio', { storyId: 's1', chapterNumber: 9 })).rejects.toThrow('Chapter not found')
+  })
+})
@@ -0,0 +1,99 @@
+import {
+  BeatSheetInput,
+  InvalidBeatSheetError,
+  beatSheetFromTOC,
+  formatChapterPlan,
+  keepLocked,
+  normalizeBeatSheet,
+  plannedChapters
+} from '@/lib/beat-sheet'
+import { ProcessedTOC } from '@/agents/toc-processor-agent'
+
+describe('Beat Sheet - The story\'s plan, in the author\'s hands 🗺️', () => {
+  const outline = (number: number, title: string, description?: string) => ({
+    number,
+    title,
+    description,
+    estimatedReadTime: 5,
+    spiritualThemes: [],
+    characterFocus: description ? ['Luna'] : [],
+    learningObjectives: description ? [`Lesson of ${title}`] : [],
+    difficulty: 'gentle' as const
+  })
+
+  const toc = {
+    chapters: [outline(2, 'The River', 'Luna crosses the river'), outline(1, 'The Tree', 'Luna hears the oak'), outline(3, 'Home')],
+    thematicArcs: [{ name: 'Leaving', chapters: [1, 2], centralLesson: 'Courage', arcType: 'introduction' }]
+  } as unknown as ProcessedTOC
+
+  describe('beatSheetFromTOC', () => {
+    it('should turn arcs into acts and keep the chapters in reading order', () => {
+      const sheet = beatSheetFromTOC(toc)
+
+      expect(sheet.acts).toHaveLength(1)
+      expect(sheet.acts[0]).toMatchObject({ title: 'Leaving', summary: 'Courage', arcType: 'introduction' })
+      expect(plannedChapters(sheet).map(({ chapter }) => [chapter.number, chapter.title])).toEqual([
+        [1, 'The Tree'], [2, 'The River'], [3, 'Home']
+      ])
+      expect(sheet.acts[0].chapters[0]).toMatchObject({
+        lesson: 'Lesson of The Tree',
+        characters: ['Luna'],
+        beats: [{ description: 'Luna hears the oak', characters: ['Luna'], locked: false }]
+      })
+    })
+  })
+
+  describe('normalizeBeatSheet', () => {
+    it('should number chapters across acts in the order they are sent', () => {
+      const sheet = normalizeBeatSheet({
+        acts: [
+          { title: 'One', chapters: [{ id: 'b', title: 'Second', beats: [] }, { id: 'a', title: 'First', beats: [] }] },
+          { title: 'Two', chapters: [{ title: 'Third', beats: [{ description: ' A beat ', characters: ['Luna', ' Luna '] }] }] }
+        ]
+      } as BeatSheetInput)
+
+      expect(plannedChapters(sheet).map(({ chapter }) => [chapter.id, chapter.number])).toEqual([['b', 1], ['a', 2], ['chapter-1', 3]])
+      expect(sheet.acts[1].chapters[0].beats[0]).toMatchObject({ description: 'A beat', characters: ['Luna'], locked: false })
+    })
+
+    it('should refuse a sheet without chapters', () => {
+      expect(() => normalizeBeatSheet({ acts: [{ title: 'Empty', chapters: [] }] } as unknown as BeatSheetInput))
+        .toThrow(InvalidBeatSheetError)
+    })
+  })
+
+  describe('keepLocked', () => {
+    it('should keep locked chapters in place and locked beats at their index', () => {
+      const previous = beatSheetFromTOC(toc)
+      previous.acts[0].chapters[1].locked = true
+      previous.acts[0].chapters[0].beats.push({ id: 'oak-song', description: 'The oak sings', characters: [], locked: true })
+
+      const merged = keepLocked(previous, {
+        acts: [{ title: 'New', chapters: [
+          { title: 'A', beats: [{ description: 'a1' }, { description: 'a2' }] },
+          { title: 'B', beats: [{ description: 'b1' }] }
+        ] }]
+      } as BeatSheetInput)
+
+      const [first, second] = plannedChapters(merged).map(({ chapter }) => chapter)
+      expect(first.beats.map(beat => beat.description)).toEqual(['a1', 'The oak sings', 'a2'])
+      expect(first.beats[1].id).toBe('oak-song')
+      expect(second).toMatchObject({ id: previous.acts[0].chapters[1].id, title: 'The River', locked: true, number: 2 })
+    })
+  })
+
+  describe('formatChapterPlan', () => {
+    it('should give SoulScribe the act, lesson, characters and beats in order', () => {
+      const plan = formatChapterPlan(plannedChapters(beatSheetFromTOC(toc))[1])
+
+      expect(plan).toBe([
+        'Act 1: Leaving - Courage',
+        'What happens: Luna crosses the river',
+        'Lesson of this chapter: Lesson of The River',
+        'Characters: Luna',
+        'Beats, in this order:',
+        '1. Luna crosses the river (Luna)'
+      ].join('\n'))
+    })
+  })
+})
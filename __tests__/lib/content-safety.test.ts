@@ -0,0 +1,70 @@
+import { checkContentSafety, exceedsCeiling, passageSpans } from '@/lib/content-safety'
+
+describe('Content Safety - Right for the reader it was written for 🛡️', () => {
+  const chapter = [
+    'Luna walked into the forest. She felt a little scared of the dark.',
+    'The wolf attacked the rabbit and blood covered the snow.',
+    'She was terrified, screaming, as the ghost and the monster chased her through the nightmare.'
+  ].join('\n\n')
+
+  describe('passageSpans', () => {
+    it('should give each paragraph its character offsets in the chapter', () => {
+      const spans = passageSpans(`  ${chapter}\n`)
+
+      expect(spans).toHaveLength(3)
+      spans.forEach(span => expect(`  ${chapter}\n`.slice(span.start, span.end)).toBe(span.text))
+    })
+  })
+
+  describe('checkContentSafety', () => {
+    it('should annotate passages above the child ceiling', () => {
+      const check = checkContentSafety(chapter, 'child')
+
+      expect(check.passed).toBe(false)
+      expect(check.annotations.map(({ passage, category, severity }) => ({ passage, category, severity }))).toEqual([
+        { passage: 1, category: 'violence', severity: 'moderate' },
+        { passage: 2, category: 'fear', severity: 'severe' }
+      ])
+      expect(check.annotations[0].terms).toEqual(['blood', 'attacked'])
+      expect(chapter.slice(check.annotations[0].start, check.annotations[0].end)).toBe('The wolf attacked the rabbit and blood covered the snow.')
+    })
+
+    it('should let mild content through for children and everything through for adults', () => {
+      expect(checkContentSafety('Luna felt a little scared of the dark.', 'child')).toMatchObject({ passed: true, annotations: [] })
+      expect(checkContentSafety(chapter, 'adult')).toMatchObject({ audience: 'adult', passed: true, annotations: [] })
+    })
+
+    it('should read many mild words in one passage as more intense', () => {
+      const check = checkContentSafety('The spooky ghost was scary and the creepy monster made her afraid.', 'child')
+
+      expect(check.annotations[0]).toMatchObject({ category: 'fear', severity: 'moderate', blocking: true })
+    })
+
+    it('should flag mature themes for any child at all', () => {
+      expect(checkContentSafety('Her uncle came home drunk again.', 'child').passed).toBe(false)
+      expect(checkContentSafety('Her uncle came home drunk again.', 'teen').passed).toBe(true)
+    })
+
+    it('should advise on hard vocabulary without failing the chapter', () => {
+      const dense = 'The philosophical implications of epistemological uncertainty permeate contemporary metaphysical discourse, ' +
+        'necessitating comprehensive reconsideration of fundamental ontological presuppositions regarding consciousness, ' +
+        'perception and the irreducible subjectivity of experience.'
+      const check = checkContentSafety(dense, 'child')
+
+      expect(check.passed).toBe(true)
+      expect(check.annotations).toHaveLength(1)
+      expect(check.annotations[0]).toMatchObject({ category: 'vocabulary', severity: 'moderate', blocking: false })
+      expect(check.annotations[0].terms).toContain('philosophical')
+    })
+  })
+
+  describe('exceedsCeiling', () => {
+    it('should compare severity with the audience ceiling', () => {
+      expect(exceedsCeiling('child', 'violence', 'mild')).toBe(false)
+      expect(exceedsCeiling('child', 'mature', 'mild')).toBe(true)
+      expect(exceedsCeiling('teen', 'violence', 'severe')).toBe(true)
+      expect(exceedsCeiling('adult', 'mature', 'severe')).toBe(false)
+      expect(exceedsCeiling('child', 'vocabulary', 'severe')).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,51 @@
+import { diffGenerationProgress, withCurrentChapterOnly, GenerationProgress } from '@/lib/generation-progress'
+
+describe('Generation Progress - The heartbeat of a story being born 💓', () => {
+  const progress = (
+    chapterProgress: GenerationProgress['chapterProgress'],
+    chapterPreviews: GenerationProgress['chapterPreviews']
+  ): GenerationProgress => ({
+    phase: 'chapters',
+    currentStep: 'Weaving chapters',
+    completedSteps: [],
+    estimatedTimeRemaining: 5,
+    chapterProgress,
+    errors: [],
+    chapterPreviews
+  })
+
+  const chapter = (number: number, content: string) => ({ number, title: `Chapter ${number}`, content })
+
+  it('should keep only the chapter being written', () => {
+    const stored = withCurrentChapterOnly(progress(
+      { 1: 'complete', 2: 'generating', 3: 'pending' },
+      { 1: chapter(1, 'Luna sat by her window.'), 2: chapter(2, 'The morning sun') }
+    ))
+
+    expect(stored.chapterPreviews).toEqual({ 2: chapter(2, 'The morning sun') })
+    expect(stored.chapterProgress).toEqual({ 1: 'complete', 2: 'generating', 3: 'pending' })
+  })
+
+  it('should keep the last finished chapter between chapters', () => {
+    const stored = withCurrentChapterOnly(progress(
+      { 1: 'complete', 2: 'complete', 3: 'generating' },
+      { 1: chapter(1, 'Luna sat by her window.'), 2: chapter(2, 'The Elder Oak spoke.') }
+    ))
+
+    expect(stored.chapterPreviews).toEqual({ 2: chapter(2, 'The Elder Oak spoke.') })
+  })
+
+  it('should not send anything for chapters that left the stored progress', () => {
+    const before = withCurrentChapterOnly(progress(
+      { 1: 'generating' },
+      { 1: chapter(1, 'Luna sat by her window.') }
+    ))
+    const after = withCurrentChapterOnly(progress(
+      { 1: 'complete', 2: 'generating' },
+      { 1: chapter(1, 'Luna sat by her window.'), 2: chapter(2, 'The morning') }
+    ))
+
+    const chapterEvents = diffGenerationProgress(before, after).filter(({ event }) => event === 'chapter')
+    expect(chapterEvents.map(({ data }) => (data as { number: number }).number)).toEqual([2])
+  })
+})
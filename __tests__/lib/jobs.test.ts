@@ -0,0 +1,135 @@
+import {
+  claimNextJob,
+  failJob,
+  heartbeatJob,
+  recoverStaleJobs,
+  isJobStatus,
+  JobCancelledError
+} from '@/lib/jobs'
+import { BudgetExceededError } from '@/lib/token-budget'
+import { prisma } from '@/lib/prisma'
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    $queryRaw: jest.fn(),
+    generationJob: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      fields: { maxAttempts: 'maxAttempts-field' }
+    }
+  }
+}))
+
+const mockPrisma = prisma as unknown as {
+  $queryRaw: jest.Mock
+  generationJob: { findUnique: jest.Mock; update: jest.Mock; updateMany: jest.Mock }
+}
+
+describe('Generation Jobs - Work that outlives the request 🛠️', () => {
+  const job = (attempts: number, maxAttempts = 3) => ({
+    id: 'job-1',
+    type: 'STORY_GENERATION',
+    status: 'RUNNING',
+    attempts,
+    maxAttempts
+  }) as any
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.useFakeTimers({ now: new Date('2026-10-19T12:00:00Z') })
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  describe('claiming', () => {
+    it('should claim the oldest runnable job that still has attempts left', async () => {
+      mockPrisma.$queryRaw.mockResolvedValue([{ id: 'job-1' }])
+      mockPrisma.generationJob.findUnique.mockResolvedValue(job(1))
+
+      const claimed = await claimNextJob('worker-a')
+
+      const [sql, ...values] = mockPrisma.$queryRaw.mock.calls[0]
+      expect(sql.join('?')).toContain('"attempts" < "maxAttempts"')
+      expect(sql.join('?')).toContain('FOR UPDATE SKIP LOCKED')
+      expect(values).toContain('worker-a')
+      expect(claimed).toEqual(job(1))
+    })
+
+    it('should find nothing when no job is runnable', async () => {
+      mockPrisma.$queryRaw.mockResolvedValue([])
+
+      expect(await claimNextJob('worker-a')).toBeNull()
+      expect(mockPrisma.generationJob.findUnique).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('failures and retries', () => {
+    it('should requeue a failed job with exponential backoff', async () => {
+      await failJob(job(1), new Error('Provider timed out'))
+      await failJob(job(2), new Error('Provider timed out'))
+
+      const [first, second] = mockPrisma.generationJob.update.mock.calls.map(([call]) => call.data)
+      expect(first).toMatchObject({ status: 'QUEUED', error: 'Provider timed out', lockedAt: null, lockedBy: null })
+      expect(first.runAfter).toEqual(new Date('2026-10-19T12:00:30Z'))
+      expect(second.runAfter).toEqual(new Date('2026-10-19T12:01:00Z'))
+    })
+
+    it('should fail the job once its attempts run out', async () => {
+      await failJob(job(3), new Error('Provider timed out'))
+
+      const { data } = mockPrisma.generationJob.update.mock.calls[0][0]
+      expect(data).toMatchObject({ status: 'FAILED', error: 'Provider timed out' })
+      expect(data.completedAt).toEqual(new Date('2026-10-19T12:00:00Z'))
+      expect(data.runAfter).toBeUndefined()
+    })
+
+    it('should not retry an exhausted token budget', async () => {
+      await failJob(job(1), new BudgetExceededError('Story token budget exhausted'))
+
+      expect(mockPrisma.generationJob.update.mock.calls[0][0].data.status).toBe('FAILED')
+    })
+
+    it('should mark a cancelled job cancelled rather than failed', async () => {
+      await failJob(job(1), new JobCancelledError('job-1'))
+
+      expect(mockPrisma.generationJob.update.mock.calls[0][0].data.status).toBe('CANCELLED')
+    })
+  })
+
+  describe('stale locks', () => {
+    it('should fail stale jobs on their last attempt and requeue the rest', async () => {
+      mockPrisma.generationJob.updateMany
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 2 })
+
+      const recovered = await recoverStaleJobs(10 * 60 * 1000)
+
+      const [failed, requeued] = mockPrisma.generationJob.updateMany.mock.calls.map(([call]) => call)
+      const stale = { status: 'RUNNING', lockedAt: { lt: new Date('2026-10-19T11:50:00Z') } }
+      expect(failed.where).toEqual({ OR: [stale, { status: 'QUEUED' }], attempts: { gte: 'maxAttempts-field' } })
+      expect(failed.data).toMatchObject({ status: 'FAILED', lockedBy: null })
+      expect(requeued).toEqual({ where: stale, data: { status: 'QUEUED', lockedAt: null, lockedBy: null } })
+      expect(recovered).toEqual({ requeued: 2, failed: 1 })
+    })
+
+    it('should refresh the lock only while the worker still holds it', async () => {
+      mockPrisma.generationJob.updateMany.mockResolvedValue({ count: 1 })
+
+      await heartbeatJob('job-1', 'worker-a')
+
+      expect(mockPrisma.generationJob.updateMany).toHaveBeenCalledWith({
+        where: { id: 'job-1', status: 'RUNNING', lockedBy: 'worker-a' },
+        data: { lockedAt: new Date('2026-10-19T12:00:00Z') }
+      })
+    })
+  })
+
+  it('should recognize only real job statuses', () => {
+    expect(isJobStatus('RUNNING')).toBe(true)
+    expect(isJobStatus('running')).toBe(false)
+    expect(isJobStatus('DONE')).toBe(false)
+  })
+})
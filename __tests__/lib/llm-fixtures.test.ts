@@ -0,0 +1,124 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { callAgent, callAgentStreaming, configureAgentModels, resetAgentModels } from '@/lib/openai'
+import { registerProvider, resetProviders, LLMProvider } from '@/lib/llm-providers'
+import {
+  configureFixtures,
+  resetFixtureConfig,
+  hashFixtureRequest,
+  FixtureMissingError
+} from '@/lib/llm-fixtures'
+
+describe('LLM Fixtures - Deterministic record/replay 📼', () => {
+  let fixtureDir: string
+  let stubProvider: LLMProvider & { complete: jest.Mock }
+
+  const request = {
+    agentType: 'soulscribe' as const,
+    messages: [{ role: 'user' as const, content: 'Write the opening of Luna\'s journey' }],
+    temperature: 0.85,
+    maxTokens: 4000
+  }
+
+  beforeEach(async () => {
+    fixtureDir = await fs.mkdtemp(path.join(os.tmpdir(), 'soulscribe-fixtures-'))
+
+    stubProvider = {
+      name: 'stub',
+      defaultModel: 'stub-model',
+      complete: jest.fn().mockResolvedValue({
+        content: 'Luna sat by her window, watching the autumn leaves dance.',
+        model: 'stub-model',
+        promptTokens: 40,
+        completionTokens: 60,
+        totalTokens: 100
+      })
+    }
+
+    registerProvider('stub', stubProvider)
+    configureAgentModels({ soulscribe: { provider: 'stub' } })
+  })
+
+  afterEach(async () => {
+    resetFixtureConfig()
+    resetAgentModels()
+    resetProviders()
+    await fs.rm(fixtureDir, { recursive: true, force: true })
+  })
+
+  it('should record live responses and replay them without calling the provider', async () => {
+    // Arrange
+    configureFixtures({ mode: 'record', directory: fixtureDir })
+
+    // Act - record
+    const recorded = await callAgent(request)
+
+    // Assert - fixture written under the agent type, keyed by request hash
+    const key = hashFixtureRequest(request)
+    const fixture = JSON.parse(await fs.readFile(path.join(fixtureDir, 'soulscribe', `${key}.json`), 'utf8'))
+    expect(fixture.response).toEqual({
+      content: recorded.content,
+      tokensUsed: 100,
+      promptTokens: 40,
+      completionTokens: 60,
+      model: 'stub-model'
+    })
+    expect(fixture.request.messages).toEqual(request.messages)
+    expect(stubProvider.complete).toHaveBeenCalledTimes(1)
+
+    // Act - replay
+    configureFixtures({ mode: 'replay' })
+    const replayed = await callAgent(request)
+
+    // Assert
+    expect(replayed).toEqual(recorded)
+    expect(stubProvider.complete).toHaveBeenCalledTimes(1)
+  })
+
+  it('should fail loudly in replay mode when a request was never recorded', async () => {
+    configureFixtures({ mode: 'replay', directory: fixtureDir })
+
+    await expect(callAgent(request)).rejects.toBeInstanceOf(FixtureMissingError)
+    expect(stubProvider.complete).not.toHaveBeenCalled()
+  })
+
+  it('should produce different keys when any part of the request changes', () => {
+    const base = hashFixtureRequest(request)
+
+    expect(hashFixtureRequest({ ...request })).toBe(base)
+    expect(hashFixtureRequest({ ...request, temperature: 0.5 })).not.toBe(base)
+    expect(hashFixtureRequest({ ...request, maxTokens: 1000 })).not.toBe(base)
+    expect(hashFixtureRequest({ ...request, agentType: 'wisdom_weaver' })).not.toBe(base)
+  })
+
+  it('should share fixtures between streamed and regular calls', async () => {
+    // Arrange
+    configureFixtures({ mode: 'record', directory: fixtureDir })
+    const deltas: string[] = []
+
+    // Act - record through the streaming variant (stub has no stream, so one delta)
+    const streamed = await callAgentStreaming(request, delta => deltas.push(delta))
+
+    // Assert
+    expect(deltas.join('')).toBe(streamed.content)
+    expect(streamed.tokensUsed).toBe(100)
+
+    // Act - replay through a regular call
+    configureFixtures({ mode: 'replay' })
+    const replayed = await callAgent(request)
+
+    // Assert
+    expect(replayed).toEqual(streamed)
+    expect(stubProvider.complete).toHaveBeenCalledTimes(1)
+  })
+
+  it('should record only missing fixtures in auto mode', async () => {
+    configureFixtures({ mode: 'auto', directory: fixtureDir })
+
+    await callAgent(request)
+    await callAgent(request)
+
+    expect(stubProvider.complete).toHaveBeenCalledTimes(1)
+  })
+})
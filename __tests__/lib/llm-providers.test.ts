@@ -0,0 +1,191 @@
+import {
+  OpenAIProvider,
+  AnthropicProvider,
+  ProviderError,
+  CompletionRequest,
+  CompletionStreamEvent,
+  getProvider,
+  resetProviders
+} from '@/lib/llm-providers'
+import { resolveAgentModel, resetAgentModels } from '@/lib/openai'
+
+// Mock external dependencies
+jest.mock('@/lib/prisma', () => ({ prisma: {} }))
+
+describe('LLM Providers - One doorway to every model 🚪', () => {
+  const originalFetch = global.fetch
+  const originalEnv = { ...process.env }
+  let mockFetch: jest.Mock
+
+  const request: CompletionRequest = {
+    model: 'test-model',
+    system: 'You are SoulScribe.',
+    messages: [{ role: 'user', content: 'Tell me about Luna' }],
+    temperature: 0.7,
+    maxTokens: 500
+  }
+
+  // A streaming response delivered in chunks that cut across event boundaries
+  const streamResponse = (body: string, chunkSize = 7) => {
+    const encoder = new TextEncoder()
+    const chunks = body.match(new RegExp(`[\\s\\S]{1,${chunkSize}}`, 'g')) || []
+    return new Response(new ReadableStream({
+      start(controller) {
+        chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)))
+        controller.close()
+      }
+    }))
+  }
+
+  const sse = (...events: unknown[]) =>
+    events.map(event => `data: ${typeof event === 'string' ? event : JSON.stringify(event)}\n\n`).join('')
+
+  const collect = async (events: AsyncIterable<CompletionStreamEvent>) => {
+    const collected: CompletionStreamEvent[] = []
+    for await (const event of events) collected.push(event)
+    return collected
+  }
+
+  const sentBody = () => JSON.parse(mockFetch.mock.calls[0][1].body)
+
+  beforeEach(() => {
+    mockFetch = jest.fn()
+    global.fetch = mockFetch
+    process.env = { ...originalEnv, OPENAI_API_KEY: 'sk-test', ANTHROPIC_API_KEY: 'ak-test' }
+    delete process.env.SOULSCRIBE_LLM_PROVIDER
+    delete process.env.SOULSCRIBE_LLM_MODEL
+    delete process.env.LOCAL_LLM_MODEL
+    resetProviders()
+    resetAgentModels()
+  })
+
+  afterEach(() => {
+    global.fetch = originalFetch
+    process.env = originalEnv
+  })
+
+  describe('OpenAIProvider', () => {
+    it('should stream deltas and take the token counts from the usage chunk', async () => {
+      mockFetch.mockResolvedValue(streamResponse(sse(
+        { model: 'gpt-4o-2024', choices: [{ delta: { content: 'Luna sat ' } }] },
+        { choices: [{ delta: { content: 'by her window.' } }] },
+        { choices: [], usage: { prompt_tokens: 12, completion_tokens: 5, total_tokens: 17 } },
+        '[DONE]',
+        { choices: [{ delta: { content: 'never read' } }] }
+      )))
+
+      const events = await collect(new OpenAIProvider().stream(request))
+
+      expect(events).toEqual([
+        { type: 'delta', text: 'Luna sat ' },
+        { type: 'delta', text: 'by her window.' },
+        {
+          type: 'done',
+          result: { content: 'Luna sat by her window.', model: 'gpt-4o-2024', promptTokens: 12, completionTokens: 5, totalTokens: 17 }
+        }
+      ])
+      expect(sentBody()).toMatchObject({ stream: true, stream_options: { include_usage: true } })
+      expect(sentBody().messages[0]).toEqual({ role: 'system', content: 'You are SoulScribe.' })
+    })
+
+    it('should estimate the tokens when the server sends no usage', async () => {
+      mockFetch.mockResolvedValue(streamResponse(sse({ choices: [{ delta: { content: 'Luna' } }] }, '[DONE]')))
+
+      const events = await collect(new OpenAIProvider().stream(request))
+
+      expect(events[events.length - 1]).toMatchObject({ type: 'done', result: { completionTokens: 1 } })
+    })
+
+    it('should refuse to call OpenAI without a key', async () => {
+      delete process.env.OPENAI_API_KEY
+
+      await expect(new OpenAIProvider().complete(request)).rejects.toThrow('Missing OPENAI_API_KEY environment variable')
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it('should report API errors with their status', async () => {
+      mockFetch.mockResolvedValue(new Response('', { status: 429, statusText: 'Too Many Requests' }))
+
+      const error = await new OpenAIProvider().complete(request).catch(caught => caught)
+
+      expect(error).toBeInstanceOf(ProviderError)
+      expect(error.status).toBe(429)
+    })
+  })
+
+  describe('AnthropicProvider', () => {
+    it('should move system messages into the system field', async () => {
+      mockFetch.mockResolvedValue(Response.json({
+        model: 'claude-test',
+        content: [{ type: 'text', text: 'Luna listened.' }],
+        usage: { input_tokens: 20, output_tokens: 4 }
+      }))
+
+      const result = await new AnthropicProvider().complete({
+        ...request,
+        messages: [{ role: 'system', content: 'Write gently.' }, ...request.messages]
+      })
+
+      expect(sentBody().system).toBe('You are SoulScribe.\n\nWrite gently.')
+      expect(sentBody().messages).toEqual([{ role: 'user', content: 'Tell me about Luna' }])
+      expect(result).toEqual({ content: 'Luna listened.', model: 'claude-test', promptTokens: 20, completionTokens: 4, totalTokens: 24 })
+    })
+
+    it('should stream text deltas and count tokens from message_start and message_delta', async () => {
+      mockFetch.mockResolvedValue(streamResponse(
+        'event: message_start\n' + sse({ type: 'message_start', message: { model: 'claude-test', usage: { input_tokens: 30 } } }) +
+        sse(
+          { type: 'content_block_delta', delta: { type: 'text_delta', text: 'The Elder Oak ' } },
+          { type: 'content_block_delta', delta: { type: 'text_delta', text: 'spoke.' } },
+          { type: 'message_delta', usage: { output_tokens: 6 } },
+          { type: 'message_stop' }
+        )
+      ))
+
+      const events = await collect(new AnthropicProvider().stream(request))
+
+      expect(events.filter(event => event.type === 'delta')).toHaveLength(2)
+      expect(events[events.length - 1]).toEqual({
+        type: 'done',
+        result: { content: 'The Elder Oak spoke.', model: 'claude-test', promptTokens: 30, completionTokens: 6, totalTokens: 36 }
+      })
+    })
+
+    it('should surface stream errors', async () => {
+      mockFetch.mockResolvedValue(streamResponse(sse({ type: 'error', error: { message: 'Overloaded' } })))
+
+      await expect(collect(new AnthropicProvider().stream(request))).rejects.toThrow('anthropic: Overloaded')
+    })
+
+    it('should refuse to call Anthropic without a key', async () => {
+      delete process.env.ANTHROPIC_API_KEY
+
+      await expect(new AnthropicProvider().complete(request)).rejects.toThrow('Missing ANTHROPIC_API_KEY environment variable')
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Provider selection', () => {
+    it('should read "provider:model" from SOULSCRIBE_MODEL_<AGENT>', () => {
+      process.env.SOULSCRIBE_MODEL_WISDOM_WEAVER = 'anthropic:claude-3-5-sonnet-latest'
+      process.env.SOULSCRIBE_MODEL_STORY_BIBLE = 'local'
+
+      expect(resolveAgentModel('wisdom_weaver')).toEqual({ provider: 'anthropic', model: 'claude-3-5-sonnet-latest' })
+      expect(resolveAgentModel('story_bible')).toEqual({ provider: 'local', model: 'llama3.1' })
+    })
+
+    it('should fall back to SOULSCRIBE_LLM_PROVIDER and SOULSCRIBE_LLM_MODEL', () => {
+      process.env.SOULSCRIBE_LLM_PROVIDER = 'anthropic'
+      process.env.SOULSCRIBE_LLM_MODEL = 'claude-test'
+
+      expect(resolveAgentModel('soulscribe')).toEqual({ provider: 'anthropic', model: 'claude-test' })
+    })
+
+    it('should reject an unknown provider', () => {
+      process.env.SOULSCRIBE_MODEL_SOULSCRIBE = 'mystery:model-x'
+
+      expect(resolveAgentModel('soulscribe')).toEqual({ provider: 'mystery', model: 'model-x' })
+      expect(() => getProvider('mystery')).toThrow('Unknown LLM provider')
+    })
+  })
+})
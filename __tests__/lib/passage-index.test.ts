@@ -0,0 +1,99 @@
+import { PassageIndex, splitIntoPassages, rankByTfIdf, termFrequencies, Embedder } from '@/lib/passage-index'
+import { prisma } from '@/lib/prisma'
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    storyPassage: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+      createMany: jest.fn()
+    },
+    $transaction: jest.fn()
+  }
+}))
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>
+
+describe('Passage Index - The story remembers every page 🔖', () => {
+  const chapterOne = [
+    'Luna found a silver lantern beneath the roots of Old Oak. It glowed only when someone told the truth.',
+    'She tucked it into her satchel and hummed the river song her grandmother taught her.',
+    'The crows laughed at her from the birches.'
+  ].join('\n\n')
+
+  const chapterTwo = [
+    'Bramble the hedgehog refused to cross the stream, trembling at the water.',
+    'Luna promised to return at dawn with a bridge of woven reeds.'
+  ].join('\n\n')
+
+  const indexed = [
+    ...splitIntoPassages(chapterOne, 20).map((content, position) => ({ chapterNumber: 1, position, content })),
+    ...splitIntoPassages(chapterTwo, 20).map((content, position) => ({ chapterNumber: 2, position, content }))
+  ].map(passage => ({ ...passage, terms: termFrequencies(passage.content), embedding: [], embeddingModel: null }))
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('splitIntoPassages', () => {
+    it('should group paragraphs without splitting them and fold a short tail back in', () => {
+      expect(splitIntoPassages(chapterOne, 20)).toEqual([
+        `${chapterOne.split('\n\n')[0]}\n\n${chapterOne.split('\n\n')[1]}`,
+        chapterOne.split('\n\n')[2]
+      ])
+      expect(splitIntoPassages('One short paragraph.\n\nAnd a tiny tail.', 4)).toHaveLength(1)
+    })
+  })
+
+  describe('rankByTfIdf', () => {
+    it('should rank the passage that shares rare terms with the query first', () => {
+      const ranked = rankByTfIdf('The lantern that reveals the truth', indexed).sort((a, b) => b.score - a.score)
+
+      expect(ranked[0]).toMatchObject({ chapterNumber: 1, position: 0 })
+      expect(ranked[0].score).toBeGreaterThan(0)
+      expect(ranked.slice(1).every(passage => passage.score === 0)).toBe(true)
+    })
+  })
+
+  describe('PassageIndex', () => {
+    it('should fall back to TF-IDF when the embedder fails', async () => {
+      const embedder: Embedder = { model: 'nomic-embed-text', embed: jest.fn().mockRejectedValue(new Error('connection refused')) }
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+      mockPrisma.storyPassage.findFirst.mockResolvedValue(null)
+
+      await new PassageIndex('story-123', embedder).indexChapter(2, chapterTwo)
+
+      expect(mockPrisma.storyPassage.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ chapterNumber: 2, position: 0, embedding: [], embeddingModel: null })]
+      })
+      warn.mockRestore()
+    })
+
+    it('should skip chapters whose text has not changed', async () => {
+      const index = new PassageIndex('story-123', null)
+      mockPrisma.storyPassage.findFirst.mockResolvedValue(null)
+      await index.indexChapter(1, chapterOne)
+      const { contentHash } = (mockPrisma.storyPassage.createMany as jest.Mock).mock.calls[0][0].data[0]
+
+      mockPrisma.storyPassage.findFirst.mockResolvedValue({ contentHash, embeddingModel: null } as any)
+      await index.indexChapter(1, chapterOne)
+
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1)
+    })
+
+    it('should recall relevant passages and where the last chapter left off', async () => {
+      mockPrisma.storyPassage.findFirst.mockResolvedValue({ ...indexed[2] } as any)
+      mockPrisma.storyPassage.findMany.mockResolvedValue(indexed as any)
+
+      const context = await new PassageIndex('story-123', null).contextFor({ number: 3, title: 'The Lantern Dims', plan: 'Luna doubts the truth' })
+
+      expect(context).toContain('EARLIER PASSAGES')
+      expect(context).toContain('[Chapter 1]\nLuna found a silver lantern')
+      expect(context).toContain('WHERE CHAPTER 2 LEFT OFF:\nBramble the hedgehog')
+      expect(mockPrisma.storyPassage.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { storyId: 'story-123', chapterNumber: { lt: 3 } }
+      }))
+    })
+  })
+})
@@ -0,0 +1,50 @@
+import { resolveStages, renderStagePrompt, isQualityLevel, InvalidPipelineError, BUILT_IN_STAGES } from '@/lib/pipeline-stages'
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }))
+
+describe('Pipeline Stages - Every pass a chapter takes 🧭', () => {
+  describe('resolveStages', () => {
+    it('should use the quality level default when the story has no list of its own', () => {
+      expect(resolveStages(null).map(stage => stage.id)).toEqual(['metaphor', 'wisdom', 'quality'])
+      expect(resolveStages(null, 'fast').map(stage => stage.id)).toEqual(['quality'])
+      expect(resolveStages(null, 'premium').map(stage => stage.id)).toEqual(['metaphor', 'character', 'wisdom', 'quality'])
+    })
+
+    it('should reorder, drop, re-prompt and add stages', () => {
+      const stages = resolveStages([
+        { id: 'wisdom' },
+        { id: 'metaphor', enabled: false },
+        { id: 'quality', prompt: 'Polish for bedtime reading:\n{{chapter}}', temperature: 0.3 },
+        { id: 'rhyme', agentType: 'soulscribe', prompt: 'Add a short rhyme to the ending:\n{{chapter}}' }
+      ])
+
+      expect(stages.map(stage => stage.id)).toEqual(['wisdom', 'quality', 'rhyme'])
+      expect(stages[1]).toMatchObject({ agentType: 'quality_guardian', temperature: 0.3, maxTokens: 4000, optional: false })
+      expect(stages[2]).toMatchObject({ label: 'rhyme', agentType: 'soulscribe', optional: true })
+    })
+
+    it('should reject lists that cannot run', () => {
+      expect(() => resolveStages([{ id: 'rhyme' }])).toThrow(InvalidPipelineError)
+      expect(() => resolveStages([{ id: 'wisdom' }, { id: 'wisdom' }])).toThrow(InvalidPipelineError)
+      expect(() => resolveStages([{ id: 'quality', prompt: 'Make it better' }])).toThrow('{{chapter}}')
+    })
+  })
+
+  describe('renderStagePrompt', () => {
+    it('should fill in the chapter and story context', () => {
+      const prompt = renderStagePrompt(BUILT_IN_STAGES.metaphor, { chapter: 'Luna costs $5.', context: 'A forest tale' })
+
+      expect(prompt).toContain('Context: A forest tale')
+      expect(prompt).toContain('Chapter: Luna costs $5.')
+    })
+  })
+
+  describe('isQualityLevel', () => {
+    it('should accept the quality levels and nothing inherited', () => {
+      expect(isQualityLevel('premium')).toBe(true)
+      expect(isQualityLevel('toString')).toBe(false)
+      expect(isQualityLevel('constructor')).toBe(false)
+      expect(isQualityLevel(undefined)).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,107 @@
+import {
+  BUILT_IN_TEMPLATES,
+  chapterRoleLabel,
+  fitTemplate,
+  isBuiltInTemplate,
+  templateFromInput,
+  templateInputFromBeatSheet,
+  templateInputFromChapters,
+  templateThematicArcs
+} from '@/lib/story-templates'
+import { beatSheetFromTOC } from '@/lib/beat-sheet'
+import { ProcessedTOC } from '@/agents/toc-processor-agent'
+
+describe('Story Templates - Shapes a story can take 🧩', () => {
+  const fable = BUILT_IN_TEMPLATES.fable
+  const labels = (chapterCount: number) => fitTemplate(fable, chapterCount).map(chapterRoleLabel)
+
+  describe('fitTemplate', () => {
+    it('should give every chapter one role when the counts match', () => {
+      expect(labels(4)).toEqual(['The Character and Their Way', 'The Choice', 'The Consequence', 'The Moral'])
+    })
+
+    it('should let neighbouring roles share a chapter when there are fewer chapters', () => {
+      expect(labels(3)).toEqual(['The Character and Their Way + The Choice', 'The Consequence', 'The Moral'])
+      expect(labels(1)).toHaveLength(1)
+    })
+
+    it('should stretch roles over several chapters when there are more', () => {
+      expect(labels(6)).toEqual([
+        'The Character and Their Way',
+        'The Choice (1/2)',
+        'The Choice (2/2)',
+        'The Consequence',
+        'The Moral (1/2)',
+        'The Moral (2/2)'
+      ])
+    })
+
+    it('should fit every built-in template to its recommended chapter count', () => {
+      for (const template of Object.values(BUILT_IN_TEMPLATES)) {
+        const plan = fitTemplate(template, template.recommendedChapters)
+        expect(plan).toHaveLength(template.recommendedChapters)
+        expect(plan.every(chapter => chapter.roles.length > 0)).toBe(true)
+      }
+    })
+  })
+
+  describe('templateThematicArcs', () => {
+    it('should turn acts into arcs over the chapters they were fitted to', () => {
+      expect(templateThematicArcs(fable, 3)).toEqual([
+        { name: 'The Tale', chapters: [1, 2], centralLesson: 'A character, a choice and what comes of it', arcType: 'exploration' },
+        { name: 'The Moral', chapters: [3], centralLesson: 'The lesson, stated simply', arcType: 'revelation' }
+      ])
+    })
+  })
+
+  describe('templateInputFromBeatSheet', () => {
+    it('should save acts as arcs and chapters as roles with their beats', () => {
+      const sheet = beatSheetFromTOC({
+        chapters: [
+          { number: 1, title: 'The Tree', description: 'Luna hears the oak', characterFocus: ['Luna'], learningObjectives: ['Listen'], spiritualThemes: [], estimatedReadTime: 5, difficulty: 'gentle' },
+          { number: 2, title: 'Home', characterFocus: [], learningObjectives: [], spiritualThemes: [], estimatedReadTime: 5, difficulty: 'gentle' }
+        ],
+        thematicArcs: [{ name: 'Leaving', chapters: [1, 2], centralLesson: 'Courage', arcType: 'introduction' }]
+      } as unknown as ProcessedTOC)
+
+      const template = templateFromInput('luna', templateInputFromBeatSheet(sheet, { name: ' Luna ' }))
+
+      expect(template).toMatchObject({ id: 'luna', name: 'Luna', structure: 'linear', recommendedChapters: 2, builtIn: false })
+      expect(template.acts).toEqual([{
+        title: 'Leaving',
+        arcType: 'introduction',
+        summary: 'Courage',
+        roles: [
+          { role: 'The Tree', purpose: 'Luna hears the oak - Lesson: Listen', beats: ['Luna hears the oak'] },
+          { role: 'Home', purpose: 'Home', beats: [] }
+        ]
+      }])
+    })
+  })
+
+  describe('templateInputFromChapters', () => {
+    it('should save the written chapters as the roles of one act', () => {
+      const template = templateFromInput('luna', templateInputFromChapters([
+        { number: 2, title: 'Home', summary: null, keyLessons: [] },
+        { number: 1, title: 'The Tree', summary: 'Luna hears the oak', keyLessons: ['Listen'] }
+      ], { name: 'Luna' }))
+
+      expect(template.recommendedChapters).toBe(2)
+      expect(template.acts).toEqual([{
+        title: 'The Journey',
+        arcType: 'exploration',
+        summary: '',
+        roles: [
+          { role: 'The Tree', purpose: 'Luna hears the oak - Lesson: Listen', beats: [] },
+          { role: 'Home', purpose: 'Home', beats: [] }
+        ]
+      }])
+    })
+  })
+
+  it('should know the built-in templates and nothing inherited', () => {
+    expect(isBuiltInTemplate('fable')).toBe(true)
+    expect(isBuiltInTemplate('toString')).toBe(false)
+    expect(isBuiltInTemplate('__proto__')).toBe(false)
+  })
+})
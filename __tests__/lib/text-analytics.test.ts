@@ -0,0 +1,85 @@
+import {
+  analyzeText,
+  audienceFor,
+  computeDialogueRatio,
+  computeReadability,
+  countSyllables,
+  findRepeatedPhrases,
+  splitSentences
+} from '@/lib/text-analytics'
+
+describe('Text Analytics - Counting what can be counted 📏', () => {
+  const simple = 'The cat sat on the mat. The dog ran to the sun. We had fun in the park.'
+  const dense = 'Consequently, the extraordinarily magnificent determination of the philosophical community illuminated unprecedented opportunities for contemplative investigation.'
+
+  describe('splitSentences', () => {
+    it('should keep dialogue tags and titles inside their sentence', () => {
+      expect(splitSentences('"Wait!" she said. Dr. Moss smiled.\n\nThen it rained.')).toEqual([
+        '"Wait!" she said.',
+        'Dr. Moss smiled.',
+        'Then it rained.'
+      ])
+    })
+  })
+
+  describe('countSyllables', () => {
+    it('should estimate syllables from vowel groups', () => {
+      expect(['cat', 'fire', 'little', 'whispered', 'running', 'extraordinarily'].map(countSyllables)).toEqual([1, 1, 2, 2, 2, 6])
+    })
+  })
+
+  describe('computeReadability', () => {
+    it('should score plain text as easy and dense text as hard', () => {
+      const easy = computeReadability(simple)
+      const hard = computeReadability(dense)
+
+      expect(easy.fleschReadingEase).toBeGreaterThan(90)
+      expect(easy.fleschKincaidGrade).toBeLessThan(2)
+      expect(easy.difficultWordRatio).toBe(0)
+      expect(hard.fleschReadingEase).toBe(0)
+      expect(hard.fleschKincaidGrade).toBeGreaterThan(20)
+      expect(hard.daleChallScore).toBeGreaterThan(hard.difficultWordRatio * 100 * 0.1579)
+    })
+
+    it('should give the same numbers for the same text', () => {
+      expect(analyzeText(dense, 'teen')).toEqual(analyzeText(dense, 'teen'))
+    })
+  })
+
+  describe('computeDialogueRatio', () => {
+    it('should count quoted words and speaker-tagged lines', () => {
+      expect(computeDialogueRatio('Luna smiled. "Hello there, friend," she said.')).toBe(0.43)
+      expect(computeDialogueRatio('[S1] I am here.\nThe wind blew softly.')).toBe(0.43)
+      expect(computeDialogueRatio('')).toBe(0)
+    })
+  })
+
+  describe('findRepeatedPhrases', () => {
+    it('should report the longest repeated phrase rather than its pieces', () => {
+      const text = 'The old tree whispered back. Then the old tree whispered back again. At last the old tree whispered back once more.'
+
+      expect(findRepeatedPhrases(text)).toEqual([{ phrase: 'the old tree whispered back', count: 3 }])
+    })
+
+    it('should ignore phrases made only of function words', () => {
+      expect(findRepeatedPhrases('It was in the box. It was in the bag. It was in the car.')).toEqual([])
+    })
+  })
+
+  describe('vocabulary', () => {
+    it('should map target ages to audiences', () => {
+      expect(['child', 'Children (5-12)', 'teen', 'adult', 'all_ages', undefined].map(audienceFor)).toEqual([
+        'child', 'child', 'teen', 'adult', 'all_ages', 'all_ages'
+      ])
+    })
+
+    it('should flag text that is too hard for the audience', () => {
+      const forChildren = analyzeText(dense, 'child').vocabulary
+      const forChildrenSimple = analyzeText(simple, 'child').vocabulary
+
+      expect(forChildren.fits).toBe(false)
+      expect(forChildren.issues.join(' ')).toContain('aim for grade 5 or below')
+      expect(forChildrenSimple).toMatchObject({ audience: 'child', fits: true, issues: [] })
+    })
+  })
+})
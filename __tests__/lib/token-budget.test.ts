@@ -0,0 +1,69 @@
+import { TokenBudget, BudgetExceededError, estimateCostUsd, runWithBudget, currentBudget } from '@/lib/token-budget'
+import { prisma } from '@/lib/prisma'
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    tokenUsage: {
+      create: jest.fn(),
+      aggregate: jest.fn()
+    }
+  }
+}))
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>
+
+describe('Token Budgets - A generous cup, never a bottomless one 💰', () => {
+  const usage = {
+    agentType: 'soulscribe',
+    provider: 'openai',
+    model: 'gpt-4o',
+    promptTokens: 400,
+    completionTokens: 600
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('should price prompt and completion tokens separately', () => {
+    expect(estimateCostUsd('openai', 'gpt-4o', 1_000_000, 1_000_000)).toBeCloseTo(12.5)
+    expect(estimateCostUsd('local', 'llama3.1', 1_000_000, 1_000_000)).toBe(0)
+  })
+
+  it('should run low before it runs out, then refuse further calls', async () => {
+    const budget = new TokenBudget({ storyId: 'story-123', userId: 'user-123' }, { storyLimit: 5000 }, { story: 3500 })
+    expect(budget.status()).toBe('ok')
+
+    await budget.record(usage)
+    expect(budget.status()).toBe('low')
+    expect(budget.isNearlySpent()).toBe(true)
+    expect(budget.remaining()).toBe(500)
+
+    await budget.record(usage)
+    expect(budget.status()).toBe('exhausted')
+    expect(() => budget.assertAvailable()).toThrow(BudgetExceededError)
+
+    expect(mockPrisma.tokenUsage.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ storyId: 'story-123', userId: 'user-123', promptTokens: 400, completionTokens: 600 })
+    })
+  })
+
+  it('should check the tightest of the story and monthly user limits', () => {
+    const budget = new TokenBudget({ storyId: 'story-123' }, { storyLimit: 10000, userLimit: 2000 }, { story: 100, user: 2000 })
+
+    expect(budget.remaining()).toBe(0)
+    expect(() => budget.assertAvailable()).toThrow('Monthly user token budget exhausted')
+  })
+
+  it('should expose the budget to every call made inside its scope', async () => {
+    const budget = new TokenBudget({ storyId: 'story-123' })
+
+    const seen = await runWithBudget(budget, async () => {
+      await Promise.resolve()
+      return currentBudget()
+    })
+
+    expect(seen).toBe(budget)
+    expect(currentBudget()).toBeUndefined()
+  })
+})
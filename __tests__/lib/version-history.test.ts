@@ -0,0 +1,116 @@
+import { saveChapterDrafts, saveChapterRevision, rollbackChapter } from '@/lib/version-history'
+import { prisma } from '@/lib/prisma'
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    chapter: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn()
+    },
+    chapterVersion: {
+      findUnique: jest.fn(),
+      create: jest.fn()
+    },
+    $transaction: jest.fn()
+  }
+}))
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>
+
+describe('Version History - Every draft is a page worth keeping 📚', () => {
+  let chapters: any[]
+  let versions: any[]
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    chapters = []
+    versions = []
+
+    // A tiny in-memory database, enough for chapters and their versions
+    mockPrisma.$transaction.mockImplementation(((run: any) => run(mockPrisma)) as any)
+    mockPrisma.chapter.findUnique.mockImplementation((async ({ where }: any) =>
+      chapters.find(chapter => where.id
+        ? chapter.id === where.id
+        : chapter.storyId === where.storyId_number.storyId && chapter.number === where.storyId_number.number) ?? null) as any)
+    mockPrisma.chapter.create.mockImplementation((async ({ data }: any) => {
+      const chapter = { id: `chapter-${chapters.length + 1}`, revision: 1, summary: null, ...data }
+      chapters.push(chapter)
+      return chapter
+    }) as any)
+    mockPrisma.chapter.update.mockImplementation((async ({ where, data }: any) => {
+      const chapter = chapters.find(candidate => candidate.id === where.id)
+      const { revision, ...fields } = data
+      Object.assign(chapter, fields, revision ? { revision: chapter.revision + revision.increment } : {})
+      return { ...chapter }
+    }) as any)
+    mockPrisma.chapterVersion.findUnique.mockImplementation((async ({ where, include }: any) => {
+      const version = versions.find(candidate =>
+        candidate.chapterId === where.chapterId_revision.chapterId && candidate.revision === where.chapterId_revision.revision)
+      if (!version) return null
+      return include?.chapter ? { ...version, chapter: chapters.find(chapter => chapter.id === version.chapterId) } : version
+    }) as any)
+    mockPrisma.chapterVersion.create.mockImplementation((async ({ data }: any) => {
+      versions.push(data)
+      return data
+    }) as any)
+  })
+
+  const drafts = [
+    { content: 'Luna walked into the woods.', agentType: 'soulscribe', stage: 'draft', note: 'First draft' },
+    { content: 'Luna walked into the whispering woods.', agentType: 'metaphor_architect', stage: 'metaphor', note: 'Metaphor pass' },
+    { content: 'Luna walked into the whispering woods, listening.', agentType: 'wisdom_weaver', stage: 'wisdom', note: 'Wisdom pass' }
+  ]
+  const fields = { title: 'The Whispering Woods', content: drafts[2].content, summary: 'Luna listens.' }
+
+  describe('saveChapterDrafts', () => {
+    it('should keep one revision per pass, credited to its agent', async () => {
+      const chapter = await saveChapterDrafts('story-123', 1, fields, drafts)
+
+      expect(chapter.revision).toBe(3)
+      expect(chapter.wordCount).toBe(7)
+      expect(versions.map(version => [version.revision, version.agentType, version.content])).toEqual([
+        [1, 'soulscribe', drafts[0].content],
+        [2, 'metaphor_architect', drafts[1].content],
+        [3, 'wisdom_weaver', drafts[2].content]
+      ])
+      expect(versions[2]).toMatchObject({ source: 'agent', stage: 'wisdom', summary: 'Luna listens.' })
+    })
+
+    it('should not duplicate history when a resumed run saves the same chapter again', async () => {
+      await saveChapterDrafts('story-123', 1, fields, drafts)
+      const chapter = await saveChapterDrafts('story-123', 1, fields, drafts)
+
+      expect(chapter.revision).toBe(3)
+      expect(versions).toHaveLength(3)
+    })
+  })
+
+  describe('saveChapterRevision', () => {
+    it('should record the untracked text first when an old chapter is edited', async () => {
+      chapters.push({ id: 'old-chapter', storyId: 'story-123', number: 2, title: 'Chapter 2', content: 'Old words.', summary: null, revision: 4 })
+
+      const chapter = await saveChapterRevision('story-123', 2, { content: 'New words.' }, { source: 'human', userId: 'user-1' })
+
+      expect(chapter.revision).toBe(5)
+      expect(versions).toEqual([
+        expect.objectContaining({ revision: 4, content: 'Old words.', source: 'original' }),
+        expect.objectContaining({ revision: 5, content: 'New words.', source: 'human', userId: 'user-1' })
+      ])
+    })
+  })
+
+  describe('rollbackChapter', () => {
+    it('should restore an earlier revision as a new one and keep what it replaced', async () => {
+      const saved = await saveChapterDrafts('story-123', 1, fields, drafts)
+
+      const restored = await rollbackChapter(saved.id, 1, 'user-1')
+
+      expect(restored?.revision).toBe(4)
+      expect(restored?.content).toBe(drafts[0].content)
+      expect(versions[3]).toMatchObject({ source: 'rollback', userId: 'user-1', note: 'Rolled back to revision 1' })
+      expect(versions).toHaveLength(4)
+      expect(await rollbackChapter(saved.id, 9)).toBeNull()
+    })
+  })
+})
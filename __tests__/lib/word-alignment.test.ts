@@ -0,0 +1,72 @@
+import { alignChapterWords, estimateWordTimings, findPauses, findWordAt } from '@/lib/word-alignment'
+
+describe('Word Alignment - Which word is being spoken 🗣️', () => {
+  describe('estimateWordTimings', () => {
+    it('should share the speech by word length and leave room after punctuation', () => {
+      expect(estimateWordTimings('Luna walked, slowly. Into the woods.', 3000)).toEqual([
+        { word: 'Luna', start: 0, end: 324 },
+        { word: 'walked,', start: 324, end: 811 },
+        { word: 'slowly.', start: 1054, end: 1541 },
+        { word: 'Into', start: 2027, end: 2351 },
+        { word: 'the', start: 2351, end: 2595 },
+        { word: 'woods.', start: 2595, end: 3000 }
+      ])
+    })
+
+    it('should pin breaths to the silences in the recording', () => {
+      const timings = estimateWordTimings('Luna walked, slowly. Into the woods.', 3000, [
+        { start: 0, end: 200 },
+        { start: 1500, end: 1900 },
+        { start: 2900, end: 3000 }
+      ])
+
+      expect(timings[0].start).toBe(200)
+      expect(timings[2].end).toBe(1500)
+      expect(timings[3].start).toBe(1900)
+      expect(timings[5].end).toBe(2900)
+    })
+  })
+
+  describe('findPauses', () => {
+    it('should find the quiet stretches between sounds', () => {
+      const samples = new Int16Array(22050)
+      for (let i = 0; i < samples.length; i++) {
+        const speaking = (i > 5000 && i < 12000) || i > 16000
+        samples[i] = speaking ? Math.round(Math.sin(i / 5) * 8000) : 0
+      }
+
+      expect(findPauses(samples, 22050)).toEqual([{ start: 0, end: 220 }, { start: 551, end: 722 }])
+    })
+  })
+
+  describe('alignChapterWords', () => {
+    const content = 'Luna walked into the woods.\n[S1] "Hello there," said the oak. (with warmth)\n\nThe end.'
+    const words = alignChapterWords(content, [
+      { text: 'Luna walked into the woods.', startTime: 0, duration: 1000 },
+      { text: '"Hello there," said the oak.', startTime: 1000, duration: 1000, words: [
+        { word: 'Hello', start: 0, end: 300 },
+        { word: 'there', start: 300, end: 600 },
+        { word: 'said', start: 650, end: 800 },
+        { word: 'the', start: 800, end: 900 },
+        { word: 'oak', start: 900, end: 1000 }
+      ] },
+      { text: 'The end.', startTime: 2000, duration: 500 }
+    ])
+
+    it('should place each word on the chapter timeline and in the chapter text', () => {
+      expect(words.map(word => content.slice(word.charStart, word.charEnd))).toEqual([
+        'Luna', 'walked', 'into', 'the', 'woods.', '"Hello', 'there,"', 'said', 'the', 'oak.', 'The', 'end.'
+      ])
+      expect(words[5]).toMatchObject({ word: 'Hello', start: 1000, end: 1300 })
+      expect(words[11]).toMatchObject({ start: 2250, end: 2500 })
+    })
+
+    it('should find the word being spoken at any moment', () => {
+      expect(findWordAt(words, -1)).toBe(-1)
+      expect(findWordAt(words, 0)).toBe(0)
+      expect(findWordAt(words, 1620)).toBe(6) // the pause after "there," stays on it
+      expect(findWordAt(words, 2500)).toBe(11)
+      expect(findWordAt(words, 2501)).toBe(-1)
+    })
+  })
+})
@@ -1,12 +1,31 @@
 #!/bin/sh
 set -e
 
-# Wait for database to be ready
+BASELINE_MIGRATION="20261019000000_baseline"
+
+migrate() {
+  output=$(npx prisma migrate deploy 2>&1) && { echo "$output"; return 0; }
+  echo "$output"
+
+  case "$output" in
+    *P3005*)
+      # Databases created with `prisma db push` have no migration history - mark the
+      # baseline (the pre-migration schema) as applied and run only what came after
+      echo "Existing database without migration history, baselining..."
+      npx prisma migrate resolve --applied "$BASELINE_MIGRATION" && npx prisma migrate deploy
+      ;;
+    *)
+      return 1
+      ;;
+  esac
+}
+
+# Wait for database to be ready, then bring the schema up to date
 echo "Waiting for database to be ready..."
-until npx prisma db push --accept-data-loss; do
+until migrate; do
   echo "Database not ready, waiting 5 seconds..."
   sleep 5
 done
 
 echo "Database is ready. Starting the application..."
-exec "$@"
\ No newline at end of file
+exec "$@"
@@ -14,6 +14,11 @@ CREATE EXTENSION IF NOT EXISTS "pgcrypto";
 -- Add any custom functions or initial data here
 -- For example, you could add sample data for testing:
 
+-- Sample data lives outside the public schema, which Prisma migrations own -
+-- a non-empty public schema would look like an unmigrated `db push` database
+CREATE SCHEMA IF NOT EXISTS seed;
+SET search_path TO seed;
+
 -- Sample wisdom themes for story generation
 CREATE TABLE IF NOT EXISTS wisdom_themes (
     id SERIAL PRIMARY KEY,
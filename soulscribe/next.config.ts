@@ -8,6 +8,11 @@ const nextConfig: NextConfig = {
   eslint: {
     ignoreDuringBuilds: true,
   },
+  experimental: {
+    // Shared agent/LLM modules live in the repository root src/ and are resolved
+    // through the "@/*" path fallback in tsconfig.json
+    externalDir: true,
+  },
 };
 
 export default nextConfig;
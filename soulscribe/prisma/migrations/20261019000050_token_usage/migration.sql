@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "monthlyTokenBudget" INTEGER;
+
+-- AlterTable
+ALTER TABLE "stories" ADD COLUMN "tokenBudget" INTEGER;
+
+-- CreateTable
+CREATE TABLE "token_usage" (
+    "id" TEXT NOT NULL,
+    "agentType" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "promptTokens" INTEGER NOT NULL,
+    "completionTokens" INTEGER NOT NULL,
+    "costUsd" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "storyId" TEXT,
+    "userId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "token_usage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "token_usage_storyId_idx" ON "token_usage"("storyId");
+
+-- CreateIndex
+CREATE INDEX "token_usage_userId_createdAt_idx" ON "token_usage"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "token_usage" ADD CONSTRAINT "token_usage_storyId_fkey" FOREIGN KEY ("storyId") REFERENCES "stories"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "token_usage" ADD CONSTRAINT "token_usage_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,158 @@
+-- Merge the agent models (chapters, characters, settings, agent sessions,
+-- checkpoints, questionnaires) into the app schema. Story text moves out of the
+-- flat stories.content column: every existing story becomes a one-chapter story.
+
+-- AlterTable
+ALTER TABLE "stories" ADD COLUMN "description" TEXT,
+ADD COLUMN "targetAge" TEXT NOT NULL DEFAULT 'all_ages',
+ADD COLUMN "tone" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "chapterCount" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN "themes" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "learningObjectives" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "outline" TEXT,
+ADD COLUMN "generationStatus" TEXT NOT NULL DEFAULT 'planning';
+
+-- CreateTable
+CREATE TABLE "chapters" (
+    "id" TEXT NOT NULL,
+    "number" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'draft',
+    "wordCount" INTEGER NOT NULL DEFAULT 0,
+    "summary" TEXT,
+    "keyLessons" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "illustration" TEXT,
+    "storyId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "chapters_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "characters" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "archetype" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "growthArc" TEXT NOT NULL,
+    "symbolism" TEXT NOT NULL,
+    "storyId" TEXT NOT NULL,
+
+    CONSTRAINT "characters_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "settings" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "symbolism" TEXT NOT NULL,
+    "mood" TEXT NOT NULL,
+    "storyId" TEXT NOT NULL,
+
+    CONSTRAINT "settings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "agent_sessions" (
+    "id" TEXT NOT NULL,
+    "agentType" TEXT NOT NULL,
+    "input" TEXT NOT NULL,
+    "output" TEXT NOT NULL,
+    "tokensUsed" INTEGER NOT NULL DEFAULT 0,
+    "storyId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "agent_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "generation_checkpoints" (
+    "id" TEXT NOT NULL,
+    "phase" TEXT NOT NULL,
+    "chapterNumber" INTEGER NOT NULL DEFAULT 0,
+    "data" JSONB NOT NULL,
+    "storyId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "generation_checkpoints_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "questionnaires" (
+    "id" TEXT NOT NULL,
+    "genre" TEXT NOT NULL,
+    "targetAge" TEXT NOT NULL,
+    "chapterCount" INTEGER NOT NULL,
+    "estimatedLength" TEXT NOT NULL,
+    "primaryTheme" TEXT NOT NULL,
+    "lifeLesson" TEXT NOT NULL,
+    "spiritualElements" TEXT[],
+    "metaphorPreferences" TEXT[],
+    "characterTypes" TEXT[],
+    "settingPreferences" TEXT[],
+    "toneKeywords" TEXT[],
+    "writingStyle" TEXT NOT NULL,
+    "chatResponses" JSONB[],
+    "storyId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "questionnaires_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "chapters_storyId_number_key" ON "chapters"("storyId", "number");
+
+-- CreateIndex
+CREATE INDEX "agent_sessions_storyId_agentType_idx" ON "agent_sessions"("storyId", "agentType");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "generation_checkpoints_storyId_phase_chapterNumber_key" ON "generation_checkpoints"("storyId", "phase", "chapterNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "questionnaires_storyId_key" ON "questionnaires"("storyId");
+
+-- AddForeignKey
+ALTER TABLE "chapters" ADD CONSTRAINT "chapters_storyId_fkey" FOREIGN KEY ("storyId") REFERENCES "stories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "characters" ADD CONSTRAINT "characters_storyId_fkey" FOREIGN KEY ("storyId") REFERENCES "stories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "settings" ADD CONSTRAINT "settings_storyId_fkey" FOREIGN KEY ("storyId") REFERENCES "stories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "agent_sessions" ADD CONSTRAINT "agent_sessions_storyId_fkey" FOREIGN KEY ("storyId") REFERENCES "stories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "generation_checkpoints" ADD CONSTRAINT "generation_checkpoints_storyId_fkey" FOREIGN KEY ("storyId") REFERENCES "stories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "questionnaires" ADD CONSTRAINT "questionnaires_storyId_fkey" FOREIGN KEY ("storyId") REFERENCES "stories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- MigrateData: each flat story becomes chapter 1 of a finished one-chapter story
+INSERT INTO "chapters" ("id", "number", "title", "content", "status", "wordCount", "summary", "storyId", "createdAt", "updatedAt")
+SELECT
+    gen_random_uuid()::TEXT,
+    1,
+    "title",
+    "content",
+    'final',
+    CASE WHEN btrim("content") = '' THEN 0
+         ELSE array_length(regexp_split_to_array(btrim("content"), '\s+'), 1)
+    END,
+    "summary",
+    "id",
+    "createdAt",
+    "updatedAt"
+FROM "stories";
+
+UPDATE "stories" SET "generationStatus" = 'completed';
+
+-- AlterTable
+ALTER TABLE "stories" DROP COLUMN "content";
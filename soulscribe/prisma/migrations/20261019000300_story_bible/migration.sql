@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "characters" ADD COLUMN     "firstChapter" INTEGER,
+ADD COLUMN     "lastChapter" INTEGER,
+ADD COLUMN     "status" TEXT NOT NULL DEFAULT 'alive';
+
+-- AlterTable
+ALTER TABLE "settings" ADD COLUMN     "firstChapter" INTEGER,
+ADD COLUMN     "lastChapter" INTEGER;
+
+-- CreateTable
+CREATE TABLE "story_facts" (
+    "id" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "detail" TEXT NOT NULL,
+    "chapterNumber" INTEGER NOT NULL,
+    "storyId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "story_facts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "characters_storyId_name_key" ON "characters"("storyId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "settings_storyId_name_key" ON "settings"("storyId", "name");
+
+-- CreateIndex
+CREATE INDEX "story_facts_storyId_chapterNumber_idx" ON "story_facts"("storyId", "chapterNumber");
+
+-- AddForeignKey
+ALTER TABLE "story_facts" ADD CONSTRAINT "story_facts_storyId_fkey" FOREIGN KEY ("storyId") REFERENCES "stories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "story_passages" (
+    "id" TEXT NOT NULL,
+    "chapterNumber" INTEGER NOT NULL,
+    "position" INTEGER NOT NULL,
+    "content" TEXT NOT NULL,
+    "contentHash" TEXT NOT NULL,
+    "terms" JSONB NOT NULL,
+    "embedding" DOUBLE PRECISION[] DEFAULT ARRAY[]::DOUBLE PRECISION[],
+    "embeddingModel" TEXT,
+    "storyId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "story_passages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "story_passages_storyId_chapterNumber_position_key" ON "story_passages"("storyId", "chapterNumber", "position");
+
+-- AddForeignKey
+ALTER TABLE "story_passages" ADD CONSTRAINT "story_passages_storyId_fkey" FOREIGN KEY ("storyId") REFERENCES "stories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
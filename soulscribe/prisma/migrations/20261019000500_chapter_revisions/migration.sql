@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "chapters" ADD COLUMN     "revision" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "revision_proposals" (
+    "id" TEXT NOT NULL,
+    "instruction" TEXT NOT NULL,
+    "selectionStart" INTEGER NOT NULL,
+    "selectionEnd" INTEGER NOT NULL,
+    "original" TEXT NOT NULL,
+    "revised" TEXT NOT NULL,
+    "rationale" TEXT NOT NULL DEFAULT '',
+    "agentType" TEXT NOT NULL,
+    "baseRevision" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "chapterId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedAt" TIMESTAMP(3),
+
+    CONSTRAINT "revision_proposals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "revision_proposals_chapterId_status_idx" ON "revision_proposals"("chapterId", "status");
+
+-- AddForeignKey
+ALTER TABLE "revision_proposals" ADD CONSTRAINT "revision_proposals_chapterId_fkey" FOREIGN KEY ("chapterId") REFERENCES "chapters"("id") ON DELETE CASCADE ON UPDATE CASCADE;
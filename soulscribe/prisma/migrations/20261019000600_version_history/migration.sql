@@ -0,0 +1,59 @@
+-- CreateTable
+CREATE TABLE "chapter_versions" (
+    "id" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "summary" TEXT,
+    "source" TEXT NOT NULL,
+    "agentType" TEXT,
+    "note" TEXT,
+    "chapterId" TEXT NOT NULL,
+    "userId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "chapter_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "story_versions" (
+    "id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "summary" TEXT,
+    "source" TEXT NOT NULL,
+    "agentType" TEXT,
+    "note" TEXT,
+    "storyId" TEXT NOT NULL,
+    "userId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "story_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "chapter_versions_chapterId_revision_key" ON "chapter_versions"("chapterId", "revision");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "story_versions_storyId_version_key" ON "story_versions"("storyId", "version");
+
+-- AddForeignKey
+ALTER TABLE "chapter_versions" ADD CONSTRAINT "chapter_versions_chapterId_fkey" FOREIGN KEY ("chapterId") REFERENCES "chapters"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "chapter_versions" ADD CONSTRAINT "chapter_versions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "story_versions" ADD CONSTRAINT "story_versions_storyId_fkey" FOREIGN KEY ("storyId") REFERENCES "stories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "story_versions" ADD CONSTRAINT "story_versions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- MigrateData: the text each chapter and story has now becomes its first kept version
+INSERT INTO "chapter_versions" ("id", "revision", "title", "content", "summary", "source", "chapterId", "createdAt")
+SELECT gen_random_uuid()::TEXT, "revision", "title", "content", "summary", 'original', "id", "updatedAt"
+FROM "chapters";
+
+INSERT INTO "story_versions" ("id", "version", "title", "summary", "source", "storyId", "createdAt")
+SELECT gen_random_uuid()::TEXT, 1, "title", "summary", 'original', "id", "updatedAt"
+FROM "stories";
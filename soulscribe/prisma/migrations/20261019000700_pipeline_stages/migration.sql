@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "chapter_versions" ADD COLUMN     "stage" TEXT;
+
+-- AlterTable
+ALTER TABLE "stories" ADD COLUMN     "pipelineStages" JSONB,
+ADD COLUMN     "qualityLevel" TEXT NOT NULL DEFAULT 'balanced';
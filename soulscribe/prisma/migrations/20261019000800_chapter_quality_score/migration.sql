@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "chapters" ADD COLUMN     "qualityScore" DOUBLE PRECISION;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "safety_reviews" (
+    "id" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "audience" TEXT NOT NULL,
+    "passed" BOOLEAN NOT NULL,
+    "annotations" JSONB NOT NULL,
+    "thorough" BOOLEAN NOT NULL DEFAULT false,
+    "tokensUsed" INTEGER NOT NULL DEFAULT 0,
+    "chapterId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "safety_reviews_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "safety_reviews_chapterId_revision_key" ON "safety_reviews"("chapterId", "revision");
+
+-- AddForeignKey
+ALTER TABLE "safety_reviews" ADD CONSTRAINT "safety_reviews_chapterId_fkey" FOREIGN KEY ("chapterId") REFERENCES "chapters"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "stories" ADD COLUMN     "beatSheet" JSONB,
+ADD COLUMN     "beatSheetApprovedAt" TIMESTAMP(3);
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "questionnaires" ADD COLUMN     "templateId" TEXT;
+
+-- CreateTable
+CREATE TABLE "story_templates" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT NOT NULL DEFAULT '',
+    "structure" TEXT NOT NULL DEFAULT 'linear',
+    "recommendedChapters" INTEGER NOT NULL,
+    "acts" JSONB NOT NULL,
+    "sourceStoryId" TEXT,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "story_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "story_templates_userId_idx" ON "story_templates"("userId");
+
+-- AddForeignKey
+ALTER TABLE "story_templates" ADD CONSTRAINT "story_templates_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
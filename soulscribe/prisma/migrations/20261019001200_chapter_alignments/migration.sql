@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "chapter_alignments" (
+    "id" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "engine" TEXT NOT NULL,
+    "durationMs" INTEGER NOT NULL,
+    "words" JSONB NOT NULL,
+    "chapterId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "chapter_alignments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "chapter_alignments_chapterId_revision_key" ON "chapter_alignments"("chapterId", "revision");
+
+-- AddForeignKey
+ALTER TABLE "chapter_alignments" ADD CONSTRAINT "chapter_alignments_chapterId_fkey" FOREIGN KEY ("chapterId") REFERENCES "chapters"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,40 @@
+-- AlterTable
+ALTER TABLE "chapters" ADD COLUMN     "audioAssetId" TEXT,
+ADD COLUMN     "audioDurationMs" INTEGER,
+ADD COLUMN     "audioRevision" INTEGER;
+
+-- CreateTable
+CREATE TABLE "audio_assets" (
+    "id" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "segmentIndex" INTEGER,
+    "speaker" TEXT,
+    "voiceProfile" TEXT,
+    "engine" TEXT NOT NULL,
+    "startTime" INTEGER,
+    "durationMs" INTEGER NOT NULL,
+    "contentType" TEXT NOT NULL DEFAULT 'audio/wav',
+    "byteSize" INTEGER NOT NULL,
+    "checksum" TEXT NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "chapterId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audio_assets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "chapters_audioAssetId_key" ON "chapters"("audioAssetId");
+
+-- CreateIndex
+CREATE INDEX "audio_assets_chapterId_revision_idx" ON "audio_assets"("chapterId", "revision");
+
+-- CreateIndex
+CREATE INDEX "audio_assets_storageKey_idx" ON "audio_assets"("storageKey");
+
+-- AddForeignKey
+ALTER TABLE "chapters" ADD CONSTRAINT "chapters_audioAssetId_fkey" FOREIGN KEY ("audioAssetId") REFERENCES "audio_assets"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "audio_assets" ADD CONSTRAINT "audio_assets_chapterId_fkey" FOREIGN KEY ("chapterId") REFERENCES "chapters"("id") ON DELETE CASCADE ON UPDATE CASCADE;
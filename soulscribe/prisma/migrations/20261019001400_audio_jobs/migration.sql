@@ -0,0 +1,41 @@
+-- AlterEnum
+-- This migration adds more than one value to an enum.
+-- With PostgreSQL versions 11 and earlier, this is not possible
+-- in a single migration. This can be worked around by creating
+-- multiple migrations, each migration adding only one value to
+-- the enum.
+
+
+ALTER TYPE "JobType" ADD VALUE 'CHAPTER_AUDIO';
+ALTER TYPE "JobType" ADD VALUE 'AUDIO_CLIP';
+ALTER TYPE "JobType" ADD VALUE 'AUDIO_COMBINE';
+
+-- AlterTable
+ALTER TABLE "stories" ADD COLUMN     "voiceMap" JSONB;
+
+-- AlterTable
+ALTER TABLE "audio_assets" ADD COLUMN     "storyId" TEXT,
+ADD COLUMN     "userId" TEXT,
+ALTER COLUMN "revision" DROP NOT NULL,
+ALTER COLUMN "chapterId" DROP NOT NULL;
+
+-- MigrateData: existing assets are all chapter narration - they belong to the chapter's story and its author
+UPDATE "audio_assets" AS "asset"
+SET "storyId" = "chapter"."storyId", "userId" = "story"."userId"
+FROM "chapters" AS "chapter"
+JOIN "stories" AS "story" ON "story"."id" = "chapter"."storyId"
+WHERE "chapter"."id" = "asset"."chapterId";
+
+ALTER TABLE "audio_assets" ALTER COLUMN "userId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "audio_assets_storyId_idx" ON "audio_assets"("storyId");
+
+-- CreateIndex
+CREATE INDEX "audio_assets_userId_createdAt_idx" ON "audio_assets"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "audio_assets" ADD CONSTRAINT "audio_assets_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "audio_assets" ADD CONSTRAINT "audio_assets_storyId_fkey" FOREIGN KEY ("storyId") REFERENCES "stories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
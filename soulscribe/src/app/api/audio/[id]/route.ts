@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { getAudioStorage, parseByteRange } from "@/lib/audio-storage"
+import { playableBy } from "@/lib/audio-assets"
+
+/**
+ * Stream a stored narration file. Honours a single-range Range header with 206
+ * Partial Content, so the player can seek without fetching the whole chapter.
+ * Audio of public stories can be played by anyone signed in.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const asset = await prisma.audioAsset.findFirst({
+      where: { id, ...playableBy(session.user.id) },
+    })
+
+    if (!asset) {
+      return NextResponse.json({ error: "Audio not found" }, { status: 404 })
+    }
+
+    const headers: Record<string, string> = {
+      "Accept-Ranges": "bytes",
+      "Content-Type": asset.contentType,
+      // Stored files never change - a new narration is a new asset
+      "Cache-Control": "private, max-age=31536000, immutable",
+      ETag: `"${asset.checksum}"`,
+    }
+
+    if (request.headers.get("if-none-match") === headers.ETag) {
+      return new NextResponse(null, { status: 304, headers })
+    }
+
+    const range = parseByteRange(request.headers.get("range"), asset.byteSize)
+
+    if (range === "unsatisfiable") {
+      return new NextResponse(null, {
+        status: 416,
+        headers: { ...headers, "Content-Range": `bytes */${asset.byteSize}` },
+      })
+    }
+
+    const body = await getAudioStorage().read(asset.storageKey, range ?? undefined)
+
+    if (!range) {
+      return new NextResponse(body, {
+        status: 200,
+        headers: { ...headers, "Content-Length": String(asset.byteSize) },
+      })
+    }
+
+    return new NextResponse(body, {
+      status: 206,
+      headers: {
+        ...headers,
+        "Content-Length": String(range.end - range.start + 1),
+        "Content-Range": `bytes ${range.start}-${range.end}/${asset.byteSize}`,
+      },
+    })
+  } catch (error) {
+    console.error("Error streaming audio:", error)
+    return NextResponse.json(
+      { error: "Failed to stream audio" },
+      { status: 500 }
+    )
+  }
+}
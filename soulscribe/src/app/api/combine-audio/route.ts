@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server"
+import { combineAudioRequestSchema, ownsStory, playableAssetIds, queueAudioJob } from "@/lib/audio-jobs"
+import type { AudioCombinePayload } from "@/lib/job-handlers"
+
+/**
+ * Join stored audio - the segments of a chapter, say - into one file
+ */
+export async function POST(request: NextRequest) {
+  return queueAudioJob(request, combineAudioRequestSchema, "audio combining", async (input, userId) => {
+    if (input.storyId && !(await ownsStory(input.storyId, userId))) {
+      return NextResponse.json({ error: "Story not found" }, { status: 404 })
+    }
+
+    const assetIds = await playableAssetIds(input.audioUrls, userId)
+    if (assetIds instanceof NextResponse) return assetIds
+
+    const payload: AudioCombinePayload = {
+      assetIds,
+      kind: "combined",
+      ...(input.storyId && { storyId: input.storyId }),
+    }
+    return { type: "AUDIO_COMBINE", payload, storyId: input.storyId }
+  })
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server"
+import { combineAudiobookRequestSchema, ownsStory, playableAssetIds, queueAudioJob } from "@/lib/audio-jobs"
+import type { AudioCombinePayload } from "@/lib/job-handlers"
+
+/**
+ * Join a story's chapter narrations into one audiobook file. The job's result
+ * lists where each chapter starts, for chapter markers.
+ */
+export async function POST(request: NextRequest) {
+  return queueAudioJob(request, combineAudiobookRequestSchema, "audiobook", async (input, userId) => {
+    if (!(await ownsStory(input.storyId, userId))) {
+      return NextResponse.json({ error: "Story not found" }, { status: 404 })
+    }
+
+    const assetIds = await playableAssetIds(input.audioUrls, userId)
+    if (assetIds instanceof NextResponse) return assetIds
+
+    const payload: AudioCombinePayload = { assetIds, kind: "audiobook", storyId: input.storyId }
+    return { type: "AUDIO_COMBINE", payload, storyId: input.storyId }
+  })
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server"
+import { generateAudioRequestSchema, ownsStory, queueAudioJob } from "@/lib/audio-jobs"
+import type { AudioClipPayload } from "@/lib/job-handlers"
+
+/**
+ * Voice one segment of text. Speakers named Speaker1, Speaker2, ... are voiced as
+ * the [S1], [S2] speakers of a chapter.
+ */
+export async function POST(request: NextRequest) {
+  return queueAudioJob(request, generateAudioRequestSchema, "audio generation", async (input, userId) => {
+    if (input.storyId && !(await ownsStory(input.storyId, userId))) {
+      return NextResponse.json({ error: "Story not found" }, { status: 404 })
+    }
+
+    const speakerNumber = input.speaker?.match(/^Speaker(\d+)$/)?.[1]
+    const payload: AudioClipPayload = {
+      text: input.text,
+      voice: { id: input.voiceProfile },
+      ...(speakerNumber && { speakerTag: `[S${speakerNumber}]` }),
+      ...(input.speaker && { speaker: input.speaker }),
+      ...(input.emotion && { emotion: input.emotion }),
+      ...(input.storyId && { storyId: input.storyId }),
+    }
+
+    return { type: "AUDIO_CLIP", payload, storyId: input.storyId }
+  })
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { generateChapterAudioRequestSchema, queueAudioJob } from "@/lib/audio-jobs"
+import type { ChapterJobPayload } from "@/lib/job-handlers"
+
+/**
+ * Narrate a chapter in the story's character voices and store it as the
+ * chapter's audio. A chapter whose narration is current is not voiced again.
+ */
+export async function POST(request: NextRequest) {
+  return queueAudioJob(request, generateChapterAudioRequestSchema, "chapter audio", async (input, userId) => {
+    const chapter = await prisma.chapter.findFirst({
+      where: { number: input.chapterNumber, story: { id: input.storyId, userId } },
+      select: { id: true },
+    })
+
+    if (!chapter) {
+      return NextResponse.json({ error: "Chapter not found" }, { status: 404 })
+    }
+
+    const payload: ChapterJobPayload = { storyId: input.storyId, chapterNumber: input.chapterNumber }
+    return { type: "CHAPTER_AUDIO", payload, storyId: input.storyId }
+  })
+}
@@ -0,0 +1,40 @@
+import { NextRequest } from "next/server"
+import { generateVoiceRequestSchema, queueAudioJob, speedForPace } from "@/lib/audio-jobs"
+import type { AudioClipPayload } from "@/lib/job-handlers"
+import type { VoiceProfile } from "@/agents/voice-backend"
+
+const AGES: Record<string, VoiceProfile["age"]> = {
+  child: "child",
+  young_adult: "young",
+  adult: "adult",
+  elder: "elder",
+}
+
+const GENDERS: Record<string, VoiceProfile["gender"]> = {
+  masculine: "male",
+  feminine: "female",
+  neutral: "neutral",
+}
+
+/**
+ * Speak a test line for a studio voice. The voice backends have no cloned voices,
+ * so a modelId they don't know is matched to the closest built-in voice by age
+ * and gender, and its pace sets the speed.
+ */
+export async function POST(request: NextRequest) {
+  return queueAudioJob(request, generateVoiceRequestSchema, "voice generation", async (input) => {
+    const characteristics = input.characteristics
+    const payload: AudioClipPayload = {
+      text: input.text,
+      voice: {
+        id: input.modelId,
+        age: characteristics?.age && AGES[characteristics.age],
+        gender: characteristics?.gender && GENDERS[characteristics.gender],
+      },
+      ...(characteristics?.emotion && { emotion: characteristics.emotion }),
+      ...(characteristics?.pace && { speed: speedForPace(characteristics.pace) }),
+    }
+
+    return { type: "AUDIO_CLIP", payload }
+  })
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { requestJobCancellation, serializeJob } from "@/lib/jobs"
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const job = await requestJobCancellation(id, session.user.id)
+
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ job: serializeJob(job) })
+  } catch (error) {
+    console.error("Error cancelling job:", error)
+    return NextResponse.json(
+      { error: "Failed to cancel job" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { getJobForUser, isTerminalStatus, serializeJob } from "@/lib/jobs"
+import { sleep, sseResponse } from "@/lib/sse"
+
+const POLL_INTERVAL_MS = 1000
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await params
+  const userId = session.user.id
+  const initialJob = await getJobForUser(id, userId)
+
+  if (!initialJob) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 })
+  }
+
+  return sseResponse(request.signal, async (channel) => {
+    let lastSnapshot = ""
+
+    while (!channel.isClosed()) {
+      const job = await getJobForUser(id, userId)
+      if (!job) break
+
+      // Only push when something changed
+      const summary = serializeJob(job)
+      const snapshot = JSON.stringify(summary)
+      if (snapshot !== lastSnapshot) {
+        channel.send("job", summary)
+        lastSnapshot = snapshot
+      }
+
+      if (isTerminalStatus(job.status)) break
+      await sleep(POLL_INTERVAL_MS)
+    }
+
+    channel.close()
+  })
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { getJobForUser, serializeJob } from "@/lib/jobs"
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const job = await getJobForUser(id, session.user.id)
+
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ job: serializeJob(job) })
+  } catch (error) {
+    console.error("Error fetching job:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch job" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { isJobStatus, serializeJob } from "@/lib/jobs"
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const statusParam = searchParams.get("status")
+    const status = statusParam && isJobStatus(statusParam) ? statusParam : undefined
+    const limit = Math.min(parseInt(searchParams.get("limit") || "20"), 100)
+
+    if (statusParam && !status) {
+      return NextResponse.json({ error: `Unknown job status: ${statusParam}` }, { status: 400 })
+    }
+    if (Number.isNaN(limit)) {
+      return NextResponse.json({ error: "limit must be a number" }, { status: 400 })
+    }
+
+    const jobs = await prisma.generationJob.findMany({
+      where: {
+        userId: session.user.id,
+        ...(status && { status }),
+      },
+      orderBy: { createdAt: "desc" },
+      take: limit,
+    })
+
+    return NextResponse.json({ jobs: jobs.map(serializeJob) })
+  } catch (error) {
+    console.error("Error fetching jobs:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch jobs" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { enqueueJob, getLatestJobForStory, serializeJob } from "@/lib/jobs"
+import { TokenBudget } from "@/lib/token-budget"
+import { BeatSheet, plannedChapters } from "@/lib/beat-sheet"
+import type { StoryGenerationRequest } from "@/agents/story-generation-pipeline"
+import { Prisma } from "@/generated/prisma"
+
+/**
+ * Approve the beat sheet. A pipeline waiting for review is queued again and picks
+ * up from its checkpoints, writing the chapters from the approved sheet.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const story = await prisma.story.findFirst({
+      where: { id, userId: session.user.id },
+      select: { beatSheet: true, generationStatus: true },
+    })
+
+    if (!story) {
+      return NextResponse.json({ error: "Story not found" }, { status: 404 })
+    }
+
+    if (!story.beatSheet) {
+      return NextResponse.json({ error: "The story has no beat sheet to approve yet" }, { status: 409 })
+    }
+
+    const awaitingReview = story.generationStatus === "outline_review"
+    const previousJob = awaitingReview ? await getLatestJobForStory(id, session.user.id, "STORY_PIPELINE") : null
+    if (awaitingReview && !previousJob) {
+      return NextResponse.json({ error: "No pipeline run to resume for this story" }, { status: 409 })
+    }
+
+    if (awaitingReview) {
+      const budget = await TokenBudget.forStory(id)
+      if (budget.status() === "exhausted") {
+        return NextResponse.json(
+          { error: "Token budget exhausted", remaining: budget.remaining() },
+          { status: 402 }
+        )
+      }
+    }
+
+    const chapterCount = plannedChapters(story.beatSheet as unknown as BeatSheet).length
+    const approvedAt = new Date()
+    await prisma.story.update({
+      where: { id },
+      data: { beatSheetApprovedAt: approvedAt, chapterCount },
+    })
+
+    if (!previousJob) {
+      return NextResponse.json({ approvedAt, job: null })
+    }
+
+    // Only one approval resumes the run, however many arrive
+    const resumed = await prisma.story.updateMany({
+      where: { id, generationStatus: "outline_review" },
+      data: { generationStatus: "writing" },
+    })
+    if (resumed.count === 0) {
+      return NextResponse.json({ approvedAt, job: null })
+    }
+
+    const previousRequest = previousJob.payload as unknown as StoryGenerationRequest
+    const job = await enqueueJob(
+      "STORY_PIPELINE",
+      {
+        ...previousRequest,
+        questionnaire: { ...previousRequest.questionnaire, chapterCount },
+      } as unknown as Prisma.InputJsonValue,
+      { userId: session.user.id, storyId: id }
+    )
+
+    return NextResponse.json({ approvedAt, job: serializeJob(job) }, { status: 202 })
+  } catch (error) {
+    console.error("Error approving beat sheet:", error)
+    return NextResponse.json(
+      { error: "Failed to approve beat sheet" },
+      { status: 500 }
+    )
+  }
+}
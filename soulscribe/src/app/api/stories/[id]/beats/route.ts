@@ -0,0 +1,206 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { schema } from "@/lib/agent-schemas"
+import { TokenBudget, BudgetExceededError, runWithBudget } from "@/lib/token-budget"
+import { GenerationCheckpointStore } from "@/lib/generation-checkpoints"
+import { questionnaireFromRecord } from "@/lib/questionnaire"
+import {
+  BeatSheet,
+  InvalidBeatSheetError,
+  beatSheetInputSchema,
+  normalizeBeatSheet,
+} from "@/lib/beat-sheet"
+import { BeatSheetAgent } from "@/agents/beat-sheet-agent"
+import type { ProcessedTOC } from "@/agents/toc-processor-agent"
+import { Prisma } from "@/generated/prisma"
+
+const beatSheetUpdateSchema = schema.object({
+  beatSheet: beatSheetInputSchema,
+})
+
+const beatSheetRegenerateSchema = schema.object({
+  guidance: schema.string().optional(),
+})
+
+const beatSheetSelect = {
+  beatSheet: true,
+  beatSheetApprovedAt: true,
+  generationStatus: true,
+} as const
+
+function describeBeatSheet(story: { beatSheet: Prisma.JsonValue; beatSheetApprovedAt: Date | null; generationStatus: string }) {
+  return {
+    beatSheet: story.beatSheet as unknown as BeatSheet | null,
+    approvedAt: story.beatSheetApprovedAt,
+    awaitingReview: story.generationStatus === "outline_review",
+  }
+}
+
+/**
+ * The story's beat sheet - acts, chapters and beats the chapters are written from.
+ * beatSheet is null until the pipeline has written the table of contents.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const story = await prisma.story.findFirst({
+      where: { id, userId: session.user.id },
+      select: beatSheetSelect,
+    })
+
+    if (!story) {
+      return NextResponse.json({ error: "Story not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(describeBeatSheet(story))
+  } catch (error) {
+    console.error("Error fetching beat sheet:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch beat sheet" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Save the author's edits. Body: { beatSheet: { acts: [{ id?, title, summary?,
+ * chapters: [{ id?, title, summary?, lesson?, characters?, locked?, beats:
+ * [{ id?, description, characters?, locked? }] }] }] } } - the arrays' order is the
+ * reading order, and chapters are numbered across acts from it.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const story = await prisma.story.findFirst({
+      where: { id, userId: session.user.id },
+      select: { id: true },
+    })
+
+    if (!story) {
+      return NextResponse.json({ error: "Story not found" }, { status: 404 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const update = beatSheetUpdateSchema.parse(body)
+
+    if ("issues" in update) {
+      return NextResponse.json({ error: "Invalid beat sheet", issues: update.issues }, { status: 400 })
+    }
+
+    let beatSheet: BeatSheet
+    try {
+      beatSheet = normalizeBeatSheet(update.data.beatSheet)
+    } catch (error) {
+      if (!(error instanceof InvalidBeatSheetError)) throw error
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    const updated = await prisma.story.update({
+      where: { id },
+      data: { beatSheet: beatSheet as unknown as Prisma.InputJsonValue },
+      select: beatSheetSelect,
+    })
+
+    return NextResponse.json(describeBeatSheet(updated))
+  } catch (error) {
+    console.error("Error updating beat sheet:", error)
+    return NextResponse.json(
+      { error: "Failed to update beat sheet" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Draft the beat sheet again from the outline and table of contents, keeping every
+ * locked chapter and beat. Body: { guidance? } - the author's direction for the plan.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const story = await prisma.story.findFirst({
+      where: { id, userId: session.user.id },
+      select: { outline: true, beatSheet: true, questionnaire: true },
+    })
+
+    if (!story) {
+      return NextResponse.json({ error: "Story not found" }, { status: 404 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const input = beatSheetRegenerateSchema.parse(body)
+
+    if ("issues" in input) {
+      return NextResponse.json({ error: "Invalid beat sheet request", issues: input.issues }, { status: 400 })
+    }
+
+    const checkpoints = new GenerationCheckpointStore(id)
+    const toc = await checkpoints.get<{ processedTOC: ProcessedTOC }>("toc")
+    const outline = story.outline || (await checkpoints.get<{ outline: string }>("outline"))?.outline
+
+    if (!story.questionnaire || !toc || !outline) {
+      return NextResponse.json(
+        { error: "The beat sheet can be drafted once the pipeline has written the table of contents" },
+        { status: 409 }
+      )
+    }
+
+    const budget = await TokenBudget.forStory(id)
+    if (budget.status() === "exhausted") {
+      return NextResponse.json(
+        { error: "Token budget exhausted", remaining: budget.remaining() },
+        { status: 402 }
+      )
+    }
+
+    const agent = new BeatSheetAgent(id)
+    const { beatSheet, tokens } = await runWithBudget(budget, () =>
+      agent.generate(outline, toc.processedTOC, questionnaireFromRecord(story.questionnaire!), {
+        previous: story.beatSheet as unknown as BeatSheet | null,
+        guidance: input.data.guidance,
+      })
+    )
+    await agent.save(beatSheet)
+
+    const updated = await prisma.story.findUniqueOrThrow({ where: { id }, select: beatSheetSelect })
+    return NextResponse.json({ ...describeBeatSheet(updated), tokens })
+  } catch (error) {
+    if (error instanceof BudgetExceededError) {
+      return NextResponse.json({ error: error.message }, { status: 402 })
+    }
+    console.error("Error regenerating beat sheet:", error)
+    return NextResponse.json(
+      { error: "Failed to regenerate beat sheet" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { alignChapterWords } from "@/lib/word-alignment"
+import { ChapterRouteParams } from "@/lib/chapter-jobs"
+import { findOwnedChapter } from "@/lib/chapter-revisions"
+import { alignmentRequestSchema, saveChapterAlignment, serializeAlignment } from "@/lib/chapter-alignment"
+
+/**
+ * Word timings for the narration of the chapter's current text. 404 until the
+ * chapter has been voiced, and again after every edit until it is voiced anew.
+ */
+export async function GET(request: NextRequest, { params }: ChapterRouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id, number } = await params
+    const chapter = await findOwnedChapter(id, session.user.id, parseInt(number))
+
+    if (!chapter) {
+      return NextResponse.json({ error: "Chapter not found" }, { status: 404 })
+    }
+
+    const alignment = await prisma.chapterAlignment.findUnique({
+      where: { chapterId_revision: { chapterId: chapter.id, revision: chapter.revision } },
+    })
+
+    if (!alignment) {
+      return NextResponse.json(
+        { error: "No word timings for this revision of the chapter", revision: chapter.revision },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ alignment: serializeAlignment(alignment) })
+  } catch (error) {
+    console.error("Error fetching chapter alignment:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch chapter alignment" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Align a chapter voiced segment by segment in the browser. Body: { engine?,
+ * segments: [{ text, startTime, duration, words? }] } - segments without the
+ * engine's own word timings are aligned by the local aligner.
+ */
+export async function POST(request: NextRequest, { params }: ChapterRouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id, number } = await params
+    const chapter = await findOwnedChapter(id, session.user.id, parseInt(number))
+
+    if (!chapter) {
+      return NextResponse.json({ error: "Chapter not found" }, { status: 404 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const input = alignmentRequestSchema.parse(body)
+
+    if ("issues" in input) {
+      return NextResponse.json({ error: "Invalid alignment request", issues: input.issues }, { status: 400 })
+    }
+
+    const { segments, engine } = input.data
+    const alignment = await saveChapterAlignment(chapter, {
+      engine: engine ?? "unknown",
+      durationMs: Math.max(...segments.map((segment) => segment.startTime + segment.duration)),
+      words: alignChapterWords(chapter.content, segments),
+    })
+
+    return NextResponse.json({ alignment: serializeAlignment(alignment) }, { status: 201 })
+  } catch (error) {
+    console.error("Error aligning chapter audio:", error)
+    return NextResponse.json(
+      { error: "Failed to align chapter audio" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,9 @@
+import { NextRequest } from "next/server"
+import { queueChapterJob, ChapterRouteParams } from "@/lib/chapter-jobs"
+
+/**
+ * Run the ChapterAnalyzerAgent on one chapter - the analysis is the job's result
+ */
+export async function POST(request: NextRequest, context: ChapterRouteParams) {
+  return queueChapterJob(request, context, "CHAPTER_ANALYSIS")
+}
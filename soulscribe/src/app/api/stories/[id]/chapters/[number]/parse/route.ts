@@ -0,0 +1,9 @@
+import { NextRequest } from "next/server"
+import { queueChapterJob, ChapterRouteParams } from "@/lib/chapter-jobs"
+
+/**
+ * Clean up one chapter's text again with the ContentParserAgent
+ */
+export async function POST(request: NextRequest, context: ChapterRouteParams) {
+  return queueChapterJob(request, context, "CHAPTER_REPARSE")
+}
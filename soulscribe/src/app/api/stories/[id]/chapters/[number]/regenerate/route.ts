@@ -0,0 +1,9 @@
+import { NextRequest } from "next/server"
+import { queueChapterJob, ChapterRouteParams } from "@/lib/chapter-jobs"
+
+/**
+ * Rewrite one chapter with the full pipeline. Optional body: { guidance: string }
+ */
+export async function POST(request: NextRequest, context: ChapterRouteParams) {
+  return queueChapterJob(request, context, "CHAPTER_REGENERATION")
+}
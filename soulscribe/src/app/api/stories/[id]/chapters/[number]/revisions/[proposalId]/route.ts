@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import {
+  ResolvedProposalError,
+  acceptProposal,
+  revisionDecisionSchema,
+  serializeProposal,
+} from "@/lib/chapter-revisions"
+import { ContentSafetyAgent } from "@/agents/content-safety-agent"
+
+/**
+ * Accept or reject a revision proposal. Body: { action: "accept" | "reject" }.
+ * Accepting writes the rewrite into the chapter as its next revision; a proposal
+ * whose passage has since been edited away is marked stale and answered with 409.
+ * A public story whose revised text fails the safety review is unpublished.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; number: string; proposalId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id, number, proposalId } = await params
+    const chapterNumber = parseInt(number)
+
+    if (Number.isNaN(chapterNumber)) {
+      return NextResponse.json({ error: "Proposal not found" }, { status: 404 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const decision = revisionDecisionSchema.parse(body)
+
+    if ("issues" in decision) {
+      return NextResponse.json({ error: "Invalid decision", issues: decision.issues }, { status: 400 })
+    }
+
+    const proposal = await prisma.revisionProposal.findFirst({
+      where: {
+        id: proposalId,
+        chapter: { number: chapterNumber, story: { id, userId: session.user.id } },
+      },
+      include: { chapter: true },
+    })
+
+    if (!proposal) {
+      return NextResponse.json({ error: "Proposal not found" }, { status: 404 })
+    }
+
+    if (proposal.status !== "pending") {
+      return NextResponse.json({ error: `Proposal is already ${proposal.status}` }, { status: 409 })
+    }
+
+    if (decision.data.action === "reject") {
+      const rejected = await prisma.revisionProposal.updateMany({
+        where: { id: proposal.id, status: "pending" },
+        data: { status: "rejected", resolvedAt: new Date() },
+      })
+      if (rejected.count === 0) throw new ResolvedProposalError(proposal.id)
+
+      const resolved = await prisma.revisionProposal.findUniqueOrThrow({ where: { id: proposal.id } })
+      return NextResponse.json({ proposal: serializeProposal(resolved) })
+    }
+
+    const chapter = await acceptProposal(proposal, proposal.chapter, session.user.id)
+
+    if (!chapter) {
+      return NextResponse.json(
+        { error: "The chapter changed since this revision was proposed" },
+        { status: 409 }
+      )
+    }
+
+    const unpublished = await new ContentSafetyAgent(id).unpublishIfUnsafe()
+    const accepted = await prisma.revisionProposal.findUniqueOrThrow({ where: { id: proposal.id } })
+    return NextResponse.json({
+      proposal: serializeProposal(accepted),
+      chapter,
+      ...(unpublished && { unpublished: true, safety: unpublished }),
+    })
+  } catch (error) {
+    if (error instanceof ResolvedProposalError) {
+      return NextResponse.json({ error: "Proposal was already resolved" }, { status: 409 })
+    }
+    console.error("Error resolving revision proposal:", error)
+    return NextResponse.json(
+      { error: "Failed to resolve revision proposal" },
+      { status: 500 }
+    )
+  }
+}
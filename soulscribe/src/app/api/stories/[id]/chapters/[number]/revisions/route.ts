@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { TokenBudget, BudgetExceededError, runWithBudget } from "@/lib/token-budget"
+import { ChapterRevisionAgent } from "@/agents/chapter-revision-agent"
+import { ChapterRouteParams } from "@/lib/chapter-jobs"
+import { findOwnedChapter, revisionRequestSchema, serializeProposal } from "@/lib/chapter-revisions"
+
+/**
+ * Pending revision proposals for a chapter, newest first
+ */
+export async function GET(request: NextRequest, { params }: ChapterRouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id, number } = await params
+    const chapter = await findOwnedChapter(id, session.user.id, parseInt(number))
+
+    if (!chapter) {
+      return NextResponse.json({ error: "Chapter not found" }, { status: 404 })
+    }
+
+    const proposals = await prisma.revisionProposal.findMany({
+      where: { chapterId: chapter.id, status: "pending" },
+      orderBy: { createdAt: "desc" },
+    })
+
+    return NextResponse.json({ revision: chapter.revision, proposals: proposals.map(serializeProposal) })
+  } catch (error) {
+    console.error("Error fetching revision proposals:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch revision proposals" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Ask for a rewrite of a selected passage. Body: { start, end, instruction } where
+ * start/end are character offsets into the chapter text. Responds 201 with a
+ * proposal and its diff - accept or reject it at ./revisions/:proposalId.
+ */
+export async function POST(request: NextRequest, { params }: ChapterRouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id, number } = await params
+    const chapter = await findOwnedChapter(id, session.user.id, parseInt(number))
+
+    if (!chapter) {
+      return NextResponse.json({ error: "Chapter not found" }, { status: 404 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const input = revisionRequestSchema.parse(body)
+
+    if ("issues" in input) {
+      return NextResponse.json({ error: "Invalid revision request", issues: input.issues }, { status: 400 })
+    }
+
+    const start = Math.round(input.data.start)
+    const end = Math.round(input.data.end)
+    if (end <= start || end > chapter.content.length || !chapter.content.slice(start, end).trim()) {
+      return NextResponse.json({ error: "Selection is outside the chapter text" }, { status: 400 })
+    }
+
+    const budget = await TokenBudget.forStory(id)
+    if (budget.status() === "exhausted") {
+      return NextResponse.json(
+        { error: "Token budget exhausted", remaining: budget.remaining() },
+        { status: 402 }
+      )
+    }
+
+    const proposal = await runWithBudget(budget, () =>
+      new ChapterRevisionAgent(id).proposeRevision({
+        chapterNumber: chapter.number,
+        chapterTitle: chapter.title,
+        content: chapter.content,
+        selection: { start, end },
+        instruction: input.data.instruction.trim(),
+        targetAge: chapter.story.targetAge,
+      })
+    )
+
+    const saved = await prisma.revisionProposal.create({
+      data: {
+        chapterId: chapter.id,
+        instruction: input.data.instruction.trim(),
+        selectionStart: start,
+        selectionEnd: end,
+        original: proposal.original,
+        revised: proposal.revised,
+        rationale: proposal.rationale,
+        agentType: proposal.agentType,
+        baseRevision: chapter.revision,
+      },
+    })
+
+    return NextResponse.json({ proposal: serializeProposal(saved) }, { status: 201 })
+  } catch (error) {
+    if (error instanceof BudgetExceededError) {
+      return NextResponse.json({ error: error.message }, { status: 402 })
+    }
+    console.error("Error proposing chapter revision:", error)
+    return NextResponse.json(
+      { error: "Failed to propose a revision" },
+      { status: 500 }
+    )
+  }
+}
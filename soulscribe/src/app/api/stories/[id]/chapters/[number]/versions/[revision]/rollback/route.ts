@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { findOwnedChapter } from "@/lib/chapter-revisions"
+import { rollbackChapter } from "@/lib/version-history"
+import { ContentSafetyAgent } from "@/agents/content-safety-agent"
+
+/**
+ * Restore an earlier revision. The old text is saved as a new revision, so the
+ * history up to now is kept and the rollback itself can be undone. A public story
+ * whose restored text fails the safety review is unpublished.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; number: string; revision: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id, number, revision } = await params
+    const chapter = await findOwnedChapter(id, session.user.id, parseInt(number))
+    const target = parseInt(revision)
+
+    if (!chapter || Number.isNaN(target)) {
+      return NextResponse.json({ error: "Revision not found" }, { status: 404 })
+    }
+
+    const restored = await rollbackChapter(chapter.id, target, session.user.id)
+
+    if (!restored) {
+      return NextResponse.json({ error: "Revision not found" }, { status: 404 })
+    }
+
+    const unpublished = await new ContentSafetyAgent(id).unpublishIfUnsafe()
+
+    return NextResponse.json({ chapter: restored, ...(unpublished && { unpublished: true, safety: unpublished }) })
+  } catch (error) {
+    console.error("Error rolling back chapter:", error)
+    return NextResponse.json(
+      { error: "Failed to roll back chapter" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { findOwnedChapter } from "@/lib/chapter-revisions"
+import { serializeChapterVersion, versionAuthor } from "@/lib/chapter-versions"
+
+/**
+ * One kept revision of a chapter with its full text
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; number: string; revision: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id, number, revision } = await params
+    const chapter = await findOwnedChapter(id, session.user.id, parseInt(number))
+    const version = chapter && !Number.isNaN(parseInt(revision))
+      ? await prisma.chapterVersion.findUnique({
+          where: { chapterId_revision: { chapterId: chapter.id, revision: parseInt(revision) } },
+          include: versionAuthor,
+        })
+      : null
+
+    if (!version) {
+      return NextResponse.json({ error: "Revision not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ version: serializeChapterVersion(version, true) })
+  } catch (error) {
+    console.error("Error fetching chapter version:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch chapter version" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { ChapterRouteParams } from "@/lib/chapter-jobs"
+import { findOwnedChapter } from "@/lib/chapter-revisions"
+import { diffChapterVersions } from "@/lib/chapter-versions"
+
+/**
+ * Word-level diff between two revisions: ?from=2&to=5. `to` defaults to the
+ * current revision and `from` to the one before it.
+ */
+export async function GET(request: NextRequest, { params }: ChapterRouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id, number } = await params
+    const chapter = await findOwnedChapter(id, session.user.id, parseInt(number))
+
+    if (!chapter) {
+      return NextResponse.json({ error: "Chapter not found" }, { status: 404 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const to = searchParams.has("to") ? parseInt(searchParams.get("to")!) : chapter.revision
+    const from = searchParams.has("from") ? parseInt(searchParams.get("from")!) : to - 1
+
+    if (Number.isNaN(from) || Number.isNaN(to)) {
+      return NextResponse.json({ error: "from and to must be revision numbers" }, { status: 400 })
+    }
+
+    const comparison = await diffChapterVersions(chapter.id, from, to)
+
+    if (!comparison) {
+      return NextResponse.json({ error: "Revision not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(comparison)
+  } catch (error) {
+    console.error("Error diffing chapter versions:", error)
+    return NextResponse.json(
+      { error: "Failed to diff chapter versions" },
+      { status: 500 }
+    )
+  }
+}
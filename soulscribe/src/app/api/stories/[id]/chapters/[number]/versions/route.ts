@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { ChapterRouteParams } from "@/lib/chapter-jobs"
+import { findOwnedChapter } from "@/lib/chapter-revisions"
+import { serializeChapterVersion, versionAuthor } from "@/lib/chapter-versions"
+
+/**
+ * Every kept revision of a chapter, newest first, with who (or which agent) wrote it.
+ * ?stage=metaphor narrows the list to what one pipeline stage produced.
+ */
+export async function GET(request: NextRequest, { params }: ChapterRouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id, number } = await params
+    const chapter = await findOwnedChapter(id, session.user.id, parseInt(number))
+
+    if (!chapter) {
+      return NextResponse.json({ error: "Chapter not found" }, { status: 404 })
+    }
+
+    const stage = new URL(request.url).searchParams.get("stage")
+    const versions = await prisma.chapterVersion.findMany({
+      where: { chapterId: chapter.id, ...(stage && { stage }) },
+      include: versionAuthor,
+      orderBy: { revision: "desc" },
+    })
+
+    return NextResponse.json({
+      revision: chapter.revision,
+      versions: versions.map((version) => serializeChapterVersion(version)),
+    })
+  } catch (error) {
+    console.error("Error fetching chapter versions:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch chapter versions" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { schema } from "@/lib/agent-schemas"
+import {
+  BUILT_IN_STAGES,
+  QUALITY_LEVEL_STAGES,
+  InvalidPipelineError,
+  StageConfig,
+  isQualityLevel,
+  resolveStages,
+  stageConfigSchema,
+} from "@/lib/pipeline-stages"
+import { Prisma } from "@/generated/prisma"
+
+const pipelineUpdateSchema = schema.object({
+  qualityLevel: schema.enum(["fast", "balanced", "premium"] as const).optional(),
+  stages: schema.array(stageConfigSchema).optional(),
+})
+
+const pipelineSelect = { qualityLevel: true, pipelineStages: true } as const
+
+function describePipeline(story: { qualityLevel: string; pipelineStages: Prisma.JsonValue }) {
+  const qualityLevel = isQualityLevel(story.qualityLevel) ? story.qualityLevel : "balanced"
+  return {
+    qualityLevel,
+    custom: story.pipelineStages !== null,
+    stages: resolveStages(story.pipelineStages as StageConfig[] | null, qualityLevel),
+    builtInStages: BUILT_IN_STAGES,
+    qualityLevels: QUALITY_LEVEL_STAGES,
+  }
+}
+
+async function findOwnedStory(id: string, userId: string) {
+  return prisma.story.findFirst({
+    where: { id, userId },
+    select: pipelineSelect,
+  })
+}
+
+/**
+ * The enhancement stages each chapter of the story goes through, in order,
+ * plus the built-in stages and quality-level defaults to build a custom list from
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const story = await findOwnedStory(id, session.user.id)
+
+    if (!story) {
+      return NextResponse.json({ error: "Story not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ pipeline: describePipeline(story) })
+  } catch (error) {
+    console.error("Error fetching story pipeline:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch story pipeline" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Change the quality level and/or give the story its own stage list. Body:
+ * { qualityLevel?, stages?: [{ id, label?, agentType?, prompt?, temperature?,
+ * maxTokens?, optional?, enabled? }] } - built-in ids can be reordered, dropped or
+ * re-prompted, new ids need an agentType and a prompt containing {{chapter}}.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const story = await findOwnedStory(id, session.user.id)
+
+    if (!story) {
+      return NextResponse.json({ error: "Story not found" }, { status: 404 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const update = pipelineUpdateSchema.parse(body)
+
+    if ("issues" in update) {
+      return NextResponse.json({ error: "Invalid pipeline", issues: update.issues }, { status: 400 })
+    }
+
+    const { qualityLevel, stages } = update.data
+    if (stages) {
+      try {
+        resolveStages(stages)
+      } catch (error) {
+        if (!(error instanceof InvalidPipelineError)) throw error
+        return NextResponse.json({ error: error.message }, { status: 400 })
+      }
+    }
+
+    const updated = await prisma.story.update({
+      where: { id },
+      data: {
+        ...(qualityLevel && { qualityLevel }),
+        ...(stages && { pipelineStages: stages as unknown as Prisma.InputJsonValue }),
+      },
+      select: pipelineSelect,
+    })
+
+    return NextResponse.json({ pipeline: describePipeline(updated) })
+  } catch (error) {
+    console.error("Error updating story pipeline:", error)
+    return NextResponse.json(
+      { error: "Failed to update story pipeline" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Drop the story's own stage list and go back to its quality level's default
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const story = await findOwnedStory(id, session.user.id)
+
+    if (!story) {
+      return NextResponse.json({ error: "Story not found" }, { status: 404 })
+    }
+
+    const updated = await prisma.story.update({
+      where: { id },
+      data: { pipelineStages: Prisma.DbNull },
+      select: pipelineSelect,
+    })
+
+    return NextResponse.json({ pipeline: describePipeline(updated) })
+  } catch (error) {
+    console.error("Error resetting story pipeline:", error)
+    return NextResponse.json(
+      { error: "Failed to reset story pipeline" },
+      { status: 500 }
+    )
+  }
+}
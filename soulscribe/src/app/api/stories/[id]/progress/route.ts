@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { getLatestJobForStory, isTerminalStatus } from "@/lib/jobs"
+import { sleep, sseResponse } from "@/lib/sse"
+import { diffGenerationProgress, GenerationProgress } from "@/lib/generation-progress"
+
+const POLL_INTERVAL_MS = 1000
+
+function isGenerationProgress(value: unknown): value is GenerationProgress {
+  return typeof value === "object" && value !== null && "phase" in value && "chapterProgress" in value
+}
+
+/**
+ * Streams pipeline progress for a story: "progress" events carry the phase and
+ * chapter statuses, "chapter" events carry chapter text as it is written, and a
+ * final "done" event reports how the run ended.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await params
+  const userId = session.user.id
+  // Chapter jobs for the same story have no pipeline progress - follow the story run
+  const initialJob = await getLatestJobForStory(id, userId, "STORY_PIPELINE")
+
+  if (!initialJob) {
+    return NextResponse.json({ error: "No generation found for this story" }, { status: 404 })
+  }
+
+  return sseResponse(request.signal, async (channel) => {
+    let previous: GenerationProgress | null = null
+
+    while (!channel.isClosed()) {
+      const job = await getLatestJobForStory(id, userId, "STORY_PIPELINE")
+      if (!job) break
+
+      if (isGenerationProgress(job.progress)) {
+        const progress = job.progress
+        diffGenerationProgress(previous, progress).forEach(({ event, data }) => channel.send(event, data))
+        previous = progress
+      }
+
+      if (isTerminalStatus(job.status)) {
+        channel.send("done", { status: job.status, error: job.error, result: job.result })
+        break
+      }
+      await sleep(POLL_INTERVAL_MS)
+    }
+
+    channel.close()
+  })
+}
@@ -2,6 +2,10 @@ import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { saveChapterRevision, saveStoryRevision } from "@/lib/version-history"
+import { removeUnusedAudio, withAudioUrl } from "@/lib/audio-assets"
+import { audienceFor } from "@/lib/text-analytics"
+import { ContentSafetyAgent, PUBLISH_GATED_AUDIENCES } from "@/agents/content-safety-agent"
 
 export async function GET(
   request: NextRequest,
@@ -20,13 +24,16 @@ export async function GET(
         id,
         userId: session.user.id,
       },
+      include: {
+        chapters: { orderBy: { number: "asc" } },
+      },
     })
 
     if (!story) {
       return NextResponse.json({ error: "Story not found" }, { status: 404 })
     }
 
-    return NextResponse.json({ story })
+    return NextResponse.json({ story: { ...story, chapters: story.chapters.map(withAudioUrl) } })
   } catch (error) {
     console.error("Error fetching story:", error)
     return NextResponse.json(
@@ -51,20 +58,31 @@ export async function PUT(
     const body = await request.json()
     const { title, content, summary, genre, mood, theme, status, isPublic } = body
 
+    const owned = await prisma.story.findFirst({
+      where: { id, userId: session.user.id },
+      select: { targetAge: true, isPublic: true },
+    })
+
+    if (!owned) {
+      return NextResponse.json({ error: "Story not found" }, { status: 404 })
+    }
+
+    // Child stories are only public while every chapter passes the content-safety check.
+    // The review runs after the edits below so it sees the text that would be published.
+    const gated = PUBLISH_GATED_AUDIENCES.includes(audienceFor(owned.targetAge))
+    const publishing = gated && (isPublic === true || (owned.isPublic && isPublic !== false && Boolean(content)))
+
     const story = await prisma.story.updateMany({
       where: {
         id,
         userId: session.user.id,
       },
       data: {
-        ...(title && { title }),
-        ...(content && { content }),
-        ...(summary && { summary }),
         ...(genre && { genre }),
         ...(mood && { mood }),
         ...(theme && { theme }),
         ...(status && { status }),
-        ...(typeof isPublic === "boolean" && { isPublic }),
+        ...(typeof isPublic === "boolean" && !publishing && { isPublic }),
       },
     })
 
@@ -72,11 +90,47 @@ export async function PUT(
       return NextResponse.json({ error: "Story not found" }, { status: 404 })
     }
 
+    // Title and summary edits are kept in the story's version history
+    if (title || summary) {
+      await saveStoryRevision(
+        id,
+        { ...(title && { title }), ...(summary && { summary }) },
+        { source: "human", userId: session.user.id }
+      )
+    }
+
+    // Flat content edits still work for one-shot stories - they land in chapter 1 as its next revision
+    if (content) {
+      await saveChapterRevision(id, 1, { content }, { source: "human", userId: session.user.id })
+    }
+
+    if (publishing) {
+      const report = await new ContentSafetyAgent(id).reviewForPublishing()
+      await prisma.story.update({ where: { id }, data: { isPublic: report.passed } })
+
+      if (!report.passed) {
+        return NextResponse.json(
+          {
+            error: owned.isPublic
+              ? "Your changes were saved, but the story no longer suits its audience and was unpublished - see the safety findings"
+              : "Your changes were saved, but the story is not ready for its audience yet - see the safety findings",
+            safety: report,
+          },
+          { status: 422 }
+        )
+      }
+    }
+
     const updatedStory = await prisma.story.findUnique({
       where: { id },
+      include: {
+        chapters: { orderBy: { number: "asc" } },
+      },
     })
 
-    return NextResponse.json({ story: updatedStory })
+    return NextResponse.json({
+      story: updatedStory && { ...updatedStory, chapters: updatedStory.chapters.map(withAudioUrl) },
+    })
   } catch (error) {
     console.error("Error updating story:", error)
     return NextResponse.json(
@@ -98,6 +152,10 @@ export async function DELETE(
     }
 
     const { id } = await params
+    const audio = await prisma.audioAsset.findMany({
+      where: { story: { id, userId: session.user.id } },
+      select: { storageKey: true },
+    })
     const result = await prisma.story.deleteMany({
       where: {
         id,
@@ -109,6 +167,9 @@ export async function DELETE(
       return NextResponse.json({ error: "Story not found" }, { status: 404 })
     }
 
+    // The narration files go with the story's audio assets
+    await removeUnusedAudio(audio.map((asset) => asset.storageKey))
+
     return NextResponse.json({ message: "Story deleted successfully" })
   } catch (error) {
     console.error("Error deleting story:", error)
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { schema } from "@/lib/agent-schemas"
+import { TokenBudget, BudgetExceededError, runWithBudget } from "@/lib/token-budget"
+import { audienceFor } from "@/lib/text-analytics"
+import { ContentSafetyAgent, PUBLISH_GATED_AUDIENCES } from "@/agents/content-safety-agent"
+
+const safetyReviewRequestSchema = schema.object({
+  thorough: schema.boolean().optional(),
+})
+
+/**
+ * The stored safety findings for each chapter's current text. Chapters edited since
+ * their last check come back with review: null.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const story = await prisma.story.findFirst({
+      where: { id, userId: session.user.id },
+      select: {
+        targetAge: true,
+        chapters: {
+          select: { number: true, revision: true, safetyReviews: { orderBy: { revision: "desc" }, take: 1 } },
+          orderBy: { number: "asc" },
+        },
+      },
+    })
+
+    if (!story) {
+      return NextResponse.json({ error: "Story not found" }, { status: 404 })
+    }
+
+    const audience = audienceFor(story.targetAge)
+    const chapters = story.chapters.map((chapter) => {
+      const review = chapter.safetyReviews.find(
+        (candidate) => candidate.revision === chapter.revision && candidate.audience === audience
+      )
+      return {
+        chapterNumber: chapter.number,
+        revision: chapter.revision,
+        review: review
+          ? { passed: review.passed, thorough: review.thorough, annotations: review.annotations, checkedAt: review.createdAt }
+          : null,
+      }
+    })
+
+    return NextResponse.json({
+      audience,
+      publishGated: PUBLISH_GATED_AUDIENCES.includes(audience),
+      passed: chapters.every((chapter) => chapter.review?.passed),
+      chapters,
+    })
+  } catch (error) {
+    console.error("Error fetching safety reviews:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch safety reviews" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Check every chapter against the story's target age. Body: { thorough? } - the
+ * model reads the chapters too unless thorough is false (rules only, no tokens).
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const story = await prisma.story.findFirst({
+      where: { id, userId: session.user.id },
+      select: { id: true },
+    })
+
+    if (!story) {
+      return NextResponse.json({ error: "Story not found" }, { status: 404 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const input = safetyReviewRequestSchema.parse(body)
+
+    if ("issues" in input) {
+      return NextResponse.json({ error: "Invalid safety review request", issues: input.issues }, { status: 400 })
+    }
+
+    const thorough = input.data.thorough !== false
+    const budget = await TokenBudget.forStory(id)
+    if (thorough && budget.status() === "exhausted") {
+      return NextResponse.json(
+        { error: "Token budget exhausted", remaining: budget.remaining() },
+        { status: 402 }
+      )
+    }
+
+    const report = await runWithBudget(budget, () => new ContentSafetyAgent(id).reviewStory({ thorough }))
+
+    return NextResponse.json({ report })
+  } catch (error) {
+    if (error instanceof BudgetExceededError) {
+      return NextResponse.json({ error: error.message }, { status: 402 })
+    }
+    console.error("Error reviewing story safety:", error)
+    return NextResponse.json(
+      { error: "Failed to review story safety" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { schema } from "@/lib/agent-schemas"
+import { GenerationCheckpointStore } from "@/lib/generation-checkpoints"
+import { BeatSheet, beatSheetFromTOC } from "@/lib/beat-sheet"
+import { StoryTemplateInput, templateInputFromBeatSheet, templateInputFromChapters } from "@/lib/story-templates"
+import { createTemplate } from "@/lib/templates"
+import type { ProcessedTOC } from "@/agents/toc-processor-agent"
+
+const saveTemplateSchema = schema.object({
+  name: schema.string({ minLength: 1 }),
+  description: schema.string().optional(),
+})
+
+/**
+ * Save the story's structure as a template of the user's own: every act becomes
+ * an arc and every chapter a role, with its beats. Body: { name, description? }.
+ * Stories without a beat sheet yet are read from their table of contents, and
+ * stories with neither from their written chapters.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const story = await prisma.story.findFirst({
+      where: { id, userId: session.user.id },
+      select: {
+        beatSheet: true,
+        chapters: { select: { number: true, title: true, summary: true, keyLessons: true } },
+      },
+    })
+
+    if (!story) {
+      return NextResponse.json({ error: "Story not found" }, { status: 404 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const input = saveTemplateSchema.parse(body)
+
+    if ("issues" in input) {
+      return NextResponse.json({ error: "Invalid story template", issues: input.issues }, { status: 400 })
+    }
+
+    let beatSheet = story.beatSheet as unknown as BeatSheet | null
+    if (!beatSheet) {
+      const toc = await new GenerationCheckpointStore(id).get<{ processedTOC: ProcessedTOC }>("toc")
+      beatSheet = toc ? beatSheetFromTOC(toc.processedTOC) : null
+    }
+
+    let templateInput: StoryTemplateInput
+    if (beatSheet) {
+      templateInput = templateInputFromBeatSheet(beatSheet, input.data)
+    } else if (story.chapters.length > 0) {
+      templateInput = templateInputFromChapters(story.chapters, input.data)
+    } else {
+      return NextResponse.json(
+        { error: "A template can be saved once the story has chapters" },
+        { status: 409 }
+      )
+    }
+
+    const template = await createTemplate(session.user.id, templateInput, id)
+
+    return NextResponse.json({ template }, { status: 201 })
+  } catch (error) {
+    console.error("Error saving story template:", error)
+    return NextResponse.json(
+      { error: "Failed to save story template" },
+      { status: 500 }
+    )
+  }
+}
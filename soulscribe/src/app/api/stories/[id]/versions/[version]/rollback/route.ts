@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { rollbackStory } from "@/lib/version-history"
+import { withAudioUrl } from "@/lib/audio-assets"
+
+/**
+ * Restore an earlier title and summary, saved as the story's next version
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; version: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id, version } = await params
+    const story = await prisma.story.findFirst({
+      where: { id, userId: session.user.id },
+      select: { id: true },
+    })
+    const target = parseInt(version)
+
+    if (!story || Number.isNaN(target) || !(await rollbackStory(id, target, session.user.id))) {
+      return NextResponse.json({ error: "Version not found" }, { status: 404 })
+    }
+
+    const restored = await prisma.story.findUnique({
+      where: { id },
+      include: {
+        chapters: { orderBy: { number: "asc" } },
+      },
+    })
+
+    return NextResponse.json({
+      story: restored && { ...restored, chapters: restored.chapters.map(withAudioUrl) },
+    })
+  } catch (error) {
+    console.error("Error rolling back story:", error)
+    return NextResponse.json(
+      { error: "Failed to roll back story" },
+      { status: 500 }
+    )
+  }
+}
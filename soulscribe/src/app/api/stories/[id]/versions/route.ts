@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { serializeStoryVersion, versionAuthor } from "@/lib/chapter-versions"
+
+/**
+ * The story's title and summary history, newest first, each with a diff
+ * against the version before it
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const story = await prisma.story.findFirst({
+      where: { id, userId: session.user.id },
+      select: {
+        versions: { include: versionAuthor, orderBy: { version: "asc" } },
+      },
+    })
+
+    if (!story) {
+      return NextResponse.json({ error: "Story not found" }, { status: 404 })
+    }
+
+    const versions = story.versions.map((version, index) =>
+      serializeStoryVersion(version, story.versions[index - 1])
+    )
+
+    return NextResponse.json({ versions: versions.reverse() })
+  } catch (error) {
+    console.error("Error fetching story versions:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch story versions" },
+      { status: 500 }
+    )
+  }
+}
@@ -1,8 +1,8 @@
 import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
-import { prisma } from "@/lib/prisma"
-import { generateStory } from "@/lib/ai"
+import { enqueueJob, serializeJob } from "@/lib/jobs"
+import { TokenBudget } from "@/lib/token-budget"
 import { StoryGenre, StoryMood } from "@/generated/prisma"
 
 export async function POST(request: NextRequest) {
@@ -13,41 +13,37 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
+    const budget = await TokenBudget.forUser(session.user.id)
+    if (budget.status() === "exhausted") {
+      return NextResponse.json(
+        { error: "Monthly token budget exhausted", remaining: budget.remaining() },
+        { status: 402 }
+      )
+    }
+
     const body = await request.json()
     const { theme, genre, mood, prompt, temperature, model } = body
 
-    // Generate the story using AI
-    const generatedStory = await generateStory({
-      theme,
-      genre: genre as StoryGenre,
-      mood: mood as StoryMood,
-      prompt,
-      temperature,
-      model
-    })
-
-    // Save the story to the database
-    const story = await prisma.story.create({
-      data: {
-        title: generatedStory.title,
-        content: generatedStory.content,
-        summary: generatedStory.summary,
+    // Generation runs in the worker; the client polls or subscribes to the job
+    const job = await enqueueJob(
+      "STORY_GENERATION",
+      {
+        theme,
         genre: genre as StoryGenre,
         mood: mood as StoryMood,
-        theme,
         prompt,
-        model,
         temperature,
-        userId: session.user.id,
+        model,
       },
-    })
+      { userId: session.user.id }
+    )
 
-    return NextResponse.json({ story, generated: generatedStory })
+    return NextResponse.json({ job: serializeJob(job) }, { status: 202 })
   } catch (error) {
     console.error("Story generation error:", error)
     return NextResponse.json(
-      { error: "Failed to generate story" },
+      { error: "Failed to queue story generation" },
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
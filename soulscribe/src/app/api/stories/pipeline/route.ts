@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { enqueueJob, serializeJob } from "@/lib/jobs"
+import { TokenBudget } from "@/lib/token-budget"
+import {
+  questionnaireSchema,
+  userPreferencesSchema,
+  storyDataFromQuestionnaire,
+  toPipelineQuestionnaire,
+  toPipelinePreferences,
+} from "@/lib/questionnaire"
+import { findTemplate } from "@/lib/templates"
+import { Prisma } from "@/generated/prisma"
+
+/**
+ * Create a chapter-based story from a StoryQuestionnaire and queue the full
+ * multi-agent pipeline for it. Body: { questionnaire, userPreferences? } - a
+ * questionnaire.templateId makes the outline and chapters follow that template.
+ * Follow along with GET /api/stories/:id/progress.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    // A malformed or null body fails the questionnaire check below
+    const body = (await request.json().catch(() => ({}))) ?? {}
+    const questionnaire = questionnaireSchema.parse(body.questionnaire, "$.questionnaire")
+    const preferences = userPreferencesSchema.optional().parse(body.userPreferences, "$.userPreferences")
+
+    if ("issues" in questionnaire || "issues" in preferences) {
+      return NextResponse.json(
+        {
+          error: "Invalid questionnaire",
+          issues: [
+            ...("issues" in questionnaire ? questionnaire.issues : []),
+            ...("issues" in preferences ? preferences.issues : []),
+          ],
+        },
+        { status: 400 }
+      )
+    }
+
+    const templateId = questionnaire.data.templateId
+    const template = templateId ? await findTemplate(templateId, session.user.id) : null
+    if (templateId && !template) {
+      return NextResponse.json({ error: "Unknown story template" }, { status: 400 })
+    }
+
+    const budget = await TokenBudget.forUser(session.user.id)
+    if (budget.status() === "exhausted") {
+      return NextResponse.json(
+        { error: "Monthly token budget exhausted", remaining: budget.remaining() },
+        { status: 402 }
+      )
+    }
+
+    const userPreferences = toPipelinePreferences(preferences.data)
+    const story = await prisma.story.create({
+      data: {
+        ...storyDataFromQuestionnaire(questionnaire.data, session.user.id),
+        qualityLevel: userPreferences.qualityLevel,
+      },
+    })
+
+    const job = await enqueueJob(
+      "STORY_PIPELINE",
+      {
+        storyId: story.id,
+        questionnaire: toPipelineQuestionnaire(questionnaire.data),
+        userPreferences,
+        template,
+      } as unknown as Prisma.InputJsonValue,
+      { userId: session.user.id, storyId: story.id }
+    )
+
+    return NextResponse.json({ storyId: story.id, job: serializeJob(job) }, { status: 202 })
+  } catch (error) {
+    console.error("Story pipeline error:", error)
+    return NextResponse.json(
+      { error: "Failed to queue story pipeline" },
+      { status: 500 }
+    )
+  }
+}
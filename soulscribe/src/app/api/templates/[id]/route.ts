@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { isBuiltInTemplate } from "@/lib/story-templates"
+import { findTemplate } from "@/lib/templates"
+
+/**
+ * One story template - a built-in one or one of the user's own
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const template = await findTemplate(id, session.user.id)
+
+    if (!template) {
+      return NextResponse.json({ error: "Story template not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ template })
+  } catch (error) {
+    console.error("Error fetching story template:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch story template" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Delete one of the user's own templates. Stories already written from it keep
+ * their plan; the built-in templates can't be deleted.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    if (isBuiltInTemplate(id)) {
+      return NextResponse.json({ error: "Built-in templates can't be deleted" }, { status: 400 })
+    }
+
+    const deleted = await prisma.storyTemplate.deleteMany({
+      where: { id, userId: session.user.id },
+    })
+
+    if (deleted.count === 0) {
+      return NextResponse.json({ error: "Story template not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ message: "Story template deleted successfully" })
+  } catch (error) {
+    console.error("Error deleting story template:", error)
+    return NextResponse.json(
+      { error: "Failed to delete story template" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { storyTemplateInputSchema } from "@/lib/story-templates"
+import { createTemplate, listTemplates } from "@/lib/templates"
+
+/**
+ * Every story structure the user can pick in the questionnaire: the built-in
+ * templates first, then their own
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    return NextResponse.json({ templates: await listTemplates(session.user.id) })
+  } catch (error) {
+    console.error("Error fetching story templates:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch story templates" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Save a template of the user's own. Body: { name, description?, structure?,
+ * recommendedChapters?, acts: [{ title, arcType?, summary?, roles: [{ role,
+ * purpose, beats? }] }] }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const input = storyTemplateInputSchema.parse(body)
+
+    if ("issues" in input) {
+      return NextResponse.json({ error: "Invalid story template", issues: input.issues }, { status: 400 })
+    }
+
+    const template = await createTemplate(session.user.id, input.data)
+    return NextResponse.json({ template }, { status: 201 })
+  } catch (error) {
+    console.error("Error creating story template:", error)
+    return NextResponse.json(
+      { error: "Failed to create story template" },
+      { status: 500 }
+    )
+  }
+}
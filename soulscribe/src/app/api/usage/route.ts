@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { TokenBudget, getUsageReport, startOfMonth } from "@/lib/token-budget"
+
+/**
+ * Token spend for the signed-in user, broken down by story, agent type and model.
+ * Defaults to the current month; ?period=all covers everything and ?storyId=
+ * narrows the report to one story.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const storyId = searchParams.get("storyId") || undefined
+    const period = searchParams.get("period") === "all" ? "all" : "month"
+
+    if (storyId) {
+      const story = await prisma.story.findFirst({
+        where: { id: storyId, userId: session.user.id },
+        select: { id: true },
+      })
+
+      if (!story) {
+        return NextResponse.json({ error: "Story not found" }, { status: 404 })
+      }
+    }
+
+    const [budget, report] = await Promise.all([
+      storyId ? TokenBudget.forStory(storyId) : TokenBudget.forUser(session.user.id),
+      getUsageReport({
+        userId: session.user.id,
+        storyId,
+        since: period === "month" ? startOfMonth() : undefined,
+      }),
+    ])
+
+    return NextResponse.json({
+      period,
+      budget: { status: budget.status(), remaining: budget.remaining() },
+      ...report,
+    })
+  } catch (error) {
+    console.error("Error fetching token usage:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch token usage" },
+      { status: 500 }
+    )
+  }
+}
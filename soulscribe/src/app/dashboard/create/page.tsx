@@ -3,6 +3,7 @@
 import { useState } from "react"
 import { useRouter } from "next/navigation"
 import { StoryGenre, StoryMood } from "@/generated/prisma"
+import type { StoryModelProvider } from "@/lib/ai"
 
 export default function CreateStory() {
   const router = useRouter()
@@ -13,7 +14,7 @@ export default function CreateStory() {
     mood: "" as StoryMood | "",
     prompt: "",
     temperature: 0.7,
-    model: "openai" as "openai" | "anthropic"
+    model: "openai" as StoryModelProvider
   })
 
   const genres = [
@@ -42,6 +43,26 @@ export default function CreateStory() {
     { value: "COMFORTING", label: "Comforting" },
   ]
 
+  // Generation runs as a background job - poll until the worker finishes it
+  const waitForJob = async (jobId: string): Promise<string> => {
+    while (true) {
+      await new Promise((resolve) => setTimeout(resolve, 2000))
+
+      const response = await fetch(`/api/jobs/${jobId}`)
+      if (!response.ok) {
+        throw new Error("Failed to check generation status")
+      }
+
+      const { job } = await response.json()
+      if (job.status === "SUCCEEDED") {
+        return job.result.storyId
+      }
+      if (job.status === "FAILED" || job.status === "CANCELLED") {
+        throw new Error(job.error || `Story generation ${job.status.toLowerCase()}`)
+      }
+    }
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setLoading(true)
@@ -61,7 +82,8 @@ export default function CreateStory() {
 
       if (response.ok) {
         const data = await response.json()
-        router.push(`/dashboard/stories/${data.story.id}`)
+        const storyId = await waitForJob(data.job.id)
+        router.push(`/dashboard/stories/${storyId}`)
       } else {
         const error = await response.json()
         alert(error.error || "Failed to generate story")
@@ -144,11 +166,12 @@ export default function CreateStory() {
                 </label>
                 <select
                   value={formData.model}
-                  onChange={(e) => setFormData({ ...formData, model: e.target.value as "openai" | "anthropic" })}
+                  onChange={(e) => setFormData({ ...formData, model: e.target.value as StoryModelProvider })}
                   className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 dark:bg-gray-700 dark:text-white"
                 >
                   <option value="openai">OpenAI GPT-4</option>
                   <option value="anthropic">Anthropic Claude</option>
+                  <option value="local">Local Model (Ollama / llama.cpp)</option>
                 </select>
               </div>
             </div>
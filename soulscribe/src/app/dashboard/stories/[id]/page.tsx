@@ -3,17 +3,29 @@
 import { useEffect, useState } from "react"
 import { useParams, useRouter } from "next/navigation"
 import { StoryGenre, StoryMood, StoryStatus } from "@/generated/prisma"
+import { ChapterRevisionPanel, PassageSelection, RevisedChapter } from "@/components/chapter-revision-panel"
+import { ChapterHistoryPanel } from "@/components/chapter-history-panel"
+import { BeatSheetEditor } from "@/components/beat-sheet-editor"
 
-interface Story {
+interface Chapter {
   id: string
+  number: number
   title: string
   content: string
+  revision: number
+}
+
+interface Story {
+  id: string
+  title: string
+  chapters: Chapter[]
   summary: string
   genre: StoryGenre | null
   mood: StoryMood | null
   theme: string | null
   status: StoryStatus
   isPublic: boolean
+  generationStatus: string
   createdAt: string
   updatedAt: string
   prompt: string | null
@@ -21,12 +33,45 @@ interface Story {
   temperature: number | null
 }
 
+// Each line with its character offset in the chapter, so selections map back to the text
+function linesWithOffsets(content: string): Array<{ text: string; offset: number }> {
+  let offset = 0
+  return content.split("\n").map((text) => {
+    const line = { text, offset }
+    offset += text.length + 1
+    return line
+  })
+}
+
+function selectedPassage(chapter: Chapter, container: HTMLElement): PassageSelection | null {
+  const selection = window.getSelection()
+  if (!selection || selection.isCollapsed || selection.rangeCount === 0) return null
+
+  const range = selection.getRangeAt(0)
+  const toOffset = (node: Node, offset: number) => {
+    const element = node.nodeType === Node.TEXT_NODE ? node.parentElement : (node as Element)
+    const line = element?.closest<HTMLElement>("[data-offset]")
+    if (!line || !container.contains(line)) return null
+    return Number(line.dataset.offset) + (node.nodeType === Node.TEXT_NODE ? offset : 0)
+  }
+
+  const start = toOffset(range.startContainer, range.startOffset)
+  const end = toOffset(range.endContainer, range.endOffset)
+  if (start === null || end === null || end <= start) return null
+
+  const text = chapter.content.slice(start, end)
+  return text.trim() ? { chapterNumber: chapter.number, start, end, text } : null
+}
+
 export default function StoryPage() {
   const params = useParams()
   const router = useRouter()
   const [story, setStory] = useState<Story | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [selection, setSelection] = useState<PassageSelection | null>(null)
+  const [historyChapter, setHistoryChapter] = useState<Chapter | null>(null)
+  const [showBeatSheet, setShowBeatSheet] = useState(false)
 
   useEffect(() => {
     const fetchStory = async () => {
@@ -35,6 +80,8 @@ export default function StoryPage() {
         if (response.ok) {
           const data = await response.json()
           setStory(data.story)
+          // A paused pipeline is waiting for the author to approve the plan
+          setShowBeatSheet(data.story.generationStatus === "outline_review")
         } else {
           setError("Story not found")
         }
@@ -92,6 +139,27 @@ export default function StoryPage() {
     }
   }
 
+  const updateChapter = (revised: RevisedChapter) => {
+    setStory((current) => current && {
+      ...current,
+      chapters: current.chapters.map((chapter) =>
+        chapter.id === revised.id
+          ? { ...chapter, title: revised.title, content: revised.content, revision: revised.revision }
+          : chapter
+      ),
+    })
+  }
+
+  const handleRevisionAccepted = (revised: RevisedChapter) => {
+    updateChapter(revised)
+    setSelection(null)
+  }
+
+  const handleRevisionRestored = (restored: RevisedChapter) => {
+    updateChapter(restored)
+    setHistoryChapter((current) => current && { ...current, revision: restored.revision })
+  }
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
@@ -129,6 +197,12 @@ export default function StoryPage() {
             ← Back to Dashboard
           </button>
           <div className="flex items-center gap-4">
+            <button
+              onClick={() => setShowBeatSheet(true)}
+              className="text-purple-600 hover:text-purple-700 dark:text-purple-400 dark:hover:text-purple-300"
+            >
+              Beat sheet
+            </button>
             <select
               value={story.status}
               onChange={(e) => handleStatusChange(e.target.value as StoryStatus)}
@@ -147,6 +221,22 @@ export default function StoryPage() {
           </div>
         </div>
 
+        {showBeatSheet && (
+          <div className="mb-6">
+            <BeatSheetEditor
+              storyId={story.id}
+              onApproved={() => {
+                setStory((current) => current && {
+                  ...current,
+                  generationStatus: current.generationStatus === "outline_review" ? "writing" : current.generationStatus,
+                })
+                setShowBeatSheet(false)
+              }}
+              onClose={() => setShowBeatSheet(false)}
+            />
+          </div>
+        )}
+
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
           <div className="p-8">
             <div className="flex flex-wrap gap-2 mb-6">
@@ -172,10 +262,39 @@ export default function StoryPage() {
             </h1>
 
             <div className="prose prose-lg max-w-none dark:prose-invert">
-              {story.content.split('\n').map((paragraph, index) => (
-                <p key={index} className="mb-4">
-                  {paragraph}
-                </p>
+              {story.chapters.map((chapter) => (
+                <section
+                  key={chapter.id}
+                  onMouseUp={(e) => {
+                    const passage = selectedPassage(chapter, e.currentTarget)
+                    if (passage) {
+                      setHistoryChapter(null)
+                      setSelection(passage)
+                    }
+                  }}
+                >
+                  <div className="flex items-baseline justify-between">
+                    {story.chapters.length > 1 && (
+                      <h2 className="text-2xl font-semibold mb-4">
+                        {chapter.number}. {chapter.title}
+                      </h2>
+                    )}
+                    <button
+                      onClick={() => {
+                        setSelection(null)
+                        setHistoryChapter(chapter)
+                      }}
+                      className="ml-auto text-sm text-purple-600 hover:text-purple-700 dark:text-purple-400 dark:hover:text-purple-300"
+                    >
+                      History (revision {chapter.revision})
+                    </button>
+                  </div>
+                  {linesWithOffsets(chapter.content).map((line) => (
+                    <p key={line.offset} data-offset={line.offset} className="mb-4">
+                      {line.text}
+                    </p>
+                  ))}
+                </section>
               ))}
             </div>
 
@@ -202,6 +321,37 @@ export default function StoryPage() {
           </div>
         </div>
 
+        {selection && (
+          <div className="mt-6 sticky bottom-4">
+            <ChapterRevisionPanel
+              key={`${selection.chapterNumber}:${selection.start}:${selection.end}`}
+              storyId={story.id}
+              selection={selection}
+              onAccepted={handleRevisionAccepted}
+              onClose={() => setSelection(null)}
+            />
+          </div>
+        )}
+
+        {historyChapter && (
+          <div className="mt-6 sticky bottom-4">
+            <ChapterHistoryPanel
+              key={historyChapter.id}
+              storyId={story.id}
+              chapterNumber={historyChapter.number}
+              revision={historyChapter.revision}
+              onRestored={handleRevisionRestored}
+              onClose={() => setHistoryChapter(null)}
+            />
+          </div>
+        )}
+
+        {!selection && !historyChapter && story.chapters.length > 0 && (
+          <p className="mt-4 text-sm text-gray-500 dark:text-gray-400">
+            Select a passage to ask for a rewrite.
+          </p>
+        )}
+
         {story.summary && (
           <div className="mt-6 bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
             <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">
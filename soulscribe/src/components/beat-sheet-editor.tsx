@@ -0,0 +1,310 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { BeatSheet, BeatSheetChapter } from "@/lib/beat-sheet"
+
+const inputClass =
+  "w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white text-sm"
+const linkClass =
+  "text-purple-600 hover:text-purple-700 dark:text-purple-400 dark:hover:text-purple-300 disabled:opacity-50"
+
+function splitNames(value: string): string[] {
+  return value.split(",").map((name) => name.trim()).filter(Boolean)
+}
+
+// Swap an item with its neighbour; out-of-range moves leave the list as it is
+function move<T>(items: T[], index: number, offset: number): T[] {
+  const target = index + offset
+  if (target < 0 || target >= items.length) return items
+  const moved = [...items]
+  ;[moved[index], moved[target]] = [moved[target], moved[index]]
+  return moved
+}
+
+/**
+ * The story's plan before the chapters are written: edit acts, chapters and beats,
+ * reorder them, lock what should survive a regenerate, then approve to start writing
+ */
+export function BeatSheetEditor({
+  storyId,
+  onApproved,
+  onClose,
+}: {
+  storyId: string
+  onApproved: () => void
+  onClose: () => void
+}) {
+  const [beatSheet, setBeatSheet] = useState<BeatSheet | null>(null)
+  const [approvedAt, setApprovedAt] = useState<string | null>(null)
+  const [awaitingReview, setAwaitingReview] = useState(false)
+  const [guidance, setGuidance] = useState("")
+  const [dirty, setDirty] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const beatsUrl = `/api/stories/${storyId}/beats`
+
+  const applyResponse = (data: { beatSheet: BeatSheet | null; approvedAt: string | null; awaitingReview: boolean }) => {
+    setBeatSheet(data.beatSheet)
+    setApprovedAt(data.approvedAt)
+    setAwaitingReview(data.awaitingReview)
+    setDirty(false)
+  }
+
+  useEffect(() => {
+    const fetchBeatSheet = async () => {
+      try {
+        const response = await fetch(beatsUrl)
+        const data = await response.json()
+
+        if (response.ok) {
+          applyResponse(data)
+        } else {
+          setError(data.error || "Failed to load the beat sheet")
+        }
+      } catch (error) {
+        console.error("Error fetching beat sheet:", error)
+        setError("An error occurred while loading the beat sheet")
+      }
+    }
+
+    fetchBeatSheet()
+  }, [beatsUrl])
+
+  const send = async (method: "PUT" | "POST", url: string, body: unknown, failure: string): Promise<boolean> => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || failure)
+        return false
+      }
+      if (data.beatSheet !== undefined) applyResponse(data)
+      return true
+    } catch (error) {
+      console.error("Error updating beat sheet:", error)
+      setError(`An error occurred: ${failure.toLowerCase()}`)
+      return false
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSave = () => send("PUT", beatsUrl, { beatSheet }, "Failed to save the beat sheet")
+
+  const handleRegenerate = () => {
+    if (dirty && !confirm("Regenerating drops unsaved edits. Locked chapters and beats are kept. Continue?")) return
+    send("POST", beatsUrl, { guidance: guidance || undefined }, "Failed to regenerate the beat sheet")
+  }
+
+  const handleApprove = async () => {
+    if (dirty && !(await handleSave())) return
+    if (await send("POST", `${beatsUrl}/approve`, {}, "Failed to approve the beat sheet")) {
+      onApproved()
+    }
+  }
+
+  const handleSaveTemplate = async () => {
+    const name = prompt("Name this story shape so you can start new stories from it")
+    if (!name?.trim()) return
+    if (await send("POST", `/api/stories/${storyId}/template`, { name }, "Failed to save the template")) {
+      alert(`Saved "${name.trim()}" to your story templates.`)
+    }
+  }
+
+  const updateChapter = (actIndex: number, chapterIndex: number, change: (chapter: BeatSheetChapter) => BeatSheetChapter) => {
+    setBeatSheet((current) => current && {
+      acts: current.acts.map((act, a) => a !== actIndex ? act : {
+        ...act,
+        chapters: act.chapters.map((chapter, c) => c === chapterIndex ? change(chapter) : chapter),
+      }),
+    })
+    setDirty(true)
+  }
+
+  const moveChapter = (actIndex: number, chapterIndex: number, offset: number) => {
+    setBeatSheet((current) => current && {
+      acts: current.acts.map((act, a) => a !== actIndex ? act : { ...act, chapters: move(act.chapters, chapterIndex, offset) }),
+    })
+    setDirty(true)
+  }
+
+  if (!beatSheet) {
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-purple-200 dark:border-purple-800 p-6">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {error || "The beat sheet is drafted once SoulScribe has written the table of contents."}
+        </p>
+        <button onClick={onClose} className={`${linkClass} mt-3 text-sm`}>Close</button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-purple-200 dark:border-purple-800 p-6">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Beat sheet</h3>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200">
+          Close
+        </button>
+      </div>
+
+      <p className="mb-4 text-sm text-gray-600 dark:text-gray-400">
+        {awaitingReview
+          ? "SoulScribe is waiting for you: shape the plan, then approve it to start writing the chapters."
+          : approvedAt
+          ? `Approved ${new Date(approvedAt).toLocaleString()}. Edits apply to chapters written or regenerated from now on.`
+          : "Chapters are written from this plan. Locked chapters and beats survive a regenerate."}
+      </p>
+
+      <div className="space-y-6 max-h-[32rem] overflow-y-auto">
+        {beatSheet.acts.map((act, actIndex) => (
+          <section key={act.id}>
+            <h4 className="font-semibold text-purple-700 dark:text-purple-300 mb-2">
+              Act {act.number}: {act.title}
+              {act.summary && <span className="ml-2 font-normal text-gray-500 dark:text-gray-400">{act.summary}</span>}
+            </h4>
+
+            {act.chapters.map((chapter, chapterIndex) => (
+              <div key={chapter.id} className="mb-4 p-3 rounded-md border border-gray-200 dark:border-gray-700">
+                <div className="flex items-center gap-2 mb-2">
+                  <span className="text-sm font-medium text-gray-500">{chapter.number}.</span>
+                  <input
+                    value={chapter.title}
+                    disabled={chapter.locked}
+                    onChange={(e) => updateChapter(actIndex, chapterIndex, (c) => ({ ...c, title: e.target.value }))}
+                    className={inputClass}
+                  />
+                  <button onClick={() => moveChapter(actIndex, chapterIndex, -1)} className={`${linkClass} text-sm`} title="Move up">↑</button>
+                  <button onClick={() => moveChapter(actIndex, chapterIndex, 1)} className={`${linkClass} text-sm`} title="Move down">↓</button>
+                  <label className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400">
+                    <input
+                      type="checkbox"
+                      checked={chapter.locked}
+                      onChange={(e) => updateChapter(actIndex, chapterIndex, (c) => ({ ...c, locked: e.target.checked }))}
+                    />
+                    Locked
+                  </label>
+                </div>
+
+                <textarea
+                  value={chapter.summary}
+                  disabled={chapter.locked}
+                  placeholder="What happens in this chapter"
+                  onChange={(e) => updateChapter(actIndex, chapterIndex, (c) => ({ ...c, summary: e.target.value }))}
+                  className={`${inputClass} mb-2`}
+                  rows={2}
+                />
+                <div className="grid grid-cols-2 gap-2 mb-2">
+                  <input
+                    value={chapter.lesson}
+                    disabled={chapter.locked}
+                    placeholder="Lesson"
+                    onChange={(e) => updateChapter(actIndex, chapterIndex, (c) => ({ ...c, lesson: e.target.value }))}
+                    className={inputClass}
+                  />
+                  <input
+                    key={chapter.characters.join(",")}
+                    defaultValue={chapter.characters.join(", ")}
+                    disabled={chapter.locked}
+                    placeholder="Characters, comma separated"
+                    onBlur={(e) => updateChapter(actIndex, chapterIndex, (c) => ({ ...c, characters: splitNames(e.target.value) }))}
+                    className={inputClass}
+                  />
+                </div>
+
+                <ol className="space-y-1">
+                  {chapter.beats.map((beat, beatIndex) => (
+                    <li key={beat.id} className="flex items-center gap-2">
+                      <span className="text-xs text-gray-400 w-4">{beatIndex + 1}</span>
+                      <input
+                        value={beat.description}
+                        disabled={chapter.locked || beat.locked}
+                        onChange={(e) => updateChapter(actIndex, chapterIndex, (c) => ({
+                          ...c,
+                          beats: c.beats.map((b, i) => i === beatIndex ? { ...b, description: e.target.value } : b),
+                        }))}
+                        className={inputClass}
+                      />
+                      <button
+                        onClick={() => updateChapter(actIndex, chapterIndex, (c) => ({ ...c, beats: move(c.beats, beatIndex, -1) }))}
+                        disabled={chapter.locked}
+                        className={`${linkClass} text-xs`}
+                        title="Move up"
+                      >
+                        ↑
+                      </button>
+                      <button
+                        onClick={() => updateChapter(actIndex, chapterIndex, (c) => ({
+                          ...c,
+                          beats: c.beats.map((b, i) => i === beatIndex ? { ...b, locked: !b.locked } : b),
+                        }))}
+                        disabled={chapter.locked}
+                        className={`${linkClass} text-xs`}
+                      >
+                        {beat.locked ? "Unlock" : "Lock"}
+                      </button>
+                      <button
+                        onClick={() => updateChapter(actIndex, chapterIndex, (c) => ({ ...c, beats: c.beats.filter((_, i) => i !== beatIndex) }))}
+                        disabled={chapter.locked || beat.locked}
+                        className="text-xs text-red-600 hover:text-red-700 dark:text-red-400 disabled:opacity-50"
+                      >
+                        Remove
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+                {!chapter.locked && (
+                  <button
+                    onClick={() => updateChapter(actIndex, chapterIndex, (c) => ({
+                      ...c,
+                      beats: [...c.beats, { id: crypto.randomUUID(), description: "New beat", characters: [], locked: false }],
+                    }))}
+                    className={`${linkClass} mt-2 text-xs`}
+                  >
+                    + Add beat
+                  </button>
+                )}
+              </div>
+            ))}
+          </section>
+        ))}
+      </div>
+
+      {error && <p className="mt-3 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <div className="mt-4 flex flex-wrap items-center gap-3">
+        <input
+          value={guidance}
+          onChange={(e) => setGuidance(e.target.value)}
+          placeholder="Direction for a new draft (optional)"
+          className={`${inputClass} flex-1 min-w-[12rem]`}
+        />
+        <button onClick={handleRegenerate} disabled={loading} className={`${linkClass} text-sm`}>
+          Regenerate
+        </button>
+        <button onClick={handleSave} disabled={loading || !dirty} className={`${linkClass} text-sm`}>
+          Save
+        </button>
+        <button onClick={handleSaveTemplate} disabled={loading || dirty} className={`${linkClass} text-sm`}>
+          Save as template
+        </button>
+        <button
+          onClick={handleApprove}
+          disabled={loading}
+          className="px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:opacity-50 text-sm"
+        >
+          {awaitingReview ? "Approve and write chapters" : "Approve"}
+        </button>
+      </div>
+    </div>
+  )
+}
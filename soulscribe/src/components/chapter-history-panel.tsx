@@ -0,0 +1,206 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { DiffSegment, DiffStats } from "@/lib/text-diff"
+import { AGENT_LABELS, DiffText, RevisedChapter } from "@/components/chapter-revision-panel"
+
+interface Version {
+  revision: number
+  title: string
+  source: "original" | "agent" | "human" | "rollback"
+  agentType: string | null
+  user: { id: string; name: string | null } | null
+  note: string | null
+  createdAt: string
+}
+
+interface Comparison {
+  diff: DiffSegment[]
+  stats: DiffStats
+}
+
+function versionAuthor(version: Version): string {
+  if (version.source === "original") return "Original text"
+  if (version.source === "rollback") return `Rollback by ${version.user?.name || "you"}`
+  if (version.source === "human") return `Edited by ${version.user?.name || "you"}`
+  const agent = version.agentType ? AGENT_LABELS[version.agentType] || version.agentType : "SoulScribe"
+  return version.user ? `${agent}, accepted by ${version.user.name || "you"}` : agent
+}
+
+/**
+ * Every kept revision of a chapter: compare any two as a diff and restore an
+ * earlier one with a click (the restore is saved as a new revision)
+ */
+export function ChapterHistoryPanel({
+  storyId,
+  chapterNumber,
+  revision,
+  onRestored,
+  onClose,
+}: {
+  storyId: string
+  chapterNumber: number
+  revision: number
+  onRestored: (chapter: RevisedChapter) => void
+  onClose: () => void
+}) {
+  const [versions, setVersions] = useState<Version[]>([])
+  const [from, setFrom] = useState(revision - 1)
+  const [to, setTo] = useState(revision)
+  const [comparison, setComparison] = useState<Comparison | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const versionsUrl = `/api/stories/${storyId}/chapters/${chapterNumber}/versions`
+
+  useEffect(() => {
+    const fetchVersions = async () => {
+      try {
+        const response = await fetch(versionsUrl)
+        const data = await response.json()
+
+        if (response.ok) {
+          setVersions(data.versions)
+        } else {
+          setError(data.error || "Failed to load the chapter history")
+        }
+      } catch (error) {
+        console.error("Error fetching chapter versions:", error)
+        setError("An error occurred while loading the chapter history")
+      }
+    }
+
+    fetchVersions()
+  }, [versionsUrl, revision])
+
+  useEffect(() => {
+    if (from < 1 || from === to) {
+      setComparison(null)
+      return
+    }
+
+    const fetchDiff = async () => {
+      try {
+        const response = await fetch(`${versionsUrl}/diff?from=${from}&to=${to}`)
+        const data = await response.json()
+
+        if (response.ok) {
+          setComparison(data)
+        } else {
+          setError(data.error || "Failed to compare revisions")
+        }
+      } catch (error) {
+        console.error("Error diffing chapter versions:", error)
+        setError("An error occurred while comparing revisions")
+      }
+    }
+
+    fetchDiff()
+  }, [versionsUrl, from, to])
+
+  const handleRestore = async (target: number) => {
+    if (!confirm(`Restore revision ${target}? The current text stays in the history.`)) return
+    setLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`${versionsUrl}/${target}/rollback`, { method: "POST" })
+      const data = await response.json()
+
+      if (response.ok) {
+        onRestored(data.chapter)
+        setFrom(target)
+        setTo(data.chapter.revision)
+      } else {
+        setError(data.error || "Failed to restore the revision")
+      }
+    } catch (error) {
+      console.error("Error rolling back chapter:", error)
+      setError("An error occurred while restoring the revision")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const revisionOptions = versions.map((version) => (
+    <option key={version.revision} value={version.revision}>
+      Revision {version.revision}
+    </option>
+  ))
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-purple-200 dark:border-purple-800 p-6">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+          History of chapter {chapterNumber}
+        </h3>
+        <button
+          onClick={onClose}
+          className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+        >
+          Close
+        </button>
+      </div>
+
+      <ul className="mb-4 max-h-48 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+        {versions.map((version) => (
+          <li key={version.revision} className="flex items-center justify-between py-2 text-sm">
+            <span className="text-gray-700 dark:text-gray-300">
+              <span className="font-medium">{version.revision}.</span> {versionAuthor(version)}
+              {version.note && ` - ${version.note}`}
+              <span className="ml-2 text-gray-400">{new Date(version.createdAt).toLocaleString()}</span>
+            </span>
+            {version.revision === revision ? (
+              <span className="text-xs text-purple-600 dark:text-purple-400">current</span>
+            ) : (
+              <button
+                onClick={() => handleRestore(version.revision)}
+                disabled={loading}
+                className="text-purple-600 hover:text-purple-700 dark:text-purple-400 dark:hover:text-purple-300 disabled:opacity-50"
+              >
+                Restore
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {versions.length > 1 && (
+        <>
+          <div className="flex items-center gap-3 mb-3 text-sm text-gray-700 dark:text-gray-300">
+            Compare
+            <select
+              value={from}
+              onChange={(e) => setFrom(Number(e.target.value))}
+              className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+            >
+              {revisionOptions}
+            </select>
+            with
+            <select
+              value={to}
+              onChange={(e) => setTo(Number(e.target.value))}
+              className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+            >
+              {revisionOptions}
+            </select>
+            {comparison && (
+              <span className="text-gray-500 dark:text-gray-400">
+                +{comparison.stats.insertedWords} / -{comparison.stats.deletedWords} words
+              </span>
+            )}
+          </div>
+          {comparison && (
+            <div className="max-h-96 overflow-y-auto whitespace-pre-line text-gray-800 dark:text-gray-200 leading-relaxed">
+              <DiffText segments={comparison.diff} />
+            </div>
+          )}
+        </>
+      )}
+
+      {error && (
+        <p className="mt-3 text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,208 @@
+"use client"
+
+import { useState } from "react"
+import type { DiffSegment } from "@/lib/text-diff"
+
+export interface PassageSelection {
+  chapterNumber: number
+  start: number
+  end: number
+  text: string
+}
+
+export interface RevisedChapter {
+  id: string
+  number: number
+  title: string
+  content: string
+  revision: number
+}
+
+interface Proposal {
+  id: string
+  revised: string
+  rationale: string
+  agentType: string
+  diff: DiffSegment[]
+}
+
+export const AGENT_LABELS: Record<string, string> = {
+  soulscribe: "SoulScribe",
+  story_generator: "SoulScribe",
+  metaphor_architect: "Metaphor Architect",
+  character_soul: "Character Soul",
+  wisdom_weaver: "Wisdom Weaver",
+  quality_guardian: "Quality Guardian",
+  content_parser: "Content Parser",
+}
+
+/**
+ * A word-level diff with insertions and deletions marked inline
+ */
+export function DiffText({ segments }: { segments: DiffSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.type === "insert" ? (
+          <ins key={index} className="bg-green-100 text-green-900 dark:bg-green-900 dark:text-green-100 no-underline">
+            {segment.text}
+          </ins>
+        ) : segment.type === "delete" ? (
+          <del key={index} className="bg-red-100 text-red-900 dark:bg-red-900 dark:text-red-100">
+            {segment.text}
+          </del>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  )
+}
+
+/**
+ * Rewrite a selected passage: the author gives an instruction, reviews the
+ * proposed change as a diff, then accepts it into the chapter or rejects it
+ */
+export function ChapterRevisionPanel({
+  storyId,
+  selection,
+  onAccepted,
+  onClose,
+}: {
+  storyId: string
+  selection: PassageSelection
+  onAccepted: (chapter: RevisedChapter) => void
+  onClose: () => void
+}) {
+  const [instruction, setInstruction] = useState("")
+  const [proposal, setProposal] = useState<Proposal | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const revisionsUrl = `/api/stories/${storyId}/chapters/${selection.chapterNumber}/revisions`
+
+  const handlePropose = async () => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(revisionsUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ start: selection.start, end: selection.end, instruction }),
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        setProposal(data.proposal)
+      } else {
+        setError(data.error || "Failed to propose a revision")
+      }
+    } catch (error) {
+      console.error("Error proposing revision:", error)
+      setError("An error occurred while proposing a revision")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDecision = async (action: "accept" | "reject") => {
+    if (!proposal) return
+    setLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`${revisionsUrl}/${proposal.id}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ action }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || `Failed to ${action} the revision`)
+      } else if (action === "accept") {
+        onAccepted(data.chapter)
+      } else {
+        setProposal(null)
+      }
+    } catch (error) {
+      console.error(`Error trying to ${action} revision:`, error)
+      setError(`An error occurred while trying to ${action} the revision`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-purple-200 dark:border-purple-800 p-6">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+          Revise passage in chapter {selection.chapterNumber}
+        </h3>
+        <button
+          onClick={onClose}
+          className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+        >
+          Close
+        </button>
+      </div>
+
+      {proposal ? (
+        <>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">
+            {AGENT_LABELS[proposal.agentType] || proposal.agentType}
+            {proposal.rationale && ` - ${proposal.rationale}`}
+          </p>
+          <div className="whitespace-pre-line text-gray-800 dark:text-gray-200 mb-4 leading-relaxed">
+            <DiffText segments={proposal.diff} />
+          </div>
+          <div className="flex gap-3">
+            <button
+              onClick={() => handleDecision("accept")}
+              disabled={loading}
+              className="px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:opacity-50"
+            >
+              Accept
+            </button>
+            <button
+              onClick={() => handleDecision("reject")}
+              disabled={loading}
+              className="px-4 py-2 text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+            >
+              Reject
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          <blockquote className="border-l-4 border-purple-300 pl-4 italic text-gray-600 dark:text-gray-400 mb-4 whitespace-pre-line">
+            {selection.text}
+          </blockquote>
+          <textarea
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            placeholder="e.g. Make this gentler for a 6-year-old, or add more dialogue for Mira"
+            rows={3}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 dark:bg-gray-700 dark:text-white mb-3"
+          />
+          <button
+            onClick={handlePropose}
+            disabled={loading || instruction.trim().length < 3}
+            className="px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:opacity-50"
+          >
+            {loading ? "Rewriting..." : "Propose rewrite"}
+          </button>
+        </>
+      )}
+
+      {error && (
+        <p className="mt-3 text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </div>
+  )
+}
@@ -1,4 +1,15 @@
 import { StoryGenre, StoryMood } from "@/generated/prisma"
+import { getProvider } from "@/lib/llm-providers"
+import { schema, parseStructuredOutput, StructuredOutputError } from "@/lib/agent-schemas"
+
+export type StoryModelProvider = "openai" | "anthropic" | "local"
+
+// The one-shot generator keeps its lighter models; agents resolve theirs per AgentType
+const STORY_MODELS: Record<StoryModelProvider, string | undefined> = {
+  openai: "gpt-4o-mini",
+  anthropic: "claude-3-haiku-20240307",
+  local: undefined,
+}
 
 export interface StoryGenerationRequest {
   theme?: string
@@ -6,15 +17,27 @@ export interface StoryGenerationRequest {
   mood?: StoryMood
   prompt?: string
   temperature?: number
-  model?: "openai" | "anthropic"
+  model?: StoryModelProvider
 }
 
 export interface StoryGenerationResponse {
   title: string
   content: string
   summary: string
+  usage: {
+    provider: StoryModelProvider
+    model: string
+    promptTokens: number
+    completionTokens: number
+  }
 }
 
+const storyResponseSchema = schema.object({
+  title: schema.string({ minLength: 1 }),
+  content: schema.string({ minLength: 1 }),
+  summary: schema.string(),
+})
+
 export async function generateStory({
   theme,
   genre,
@@ -36,10 +59,28 @@ Create stories that are approximately 500-1000 words in length.`
 
   const userPrompt = buildUserPrompt({ theme, genre, mood, prompt })
 
-  if (model === "openai") {
-    return await generateWithOpenAI(systemPrompt, userPrompt, temperature)
-  } else {
-    return await generateWithAnthropic(systemPrompt, userPrompt, temperature)
+  const provider = getProvider(model)
+  const completion = await provider.complete({
+    model: STORY_MODELS[model] || provider.defaultModel,
+    system: systemPrompt,
+    messages: [{ role: "user", content: userPrompt }],
+    temperature,
+    maxTokens: 2000,
+    jsonMode: true,
+  })
+
+  const result = parseStructuredOutput(completion.content, storyResponseSchema)
+  if ("issues" in result) {
+    throw new StructuredOutputError("story_generator", result.issues, completion.content, 1)
+  }
+  return {
+    ...result.data,
+    usage: {
+      provider: model,
+      model: completion.model,
+      promptTokens: completion.promptTokens,
+      completionTokens: completion.completionTokens,
+    },
   }
 }
 
@@ -76,64 +117,3 @@ Please respond with a JSON object containing:
 
   return userPrompt
 }
-
-async function generateWithOpenAI(
-  systemPrompt: string,
-  userPrompt: string,
-  temperature: number
-): Promise<StoryGenerationResponse> {
-  const response = await fetch("https://api.openai.com/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-    },
-    body: JSON.stringify({
-      model: "gpt-4o-mini",
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt },
-      ],
-      temperature,
-      response_format: { type: "json_object" }
-    }),
-  })
-
-  if (!response.ok) {
-    throw new Error(`OpenAI API error: ${response.statusText}`)
-  }
-
-  const data = await response.json()
-  return JSON.parse(data.choices[0].message.content)
-}
-
-async function generateWithAnthropic(
-  systemPrompt: string,
-  userPrompt: string,
-  temperature: number
-): Promise<StoryGenerationResponse> {
-  const response = await fetch("https://api.anthropic.com/v1/messages", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "x-api-key": process.env.ANTHROPIC_API_KEY!,
-      "anthropic-version": "2023-06-01",
-    },
-    body: JSON.stringify({
-      model: "claude-3-haiku-20240307",
-      max_tokens: 2000,
-      temperature,
-      system: systemPrompt,
-      messages: [
-        { role: "user", content: userPrompt },
-      ],
-    }),
-  })
-
-  if (!response.ok) {
-    throw new Error(`Anthropic API error: ${response.statusText}`)
-  }
-
-  const data = await response.json()
-  return JSON.parse(data.content[0].text)
-}
\ No newline at end of file
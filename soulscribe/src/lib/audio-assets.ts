@@ -0,0 +1,183 @@
+import { promises as fs } from "fs"
+import path from "path"
+import { prisma } from "@/lib/prisma"
+import { getAudioStorage, sha256Hex } from "@/lib/audio-storage"
+import { saveChapterAlignment } from "@/lib/chapter-alignment"
+import { ChapterAudioResult } from "@/agents/voice-backend"
+import { AudioAsset, Chapter, Prisma, Story } from "@/generated/prisma"
+
+/**
+ * Narration kept for good: a voiced chapter (or a clip or joined file from an
+ * audio job) copied from the backend's scratch files into audio storage, the
+ * AudioAsset rows that track it, and the URL the player streams it from. Files
+ * are stored by checksum, so voicing the same text twice stores it once.
+ */
+
+const CONTENT_TYPES: { [extension: string]: string } = {
+  ".wav": "audio/wav",
+  ".mp3": "audio/mpeg",
+  ".ogg": "audio/ogg",
+}
+
+type StoredFile = Pick<AudioAsset, "contentType" | "byteSize" | "checksum" | "storageKey">
+
+export type AudioFileKind = "clip" | "combined" | "audiobook"
+
+export function audioAssetUrl(assetId: string): string {
+  return `/api/audio/${assetId}`
+}
+
+/**
+ * The asset an audioAssetUrl points at - null for any other URL
+ */
+export function audioAssetIdFromUrl(url: string): string | null {
+  const match = url.match(/\/api\/audio\/([^/?#]+)(?:[?#].*)?$/)
+  return match ? decodeURIComponent(match[1]) : null
+}
+
+/**
+ * Audio a user may play: their own, and anything from a public story
+ */
+export function playableBy(userId: string): Prisma.AudioAssetWhereInput {
+  return { OR: [{ userId }, { story: { isPublic: true } }] }
+}
+
+/**
+ * A chapter as the chapter views read it - with audioUrl when it has narration
+ */
+export function withAudioUrl<C extends Pick<Chapter, "audioAssetId">>(chapter: C): C & { audioUrl: string | null } {
+  return { ...chapter, audioUrl: chapter.audioAssetId ? audioAssetUrl(chapter.audioAssetId) : null }
+}
+
+/**
+ * Store a chapter the voice backend has just rendered: the full chapter file and
+ * every segment, with the word timings for read-along. Replaces the chapter's
+ * earlier narration and removes files nothing else uses.
+ */
+export async function storeChapterAudio(
+  chapter: Pick<Chapter, "id" | "storyId" | "number" | "revision" | "content"> & { story: Pick<Story, "userId"> },
+  result: ChapterAudioResult,
+  engine: string
+): Promise<AudioAsset> {
+  if (!result.success || !result.fullChapterAudioPath) {
+    throw new Error(result.error || `Chapter ${chapter.number} has no audio to store`)
+  }
+
+  const prefix = `stories/${chapter.storyId}/chapter-${chapter.number}`
+  const full = await storeFile(result.fullChapterAudioPath, prefix)
+  const segmentFiles: StoredFile[] = []
+  for (const segment of result.audioSegments) {
+    segmentFiles.push(await storeFile(segment.audioPath, prefix))
+  }
+
+  const lastSegment = result.audioSegments[result.audioSegments.length - 1]
+  const durationMs = Math.round(lastSegment.startTime + lastSegment.duration)
+  const previous = await prisma.audioAsset.findMany({
+    where: { chapterId: chapter.id },
+    select: { id: true, storageKey: true },
+  })
+
+  const owner = { userId: chapter.story.userId, storyId: chapter.storyId, chapterId: chapter.id }
+  const narration = await prisma.$transaction(async (tx) => {
+    const asset = await tx.audioAsset.create({
+      data: { ...owner, kind: "chapter", revision: chapter.revision, engine, durationMs, ...full },
+    })
+    await tx.audioAsset.createMany({
+      data: result.audioSegments.map((segment, segmentIndex) => ({
+        ...owner,
+        kind: "segment",
+        revision: chapter.revision,
+        segmentIndex,
+        speaker: segment.speaker,
+        voiceProfile: segment.voiceProfile,
+        engine,
+        startTime: Math.round(segment.startTime),
+        durationMs: Math.round(segment.duration),
+        ...segmentFiles[segmentIndex],
+      })),
+    })
+    await tx.chapter.update({
+      where: { id: chapter.id },
+      data: { audioAssetId: asset.id, audioRevision: chapter.revision, audioDurationMs: durationMs },
+    })
+    await tx.audioAsset.deleteMany({ where: { id: { in: previous.map((old) => old.id) } } })
+    return asset
+  })
+
+  await removeUnusedAudio(previous.map((old) => old.storageKey))
+
+  if (result.words) {
+    await saveChapterAlignment(chapter, { engine, durationMs, words: result.words })
+  }
+
+  return narration
+}
+
+/**
+ * Store one file an audio job has made, for its owner and - when it belongs to
+ * one - a story
+ */
+export async function storeAudioFile(
+  filePath: string,
+  asset: {
+    kind: AudioFileKind
+    userId: string
+    storyId?: string
+    engine: string
+    durationMs: number
+    speaker?: string
+    voiceProfile?: string
+  }
+): Promise<AudioAsset> {
+  const prefix = asset.storyId ? `stories/${asset.storyId}/${asset.kind}` : `users/${asset.userId}/${asset.kind}`
+  const file = await storeFile(filePath, prefix)
+  return prisma.audioAsset.create({
+    data: { ...asset, durationMs: Math.round(asset.durationMs), ...file },
+  })
+}
+
+/**
+ * Copy a stored file back to disk, for tools that only work on files
+ */
+export async function copyAudioToFile(asset: Pick<AudioAsset, "storageKey">, filePath: string): Promise<void> {
+  const stream = await getAudioStorage().read(asset.storageKey)
+  await fs.writeFile(filePath, Buffer.from(await new Response(stream).arrayBuffer()))
+}
+
+/**
+ * Delete the stored files for these keys that no AudioAsset points at any more -
+ * call after deleting the assets (or the stories they belonged to)
+ */
+export async function removeUnusedAudio(storageKeys: string[]): Promise<void> {
+  const keys = [...new Set(storageKeys)]
+  if (keys.length === 0) return
+
+  const stillUsed = await prisma.audioAsset.findMany({
+    where: { storageKey: { in: keys } },
+    select: { storageKey: true },
+    distinct: ["storageKey"],
+  })
+  const used = new Set(stillUsed.map((asset) => asset.storageKey))
+
+  const storage = getAudioStorage()
+  for (const key of keys.filter((candidate) => !used.has(candidate))) {
+    await storage.delete(key).catch((error) => {
+      console.warn(`Could not delete stored audio ${key}:`, error instanceof Error ? error.message : error)
+    })
+  }
+}
+
+async function storeFile(filePath: string, prefix: string): Promise<StoredFile> {
+  const data = await fs.readFile(filePath)
+  const extension = path.extname(filePath).toLowerCase()
+  const checksum = sha256Hex(data)
+  const storageKey = `${prefix}/${checksum}${extension}`
+  const contentType = CONTENT_TYPES[extension] || "application/octet-stream"
+
+  const storage = getAudioStorage()
+  if (!(await storage.stat(storageKey))) {
+    await storage.put(storageKey, data, contentType)
+  }
+
+  return { contentType, byteSize: data.length, checksum, storageKey }
+}
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { Schema, schema } from "@/lib/agent-schemas"
+import { enqueueJob, serializeJob } from "@/lib/jobs"
+import { audioAssetIdFromUrl, playableBy } from "@/lib/audio-assets"
+import type { AudioClipPayload, AudioCombinePayload, ChapterJobPayload } from "@/lib/job-handlers"
+import { JobType, Prisma } from "@/generated/prisma"
+
+/**
+ * The audio routes: what each accepts and the shared POST handler that queues
+ * its job. Voicing takes far longer than a request should, so every route answers
+ * 202 with the job - follow it at /api/jobs/[id] (or its events stream) and read
+ * the audioUrl from the result when it succeeds.
+ */
+
+export type AudioJobType = Extract<JobType, "CHAPTER_AUDIO" | "AUDIO_CLIP" | "AUDIO_COMBINE">
+
+export interface QueuedAudioJob {
+  type: AudioJobType
+  payload: ChapterJobPayload | AudioClipPayload | AudioCombinePayload
+  storyId?: string
+}
+
+const PACE_SPEEDS = { slow: 0.85, normal: 1.0, fast: 1.15 }
+
+// One line in one of the backend's voices - from the audio player
+export const generateAudioRequestSchema = schema.object({
+  text: schema.string({ minLength: 1 }),
+  voiceProfile: schema.string().optional(),
+  speaker: schema.string().optional(),
+  emotion: schema.string().optional(),
+  storyId: schema.string({ minLength: 1 }).optional(),
+})
+
+// A test line for a voice from the voice studio, matched on its characteristics
+export const generateVoiceRequestSchema = schema.object({
+  text: schema.string({ minLength: 1 }),
+  modelId: schema.string().optional(),
+  characteristics: schema.object({
+    age: schema.enum(["child", "young_adult", "adult", "elder"]).optional(),
+    gender: schema.enum(["masculine", "feminine", "neutral"]).optional(),
+    emotion: schema.string().optional(),
+    pace: schema.enum(["slow", "normal", "fast"]).optional(),
+  }).optional(),
+})
+
+export const generateChapterAudioRequestSchema = schema.object({
+  storyId: schema.string({ minLength: 1 }),
+  chapterNumber: schema.number({ min: 1 }),
+})
+
+export const combineAudioRequestSchema = schema.object({
+  audioUrls: schema.array(schema.string({ minLength: 1 }), { minItems: 1 }),
+  storyId: schema.string({ minLength: 1 }).optional(),
+})
+
+export const combineAudiobookRequestSchema = schema.object({
+  storyId: schema.string({ minLength: 1 }),
+  audioUrls: schema.array(schema.string({ minLength: 1 }), { minItems: 1 }),
+})
+
+/**
+ * Shared POST handler for the audio routes: signs the user in, validates the
+ * body, lets the route check what it needs and build its job, then queues it.
+ * prepare answers with a response instead of a job to refuse the request.
+ */
+export async function queueAudioJob<T>(
+  request: NextRequest,
+  requestSchema: Schema<T>,
+  label: string,
+  prepare: (input: T, userId: string) => Promise<QueuedAudioJob | NextResponse>
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const input = requestSchema.parse(body)
+
+    if ("issues" in input) {
+      return NextResponse.json({ error: `Invalid ${label} request`, issues: input.issues }, { status: 400 })
+    }
+
+    const prepared = await prepare(input.data, session.user.id)
+    if (prepared instanceof NextResponse) return prepared
+
+    const job = await enqueueJob(prepared.type, prepared.payload as unknown as Prisma.InputJsonValue, {
+      userId: session.user.id,
+      storyId: prepared.storyId,
+    })
+
+    return NextResponse.json({ job: serializeJob(job) }, { status: 202 })
+  } catch (error) {
+    console.error(`Error queueing ${label}:`, error)
+    return NextResponse.json(
+      { error: `Failed to queue ${label}` },
+      { status: 500 }
+    )
+  }
+}
+
+export async function ownsStory(storyId: string, userId: string): Promise<boolean> {
+  const story = await prisma.story.findFirst({ where: { id: storyId, userId }, select: { id: true } })
+  return story !== null
+}
+
+/**
+ * The assets behind audio URLs the user may play, in order - or the response
+ * refusing them
+ */
+export async function playableAssetIds(audioUrls: string[], userId: string): Promise<string[] | NextResponse> {
+  const assetIds = audioUrls.map(audioAssetIdFromUrl)
+  const unknown = audioUrls.filter((_, index) => !assetIds[index])
+  if (unknown.length > 0) {
+    return NextResponse.json({ error: "Only stored audio can be combined", audioUrls: unknown }, { status: 400 })
+  }
+
+  const ids = assetIds as string[]
+  const found = await prisma.audioAsset.findMany({
+    where: { id: { in: ids }, ...playableBy(userId) },
+    select: { id: true },
+  })
+  const playable = new Set(found.map((asset) => asset.id))
+  if (ids.some((id) => !playable.has(id))) {
+    return NextResponse.json({ error: "Audio not found" }, { status: 404 })
+  }
+  return ids
+}
+
+export function speedForPace(pace?: keyof typeof PACE_SPEEDS): number | undefined {
+  return pace ? PACE_SPEEDS[pace] : undefined
+}
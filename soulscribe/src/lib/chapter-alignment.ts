@@ -0,0 +1,59 @@
+import { prisma } from "@/lib/prisma"
+import { schema } from "@/lib/agent-schemas"
+import { WordTiming } from "@/lib/word-alignment"
+import { Chapter, ChapterAlignment, Prisma } from "@/generated/prisma"
+
+/**
+ * Read-along word timings for the chapter view: request validation, storing the
+ * aligned words for a chapter revision, and the JSON shape the player reads
+ */
+
+const spokenWordSchema = schema.object({
+  word: schema.string(),
+  start: schema.number({ min: 0 }),
+  end: schema.number({ min: 0 }),
+})
+
+// The timeline of a chapter voiced outside the server - words are estimated when missing
+export const alignmentRequestSchema = schema.object({
+  engine: schema.string({ minLength: 1 }).optional(),
+  segments: schema.array(
+    schema.object({
+      text: schema.string(),
+      startTime: schema.number({ min: 0 }),
+      duration: schema.number({ min: 0 }),
+      words: schema.array(spokenWordSchema).optional(),
+    }),
+    { minItems: 1 }
+  ),
+})
+
+export function serializeAlignment(alignment: ChapterAlignment) {
+  return {
+    revision: alignment.revision,
+    engine: alignment.engine,
+    durationMs: alignment.durationMs,
+    words: alignment.words as unknown as WordTiming[],
+    alignedAt: alignment.updatedAt,
+  }
+}
+
+/**
+ * Keep the word timings for the chapter's current revision, replacing any from an
+ * earlier voicing of the same text
+ */
+export async function saveChapterAlignment(
+  chapter: Pick<Chapter, "id" | "revision">,
+  alignment: { engine: string; durationMs: number; words: WordTiming[] }
+): Promise<ChapterAlignment> {
+  const data = {
+    engine: alignment.engine,
+    durationMs: Math.round(alignment.durationMs),
+    words: alignment.words as unknown as Prisma.InputJsonValue,
+  }
+  return prisma.chapterAlignment.upsert({
+    where: { chapterId_revision: { chapterId: chapter.id, revision: chapter.revision } },
+    create: { chapterId: chapter.id, revision: chapter.revision, ...data },
+    update: data,
+  })
+}
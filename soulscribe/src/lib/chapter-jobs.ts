@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { enqueueJob, serializeJob } from "@/lib/jobs"
+import { TokenBudget } from "@/lib/token-budget"
+import type { ChapterJobPayload } from "@/lib/job-handlers"
+import { JobType } from "@/generated/prisma"
+
+export type ChapterJobType = Extract<JobType, "CHAPTER_REGENERATION" | "CHAPTER_ANALYSIS" | "CHAPTER_REPARSE">
+
+export interface ChapterRouteParams {
+  params: Promise<{ id: string; number: string }>
+}
+
+const JOB_LABELS: Record<ChapterJobType, string> = {
+  CHAPTER_REGENERATION: "regeneration",
+  CHAPTER_ANALYSIS: "analysis",
+  CHAPTER_REPARSE: "re-parse",
+}
+
+/**
+ * Shared POST handler for the per-chapter routes: checks the story belongs to
+ * the user and the chapter can be worked on, then queues the job for the worker.
+ * Responds 202 with the job - poll or subscribe to it like any other job.
+ */
+export async function queueChapterJob(
+  request: NextRequest,
+  { params }: ChapterRouteParams,
+  type: ChapterJobType
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id, number } = await params
+    const chapterNumber = parseInt(number)
+    if (Number.isNaN(chapterNumber) || chapterNumber < 1) {
+      return NextResponse.json({ error: "Invalid chapter number" }, { status: 400 })
+    }
+
+    const story = await prisma.story.findFirst({
+      where: { id, userId: session.user.id },
+      select: {
+        chapterCount: true,
+        questionnaire: { select: { id: true } },
+        chapters: { where: { number: chapterNumber }, select: { id: true } },
+      },
+    })
+
+    if (!story) {
+      return NextResponse.json({ error: "Story not found" }, { status: 404 })
+    }
+
+    // Regeneration can write a missing chapter; analysis and re-parse need existing text
+    const chapterExists = story.chapters.length > 0
+    if (type === "CHAPTER_REGENERATION") {
+      if (!story.questionnaire) {
+        return NextResponse.json(
+          { error: "Only stories created from a questionnaire can regenerate chapters" },
+          { status: 409 }
+        )
+      }
+      if (!chapterExists && chapterNumber > story.chapterCount) {
+        return NextResponse.json({ error: "Chapter not found" }, { status: 404 })
+      }
+    } else if (!chapterExists) {
+      return NextResponse.json({ error: "Chapter not found" }, { status: 404 })
+    }
+
+    const budget = await TokenBudget.forStory(id)
+    if (budget.status() === "exhausted") {
+      return NextResponse.json(
+        { error: "Token budget exhausted", remaining: budget.remaining() },
+        { status: 402 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const payload: ChapterJobPayload = {
+      storyId: id,
+      chapterNumber,
+      ...(typeof body.guidance === "string" && body.guidance.trim() && { guidance: body.guidance.trim() }),
+    }
+
+    const job = await enqueueJob(type, { ...payload }, { userId: session.user.id, storyId: id })
+
+    return NextResponse.json({ job: serializeJob(job) }, { status: 202 })
+  } catch (error) {
+    console.error(`Error queueing chapter ${JOB_LABELS[type]}:`, error)
+    return NextResponse.json(
+      { error: `Failed to queue chapter ${JOB_LABELS[type]}` },
+      { status: 500 }
+    )
+  }
+}
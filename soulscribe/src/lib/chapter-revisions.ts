@@ -0,0 +1,115 @@
+import { prisma } from "@/lib/prisma"
+import { schema } from "@/lib/agent-schemas"
+import { countWords } from "@/lib/utils"
+import { diffWords } from "@/lib/text-diff"
+import { ensureChapterBaseline, recordChapterVersion } from "@/lib/version-history"
+import { applyRevision, StaleRevisionError } from "@/agents/chapter-revision-agent"
+import { Chapter, RevisionProposal } from "@/generated/prisma"
+
+/**
+ * Passage revisions for the chapter view: request validation, the JSON shape the
+ * client renders (with a word-level diff), and applying an accepted proposal
+ */
+
+export const revisionRequestSchema = schema.object({
+  start: schema.number({ min: 0 }),
+  end: schema.number({ min: 1 }),
+  instruction: schema.string({ minLength: 3 }),
+})
+
+export const revisionDecisionSchema = schema.object({
+  action: schema.enum(["accept", "reject"] as const),
+})
+
+export function serializeProposal(proposal: RevisionProposal) {
+  return {
+    id: proposal.id,
+    instruction: proposal.instruction,
+    selection: { start: proposal.selectionStart, end: proposal.selectionEnd },
+    original: proposal.original,
+    revised: proposal.revised,
+    rationale: proposal.rationale,
+    agentType: proposal.agentType,
+    baseRevision: proposal.baseRevision,
+    status: proposal.status,
+    diff: diffWords(proposal.original, proposal.revised),
+    createdAt: proposal.createdAt,
+    resolvedAt: proposal.resolvedAt,
+  }
+}
+
+/**
+ * A chapter of one of the user's stories, or null when either does not exist
+ */
+export async function findOwnedChapter(storyId: string, userId: string, chapterNumber: number) {
+  if (Number.isNaN(chapterNumber)) return null
+
+  return prisma.chapter.findFirst({
+    where: { number: chapterNumber, story: { id: storyId, userId } },
+    include: { story: { select: { targetAge: true } } },
+  })
+}
+
+export class ResolvedProposalError extends Error {
+  constructor(public readonly proposalId: string) {
+    super(`Proposal ${proposalId} was already resolved`)
+    this.name = "ResolvedProposalError"
+  }
+}
+
+/**
+ * Write an accepted proposal into the chapter as its next revision, credited to the
+ * agent that wrote it and the author who accepted it. Returns null (and marks the
+ * proposal stale) when the chapter no longer contains the passage, and throws
+ * ResolvedProposalError when a concurrent request resolved the proposal first.
+ */
+export async function acceptProposal(
+  proposal: RevisionProposal,
+  chapter: Chapter,
+  userId: string
+): Promise<Chapter | null> {
+  let content: string
+  try {
+    content = applyRevision(chapter.content, {
+      chapterNumber: chapter.number,
+      selection: { start: proposal.selectionStart, end: proposal.selectionEnd },
+      original: proposal.original,
+      revised: proposal.revised,
+    })
+  } catch (error) {
+    if (!(error instanceof StaleRevisionError)) throw error
+    await prisma.revisionProposal.update({
+      where: { id: proposal.id },
+      data: { status: "stale", resolvedAt: new Date() },
+    })
+    return null
+  }
+
+  return prisma.$transaction(async (tx) => {
+    await ensureChapterBaseline(tx, chapter)
+
+    // Only write over the revision we read - a concurrent edit makes this a no-op
+    const updated = await tx.chapter.updateMany({
+      where: { id: chapter.id, revision: chapter.revision },
+      // The rewritten text has not been analyzed - drop the old score
+      data: { content, wordCount: countWords(content), qualityScore: null, revision: { increment: 1 } },
+    })
+    if (updated.count === 0) return null
+
+    // Rolls the chapter back if the proposal was accepted or rejected meanwhile
+    const resolved = await tx.revisionProposal.updateMany({
+      where: { id: proposal.id, status: "pending" },
+      data: { status: "accepted", resolvedAt: new Date() },
+    })
+    if (resolved.count === 0) throw new ResolvedProposalError(proposal.id)
+
+    const revised = await tx.chapter.findUniqueOrThrow({ where: { id: chapter.id } })
+    await recordChapterVersion(tx, revised, {
+      source: "agent",
+      agentType: proposal.agentType,
+      userId,
+      note: `Accepted rewrite: ${proposal.instruction}`,
+    })
+    return revised
+  })
+}
@@ -0,0 +1,74 @@
+import { prisma } from "@/lib/prisma"
+import { diffStats, diffWords } from "@/lib/text-diff"
+import { ChapterVersion, StoryVersion } from "@/generated/prisma"
+
+/**
+ * Version history for the chapter and story views: the JSON shapes the client
+ * renders and word-level diffs between any two kept versions
+ */
+
+export const versionAuthor = { user: { select: { id: true, name: true } } } as const
+
+type VersionUser = { user: { id: string; name: string | null } | null }
+
+function attribution(version: (ChapterVersion | StoryVersion) & VersionUser) {
+  return {
+    source: version.source,
+    agentType: version.agentType,
+    user: version.user,
+    note: version.note,
+    createdAt: version.createdAt,
+  }
+}
+
+/**
+ * A chapter version for the history list - pass withContent for the full text
+ */
+export function serializeChapterVersion(version: ChapterVersion & VersionUser, withContent = false) {
+  return {
+    revision: version.revision,
+    title: version.title,
+    summary: version.summary,
+    stage: version.stage,
+    ...(withContent && { content: version.content }),
+    ...attribution(version),
+  }
+}
+
+export function serializeStoryVersion(version: StoryVersion & VersionUser, previous?: StoryVersion) {
+  return {
+    version: version.version,
+    title: version.title,
+    summary: version.summary,
+    ...attribution(version),
+    // What this version changed, so the list reads as a history of edits
+    diff: previous
+      ? {
+          title: diffWords(previous.title, version.title),
+          summary: diffWords(previous.summary ?? "", version.summary ?? ""),
+        }
+      : null,
+  }
+}
+
+/**
+ * Diff two revisions of a chapter. Returns null when either revision is missing.
+ */
+export async function diffChapterVersions(chapterId: string, from: number, to: number) {
+  const versions = await prisma.chapterVersion.findMany({
+    where: { chapterId, revision: { in: [from, to] } },
+    include: versionAuthor,
+  })
+  const before = versions.find((version) => version.revision === from)
+  const after = versions.find((version) => version.revision === to)
+  if (!before || !after) return null
+
+  const diff = diffWords(before.content, after.content)
+  return {
+    from: serializeChapterVersion(before),
+    to: serializeChapterVersion(after),
+    title: diffWords(before.title, after.title),
+    diff,
+    stats: diffStats(diff),
+  }
+}
@@ -0,0 +1,472 @@
+import { promises as fs } from "fs"
+import os from "os"
+import path from "path"
+import { prisma } from "@/lib/prisma"
+import { generateStory, StoryGenerationRequest } from "@/lib/ai"
+import { GenerationProgress, currentChapterPreview, throttleProgress, withCurrentChapterOnly } from "@/lib/generation-progress"
+import { TokenBudget, recordTokenUsage, runWithBudget } from "@/lib/token-budget"
+import { questionnaireFromRecord } from "@/lib/questionnaire"
+import { countWords } from "@/lib/utils"
+import { saveChapterRevision } from "@/lib/version-history"
+import { getVoiceBackend } from "@/lib/voice-backends"
+import { getStoryVoices } from "@/lib/story-voices"
+import {
+  AudioFileKind,
+  audioAssetUrl,
+  copyAudioToFile,
+  playableBy,
+  storeAudioFile,
+  storeChapterAudio,
+} from "@/lib/audio-assets"
+import { StoryGenerationPipeline, StoryGenerationRequest as PipelineRequest } from "@/agents/story-generation-pipeline"
+import { ChapterAnalyzerAgent } from "@/agents/chapter-analyzer-agent"
+import { ContentParserAgent } from "@/agents/content-parser-agent"
+import { ContentSafetyAgent } from "@/agents/content-safety-agent"
+import {
+  VoicePreference,
+  combineAudioFiles,
+  getAudioDuration,
+  matchVoiceProfile,
+  parseChapterIntoSegments,
+} from "@/agents/voice-backend"
+import { GenerationJob, JobType, Prisma } from "@/generated/prisma"
+
+export interface JobContext {
+  job: GenerationJob
+  reportProgress: (progress: Prisma.InputJsonValue) => Promise<void>
+  throwIfCancelled: () => Promise<void>
+}
+
+export type JobHandler = (payload: Prisma.JsonValue, context: JobContext) => Promise<Prisma.InputJsonValue>
+
+export interface ChapterJobPayload {
+  storyId: string
+  chapterNumber: number
+  guidance?: string
+}
+
+export interface AudioClipPayload {
+  text: string
+  voice: VoicePreference
+  speakerTag?: string // [S1], [S2], etc.
+  speaker?: string
+  emotion?: string
+  speed?: number
+  storyId?: string
+}
+
+export interface AudioCombinePayload {
+  assetIds: string[]
+  kind: Exclude<AudioFileKind, "clip">
+  storyId?: string
+}
+
+const CANCEL_CHECK_INTERVAL_MS = 5000
+
+/**
+ * Pipeline progress is persisted on the job for the story progress stream -
+ * throttled so a fast pipeline does not hammer the database, and with the text of
+ * the current chapter only, so the job row stays small however long the story gets.
+ * A chapter's last snapshot is stored before the next chapter's first, so its
+ * final text reaches the stream even when updates are coalesced.
+ */
+export function generationProgressReporter(reportProgress: JobContext["reportProgress"]) {
+  const throttled = throttleProgress((progress) => reportProgress(progress as unknown as Prisma.InputJsonValue))
+  let currentChapter: number | undefined
+
+  return {
+    update: (progress: GenerationProgress) => {
+      const chapter = currentChapterPreview(progress)?.number
+      if (currentChapter !== undefined && chapter !== currentChapter) {
+        throttled.flush()
+      }
+      currentChapter = chapter
+      throttled.update(withCurrentChapterOnly(progress))
+    },
+    flush: throttled.flush,
+  }
+}
+
+async function runStoryGeneration(payload: Prisma.JsonValue, { job, reportProgress, throwIfCancelled }: JobContext) {
+  const request = payload as unknown as StoryGenerationRequest
+
+  const budget = await TokenBudget.forUser(job.userId)
+  budget.assertAvailable()
+
+  await reportProgress({ phase: "generating", currentStep: "SoulScribe is writing your story" })
+  const generatedStory = await generateStory(request)
+
+  // Nothing is saved if the user cancelled while the model was writing
+  await throwIfCancelled()
+
+  const story = await prisma.story.create({
+    data: {
+      title: generatedStory.title,
+      summary: generatedStory.summary,
+      genre: request.genre,
+      mood: request.mood,
+      theme: request.theme,
+      prompt: request.prompt,
+      model: request.model,
+      temperature: request.temperature,
+      userId: job.userId,
+      chapterCount: 1,
+      generationStatus: "completed",
+      // One-shot stories are a single chapter
+      chapters: {
+        create: {
+          number: 1,
+          title: generatedStory.title,
+          content: generatedStory.content,
+          summary: generatedStory.summary,
+          wordCount: countWords(generatedStory.content),
+          status: "final",
+          versions: {
+            create: {
+              revision: 1,
+              title: generatedStory.title,
+              content: generatedStory.content,
+              summary: generatedStory.summary,
+              source: "agent",
+              agentType: "story_generator",
+            },
+          },
+        },
+      },
+    },
+  })
+
+  await prisma.generationJob.update({
+    where: { id: job.id },
+    data: { storyId: story.id },
+  })
+
+  await recordTokenUsage({
+    ...generatedStory.usage,
+    agentType: "story_generator",
+    storyId: story.id,
+    userId: job.userId,
+  })
+
+  return { storyId: story.id, title: story.title }
+}
+
+/**
+ * Full multi-agent run from a questionnaire. Failed runs are retried by the queue
+ * and resume from the pipeline's checkpoints.
+ */
+async function runStoryPipeline(payload: Prisma.JsonValue, { reportProgress, throwIfCancelled }: JobContext) {
+  const request = payload as unknown as PipelineRequest
+  const progress = generationProgressReporter(reportProgress)
+  const pipeline = new StoryGenerationPipeline(request.storyId, progress.update)
+
+  // The pipeline only knows about cancellation through cancel() - check the job now and then
+  const cancelWatch = setInterval(() => {
+    throwIfCancelled().catch(() => pipeline.cancel())
+  }, CANCEL_CHECK_INTERVAL_MS)
+
+  await prisma.story.update({ where: { id: request.storyId }, data: { generationStatus: "writing" } })
+
+  let result
+  try {
+    result = await pipeline.generateCompleteStory(request)
+  } finally {
+    clearInterval(cancelWatch)
+    await progress.flush()
+  }
+
+  if (!result.success) {
+    await throwIfCancelled()
+    // An exhausted budget fails for good instead of being retried
+    const budget = await TokenBudget.forStory(request.storyId)
+    budget.assertAvailable()
+    throw new Error(result.errors.filter((error) => !error.resolved).map((error) => error.error).join("; "))
+  }
+
+  // Waiting for the author - approving the beat sheet queues the pipeline again
+  if (result.awaitingOutlineReview) {
+    return {
+      storyId: request.storyId,
+      awaitingOutlineReview: true,
+      analytics: result.analytics,
+    }
+  }
+
+  // A rerun can rewrite the chapters of a story that is already public
+  const unpublished = await new ContentSafetyAgent(request.storyId).unpublishIfUnsafe()
+
+  return {
+    storyId: request.storyId,
+    title: result.story.title,
+    chapterCount: result.story.chapters.length,
+    analytics: result.analytics,
+    unpublished: Boolean(unpublished),
+  }
+}
+
+async function runChapterRegeneration(payload: Prisma.JsonValue, { throwIfCancelled }: JobContext) {
+  const { storyId, chapterNumber, guidance } = payload as unknown as ChapterJobPayload
+
+  const record = await prisma.questionnaire.findUnique({ where: { storyId } })
+  if (!record) {
+    throw new Error(`Story ${storyId} has no questionnaire to regenerate chapters from`)
+  }
+
+  await throwIfCancelled()
+  const pipeline = new StoryGenerationPipeline(storyId)
+  const { chapter, tokens } = await pipeline.regenerateChapter(chapterNumber, questionnaireFromRecord(record), guidance)
+  // A public story has to keep passing the safety review with its new chapter
+  const unpublished = await new ContentSafetyAgent(storyId).unpublishIfUnsafe()
+
+  return {
+    storyId,
+    chapterNumber,
+    title: chapter.title,
+    wordCount: chapter.wordCount,
+    tokensUsed: tokens,
+    unpublished: Boolean(unpublished),
+  }
+}
+
+async function runChapterAnalysis(payload: Prisma.JsonValue) {
+  const { storyId, chapterNumber } = payload as unknown as ChapterJobPayload
+  const chapter = await findChapter(storyId, chapterNumber)
+  const previous = await prisma.chapter.findUnique({
+    where: { storyId_number: { storyId, number: chapterNumber - 1 } },
+    select: { summary: true },
+  })
+
+  const analyzer = new ChapterAnalyzerAgent(storyId)
+  const analysis = await runWithBudget(await TokenBudget.forStory(storyId), () =>
+    analyzer.analyzeChapter(chapter.content, {
+      number: chapter.number,
+      title: chapter.title,
+      storyThemes: chapter.story.themes,
+      targetAge: chapter.story.targetAge,
+      previousChapterSummary: previous?.summary ?? undefined,
+      overallStoryArc: chapter.story.questionnaire?.primaryTheme ?? chapter.story.theme ?? chapter.story.title,
+    })
+  )
+  // Only while the analyzed text is still the chapter's current text
+  await prisma.chapter.updateMany({
+    where: { id: chapter.id, revision: chapter.revision },
+    data: { qualityScore: analysis.overallScore },
+  })
+
+  return analysis as unknown as Prisma.InputJsonValue
+}
+
+async function runChapterReparse(payload: Prisma.JsonValue) {
+  const { storyId, chapterNumber } = payload as unknown as ChapterJobPayload
+  const chapter = await findChapter(storyId, chapterNumber)
+
+  const parser = new ContentParserAgent(storyId)
+  const parsed = await runWithBudget(await TokenBudget.forStory(storyId), () =>
+    parser.parseChapterContent(chapter.content)
+  )
+
+  await saveChapterRevision(
+    storyId,
+    chapterNumber,
+    { content: parsed.content, wordCount: parsed.wordCount },
+    { source: "agent", agentType: "content_parser", note: "Reparsed" }
+  )
+  const unpublished = await new ContentSafetyAgent(storyId).unpublishIfUnsafe()
+
+  return {
+    storyId,
+    chapterNumber,
+    wordCount: parsed.wordCount,
+    dialogueCount: parsed.dialogueCount,
+    learningElement: parsed.learningElement ?? null,
+    unpublished: Boolean(unpublished),
+  }
+}
+
+/**
+ * Narrate a chapter in the story's voices and keep it as the chapter's audio. A
+ * chapter already narrated from its current text is left as it is.
+ */
+async function runChapterAudio(payload: Prisma.JsonValue, { job, reportProgress, throwIfCancelled }: JobContext) {
+  const { storyId, chapterNumber } = payload as unknown as ChapterJobPayload
+  const chapter = await findChapter(storyId, chapterNumber)
+
+  if (chapter.audioAssetId && chapter.audioRevision === chapter.revision) {
+    return {
+      storyId,
+      chapterNumber,
+      assetId: chapter.audioAssetId,
+      audioUrl: audioAssetUrl(chapter.audioAssetId),
+      durationMs: chapter.audioDurationMs,
+      reused: true,
+    }
+  }
+
+  const backend = await getVoiceBackend()
+  const voices = await getStoryVoices(storyId, backend)
+  await throwIfCancelled()
+
+  const totalSegments = parseChapterIntoSegments(chapter.content).length
+  let voicedSegments = 0
+  // Segments finish while the backend keeps working - progress is written in order, one at a time
+  let progressWrites = reportProgress({ phase: "voicing", voicedSegments, totalSegments }).catch(() => {})
+
+  return withScratchDirectory(job, async (directory) => {
+    const result = await backend.generateChapterAudio({
+      chapterNumber,
+      chapterTitle: chapter.title,
+      content: chapter.content,
+      ...voices,
+      outputDirectory: directory,
+      onSegmentReady: () => {
+        const progress = { phase: "voicing", voicedSegments: ++voicedSegments, totalSegments }
+        progressWrites = progressWrites.then(() => reportProgress(progress)).catch(() => {})
+      },
+    })
+    await progressWrites
+    await throwIfCancelled()
+
+    const narration = await storeChapterAudio(chapter, result, backend.name)
+    return {
+      storyId,
+      chapterNumber,
+      assetId: narration.id,
+      audioUrl: audioAssetUrl(narration.id),
+      durationMs: narration.durationMs,
+      engine: backend.name,
+      segments: result.audioSegments.length,
+    }
+  })
+}
+
+async function runAudioClip(payload: Prisma.JsonValue, { job, throwIfCancelled }: JobContext) {
+  const clip = payload as unknown as AudioClipPayload
+  const backend = await getVoiceBackend()
+  const voiceProfile = matchVoiceProfile(backend.getVoiceProfiles(), clip.voice)
+
+  return withScratchDirectory(job, async (directory) => {
+    const result = await backend.generateAudio({
+      text: clip.text,
+      voiceProfile,
+      speakerTag: clip.speakerTag,
+      emotionalContext: clip.emotion,
+      speed: clip.speed,
+      outputPath: path.join(directory, "clip.wav"),
+    })
+    if (!result.success || !result.audioPath) {
+      throw new Error(result.error || `The ${backend.name} voice backend returned no audio`)
+    }
+    await throwIfCancelled()
+
+    const asset = await storeAudioFile(result.audioPath, {
+      kind: "clip",
+      userId: job.userId,
+      storyId: clip.storyId,
+      engine: backend.name,
+      durationMs: result.duration ?? (await getAudioDuration(result.audioPath)),
+      speaker: clip.speaker,
+      voiceProfile: voiceProfile.id,
+    })
+    return {
+      assetId: asset.id,
+      audioUrl: audioAssetUrl(asset.id),
+      durationMs: asset.durationMs,
+      voiceProfile: voiceProfile.id,
+      engine: backend.name,
+    }
+  })
+}
+
+/**
+ * Join stored audio into one file, in the order asked for. Each part's place in
+ * the result comes back with it - chapter markers, for an audiobook.
+ */
+async function runAudioCombine(payload: Prisma.JsonValue, { job, reportProgress, throwIfCancelled }: JobContext) {
+  const { assetIds, kind, storyId } = payload as unknown as AudioCombinePayload
+  const found = await prisma.audioAsset.findMany({
+    where: { id: { in: assetIds }, ...playableBy(job.userId) },
+    include: { chapter: { select: { number: true, title: true } } },
+  })
+  const sources = assetIds.map((id) => {
+    const source = found.find((asset) => asset.id === id)
+    if (!source) throw new Error(`Audio ${id} not found`)
+    return source
+  })
+
+  return withScratchDirectory(job, async (directory) => {
+    const files: string[] = []
+    for (const [index, source] of sources.entries()) {
+      await throwIfCancelled()
+      const file = path.join(directory, `part_${String(index).padStart(3, "0")}${path.extname(source.storageKey)}`)
+      await copyAudioToFile(source, file)
+      files.push(file)
+      await reportProgress({ phase: "collecting", collected: index + 1, total: sources.length })
+    }
+
+    await reportProgress({ phase: "joining", collected: sources.length, total: sources.length })
+    const joined = await combineAudioFiles(files, path.join(directory, `${kind}.wav`))
+    await throwIfCancelled()
+
+    const engines = [...new Set(sources.map((source) => source.engine))]
+    const asset = await storeAudioFile(joined, {
+      kind,
+      userId: job.userId,
+      storyId,
+      engine: engines.length === 1 ? engines[0] : "mixed",
+      durationMs: await getAudioDuration(joined),
+    })
+
+    let startMs = 0
+    const parts = sources.map((source) => {
+      const part = {
+        assetId: source.id,
+        startMs,
+        durationMs: source.durationMs,
+        ...(source.chapter && { chapterNumber: source.chapter.number, title: source.chapter.title }),
+      }
+      startMs += source.durationMs
+      return part
+    })
+
+    return {
+      assetId: asset.id,
+      audioUrl: audioAssetUrl(asset.id),
+      durationMs: asset.durationMs,
+      byteSize: asset.byteSize,
+      parts,
+    }
+  })
+}
+
+// Voice backends write files - each job gets a directory of its own, removed when it is done
+async function withScratchDirectory<T>(job: GenerationJob, run: (directory: string) => Promise<T>): Promise<T> {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), `soulscribe-${job.id}-`))
+  try {
+    return await run(directory)
+  } finally {
+    await fs.rm(directory, { recursive: true, force: true })
+  }
+}
+
+async function findChapter(storyId: string, chapterNumber: number) {
+  const chapter = await prisma.chapter.findUnique({
+    where: { storyId_number: { storyId, number: chapterNumber } },
+    include: { story: { include: { questionnaire: true } } },
+  })
+
+  if (!chapter) {
+    throw new Error(`Chapter ${chapterNumber} of story ${storyId} not found`)
+  }
+  return chapter
+}
+
+export const jobHandlers: Record<JobType, JobHandler> = {
+  STORY_GENERATION: runStoryGeneration,
+  STORY_PIPELINE: runStoryPipeline,
+  CHAPTER_REGENERATION: runChapterRegeneration,
+  CHAPTER_ANALYSIS: runChapterAnalysis,
+  CHAPTER_REPARSE: runChapterReparse,
+  CHAPTER_AUDIO: runChapterAudio,
+  AUDIO_CLIP: runAudioClip,
+  AUDIO_COMBINE: runAudioCombine,
+}
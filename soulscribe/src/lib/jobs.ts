@@ -0,0 +1,250 @@
+import { prisma } from "@/lib/prisma"
+import { GenerationJob, JobStatus, JobType, Prisma } from "@/generated/prisma"
+import { BudgetExceededError } from "@/lib/token-budget"
+
+export interface EnqueueJobOptions {
+  userId: string
+  storyId?: string
+  maxAttempts?: number
+  runAfter?: Date
+}
+
+export interface JobSummary {
+  id: string
+  type: JobType
+  status: JobStatus
+  progress: Prisma.JsonValue | null
+  result: Prisma.JsonValue | null
+  error: string | null
+  attempts: number
+  maxAttempts: number
+  storyId: string | null
+  cancelRequested: boolean
+  createdAt: Date
+  startedAt: Date | null
+  completedAt: Date | null
+}
+
+export class JobCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} was cancelled`)
+    this.name = "JobCancelledError"
+  }
+}
+
+const TERMINAL_STATUSES: JobStatus[] = ["SUCCEEDED", "FAILED", "CANCELLED"]
+const RETRY_BASE_DELAY_MS = 30_000
+
+export function isTerminalStatus(status: JobStatus): boolean {
+  return TERMINAL_STATUSES.includes(status)
+}
+
+export function isJobStatus(value: string): value is JobStatus {
+  return (Object.values(JobStatus) as string[]).includes(value)
+}
+
+export async function enqueueJob(
+  type: JobType,
+  payload: Prisma.InputJsonValue,
+  { userId, storyId, maxAttempts = 3, runAfter }: EnqueueJobOptions
+): Promise<GenerationJob> {
+  return prisma.generationJob.create({
+    data: {
+      type,
+      payload,
+      userId,
+      storyId,
+      maxAttempts,
+      ...(runAfter && { runAfter }),
+    },
+  })
+}
+
+/**
+ * Atomically claim the oldest runnable job. SKIP LOCKED lets several workers
+ * poll the same table without handing out a job twice. A job with no attempts
+ * left is never claimed - recoverStaleJobs fails it instead.
+ */
+export async function claimNextJob(workerId: string): Promise<GenerationJob | null> {
+  const claimed = await prisma.$queryRaw<Array<{ id: string }>>`
+    UPDATE "generation_jobs"
+    SET "status" = 'RUNNING',
+        "lockedAt" = NOW(),
+        "lockedBy" = ${workerId},
+        "attempts" = "attempts" + 1,
+        "startedAt" = COALESCE("startedAt", NOW()),
+        "updatedAt" = NOW()
+    WHERE "id" = (
+      SELECT "id" FROM "generation_jobs"
+      WHERE "status" = 'QUEUED' AND "runAfter" <= NOW() AND "attempts" < "maxAttempts"
+      ORDER BY "createdAt" ASC
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING "id"
+  `
+
+  if (claimed.length === 0) return null
+  return prisma.generationJob.findUnique({ where: { id: claimed[0].id } })
+}
+
+export async function updateJobProgress(jobId: string, progress: Prisma.InputJsonValue): Promise<void> {
+  await prisma.generationJob.update({
+    where: { id: jobId },
+    data: { progress, lockedAt: new Date() },
+  })
+}
+
+/**
+ * Keep a running job's lock fresh while its handler works without reporting
+ * progress. Only the worker holding the lock can refresh it.
+ */
+export async function heartbeatJob(jobId: string, workerId: string): Promise<void> {
+  await prisma.generationJob.updateMany({
+    where: { id: jobId, status: "RUNNING", lockedBy: workerId },
+    data: { lockedAt: new Date() },
+  })
+}
+
+export async function completeJob(jobId: string, result: Prisma.InputJsonValue): Promise<void> {
+  await prisma.generationJob.update({
+    where: { id: jobId },
+    data: {
+      status: "SUCCEEDED",
+      result,
+      error: null,
+      lockedAt: null,
+      lockedBy: null,
+      completedAt: new Date(),
+    },
+  })
+}
+
+/**
+ * Record a failure - the job goes back to the queue with exponential backoff
+ * until it runs out of attempts.
+ */
+export async function failJob(job: GenerationJob, error: unknown): Promise<void> {
+  const message = error instanceof Error ? error.message : String(error)
+
+  if (error instanceof JobCancelledError) {
+    await markCancelled(job.id)
+    return
+  }
+
+  // An exhausted budget stays exhausted - retrying would only fail again
+  const canRetry = job.attempts < job.maxAttempts && !(error instanceof BudgetExceededError)
+  await prisma.generationJob.update({
+    where: { id: job.id },
+    data: {
+      status: canRetry ? "QUEUED" : "FAILED",
+      error: message,
+      lockedAt: null,
+      lockedBy: null,
+      ...(canRetry
+        ? { runAfter: new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1)) }
+        : { completedAt: new Date() }),
+    },
+  })
+}
+
+/**
+ * Queued jobs are cancelled immediately; running jobs are flagged and stop at
+ * their next cancellation check.
+ */
+export async function requestJobCancellation(jobId: string, userId: string): Promise<GenerationJob | null> {
+  const job = await prisma.generationJob.findFirst({ where: { id: jobId, userId } })
+  if (!job || isTerminalStatus(job.status)) return job
+
+  if (job.status === "QUEUED") {
+    return markCancelled(job.id)
+  }
+
+  return prisma.generationJob.update({
+    where: { id: job.id },
+    data: { cancelRequested: true },
+  })
+}
+
+export async function isCancellationRequested(jobId: string): Promise<boolean> {
+  const job = await prisma.generationJob.findUnique({
+    where: { id: jobId },
+    select: { cancelRequested: true },
+  })
+  return job?.cancelRequested ?? false
+}
+
+/**
+ * Jobs whose worker died mid-run are put back in the queue once their lock goes
+ * stale - unless that was their last attempt, when they fail like any other. A
+ * job that crashes its worker every time would otherwise run forever.
+ */
+export async function recoverStaleJobs(staleAfterMs: number): Promise<{ requeued: number; failed: number }> {
+  const stale: Prisma.GenerationJobWhereInput = {
+    status: "RUNNING",
+    lockedAt: { lt: new Date(Date.now() - staleAfterMs) },
+  }
+
+  const failed = await prisma.generationJob.updateMany({
+    where: {
+      OR: [stale, { status: "QUEUED" }],
+      attempts: { gte: prisma.generationJob.fields.maxAttempts },
+    },
+    data: {
+      status: "FAILED",
+      error: "The worker stopped responding on the job's last attempt",
+      lockedAt: null,
+      lockedBy: null,
+      completedAt: new Date(),
+    },
+  })
+  const requeued = await prisma.generationJob.updateMany({
+    where: stale,
+    data: { status: "QUEUED", lockedAt: null, lockedBy: null },
+  })
+  return { requeued: requeued.count, failed: failed.count }
+}
+
+export async function getJobForUser(jobId: string, userId: string): Promise<GenerationJob | null> {
+  return prisma.generationJob.findFirst({ where: { id: jobId, userId } })
+}
+
+/**
+ * The most recent job that produced (or is producing) a story
+ */
+export async function getLatestJobForStory(storyId: string, userId: string, type?: JobType): Promise<GenerationJob | null> {
+  return prisma.generationJob.findFirst({
+    where: { storyId, userId, ...(type && { type }) },
+    orderBy: { createdAt: "desc" },
+  })
+}
+
+export function serializeJob(job: GenerationJob): JobSummary {
+  return {
+    id: job.id,
+    type: job.type,
+    status: job.status,
+    progress: job.progress,
+    result: job.result,
+    error: job.error,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    storyId: job.storyId,
+    cancelRequested: job.cancelRequested,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    completedAt: job.completedAt,
+  }
+}
+
+async function markCancelled(jobId: string): Promise<GenerationJob> {
+  return prisma.generationJob.update({
+    where: { id: jobId },
+    data: {
+      status: "CANCELLED",
+      lockedAt: null,
+      lockedBy: null,
+      completedAt: new Date(),
+    },
+  })
+}
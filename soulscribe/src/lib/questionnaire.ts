@@ -0,0 +1,106 @@
+import { Prisma, Questionnaire } from "@/generated/prisma"
+import { schema, Infer } from "@/lib/agent-schemas"
+import type { StoryGenerationRequest } from "@/agents/story-generation-pipeline"
+
+/**
+ * Questionnaire payloads for the multi-agent pipeline - validated with the same
+ * schema layer the agents use for their own output
+ */
+
+export const questionnaireSchema = schema.object({
+  genre: schema.string({ minLength: 1 }),
+  targetAge: schema.enum(["child", "teen", "adult", "all_ages"] as const),
+  chapterCount: schema.number({ min: 1, max: 30 }),
+  estimatedLength: schema.enum(["short", "medium", "long"] as const),
+  primaryTheme: schema.string({ minLength: 1 }),
+  lifeLesson: schema.string({ minLength: 1 }),
+  spiritualElements: schema.array(schema.string()),
+  metaphorPreferences: schema.array(schema.string()),
+  characterTypes: schema.array(schema.string()),
+  settingPreferences: schema.array(schema.string()),
+  toneKeywords: schema.array(schema.string()),
+  writingStyle: schema.enum(["poetic", "conversational", "mystical", "playful"] as const),
+  chatResponses: schema.array(schema.object({
+    question: schema.string(),
+    answer: schema.string(),
+    timestamp: schema.string().optional(),
+  })).optional(),
+  templateId: schema.string({ minLength: 1 }).optional(),
+})
+
+export const userPreferencesSchema = schema.object({
+  generateAudio: schema.boolean().optional(),
+  realTimeUpdates: schema.boolean().optional(),
+  qualityLevel: schema.enum(["fast", "balanced", "premium"] as const).optional(),
+  reviewOutline: schema.boolean().optional(),
+})
+
+export type QuestionnaireInput = Infer<typeof questionnaireSchema>
+export type PipelineQuestionnaire = StoryGenerationRequest["questionnaire"]
+
+export function toPipelineQuestionnaire(input: QuestionnaireInput): PipelineQuestionnaire {
+  return {
+    ...input,
+    chapterCount: Math.round(input.chapterCount),
+    chatResponses: input.chatResponses ?? [],
+  }
+}
+
+export function toPipelinePreferences(
+  input: Infer<typeof userPreferencesSchema> | undefined
+): StoryGenerationRequest["userPreferences"] {
+  return {
+    generateAudio: input?.generateAudio ?? false,
+    realTimeUpdates: input?.realTimeUpdates ?? true,
+    qualityLevel: input?.qualityLevel ?? "balanced",
+    reviewOutline: input?.reviewOutline ?? false,
+  }
+}
+
+/**
+ * Story and questionnaire rows for a new pipeline story
+ */
+export function storyDataFromQuestionnaire(
+  input: QuestionnaireInput,
+  userId: string
+): Prisma.StoryUncheckedCreateInput {
+  const questionnaire = toPipelineQuestionnaire(input)
+
+  return {
+    title: questionnaire.primaryTheme,
+    description: questionnaire.lifeLesson,
+    theme: questionnaire.primaryTheme,
+    targetAge: questionnaire.targetAge,
+    tone: questionnaire.toneKeywords,
+    chapterCount: questionnaire.chapterCount,
+    themes: questionnaire.spiritualElements,
+    learningObjectives: [questionnaire.lifeLesson],
+    generationStatus: "planning",
+    userId,
+    questionnaire: {
+      create: {
+        ...questionnaire,
+        estimatedLength: input.estimatedLength,
+        chatResponses: questionnaire.chatResponses as Prisma.InputJsonValue[],
+      },
+    },
+  }
+}
+
+export function questionnaireFromRecord(record: Questionnaire): PipelineQuestionnaire {
+  return {
+    genre: record.genre,
+    targetAge: record.targetAge,
+    chapterCount: record.chapterCount,
+    primaryTheme: record.primaryTheme,
+    lifeLesson: record.lifeLesson,
+    spiritualElements: record.spiritualElements,
+    metaphorPreferences: record.metaphorPreferences,
+    characterTypes: record.characterTypes,
+    settingPreferences: record.settingPreferences,
+    toneKeywords: record.toneKeywords,
+    writingStyle: record.writingStyle,
+    chatResponses: record.chatResponses as unknown as PipelineQuestionnaire["chatResponses"],
+    templateId: record.templateId ?? undefined,
+  }
+}
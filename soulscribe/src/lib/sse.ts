@@ -0,0 +1,57 @@
+/**
+ * Server-Sent Events helpers for streaming job and generation updates to the browser
+ */
+
+export interface SSEChannel {
+  send: (event: string, data: unknown) => void
+  close: () => void
+  isClosed: () => boolean
+}
+
+const encoder = new TextEncoder()
+
+export function sseResponse(
+  signal: AbortSignal,
+  start: (channel: SSEChannel) => Promise<void> | void
+): Response {
+  let closed = false
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const channel: SSEChannel = {
+        send: (event, data) => {
+          if (closed) return
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+        },
+        close: () => {
+          if (closed) return
+          closed = true
+          controller.close()
+        },
+        isClosed: () => closed,
+      }
+
+      signal.addEventListener("abort", () => channel.close())
+
+      try {
+        await start(channel)
+      } catch (error) {
+        channel.send("error", { error: error instanceof Error ? error.message : "Stream failed" })
+        channel.close()
+      }
+    },
+    cancel() {
+      closed = true
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  })
+}
+
+export const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
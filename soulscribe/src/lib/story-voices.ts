@@ -0,0 +1,110 @@
+import { prisma } from "@/lib/prisma"
+import { TokenBudget, runWithBudget } from "@/lib/token-budget"
+import { CharacterProfile, VoiceCharacterAssignmentAgent } from "@/agents/voice-character-agent"
+import { VoiceBackend, VoiceProfile, matchVoiceProfile } from "@/agents/voice-backend"
+import { Character, Prisma } from "@/generated/prisma"
+
+/**
+ * The voices a story is narrated in. The voice agent picks a narrator and a voice
+ * for every character once; the choice is kept on the story so every chapter - and
+ * every later voicing of it - sounds the same. Characters added later get a voice
+ * of their own without anyone else's changing.
+ */
+
+export interface StoredVoiceMap {
+  narrator: string
+  characters: { [name: string]: string }
+}
+
+export interface StoryVoices {
+  narratorVoice: VoiceProfile
+  // Keyed by the speakers renderChapterAudio sees: Speaker1, Speaker2, ... and Character
+  characterVoiceMap: Map<string, VoiceProfile>
+}
+
+const SPIRITUAL_ROLES: { [role: string]: CharacterProfile["spiritualRole"] } = {
+  protagonist: "seeker",
+  antagonist: "challenger",
+  guide: "teacher",
+  supporting: "guardian",
+}
+
+/**
+ * The story's voices as the voice backend should use them, asking the voice agent
+ * for any character that has none yet
+ */
+export async function getStoryVoices(storyId: string, backend: VoiceBackend): Promise<StoryVoices> {
+  const story = await prisma.story.findUniqueOrThrow({
+    where: { id: storyId },
+    include: {
+      // Story-bible order: the character met first is [S1]
+      characters: { orderBy: [{ firstChapter: "asc" }, { id: "asc" }] },
+      questionnaire: { select: { writingStyle: true } },
+    },
+  })
+
+  const stored = story.voiceMap as unknown as StoredVoiceMap | null
+  const unvoiced = story.characters.filter((character) => !stored?.characters[character.name])
+  const voiceMap = stored && unvoiced.length === 0 ? stored : await assignVoices(story, stored, backend)
+
+  const profiles = backend.getVoiceProfiles()
+  const characterVoiceMap = new Map<string, VoiceProfile>()
+  // Dialogue tags carry no names - [S1] is the first character, [S2] the second,
+  // and untagged quotes belong to the first
+  story.characters.forEach((character, index) => {
+    const voice = matchVoiceProfile(profiles, { id: voiceMap.characters[character.name] })
+    characterVoiceMap.set(`Speaker${index + 1}`, voice)
+    if (index === 0) characterVoiceMap.set("Character", voice)
+  })
+
+  return { narratorVoice: matchVoiceProfile(profiles, { id: voiceMap.narrator }), characterVoiceMap }
+}
+
+async function assignVoices(
+  story: Prisma.StoryGetPayload<{ include: { characters: true; questionnaire: { select: { writingStyle: true } } } }>,
+  existing: StoredVoiceMap | null,
+  backend: VoiceBackend
+): Promise<StoredVoiceMap> {
+  const agent = new VoiceCharacterAssignmentAgent(story.id, backend)
+  const assigned = await runWithBudget(await TokenBudget.forStory(story.id), () =>
+    agent.assignVoicesToStory({
+      title: story.title,
+      genre: story.genre?.toLowerCase() ?? "unspecified",
+      targetAge: story.targetAge,
+      themes: story.themes,
+      characters: story.characters
+        .filter((character) => !existing?.characters[character.name])
+        .map(toCharacterProfile),
+      narrativeStyle: story.questionnaire?.writingStyle ?? "storytelling",
+    })
+  )
+
+  const voiceMap: StoredVoiceMap = {
+    narrator: existing?.narrator ?? assigned.narratorVoice.id,
+    characters: { ...existing?.characters },
+  }
+  for (const [name, assignment] of assigned.characterAssignments) {
+    voiceMap.characters[name] = assignment.assignedVoiceProfile.id
+  }
+
+  await prisma.story.update({
+    where: { id: story.id },
+    data: { voiceMap: voiceMap as unknown as Prisma.InputJsonValue },
+  })
+  return voiceMap
+}
+
+// The story bible knows less about a character than the voice agent can use - the rest is left open
+function toCharacterProfile(character: Character): CharacterProfile {
+  return {
+    name: character.name,
+    role: character.role as CharacterProfile["role"],
+    archetype: character.archetype,
+    personality: [character.description],
+    age: "adult",
+    gender: "neutral",
+    spiritualRole: SPIRITUAL_ROLES[character.role] ?? "guardian",
+    emotionalRange: [],
+    keyDialogueExamples: [],
+  }
+}
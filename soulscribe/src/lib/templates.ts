@@ -0,0 +1,70 @@
+import { prisma } from "@/lib/prisma"
+import {
+  BUILT_IN_TEMPLATES,
+  StoryStructure,
+  StoryTemplate,
+  StoryTemplateInput,
+  TemplateAct,
+  isBuiltInTemplate,
+  templateFromInput,
+} from "@/lib/story-templates"
+import { Prisma, StoryTemplate as StoryTemplateRow } from "@/generated/prisma"
+
+/**
+ * Story structure templates a user can pick from - the built-in ones plus the
+ * ones they saved themselves
+ */
+
+export function templateFromRow(row: StoryTemplateRow): StoryTemplate {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    structure: row.structure as StoryStructure,
+    recommendedChapters: row.recommendedChapters,
+    acts: row.acts as unknown as TemplateAct[],
+    builtIn: false,
+  }
+}
+
+export async function listTemplates(userId: string): Promise<StoryTemplate[]> {
+  const rows = await prisma.storyTemplate.findMany({
+    where: { userId },
+    orderBy: { createdAt: "desc" },
+  })
+  return [...Object.values(BUILT_IN_TEMPLATES), ...rows.map(templateFromRow)]
+}
+
+/**
+ * A built-in template, or one of the user's own - null for anything else
+ */
+export async function findTemplate(id: string, userId: string): Promise<StoryTemplate | null> {
+  if (isBuiltInTemplate(id)) {
+    return BUILT_IN_TEMPLATES[id]
+  }
+  const row = await prisma.storyTemplate.findFirst({ where: { id, userId } })
+  return row ? templateFromRow(row) : null
+}
+
+/**
+ * Store a validated template definition as one of the user's own
+ */
+export async function createTemplate(
+  userId: string,
+  input: StoryTemplateInput,
+  sourceStoryId?: string
+): Promise<StoryTemplate> {
+  const template = templateFromInput("", input)
+  const row = await prisma.storyTemplate.create({
+    data: {
+      name: template.name,
+      description: template.description,
+      structure: template.structure,
+      recommendedChapters: template.recommendedChapters,
+      acts: template.acts as unknown as Prisma.InputJsonValue,
+      sourceStoryId,
+      userId,
+    },
+  })
+  return templateFromRow(row)
+}
@@ -0,0 +1,101 @@
+import os from "os"
+import { prisma } from "@/lib/prisma"
+import {
+  claimNextJob,
+  completeJob,
+  failJob,
+  heartbeatJob,
+  isCancellationRequested,
+  recoverStaleJobs,
+  updateJobProgress,
+  JobCancelledError,
+} from "@/lib/jobs"
+import { jobHandlers } from "@/lib/job-handlers"
+import { GenerationJob } from "@/generated/prisma"
+
+/**
+ * SoulScribe generation worker
+ *
+ * Long-running process that claims jobs from the generation_jobs table and runs
+ * them outside the HTTP request cycle. Run one or more with `npm run worker`.
+ */
+
+const WORKER_ID = `${os.hostname()}-${process.pid}`
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || "2000")
+const STALE_LOCK_MS = parseInt(process.env.JOB_STALE_LOCK_MS || String(10 * 60 * 1000))
+// Well inside STALE_LOCK_MS, so a slow database write never lets a live job look stale
+const HEARTBEAT_INTERVAL_MS = Math.floor(STALE_LOCK_MS / 4)
+
+let shuttingDown = false
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+async function runJob(job: GenerationJob) {
+  const handler = jobHandlers[job.type]
+  console.log(`[worker ${WORKER_ID}] Running ${job.type} job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`)
+
+  // Handlers that never report progress would otherwise be re-queued mid-run and run twice
+  const heartbeat = setInterval(() => {
+    heartbeatJob(job.id, WORKER_ID).catch((error) => {
+      console.error(`[worker ${WORKER_ID}] Heartbeat for job ${job.id} failed:`, error)
+    })
+  }, HEARTBEAT_INTERVAL_MS)
+
+  try {
+    const result = await handler(job.payload, {
+      job,
+      reportProgress: (progress) => updateJobProgress(job.id, progress),
+      throwIfCancelled: async () => {
+        if (await isCancellationRequested(job.id)) {
+          throw new JobCancelledError(job.id)
+        }
+      },
+    })
+
+    await completeJob(job.id, result)
+    console.log(`[worker ${WORKER_ID}] Job ${job.id} succeeded`)
+  } catch (error) {
+    console.error(`[worker ${WORKER_ID}] Job ${job.id} failed:`, error)
+    await failJob(job, error)
+  } finally {
+    clearInterval(heartbeat)
+  }
+}
+
+async function main() {
+  console.log(`[worker ${WORKER_ID}] Started, polling every ${POLL_INTERVAL_MS}ms`)
+
+  while (!shuttingDown) {
+    const { requeued, failed } = await recoverStaleJobs(STALE_LOCK_MS)
+    if (requeued > 0) {
+      console.log(`[worker ${WORKER_ID}] Re-queued ${requeued} stale job(s)`)
+    }
+    if (failed > 0) {
+      console.log(`[worker ${WORKER_ID}] Failed ${failed} stale job(s) with no attempts left`)
+    }
+
+    const job = await claimNextJob(WORKER_ID)
+    if (job) {
+      await runJob(job)
+    } else {
+      await sleep(POLL_INTERVAL_MS)
+    }
+  }
+
+  await prisma.$disconnect()
+  console.log(`[worker ${WORKER_ID}] Stopped`)
+}
+
+// Finish the current job before exiting so it is never left half-written
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.on(signal, () => {
+    console.log(`[worker ${WORKER_ID}] ${signal} received, shutting down after current job`)
+    shuttingDown = true
+  })
+}
+
+main().catch(async (error) => {
+  console.error(`[worker ${WORKER_ID}] Fatal error:`, error)
+  await prisma.$disconnect()
+  process.exit(1)
+})
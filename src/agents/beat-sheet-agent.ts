@@ -0,0 +1,137 @@
+import { callAgentStructured } from '@/lib/openai'
+import { prisma } from '@/lib/prisma'
+import { BeatSheet, beatSheetInputSchema, formatBeatSheetTOC, keepLocked, plannedChapters } from '@/lib/beat-sheet'
+import { ProcessedTOC } from './toc-processor-agent'
+import { Prisma } from '../../soulscribe/src/generated/prisma'
+
+/**
+ * Beat Sheet Agent - The Story Architect's Drafting Table
+ *
+ * Turns the free-form outline and the processed TOC into a beat sheet: acts,
+ * chapters and the beats inside each chapter, with the characters involved and
+ * the lesson each chapter carries. The sheet is stored on the story so the author
+ * can edit it before a single chapter is written; generating it again keeps
+ * everything the author locked.
+ */
+
+export interface BeatSheetBrief {
+  chapterCount: number
+  targetAge: string
+  lifeLesson: string
+  characterTypes: string[]
+}
+
+export interface StoredBeatSheet {
+  beatSheet: BeatSheet
+  approvedAt: Date | null
+}
+
+export class BeatSheetAgent {
+  private storyId: string
+
+  constructor(storyId: string) {
+    this.storyId = storyId
+  }
+
+  /**
+   * Draft the beat sheet from the outline and TOC. With a previous sheet, its
+   * locked chapters and beats are carried over unchanged.
+   */
+  async generate(
+    outline: string,
+    processedTOC: ProcessedTOC,
+    brief: BeatSheetBrief,
+    options: { previous?: BeatSheet | null; guidance?: string } = {}
+  ): Promise<{ beatSheet: BeatSheet; tokens: number }> {
+    const chapters = [...processedTOC.chapters].sort((a, b) => a.number - b.number)
+    // A regenerated sheet keeps the chapter count the author settled on
+    const chapterCount = options.previous ? plannedChapters(options.previous).length : chapters.length || brief.chapterCount
+    const locked = options.previous ? formatLockedParts(options.previous) : ''
+    const templated = chapters.some(chapter => chapter.role)
+
+    const prompt = `Break this story down into a beat sheet the author can edit before any chapter is written.
+
+Outline:
+${outline}
+
+Table of Contents:
+${chapters.map(chapter => `${chapter.number}. ${chapter.title}${chapter.role ? ` [${chapter.role}]` : ''}${chapter.description ? ` - ${chapter.description}` : ''}${chapter.characterFocus.length > 0 ? ` (focus: ${chapter.characterFocus.join(', ')})` : ''}`).join('\n')}
+
+Thematic arcs:
+${processedTOC.thematicArcs.map(arc => `• ${arc.name} (${arc.arcType}, chapters ${arc.chapters.join(', ')}): ${arc.centralLesson}`).join('\n') || '• None identified'}
+
+Life lesson of the whole story: ${brief.lifeLesson}
+Audience: ${brief.targetAge}
+Character types: ${brief.characterTypes.join(', ') || 'any'}
+${locked ? `\nThe author locked these parts - keep them exactly where they are and plan the rest around them:\n${locked}\n` : ''}${options.guidance ? `\nThe author's direction for this plan:\n${options.guidance}\n` : ''}
+${templated ? 'The chapters follow a story structure: use the thematic arcs as the acts and keep every chapter in its [role].\n' : ''}Group the ${chapterCount} chapters into ${templated ? 'those' : '2-4'} acts, in reading order. For every chapter give a one or two sentence summary, the lesson it teaches, the characters in it and 3-6 beats - the moments that happen in order, each with the characters involved.
+
+Respond with JSON:
+{
+  "acts": [{
+    "title": "The Call",
+    "summary": "Luna leaves the village",
+    "arcType": "introduction",
+    "chapters": [{
+      "title": "The Whispering Tree",
+      "summary": "Luna hears the old oak speak for the first time",
+      "lesson": "Listening takes patience",
+      "characters": ["Luna", "The Oak"],
+      "beats": [{ "description": "Luna wanders past the village edge at dusk", "characters": ["Luna"] }]
+    }]
+  }]
+}`
+
+    const response = await callAgentStructured({
+      agentType: 'toc_processor',
+      messages: [{ role: 'user', content: prompt }],
+      schema: beatSheetInputSchema,
+      temperature: 0.6,
+      maxTokens: 3500
+    })
+
+    const beatSheet = keepLocked(options.previous, response.data)
+    await this.logBeatSheet(outline, beatSheet, response.tokensUsed)
+    return { beatSheet, tokens: response.tokensUsed }
+  }
+
+  async load(): Promise<StoredBeatSheet | null> {
+    const story = await prisma.story.findUnique({
+      where: { id: this.storyId },
+      select: { beatSheet: true, beatSheetApprovedAt: true }
+    })
+    if (!story?.beatSheet) return null
+    return { beatSheet: story.beatSheet as unknown as BeatSheet, approvedAt: story.beatSheetApprovedAt }
+  }
+
+  async save(beatSheet: BeatSheet): Promise<void> {
+    await prisma.story.update({
+      where: { id: this.storyId },
+      data: { beatSheet: beatSheet as unknown as Prisma.InputJsonValue }
+    })
+  }
+
+  private async logBeatSheet(outline: string, beatSheet: BeatSheet, tokens: number): Promise<void> {
+    await prisma.agentSession.create({
+      data: {
+        storyId: this.storyId,
+        agentType: 'toc_processor',
+        input: `Beat sheet from outline: ${outline.substring(0, 300)}...`,
+        output: formatBeatSheetTOC(beatSheet),
+        tokensUsed: tokens
+      }
+    })
+  }
+}
+
+function formatLockedParts(sheet: BeatSheet): string {
+  return sheet.acts.flatMap(act => act.chapters.flatMap(chapter => {
+    if (chapter.locked) {
+      return [`Chapter ${chapter.number} "${chapter.title}" (whole chapter): ${chapter.beats.map(beat => beat.description).join(' / ')}`]
+    }
+    return chapter.beats
+      .map((beat, index) => ({ beat, index }))
+      .filter(({ beat }) => beat.locked)
+      .map(({ beat, index }) => `Chapter ${chapter.number}, beat ${index + 1}: ${beat.description}`)
+  })).join('\n')
+}
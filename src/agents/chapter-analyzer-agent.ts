@@ -1,5 +1,8 @@
-import { callAgent } from '@/lib/openai'
+import { callAgentStructured } from '@/lib/openai'
+import { schema } from '@/lib/agent-schemas'
 import { prisma } from '@/lib/prisma'
+import { analyzeText, Readability, RepeatedPhrase, VocabularyFit } from '@/lib/text-analytics'
+import { checkContentSafety, formatSafetyNotes, SafetyCheck } from '@/lib/content-safety'
 import { ContentParserAgent } from './content-parser-agent'
 
 /**
@@ -8,6 +11,10 @@ import { ContentParserAgent } from './content-parser-agent'
  * This agent ensures every chapter is a perfect gem that advances both plot and soul growth.
  * It validates spiritual depth, narrative consistency, and maintains SoulScribe's signature
  * blend of entertainment and enlightenment.
+ *
+ * Everything countable (readability, sentence and paragraph stats, dialogue, repeated
+ * phrases, vocabulary level) comes from local text analytics; model calls are kept
+ * for the spiritual and narrative judgement.
  */
 
 export interface ChapterAnalysis {
@@ -18,9 +25,11 @@ export interface ChapterAnalysis {
   narrativeFlow: NarrativeFlow
   characterDevelopment: CharacterDevelopment
   learningIntegration: LearningIntegration
+  contentSafety: SafetyCheck
   recommendations: Recommendation[]
   overallScore: number
   readyForPublication: boolean
+  tokensUsed: number // What the model calls behind this analysis cost
 }
 
 export interface StructuralHealth {
@@ -31,8 +40,19 @@ export interface StructuralHealth {
   wordCount: number
   paragraphCount: number
   dialogueRatio: number
-  averageSentenceLength: number
-  readabilityScore: number
+  averageSentenceLength: number // words
+  readabilityScore: number // Flesch reading ease, 0-100
+  readability: Readability
+  vocabulary: VocabularyFit
+  repeatedPhrases: RepeatedPhrase[]
+}
+
+// The story beats the narrative review judges alongside the flow
+type StoryBeats = Pick<StructuralHealth, 'hasOpeningHook' | 'hasProperPacing' | 'hasClimaxMoment' | 'hasResolution'>
+
+// Tallies the model calls made for one analysis
+interface TokenUsage {
+  tokens: number
 }
 
 export interface SpiritualDepth {
@@ -69,17 +89,61 @@ export interface LearningIntegration {
   actionableInsights: string[]
   hasWhatDidWeLearn: boolean
   learningStyle: 'experiential' | 'reflective' | 'symbolic' | 'direct'
-  ageAppropriate: boolean
+  ageAppropriate: boolean // the model's judgement, overruled when the content-safety rules fail
 }
 
 export interface Recommendation {
-  type: 'structure' | 'spiritual' | 'narrative' | 'character' | 'learning'
+  type: 'structure' | 'spiritual' | 'narrative' | 'character' | 'learning' | 'safety'
   priority: 'low' | 'medium' | 'high' | 'critical'
   issue: string
   suggestion: string
   exampleFix?: string
 }
 
+// Output shapes the analyzer's model calls must return
+const score = () => schema.number({ min: 0, max: 1 })
+const stringList = () => schema.array(schema.string())
+
+const spiritualDepthSchema = schema.object({
+  themes: stringList(),
+  wisdomQuotient: score(),
+  metaphorRichness: score(),
+  hasLearningMoment: schema.boolean(),
+  hasReflectionSpace: schema.boolean(),
+  preachiness: score(),
+  authenticity: score(),
+  universalTruths: stringList()
+})
+
+const narrativeFlowSchema = schema.object({
+  connectionToPrevious: score(),
+  setupForNext: score(),
+  internalConsistency: score(),
+  emotionalBeats: stringList(),
+  tensionCurve: schema.enum(['rising', 'falling', 'plateau', 'peak'] as const),
+  voiceConsistency: score(),
+  hasOpeningHook: schema.boolean(),
+  hasProperPacing: schema.boolean(),
+  hasClimaxMoment: schema.boolean(),
+  hasResolution: schema.boolean()
+})
+
+const characterDevelopmentSchema = schema.object({
+  charactersPresent: stringList(),
+  growthMoments: schema.array(schema.object({ character: schema.string(), growth: schema.string() })),
+  relationshipDynamics: schema.array(schema.object({ characters: stringList(), dynamic: schema.string() })),
+  archetypeBalance: schema.record(score()),
+  emotionalRange: stringList()
+})
+
+const learningIntegrationSchema = schema.object({
+  explicitLessons: stringList(),
+  implicitWisdom: stringList(),
+  actionableInsights: stringList(),
+  learningStyle: schema.enum(['experiential', 'reflective', 'symbolic', 'direct'] as const),
+  ageAppropriate: schema.boolean()
+})
+
 export class ChapterAnalyzerAgent {
   private storyId: string
   private contentParser: ContentParserAgent
@@ -105,25 +169,33 @@ export class ChapterAnalyzerAgent {
   ): Promise<ChapterAnalysis> {
     // Step 1: Parse the chapter content
     const parsedChapter = await this.contentParser.parseChapterContent(chapterContent)
+    const usage: TokenUsage = { tokens: 0 }
     
-    // Step 2: Analyze structural health
-    const structuralHealth = await this.analyzeStructuralHealth(parsedChapter, chapterContext)
+    // Step 2: Evaluate spiritual depth
+    const spiritualDepth = await this.evaluateSpiritualDepth(parsedChapter, chapterContext, usage)
     
-    // Step 3: Evaluate spiritual depth
-    const spiritualDepth = await this.evaluateSpiritualDepth(parsedChapter, chapterContext)
-    
-    // Step 4: Assess narrative flow
-    const narrativeFlow = await this.assessNarrativeFlow(parsedChapter, chapterContext)
+    // Step 3: Assess narrative flow and the story beats
+    const { hasOpeningHook, hasProperPacing, hasClimaxMoment, hasResolution, ...narrativeFlow } =
+      await this.assessNarrativeFlow(parsedChapter, chapterContext, usage)
+
+    // Step 4: Measure structural health locally
+    const structuralHealth = this.analyzeStructuralHealth(
+      parsedChapter.content,
+      chapterContext.targetAge,
+      { hasOpeningHook, hasProperPacing, hasClimaxMoment, hasResolution }
+    )
     
     // Step 5: Examine character development
-    const characterDevelopment = await this.examineCharacterDevelopment(parsedChapter, chapterContext)
+    const characterDevelopment = await this.examineCharacterDevelopment(parsedChapter, chapterContext, usage)
     
-    // Step 6: Check learning integration
-    const learningIntegration = await this.checkLearningIntegration(parsedChapter, chapterContext)
+    // Step 6: Check learning integration, and the content against the target age
+    const contentSafety = checkContentSafety(parsedChapter.content, chapterContext.targetAge)
+    const learningIntegration = await this.checkLearningIntegration(parsedChapter, chapterContext, usage)
+    learningIntegration.ageAppropriate = learningIntegration.ageAppropriate && contentSafety.passed
     
     // Step 7: Generate recommendations
     const recommendations = this.generateRecommendations(
-      structuralHealth, spiritualDepth, narrativeFlow, characterDevelopment, learningIntegration
+      structuralHealth, spiritualDepth, narrativeFlow, characterDevelopment, learningIntegration, contentSafety
     )
     
     // Step 8: Calculate overall score
@@ -139,9 +211,11 @@ export class ChapterAnalyzerAgent {
       narrativeFlow,
       characterDevelopment,
       learningIntegration,
+      contentSafety,
       recommendations,
       overallScore,
-      readyForPublication: overallScore >= 0.8 && recommendations.filter(r => r.priority === 'critical').length === 0
+      readyForPublication: overallScore >= 0.8 && recommendations.filter(r => r.priority === 'critical').length === 0,
+      tokensUsed: usage.tokens
     }
 
     // Log the analysis session
@@ -151,70 +225,21 @@ export class ChapterAnalyzerAgent {
   }
 
   /**
-   * Analyze structural health of the chapter
+   * Analyze structural health of the chapter - measured, not asked for
    */
-  private async analyzeStructuralHealth(
-    parsedChapter: any,
-    chapterContext: any
-  ): Promise<StructuralHealth> {
-    const content = parsedChapter.content
-    const sentences = content.split(/[.!?]+/).filter(s => s.trim().length > 0)
-    const paragraphs = content.split('\n\n').filter(p => p.trim().length > 0)
-    
-    // AI analysis for complex structural elements
-    const structuralPrompt = `Analyze the structural health of this chapter:
-
-Chapter ${chapterContext.number}: ${chapterContext.title}
-
-Content:
-${content.substring(0, 2000)}...
-
-Evaluate:
-1. Does it have an engaging opening hook?
-2. Is the pacing appropriate for the chapter's purpose?
-3. Is there a climactic moment or turning point?
-4. Does it have proper resolution/transition?
-5. Rate the overall structural quality (0-1)
-
-Respond with JSON:
-{
-  "hasOpeningHook": true/false,
-  "hasProperPacing": true/false,
-  "hasClimaxMoment": true/false,
-  "hasResolution": true/false,
-  "structuralQuality": 0.85
-}`
-
-    const response = await callAgent({
-      agentType: 'chapter_analyzer' as any,
-      messages: [{ role: 'user', content: structuralPrompt }],
-      temperature: 0.4,
-      maxTokens: 500
-    })
-
-    let aiAnalysis
-    try {
-      aiAnalysis = JSON.parse(response.content)
-    } catch {
-      aiAnalysis = {
-        hasOpeningHook: true,
-        hasProperPacing: true,
-        hasClimaxMoment: true,
-        hasResolution: true,
-        structuralQuality: 0.7
-      }
-    }
+  private analyzeStructuralHealth(content: string, targetAge: string, beats: StoryBeats): StructuralHealth {
+    const text = analyzeText(content, targetAge)
 
     return {
-      hasOpeningHook: aiAnalysis.hasOpeningHook,
-      hasProperPacing: aiAnalysis.hasProperPacing,
-      hasClimaxMoment: aiAnalysis.hasClimaxMoment,
-      hasResolution: aiAnalysis.hasResolution,
-      wordCount: parsedChapter.wordCount,
-      paragraphCount: paragraphs.length,
-      dialogueRatio: parsedChapter.dialogueCount / paragraphs.length,
-      averageSentenceLength: content.length / sentences.length,
-      readabilityScore: this.calculateReadabilityScore(content)
+      ...beats,
+      wordCount: text.stats.wordCount,
+      paragraphCount: text.stats.paragraphCount,
+      dialogueRatio: text.dialogueRatio,
+      averageSentenceLength: text.stats.averageSentenceLength,
+      readabilityScore: text.readability.fleschReadingEase,
+      readability: text.readability,
+      vocabulary: text.vocabulary,
+      repeatedPhrases: text.repeatedPhrases
     }
   }
 
@@ -223,7 +248,8 @@ Respond with JSON:
    */
   private async evaluateSpiritualDepth(
     parsedChapter: any,
-    chapterContext: any
+    chapterContext: any,
+    usage: TokenUsage
   ): Promise<SpiritualDepth> {
     const spiritualPrompt = `Evaluate the spiritual depth of this SoulScribe chapter:
 
@@ -256,27 +282,16 @@ Respond with JSON:
   "universalTruths": ["truth1", "truth2"]
 }`
 
-    const response = await callAgent({
-      agentType: 'chapter_analyzer' as any,
+    const response = await callAgentStructured({
+      agentType: 'chapter_analyzer',
       messages: [{ role: 'user', content: spiritualPrompt }],
+      schema: spiritualDepthSchema,
       temperature: 0.6,
       maxTokens: 800
     })
+    usage.tokens += response.tokensUsed
 
-    try {
-      return JSON.parse(response.content)
-    } catch {
-      return {
-        themes: chapterContext.storyThemes.slice(0, 2),
-        wisdomQuotient: 0.7,
-        metaphorRichness: 0.6,
-        hasLearningMoment: parsedChapter.learningElement !== undefined,
-        hasReflectionSpace: true,
-        preachiness: 0.3,
-        authenticity: 0.8,
-        universalTruths: ['Growth comes through challenge', 'Wisdom is found in stillness']
-      }
-    }
+    return response.data
   }
 
   /**
@@ -284,8 +299,9 @@ Respond with JSON:
    */
   private async assessNarrativeFlow(
     parsedChapter: any,
-    chapterContext: any
-  ): Promise<NarrativeFlow> {
+    chapterContext: any,
+    usage: TokenUsage
+  ): Promise<NarrativeFlow & StoryBeats> {
     const flowPrompt = `Assess the narrative flow of this chapter:
 
 Chapter ${chapterContext.number}: ${chapterContext.title}
@@ -301,6 +317,10 @@ Evaluate:
 4. What emotional beats are present?
 5. Tension curve: rising/falling/plateau/peak
 6. Voice consistency with SoulScribe style (0-1)
+7. Does it have an engaging opening hook?
+8. Is the pacing appropriate for the chapter's purpose?
+9. Is there a climactic moment or turning point?
+10. Does it have proper resolution/transition?
 
 JSON format:
 {
@@ -309,28 +329,23 @@ JSON format:
   "internalConsistency": 0.9,
   "emotionalBeats": ["hope", "challenge", "wisdom"],
   "tensionCurve": "rising",
-  "voiceConsistency": 0.85
+  "voiceConsistency": 0.85,
+  "hasOpeningHook": true,
+  "hasProperPacing": true,
+  "hasClimaxMoment": true,
+  "hasResolution": true
 }`
 
-    const response = await callAgent({
-      agentType: 'chapter_analyzer' as any,
+    const response = await callAgentStructured({
+      agentType: 'chapter_analyzer',
       messages: [{ role: 'user', content: flowPrompt }],
+      schema: narrativeFlowSchema,
       temperature: 0.5,
-      maxTokens: 600
+      maxTokens: 700
     })
+    usage.tokens += response.tokensUsed
 
-    try {
-      return JSON.parse(response.content)
-    } catch {
-      return {
-        connectionToPrevious: 0.7,
-        setupForNext: 0.7,
-        internalConsistency: 0.8,
-        emotionalBeats: ['wonder', 'discovery', 'growth'],
-        tensionCurve: 'rising' as const,
-        voiceConsistency: 0.8
-      }
-    }
+    return response.data
   }
 
   /**
@@ -338,7 +353,8 @@ JSON format:
    */
   private async examineCharacterDevelopment(
     parsedChapter: any,
-    chapterContext: any
+    chapterContext: any,
+    usage: TokenUsage
   ): Promise<CharacterDevelopment> {
     const characterPrompt = `Analyze character development in this chapter:
 
@@ -361,24 +377,16 @@ JSON format:
   "emotionalRange": ["curiosity", "courage", "compassion"]
 }`
 
-    const response = await callAgent({
-      agentType: 'chapter_analyzer' as any,
+    const response = await callAgentStructured({
+      agentType: 'chapter_analyzer',
       messages: [{ role: 'user', content: characterPrompt }],
+      schema: characterDevelopmentSchema,
       temperature: 0.6,
       maxTokens: 700
     })
+    usage.tokens += response.tokensUsed
 
-    try {
-      return JSON.parse(response.content)
-    } catch {
-      return {
-        charactersPresent: ['Protagonist'],
-        growthMoments: [{ character: 'Protagonist', growth: 'Discovers inner strength' }],
-        relationshipDynamics: [],
-        archetypeBalance: { 'seeker': 1.0 },
-        emotionalRange: ['wonder', 'determination', 'peace']
-      }
-    }
+    return response.data
   }
 
   /**
@@ -386,7 +394,8 @@ JSON format:
    */
   private async checkLearningIntegration(
     parsedChapter: any,
-    chapterContext: any
+    chapterContext: any,
+    usage: TokenUsage
   ): Promise<LearningIntegration> {
     const hasWhatDidWeLearn = parsedChapter.learningElement !== undefined
     
@@ -412,28 +421,18 @@ JSON format:
   "ageAppropriate": true
 }`
 
-    const response = await callAgent({
-      agentType: 'chapter_analyzer' as any,
+    const response = await callAgentStructured({
+      agentType: 'chapter_analyzer',
       messages: [{ role: 'user', content: learningPrompt }],
+      schema: learningIntegrationSchema,
       temperature: 0.5,
       maxTokens: 600
     })
+    usage.tokens += response.tokensUsed
 
-    try {
-      const parsed = JSON.parse(response.content)
-      return {
-        ...parsed,
-        hasWhatDidWeLearn
-      }
-    } catch {
-      return {
-        explicitLessons: ['Courage grows with practice'],
-        implicitWisdom: ['Every challenge is an opportunity'],
-        actionableInsights: ['Take one small brave step today'],
-        hasWhatDidWeLearn,
-        learningStyle: 'experiential' as const,
-        ageAppropriate: true
-      }
+    return {
+      ...response.data,
+      hasWhatDidWeLearn
     }
   }
 
@@ -445,7 +444,8 @@ JSON format:
     spiritual: SpiritualDepth,
     narrative: NarrativeFlow,
     character: CharacterDevelopment,
-    learning: LearningIntegration
+    learning: LearningIntegration,
+    safety: SafetyCheck
   ): Recommendation[] {
     const recommendations: Recommendation[] = []
 
@@ -469,6 +469,44 @@ JSON format:
       })
     }
 
+    if (!structural.vocabulary.fits) {
+      recommendations.push({
+        type: 'structure',
+        priority: structural.vocabulary.audience === 'child' ? 'high' : 'medium',
+        issue: `Reading level is too hard for the audience: ${structural.vocabulary.issues.join('; ')}`,
+        suggestion: 'Use shorter sentences and everyday words, keeping the imagery simple and concrete'
+      })
+    }
+
+    if (structural.repeatedPhrases.length > 0) {
+      recommendations.push({
+        type: 'structure',
+        priority: structural.repeatedPhrases.some(repeated => repeated.count >= 5) ? 'medium' : 'low',
+        issue: `Repeated phrases: ${structural.repeatedPhrases.slice(0, 3).map(repeated => `"${repeated.phrase}" (${repeated.count}×)`).join(', ')}`,
+        suggestion: 'Vary the wording unless the repetition is a deliberate refrain'
+      })
+    }
+
+    if (structural.dialogueRatio < 0.05 && structural.wordCount >= 500) {
+      recommendations.push({
+        type: 'structure',
+        priority: 'low',
+        issue: 'Chapter has almost no dialogue',
+        suggestion: 'Let characters speak - a few lines of dialogue bring a scene to life'
+      })
+    }
+
+    // Safety recommendations - content above the audience's ceiling has to go before anything else
+    if (!safety.passed) {
+      recommendations.push({
+        type: 'safety',
+        priority: safety.audience === 'child' || safety.audience === 'all_ages' ? 'critical' : 'high',
+        issue: `Content is too intense for ${safety.audience.replace('_', ' ')} readers`,
+        suggestion: 'Soften these passages - keep the challenge, lose the graphic detail and lingering dread',
+        exampleFix: formatSafetyNotes(safety.annotations)
+      })
+    }
+
     // Spiritual recommendations
     if (spiritual.preachiness > 0.6) {
       recommendations.push({
@@ -535,7 +573,7 @@ JSON format:
       (structural.hasProperPacing ? 1 : 0) +
       (structural.hasClimaxMoment ? 1 : 0) +
       (structural.hasResolution ? 1 : 0) +
-      Math.min(structural.readabilityScore / 100, 1)
+      (structural.vocabulary.fits ? 1 : 0.5)
     ) / 5
 
     const spiritualScore = (
@@ -571,19 +609,6 @@ JSON format:
     )
   }
 
-  /**
-   * Calculate readability score (simplified)
-   */
-  private calculateReadabilityScore(content: string): number {
-    const sentences = content.split(/[.!?]+/).filter(s => s.trim().length > 0)
-    const words = content.split(/\s+/).filter(w => w.trim().length > 0)
-    const avgWordsPerSentence = words.length / sentences.length
-    
-    // Simplified readability (optimal: 15-20 words per sentence)
-    const idealRange = avgWordsPerSentence >= 10 && avgWordsPerSentence <= 25
-    return idealRange ? 85 : Math.max(0, 85 - Math.abs(avgWordsPerSentence - 17.5) * 2)
-  }
-
   /**
    * Batch analyze multiple chapters for story-wide consistency
    */
@@ -643,7 +668,7 @@ JSON format:
         agentType: 'chapter_analyzer',
         input: `Chapter ${analysis.chapterNumber}: ${chapterContent.substring(0, 300)}...`,
         output: `Score: ${analysis.overallScore.toFixed(2)}, Ready: ${analysis.readyForPublication}, Recommendations: ${analysis.recommendations.length}`,
-        tokensUsed: Math.ceil(chapterContent.length / 4)
+        tokensUsed: analysis.tokensUsed
       }
     })
   }
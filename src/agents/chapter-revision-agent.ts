@@ -0,0 +1,182 @@
+import { callAgentStructured, AgentType } from '@/lib/openai'
+import { schema } from '@/lib/agent-schemas'
+import { prisma } from '@/lib/prisma'
+import { diffWords, DiffSegment } from '@/lib/text-diff'
+import { escapeRegExp } from './story-bible-agent'
+
+/**
+ * Chapter Revision Agent - The Gentle Editor at the Author's Elbow
+ *
+ * The author selects a passage and says what they want ("make this gentler for a
+ * 6-year-old", "add more dialogue for Mira"). Requests about characters, voices and
+ * dialogue go to the Character Soul; everything else goes to the Wisdom Weaver.
+ * The rewrite comes back as a proposal with a word-level diff for the author to
+ * accept or reject - nothing changes in the chapter until they do.
+ */
+
+export interface PassageSelection {
+  start: number
+  end: number
+}
+
+export interface RevisionRequest {
+  chapterNumber: number
+  chapterTitle: string
+  content: string
+  selection: PassageSelection
+  instruction: string
+  targetAge?: string
+}
+
+export interface RevisionProposal {
+  agentType: RevisionAgentType
+  original: string
+  revised: string
+  rationale: string
+  diff: DiffSegment[]
+  tokens: number
+}
+
+export type RevisionAgentType = Extract<AgentType, 'character_soul' | 'wisdom_weaver'>
+
+export class StaleRevisionError extends Error {
+  constructor(public readonly chapterNumber: number) {
+    super(`Chapter ${chapterNumber} changed since the revision was proposed`)
+    this.name = 'StaleRevisionError'
+  }
+}
+
+const revisionSchema = schema.object({
+  revised: schema.string({ minLength: 1 }),
+  rationale: schema.string().optional()
+})
+
+const CHARACTER_INSTRUCTION_PATTERN = /\b(dialogue|dialog|conversation|voice|speak|speaks|speech|says|talk|talks|character|characters|personality|feelings?|emotion|reacts?)\b/i
+
+// Surrounding text sent along so the rewrite fits where it sits
+const CONTEXT_CHARACTERS = 600
+
+export class ChapterRevisionAgent {
+  private storyId: string
+
+  constructor(storyId: string) {
+    this.storyId = storyId
+  }
+
+  /**
+   * Rewrite the selected passage following the author's instruction
+   */
+  async proposeRevision(request: RevisionRequest): Promise<RevisionProposal> {
+    const { content, selection } = request
+    const original = content.slice(selection.start, selection.end)
+    const characterNames = await this.characterNames()
+    const agentType = chooseRevisionAgent(request.instruction, characterNames)
+
+    const before = content.slice(Math.max(0, selection.start - CONTEXT_CHARACTERS), selection.start)
+    const after = content.slice(selection.end, selection.end + CONTEXT_CHARACTERS)
+
+    const prompt = `The author of Chapter ${request.chapterNumber}: "${request.chapterTitle}" wants one passage rewritten.
+
+Author's instruction: ${request.instruction}
+${request.targetAge ? `Audience: ${request.targetAge}\n` : ''}
+Text just before the passage:
+${before || '(start of chapter)'}
+
+PASSAGE TO REWRITE:
+${original}
+
+Text just after the passage:
+${after || '(end of chapter)'}
+
+Rewrite only the passage so it follows the instruction, flows into the text around it and keeps
+the chapter's voice, names and facts. Keep [S1], [S2] speaker tags for any dialogue.
+
+Respond with JSON:
+{
+  "revised": "the rewritten passage",
+  "rationale": "one sentence on what you changed"
+}`
+
+    const response = await callAgentStructured({
+      agentType,
+      messages: [{ role: 'user', content: prompt }],
+      schema: revisionSchema,
+      temperature: 0.7,
+      maxTokens: Math.min(4000, Math.max(500, Math.ceil(original.length / 2)))
+    })
+
+    const revised = keepSurroundingWhitespace(original, response.data.revised.trim())
+    await this.logRevision(agentType, request, original, revised, response.tokensUsed)
+
+    return {
+      agentType,
+      original,
+      revised,
+      rationale: response.data.rationale || '',
+      diff: diffWords(original, revised),
+      tokens: response.tokensUsed
+    }
+  }
+
+  private async characterNames(): Promise<string[]> {
+    const characters = await prisma.character.findMany({
+      where: { storyId: this.storyId },
+      select: { name: true }
+    })
+    return characters.map(character => character.name)
+  }
+
+  private async logRevision(
+    agentType: RevisionAgentType,
+    request: RevisionRequest,
+    original: string,
+    revised: string,
+    tokensUsed: number
+  ): Promise<void> {
+    await prisma.agentSession.create({
+      data: {
+        storyId: this.storyId,
+        agentType,
+        input: `Chapter ${request.chapterNumber} revision - ${request.instruction}\n\n${original}`,
+        output: revised,
+        tokensUsed
+      }
+    })
+  }
+}
+
+/**
+ * Character, voice and dialogue requests go to the Character Soul; the rest to the Wisdom Weaver
+ */
+export function chooseRevisionAgent(instruction: string, characterNames: string[] = []): RevisionAgentType {
+  const namesCharacter = characterNames.some(name => new RegExp(`\\b${escapeRegExp(name)}\\b`, 'i').test(instruction))
+  return namesCharacter || CHARACTER_INSTRUCTION_PATTERN.test(instruction) ? 'character_soul' : 'wisdom_weaver'
+}
+
+/**
+ * Replace a passage in chapter text. If the text moved since the proposal was made,
+ * the passage is found again by content; if it is gone or ambiguous the revision is stale.
+ */
+export function applyRevision(
+  content: string,
+  proposal: { chapterNumber: number; selection: PassageSelection; original: string; revised: string }
+): string {
+  const { selection, original, revised } = proposal
+  let start = selection.start
+
+  if (content.slice(selection.start, selection.end) !== original) {
+    start = content.indexOf(original)
+    if (start === -1 || content.indexOf(original, start + 1) !== -1) {
+      throw new StaleRevisionError(proposal.chapterNumber)
+    }
+  }
+
+  return content.slice(0, start) + revised + content.slice(start + original.length)
+}
+
+// Selections often carry a trailing newline or space - keep it so paragraphs stay apart
+function keepSurroundingWhitespace(original: string, revised: string): string {
+  const leading = original.match(/^\s*/)?.[0] || ''
+  const trailing = original.match(/\s*$/)?.[0] || ''
+  return `${leading}${revised}${trailing}`
+}
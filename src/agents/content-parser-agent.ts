@@ -94,7 +94,7 @@ SACREDLY PRESERVE (every word of wisdom):
 Extract with the tenderness of handling sacred texts. Return ONLY the purified content - no explanations.`
 
     const response = await callAgent({
-      agentType: 'content_parser' as any,
+      agentType: 'content_parser',
       messages: [{ role: 'user', content: parsePrompt }],
       temperature: 0.3, // Low temperature for precision
       maxTokens: 4000
@@ -0,0 +1,272 @@
+import { callAgentStructured } from '@/lib/openai'
+import { schema } from '@/lib/agent-schemas'
+import { prisma } from '@/lib/prisma'
+import { Audience, audienceFor } from '@/lib/text-analytics'
+import {
+  SafetyAnnotation,
+  checkContentSafety,
+  exceedsCeiling,
+  passageSpans,
+  severityRank
+} from '@/lib/content-safety'
+import { Prisma } from '../../soulscribe/src/generated/prisma'
+
+/**
+ * Content Safety Agent - The Guardian of Young Readers
+ *
+ * Checks chapters against the story's target age. The lexicon rules run on every
+ * check for free; a thorough check also has the model read the chapter, which
+ * catches what word lists miss - a threat made without a single violent word, or
+ * dread that builds over a page. Each chapter revision's findings are stored as a
+ * SafetyReview, and child stories can only be published once every chapter passes.
+ */
+
+export interface ChapterSafetyReport {
+  chapterNumber: number
+  revision: number
+  audience: Audience
+  passed: boolean
+  annotations: SafetyAnnotation[]
+  thorough: boolean
+  tokens: number
+}
+
+export interface StorySafetyReport {
+  audience: Audience
+  passed: boolean
+  chapters: ChapterSafetyReport[]
+  tokens: number
+}
+
+// Only these audiences have to pass before a story can be made public
+export const PUBLISH_GATED_AUDIENCES: Audience[] = ['child']
+
+const safetyReviewSchema = schema.object({
+  findings: schema.array(schema.object({
+    passage: schema.number({ min: 1 }),
+    category: schema.enum(['violence', 'fear', 'mature'] as const),
+    severity: schema.enum(['mild', 'moderate', 'severe'] as const),
+    quote: schema.string(),
+    reason: schema.string({ minLength: 1 })
+  }))
+})
+
+type ReviewedChapter = { id: string; number: number; revision: number; content: string }
+
+export class ContentSafetyAgent {
+  private storyId: string
+
+  constructor(storyId: string) {
+    this.storyId = storyId
+  }
+
+  /**
+   * Check one chapter's text. With thorough: false only the rules run (no tokens spent).
+   */
+  async checkChapter(
+    chapterNumber: number,
+    content: string,
+    targetAge: string,
+    options: { thorough?: boolean } = {}
+  ): Promise<Omit<ChapterSafetyReport, 'revision'>> {
+    const check = checkContentSafety(content, targetAge)
+    const annotations = [...check.annotations]
+    const thorough = options.thorough !== false
+    let tokens = 0
+
+    if (thorough) {
+      const spans = passageSpans(content)
+      const prompt = `Read Chapter ${chapterNumber} as its intended reader would. The story is for ${check.audience.replace('_', ' ')} readers.
+
+The chapter, one numbered passage per paragraph:
+${spans.map((span, index) => `[${index + 1}] ${span.text}`).join('\n\n')}
+
+List every passage with violence, frightening content or mature themes that feels too intense for this audience. Use "mild", "moderate" or "severe" for how intense it reads, and quote the words that make it so. Leave out anything that suits the audience - an empty list is a good answer.
+
+Respond with JSON:
+{
+  "findings": [{ "passage": 3, "category": "fear", "severity": "moderate", "quote": "the shadows clawed at her door", "reason": "Lingering dread with no comfort for a young reader" }]
+}`
+
+      const response = await callAgentStructured({
+        agentType: 'content_safety',
+        messages: [{ role: 'user', content: prompt }],
+        schema: safetyReviewSchema,
+        temperature: 0.1,
+        maxTokens: 800
+      })
+      tokens += response.tokensUsed
+
+      response.data.findings.forEach(finding => {
+        const span = spans[Math.round(finding.passage) - 1]
+        if (!span) return
+
+        const passage = Math.round(finding.passage) - 1
+        const known = annotations.find(annotation => annotation.passage === passage && annotation.category === finding.category)
+        // The rules already flagged this passage at least as strongly
+        if (known && severityRank(known.severity) >= severityRank(finding.severity)) return
+
+        const blocking = exceedsCeiling(check.audience, finding.category, finding.severity)
+        if (!blocking) return
+
+        const annotation: SafetyAnnotation = {
+          passage,
+          start: span.start,
+          end: span.end,
+          excerpt: finding.quote || span.text.slice(0, 160),
+          category: finding.category,
+          severity: finding.severity,
+          terms: [],
+          reason: finding.reason,
+          source: 'model',
+          blocking
+        }
+        if (known) {
+          annotations[annotations.indexOf(known)] = { ...annotation, terms: known.terms }
+        } else {
+          annotations.push(annotation)
+        }
+      })
+      annotations.sort((a, b) => a.passage - b.passage)
+    }
+
+    const report = {
+      chapterNumber,
+      audience: check.audience,
+      passed: !annotations.some(annotation => annotation.blocking),
+      annotations,
+      thorough,
+      tokens
+    }
+    await this.logSafetyCheck(content, report)
+    return report
+  }
+
+  /**
+   * Check every chapter of the story and keep the findings for each chapter's current revision
+   */
+  async reviewStory(options: { thorough?: boolean } = {}): Promise<StorySafetyReport> {
+    const story = await this.loadStory()
+    const chapters: ChapterSafetyReport[] = []
+
+    for (const chapter of story.chapters) {
+      const report = await this.checkChapter(chapter.number, chapter.content, story.targetAge, options)
+      await this.saveReview(chapter, report)
+      chapters.push({ ...report, revision: chapter.revision })
+    }
+
+    return summarize(story.targetAge, chapters)
+  }
+
+  /**
+   * The findings that stand between the story and publishing. Chapters without a
+   * stored review of their current text get a rules check now; thorough reviews
+   * already on file are reused.
+   */
+  async reviewForPublishing(): Promise<StorySafetyReport> {
+    const story = await this.loadStory()
+    const reviews = await prisma.safetyReview.findMany({
+      where: { chapterId: { in: story.chapters.map(chapter => chapter.id) } }
+    })
+    const audience = audienceFor(story.targetAge)
+    const chapters: ChapterSafetyReport[] = []
+
+    for (const chapter of story.chapters) {
+      // A review made before the target age changed no longer counts
+      const stored = reviews.find(review =>
+        review.chapterId === chapter.id && review.revision === chapter.revision && review.audience === audience
+      )
+      if (stored) {
+        chapters.push({
+          chapterNumber: chapter.number,
+          revision: stored.revision,
+          audience,
+          passed: stored.passed,
+          annotations: stored.annotations as unknown as SafetyAnnotation[],
+          thorough: stored.thorough,
+          tokens: 0
+        })
+        continue
+      }
+
+      const report = await this.checkChapter(chapter.number, chapter.content, story.targetAge, { thorough: false })
+      await this.saveReview(chapter, report)
+      chapters.push({ ...report, revision: chapter.revision })
+    }
+
+    return summarize(story.targetAge, chapters)
+  }
+
+  /**
+   * Take a public story down when its current text no longer passes the publishing
+   * review - call after anything rewrites a chapter. Returns the failing report when
+   * the story was unpublished, null when it stays as it is.
+   */
+  async unpublishIfUnsafe(): Promise<StorySafetyReport | null> {
+    const story = await prisma.story.findUnique({
+      where: { id: this.storyId },
+      select: { isPublic: true, targetAge: true }
+    })
+    if (!story?.isPublic || !PUBLISH_GATED_AUDIENCES.includes(audienceFor(story.targetAge))) {
+      return null
+    }
+
+    const report = await this.reviewForPublishing()
+    if (report.passed) {
+      return null
+    }
+    await prisma.story.update({ where: { id: this.storyId }, data: { isPublic: false } })
+    console.log(`🛡️ Story ${this.storyId} was unpublished - its current text no longer passes the safety review`)
+    return report
+  }
+
+  private async loadStory(): Promise<{ targetAge: string; chapters: ReviewedChapter[] }> {
+    const story = await prisma.story.findUnique({
+      where: { id: this.storyId },
+      select: {
+        targetAge: true,
+        chapters: { select: { id: true, number: true, revision: true, content: true }, orderBy: { number: 'asc' } }
+      }
+    })
+    if (!story) {
+      throw new Error(`Story ${this.storyId} not found`)
+    }
+    return story
+  }
+
+  private async saveReview(chapter: ReviewedChapter, report: Omit<ChapterSafetyReport, 'revision'>): Promise<void> {
+    const data = {
+      audience: report.audience,
+      passed: report.passed,
+      annotations: report.annotations as unknown as Prisma.InputJsonValue,
+      thorough: report.thorough,
+      tokensUsed: report.tokens
+    }
+    await prisma.safetyReview.upsert({
+      where: { chapterId_revision: { chapterId: chapter.id, revision: chapter.revision } },
+      create: { chapterId: chapter.id, revision: chapter.revision, ...data },
+      update: data
+    })
+  }
+
+  private async logSafetyCheck(content: string, report: Omit<ChapterSafetyReport, 'revision'>): Promise<void> {
+    await prisma.agentSession.create({
+      data: {
+        storyId: this.storyId,
+        agentType: 'content_safety',
+        input: `Chapter ${report.chapterNumber} for ${report.audience}: ${content.substring(0, 300)}...`,
+        output: report.annotations.length > 0 ? JSON.stringify(report.annotations) : 'No safety findings',
+        tokensUsed: report.tokens
+      }
+    })
+  }
+}
+
+function summarize(targetAge: string, chapters: ChapterSafetyReport[]): StorySafetyReport {
+  return {
+    audience: audienceFor(targetAge),
+    passed: chapters.every(chapter => chapter.passed),
+    chapters,
+    tokens: chapters.reduce((sum, chapter) => sum + chapter.tokens, 0)
+  }
+}
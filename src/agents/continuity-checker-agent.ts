@@ -0,0 +1,151 @@
+import { callAgentStructured } from '@/lib/openai'
+import { schema } from '@/lib/agent-schemas'
+import { prisma } from '@/lib/prisma'
+import { StoryBible, selectRelevantEntries, formatBibleSection, escapeRegExp } from './story-bible-agent'
+
+/**
+ * Continuity Checker Agent - The Reader Who Never Forgets
+ *
+ * Compares a new chapter with the story bible and flags contradictions: eyes that
+ * changed colour, a lantern back in the wrong hands, a character who died two
+ * chapters ago suddenly chatting away. Dead characters speaking is caught by a
+ * plain text check; everything else needs the model to read the chapter.
+ */
+
+export interface ContinuityIssue {
+  kind: 'dead_character' | 'contradiction'
+  subject: string
+  established: string
+  contradiction: string
+  severity: 'minor' | 'major'
+}
+
+export interface ContinuityReport {
+  chapterNumber: number
+  issues: ContinuityIssue[]
+  tokens: number
+}
+
+const continuityReviewSchema = schema.object({
+  issues: schema.array(schema.object({
+    subject: schema.string({ minLength: 1 }),
+    established: schema.string(),
+    contradiction: schema.string({ minLength: 1 }),
+    severity: schema.enum(['minor', 'major'] as const)
+  }))
+})
+
+const SPEECH_VERBS = 'said|says|asked|asks|replied|replies|whispered|whispers|shouted|shouts|called|calls|cried|answered|answers|exclaimed|laughed|laughs|spoke|speaks|smiled|smiles|nodded|nods|walked|walks'
+
+// Sentences like these may mention the dead without bringing them back to life
+const REMEMBRANCE_PATTERN = /\b(remember(?:s|ed)?|memor(?:y|ies)|dream(?:s|ed|t)?|ghost|spirit|echo(?:es|ed)?|used to|once said|would have|long ago)\b/i
+
+export class ContinuityCheckerAgent {
+  private storyId: string
+
+  constructor(storyId: string) {
+    this.storyId = storyId
+  }
+
+  /**
+   * Check a chapter against the bible built from the chapters before it.
+   * With thorough: false only the text checks run (no tokens spent).
+   */
+  async checkChapter(
+    chapterNumber: number,
+    content: string,
+    bible: StoryBible,
+    options: { thorough?: boolean } = {}
+  ): Promise<ContinuityReport> {
+    const issues = findDeadCharacterActions(content, bible)
+    let tokens = 0
+
+    const relevant = selectRelevantEntries(bible, { number: chapterNumber, title: '', plan: content })
+    const bibleSection = formatBibleSection(relevant)
+
+    if (options.thorough !== false && bibleSection) {
+      const prompt = `Check Chapter ${chapterNumber} for continuity errors against the story bible.
+
+${bibleSection}
+
+Chapter ${chapterNumber}:
+${content}
+
+List every place where the chapter contradicts the bible - changed appearance, abilities,
+relationships or ownership, characters who are dead or gone acting in the present, places
+described differently, broken rules of the world. Growth and new details are not errors.
+Use "major" for contradictions a reader would notice and "minor" for small slips.
+
+Respond with JSON:
+{
+  "issues": [{ "subject": "Luna", "established": "has emerald green eyes", "contradiction": "her blue eyes sparkled", "severity": "major" }]
+}`
+
+      const response = await callAgentStructured({
+        agentType: 'continuity_checker',
+        messages: [{ role: 'user', content: prompt }],
+        schema: continuityReviewSchema,
+        temperature: 0.1,
+        maxTokens: 800
+      })
+      tokens += response.tokensUsed
+
+      response.data.issues.forEach(issue => {
+        const duplicate = issues.some(known => known.subject.toLowerCase() === issue.subject.toLowerCase() && known.kind === 'dead_character')
+        if (!duplicate) {
+          issues.push({ kind: 'contradiction', ...issue })
+        }
+      })
+    }
+
+    await this.logContinuityCheck(chapterNumber, content, issues, tokens)
+    return { chapterNumber, issues, tokens }
+  }
+
+  private async logContinuityCheck(chapterNumber: number, content: string, issues: ContinuityIssue[], tokensUsed: number): Promise<void> {
+    await prisma.agentSession.create({
+      data: {
+        storyId: this.storyId,
+        agentType: 'continuity_checker',
+        input: `Chapter ${chapterNumber}: ${content.substring(0, 300)}...`,
+        output: issues.length > 0 ? JSON.stringify(issues) : 'No continuity issues',
+        tokensUsed
+      }
+    })
+  }
+}
+
+/**
+ * Find characters the bible records as dead who speak or act in the chapter.
+ * Sentences framed as memories, dreams or ghosts are allowed.
+ */
+export function findDeadCharacterActions(content: string, bible: StoryBible): ContinuityIssue[] {
+  const sentences = content.split(/(?<=[.!?]["”]?)\s+|\n+/).filter(sentence => sentence.trim().length > 0)
+
+  return bible.characters
+    .filter(character => character.status === 'dead')
+    .flatMap(character => {
+      const name = escapeRegExp(character.name)
+      const acting = new RegExp(`\\b${name}\\s+(?:${SPEECH_VERBS})\\b|\\b(?:${SPEECH_VERBS})\\s+${name}\\b|^\\s*${name}\\s*:`, 'i')
+
+      const sentence = sentences.find(candidate => acting.test(candidate) && !REMEMBRANCE_PATTERN.test(candidate))
+      if (!sentence) return []
+
+      return [{
+        kind: 'dead_character' as const,
+        subject: character.name,
+        established: `${character.name} is dead`,
+        contradiction: sentence.trim(),
+        severity: 'major' as const
+      }]
+    })
+}
+
+/**
+ * Continuity issues as revision notes for SoulScribe
+ */
+export function formatContinuityNotes(issues: ContinuityIssue[]): string {
+  return issues
+    .map(issue => `• ${issue.subject}: established "${issue.established}", but the chapter has "${issue.contradiction}"`)
+    .join('\n')
+}
@@ -1,7 +1,32 @@
-import { spawn, ChildProcess } from 'child_process'
 import { promises as fs } from 'fs'
 import path from 'path'
 import { prisma } from '@/lib/prisma'
+import {
+  AudioGenerationRequest,
+  AudioGenerationResult,
+  ChapterAudioRequest,
+  ChapterAudioResult,
+  DEFAULT_VOICE_PROFILES,
+  VoiceBackend,
+  VoiceProfile,
+  describeAudioFile,
+  renderChapterAudio
+} from './voice-backend'
+import {
+  DiaMeistroWorker,
+  DiaMeistroWorkerOptions,
+  WorkerHealth,
+  WorkerSegment,
+  WorkerSegmentResult
+} from './dia-meistro-worker'
+
+export type {
+  AudioGenerationRequest,
+  AudioGenerationResult,
+  ChapterAudioRequest,
+  ChapterAudioResult,
+  VoiceProfile
+} from './voice-backend'
 
 /**
  * Dia-Meistro Voice Synthesis Backend - The Voice of SoulScribe
@@ -11,56 +36,20 @@ import { prisma } from '@/lib/prisma'
  * The AI Whisperer's sonic masterpiece! 🎙️
  */
 
-export interface VoiceProfile {
-  id: string
-  name: string
-  archetype: 'narrator' | 'wise_elder' | 'child' | 'guide' | 'mystical' | 'hero' | 'trickster'
-  gender: 'male' | 'female' | 'neutral'
-  age: 'child' | 'young' | 'adult' | 'elder'
-  tone: 'warm' | 'authoritative' | 'playful' | 'mysterious' | 'compassionate'
-  sampleAudioPath?: string
-  isDefault: boolean
-}
-
-export interface AudioGenerationRequest {
-  text: string
-  voiceProfile: VoiceProfile
-  speakerTag?: string // [S1], [S2], etc.
-  emotionalContext?: string
-  speed?: number // 0.5 - 2.0
-  addBackgroundAmbience?: boolean
-  outputPath: string
-}
-
-export interface AudioGenerationResult {
-  success: boolean
-  audioPath?: string
-  duration?: number
-  fileSize?: number
-  error?: string
-  processingTime: number
-  voiceProfileUsed: string
-}
-
-export interface ChapterAudioRequest {
-  chapterNumber: number
-  chapterTitle: string
-  content: string
-  characterVoiceMap: Map<string, VoiceProfile>
-  narratorVoice: VoiceProfile
-  outputDirectory: string
-}
-
-export class DiaMetistroVoiceBackend {
-  private pythonProcess: ChildProcess | null = null
+export class DiaMetistroVoiceBackend implements VoiceBackend {
+  readonly name = 'dia-meistro'
+  private worker: DiaMeistroWorker
   private isInitialized = false
   private audioCache = new Map<string, string>()
-  private defaultVoiceProfiles: VoiceProfile[] = []
+  private defaultVoiceProfiles: VoiceProfile[] = [...DEFAULT_VOICE_PROFILES]
   private diaPath: string
 
-  constructor(diaMetistroPath: string = './dia-meistro') {
+  constructor(
+    diaMetistroPath: string = './dia-meistro',
+    workerOptions: Omit<DiaMeistroWorkerOptions, 'diaPath'> = {}
+  ) {
     this.diaPath = diaMetistroPath
-    this.initializeDefaultVoiceProfiles()
+    this.worker = new DiaMeistroWorker({ ...workerOptions, diaPath: diaMetistroPath })
   }
 
   /**
@@ -73,8 +62,8 @@ export class DiaMetistroVoiceBackend {
       // Check if Dia-Meistro is installed
       await this.checkDiaMetistroInstallation()
       
-      // Initialize Python environment
-      await this.initializePythonEnvironment()
+      // Start the worker - the model is loaded once, here
+      await this.worker.start()
       
       // Test voice generation
       await this.performInitialTest()
@@ -85,6 +74,7 @@ export class DiaMetistroVoiceBackend {
       
     } catch (error) {
       console.error('❌ Failed to initialize Dia-Meistro backend:', error)
+      await this.worker.stop()
       return false
     }
   }
@@ -92,267 +82,101 @@ export class DiaMetistroVoiceBackend {
   /**
    * Generate audio for a complete chapter with multiple voices
    */
-  async generateChapterAudio(request: ChapterAudioRequest): Promise<{
-    success: boolean
-    audioSegments: Array<{
-      segmentId: string
-      audioPath: string
-      startTime: number
-      duration: number
-      speaker: string
-      text: string
-    }>
-    fullChapterAudioPath?: string
-    error?: string
-  }> {
+  async generateChapterAudio(request: ChapterAudioRequest): Promise<ChapterAudioResult> {
     if (!this.isInitialized) {
       throw new Error('Dia-Meistro backend not initialized')
     }
 
-    const startTime = Date.now()
-    const audioSegments = []
-    let currentTime = 0
-
-    try {
-      console.log(`🎬 Generating audio for Chapter ${request.chapterNumber}: "${request.chapterTitle}"`)
-      
-      // Parse the chapter content into dialogue and narrative segments
-      const segments = this.parseChapterIntoSegments(request.content)
-      
-      // Create output directory
-      await fs.mkdir(request.outputDirectory, { recursive: true })
-      
-      // Generate audio for each segment
-      for (let i = 0; i < segments.length; i++) {
-        const segment = segments[i]
-        
-        // Determine voice profile
-        const voiceProfile = segment.type === 'dialogue' 
-          ? request.characterVoiceMap.get(segment.speaker) || request.narratorVoice
-          : request.narratorVoice
-        
-        // Generate audio for this segment
-        const audioRequest: AudioGenerationRequest = {
-          text: segment.text,
-          voiceProfile,
-          speakerTag: segment.speakerTag,
-          emotionalContext: segment.emotion,
-          speed: segment.type === 'narrative' ? 0.9 : 1.0, // Slightly slower for narration
-          addBackgroundAmbience: segment.type === 'narrative',
-          outputPath: path.join(request.outputDirectory, `segment_${i:03d}.wav`)
-        }
-        
-        const result = await this.generateAudio(audioRequest)
-        
-        if (result.success && result.audioPath && result.duration) {
-          audioSegments.push({
-            segmentId: `ch${request.chapterNumber}_seg${i}`,
-            audioPath: result.audioPath,
-            startTime: currentTime,
-            duration: result.duration,
-            speaker: segment.speaker || 'narrator',
-            text: segment.text
-          })
-          
-          currentTime += result.duration
-        } else {
-          console.warn(`⚠️ Failed to generate audio for segment ${i}: ${result.error}`)
-        }
-      }
-      
-      // Combine all segments into a single chapter audio file
-      const fullChapterPath = await this.combineAudioSegments(
-        audioSegments.map(seg => seg.audioPath),
-        path.join(request.outputDirectory, `chapter_${request.chapterNumber}_full.wav`)
-      )
-      
-      console.log(`✅ Chapter ${request.chapterNumber} audio generated: ${audioSegments.length} segments, ${(currentTime / 1000 / 60).toFixed(1)} minutes`)
-      
-      return {
-        success: true,
-        audioSegments,
-        fullChapterAudioPath: fullChapterPath
-      }
-      
-    } catch (error) {
-      return {
-        success: false,
-        audioSegments: [],
-        error: error.message
-      }
-    }
+    // Every segment goes to the worker in one batch
+    return renderChapterAudio(request, (requests, onResult) => this.generateAudioBatch(requests, onResult))
   }
 
   /**
    * Generate audio for a single text segment
    */
   async generateAudio(request: AudioGenerationRequest): Promise<AudioGenerationResult> {
+    const [result] = await this.generateAudioBatch([request])
+    return result
+  }
+
+  /**
+   * Generate audio for several segments in one worker request. Cached segments are
+   * answered straight away; onResult hears about each segment as soon as it is done.
+   * Results keep the order of the requests.
+   */
+  async generateAudioBatch(
+    requests: AudioGenerationRequest[],
+    onResult?: (index: number, result: AudioGenerationResult) => void
+  ): Promise<AudioGenerationResult[]> {
     const startTime = Date.now()
-    
+    const results: AudioGenerationResult[] = new Array(requests.length)
+
+    const describe = (index: number, audioPath: string) => describeAudioFile(audioPath, requests[index], startTime)
+
+    const fail = (index: number, error: string): AudioGenerationResult => ({
+      success: false,
+      error,
+      processingTime: Date.now() - startTime,
+      voiceProfileUsed: requests[index].voiceProfile.id
+    })
+
+    const settle = async (index: number, outcome: Promise<AudioGenerationResult>) => {
+      results[index] = await outcome.catch(error => fail(index, error instanceof Error ? error.message : String(error)))
+      onResult?.(index, results[index])
+    }
+
+    // Check cache first
+    const uncached: number[] = []
+    for (let i = 0; i < requests.length; i++) {
+      const cachedPath = this.audioCache.get(this.generateCacheKey(requests[i]))
+      if (cachedPath) {
+        await settle(i, describe(i, cachedPath))
+      } else {
+        uncached.push(i)
+      }
+    }
+
+    // Generate the rest with Dia-Meistro, caching each file as it arrives
+    const pending: Array<Promise<void>> = []
+    const reported = new Set<number>()
     try {
-      // Check cache first
-      const cacheKey = this.generateCacheKey(request)
-      if (this.audioCache.has(cacheKey)) {
-        const cachedPath = this.audioCache.get(cacheKey)!
-        const stats = await fs.stat(cachedPath)
-        
-        return {
-          success: true,
-          audioPath: cachedPath,
-          duration: await this.getAudioDuration(cachedPath),
-          fileSize: stats.size,
-          processingTime: Date.now() - startTime,
-          voiceProfileUsed: request.voiceProfile.id
+      await this.callDiaMetistro(
+        uncached.map(i => ({
+          id: String(i),
+          text: this.preprocessTextForDia(requests[i].text, requests[i].emotionalContext),
+          speed: requests[i].speed || 1.0,
+          outputPath: requests[i].outputPath
+        })),
+        segment => {
+          const index = Number(segment.segmentId)
+          reported.add(index)
+          if (segment.audioPath) {
+            this.audioCache.set(this.generateCacheKey(requests[index]), segment.audioPath)
+            pending.push(settle(index, describe(index, segment.audioPath)))
+          } else {
+            pending.push(settle(index, Promise.resolve(fail(index, segment.error || 'Dia-Meistro failed'))))
+          }
         }
-      }
-      
-      // Prepare the text for Dia-Meistro
-      const processedText = this.preprocessTextForDia(request.text, request.emotionalContext)
-      
-      // Generate audio using Dia-Meistro
-      const audioPath = await this.callDiaMetistro(processedText, request)
-      
-      // Cache the result
-      this.audioCache.set(cacheKey, audioPath)
-      
-      // Get file stats
-      const stats = await fs.stat(audioPath)
-      const duration = await this.getAudioDuration(audioPath)
-      
-      return {
-        success: true,
-        audioPath,
-        duration,
-        fileSize: stats.size,
-        processingTime: Date.now() - startTime,
-        voiceProfileUsed: request.voiceProfile.id
-      }
-      
+      )
     } catch (error) {
-      return {
-        success: false,
-        error: error.message,
-        processingTime: Date.now() - startTime,
-        voiceProfileUsed: request.voiceProfile.id
+      const message = error instanceof Error ? error.message : String(error)
+      for (const i of uncached) {
+        if (!reported.has(i)) await settle(i, Promise.resolve(fail(i, message)))
       }
     }
-  }
+    await Promise.all(pending)
 
-  /**
-   * Parse chapter content into speakable segments
-   */
-  private parseChapterIntoSegments(content: string): Array<{
-    type: 'narrative' | 'dialogue'
-    text: string
-    speaker?: string
-    speakerTag?: string
-    emotion?: string
-  }> {
-    const segments = []
-    const lines = content.split('\n').filter(line => line.trim())
-    
-    for (const line of lines) {
-      const trimmedLine = line.trim()
-      
-      // Check for dialogue tags [S1], [S2], etc.
-      const speakerMatch = trimmedLine.match(/^\[S(\d+)\]\s*(.+)/)
-      if (speakerMatch) {
-        const speakerNum = speakerMatch[1]
-        const dialogueText = speakerMatch[2]
-        
-        // Extract emotion from parentheses
-        const emotionMatch = dialogueText.match(/\(([^)]+)\)/)
-        const emotion = emotionMatch ? emotionMatch[1] : undefined
-        const cleanText = dialogueText.replace(/\([^)]+\)/g, '').trim()
-        
-        segments.push({
-          type: 'dialogue',
-          text: cleanText,
-          speaker: `Speaker${speakerNum}`,
-          speakerTag: `[S${speakerNum}]`,
-          emotion
-        })
-      } else if (trimmedLine.startsWith('"') && trimmedLine.endsWith('"')) {
-        // Regular quoted dialogue
-        segments.push({
-          type: 'dialogue',
-          text: trimmedLine.slice(1, -1), // Remove quotes
-          speaker: 'Character'
-        })
-      } else if (trimmedLine.length > 0) {
-        // Narrative text
-        segments.push({
-          type: 'narrative',
-          text: trimmedLine
-        })
-      }
-    }
-    
-    return segments
+    return results
   }
 
   /**
-   * Call Dia-Meistro Python backend
+   * Call Dia-Meistro through the long-lived worker - one request for the whole batch
    */
-  private async callDiaMetistro(text: string, request: AudioGenerationRequest): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const pythonScript = `
-import sys
-import os
-sys.path.append('${this.diaPath}')
-
-from dia import Dia
-import torch
-import soundfile as sf
-
-# Initialize Dia model
-device = 'cuda' if torch.cuda.is_available() else 'cpu'
-dia = Dia(device=device)
-
-# Generate audio
-text = """${text.replace(/"/g, '\\"')}"""
-voice_profile = "${request.voiceProfile.archetype}"
-speed = ${request.speed || 1.0}
-
-try:
-    # Generate with Dia-Meistro
-    audio = dia.generate(text, speed=speed)
-    
-    # Save audio file
-    output_path = "${request.outputPath}"
-    sf.write(output_path, audio, 22050)
-    
-    print(f"SUCCESS:{output_path}")
-    
-except Exception as e:
-    print(f"ERROR:{str(e)}")
-`
-      
-      const python = spawn('python', ['-c', pythonScript])
-      let output = ''
-      let error = ''
-      
-      python.stdout.on('data', (data) => {
-        output += data.toString()
-      })
-      
-      python.stderr.on('data', (data) => {
-        error += data.toString()
-      })
-      
-      python.on('close', (code) => {
-        if (code === 0 && output.includes('SUCCESS:')) {
-          const audioPath = output.split('SUCCESS:')[1].trim()
-          resolve(audioPath)
-        } else {
-          reject(new Error(`Dia-Meistro failed: ${error || output}`))
-        }
-      })
-      
-      python.on('error', (err) => {
-        reject(new Error(`Python process error: ${err.message}`))
-      })
-    })
+  private async callDiaMetistro(
+    segments: WorkerSegment[],
+    onSegment: (result: WorkerSegmentResult) => void
+  ): Promise<void> {
+    await this.worker.synthesize(segments, onSegment)
   }
 
   /**
@@ -363,7 +187,7 @@ except Exception as e:
     
     // Add emotional context as non-verbal sounds
     if (emotionalContext) {
-      const emotionMap = {
+      const emotionMap: { [emotion: string]: string } = {
         'sad': '(sighs)',
         'happy': '(chuckles)',
         'excited': '(laughs)',
@@ -386,69 +210,6 @@ except Exception as e:
     return processedText
   }
 
-  /**
-   * Combine multiple audio segments into one file
-   */
-  private async combineAudioSegments(audioPaths: string[], outputPath: string): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const ffmpegCommand = [
-        'ffmpeg',
-        '-y', // Overwrite output file
-        ...audioPaths.flatMap(path => ['-i', path]),
-        '-filter_complex',
-        `concat=n=${audioPaths.length}:v=0:a=1`,
-        outputPath
-      ]
-      
-      const ffmpeg = spawn('ffmpeg', ffmpegCommand.slice(1))
-      
-      ffmpeg.on('close', (code) => {
-        if (code === 0) {
-          resolve(outputPath)
-        } else {
-          reject(new Error(`FFmpeg failed with code ${code}`))
-        }
-      })
-      
-      ffmpeg.on('error', (err) => {
-        reject(new Error(`FFmpeg error: ${err.message}`))
-      })
-    })
-  }
-
-  /**
-   * Get audio file duration in milliseconds
-   */
-  private async getAudioDuration(audioPath: string): Promise<number> {
-    return new Promise((resolve, reject) => {
-      const ffprobe = spawn('ffprobe', [
-        '-v', 'quiet',
-        '-show_entries', 'format=duration',
-        '-of', 'csv=p=0',
-        audioPath
-      ])
-      
-      let output = ''
-      
-      ffprobe.stdout.on('data', (data) => {
-        output += data.toString()
-      })
-      
-      ffprobe.on('close', (code) => {
-        if (code === 0) {
-          const duration = parseFloat(output.trim()) * 1000 // Convert to milliseconds
-          resolve(duration)
-        } else {
-          resolve(5000) // Default 5 seconds if detection fails
-        }
-      })
-      
-      ffprobe.on('error', () => {
-        resolve(5000) // Default 5 seconds if ffprobe not available
-      })
-    })
-  }
-
   /**
    * Generate cache key for audio requests
    */
@@ -457,59 +218,6 @@ except Exception as e:
     return Buffer.from(key).toString('base64')
   }
 
-  /**
-   * Initialize default voice profiles for SoulScribe
-   */
-  private initializeDefaultVoiceProfiles(): void {
-    this.defaultVoiceProfiles = [
-      {
-        id: 'narrator_main',
-        name: 'SoulScribe Narrator',
-        archetype: 'narrator',
-        gender: 'neutral',
-        age: 'adult',
-        tone: 'warm',
-        isDefault: true
-      },
-      {
-        id: 'wise_elder',
-        name: 'The Wise Elder',
-        archetype: 'wise_elder',
-        gender: 'male',
-        age: 'elder',
-        tone: 'authoritative',
-        isDefault: false
-      },
-      {
-        id: 'child_spirit',
-        name: 'Child of Wonder',
-        archetype: 'child',
-        gender: 'female',
-        age: 'child',
-        tone: 'playful',
-        isDefault: false
-      },
-      {
-        id: 'mystical_guide',
-        name: 'Mystical Guide',
-        archetype: 'mystical',
-        gender: 'female',
-        age: 'adult',
-        tone: 'mysterious',
-        isDefault: false
-      },
-      {
-        id: 'compassionate_teacher',
-        name: 'Compassionate Teacher',
-        archetype: 'guide',
-        gender: 'neutral',
-        age: 'adult',
-        tone: 'compassionate',
-        isDefault: false
-      }
-    ]
-  }
-
   /**
    * Check Dia-Meistro installation
    */
@@ -522,27 +230,6 @@ except Exception as e:
     }
   }
 
-  /**
-   * Initialize Python environment
-   */
-  private async initializePythonEnvironment(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const python = spawn('python', ['-c', 'import torch; import soundfile; print("Python environment OK")'])
-      
-      python.on('close', (code) => {
-        if (code === 0) {
-          resolve()
-        } else {
-          reject(new Error('Python dependencies not installed. Please install: torch, soundfile, dia'))
-        }
-      })
-      
-      python.on('error', (err) => {
-        reject(new Error(`Python not found: ${err.message}`))
-      })
-    })
-  }
-
   /**
    * Perform initial test generation
    */
@@ -600,14 +287,25 @@ except Exception as e:
     })
   }
 
+  /**
+   * Check that the worker is alive and answering
+   */
+  async healthCheck(): Promise<WorkerHealth> {
+    return this.worker.health()
+  }
+
+  /**
+   * Stop the worker gracefully and load the model again in a fresh one
+   */
+  async restartWorker(): Promise<void> {
+    await this.worker.restart()
+  }
+
   /**
    * Cleanup resources
    */
   async cleanup(): Promise<void> {
-    if (this.pythonProcess) {
-      this.pythonProcess.kill()
-      this.pythonProcess = null
-    }
+    await this.worker.stop()
     
     this.audioCache.clear()
     this.isInitialized = false
@@ -0,0 +1,108 @@
+"""
+Dia-Meistro worker for SoulScribe.
+
+Loads the Dia model once, then answers requests read from stdin, one JSON object
+per line, with one JSON object per line on stdout. Anything else the model or
+its libraries print goes to stderr so stdout stays machine readable.
+
+Requests:
+  {"id": "req-1", "type": "synthesize", "segments": [{"id", "text", "speed", "outputPath"}]}
+  {"id": "req-2", "type": "health"}
+  {"type": "shutdown"}
+
+Replies:
+  {"type": "ready", "device"}                             once the model is loaded
+  {"id", "type": "segment", "segmentId", "path"}          as each segment is written
+  {"id", "type": "segment_error", "segmentId", "error"}   for a segment that failed
+  {"id", "type": "done"}                                  after a request's last segment
+  {"id", "type": "health", "device", "uptime", "requests"}
+  {"id", "type": "error", "error"}                        for a request that can't be read
+"""
+
+import argparse
+import contextlib
+import json
+import os
+import sys
+import time
+
+
+# The real stdout, even while the model's own output is redirected to stderr
+PROTOCOL = sys.stdout
+
+
+def send(message):
+    PROTOCOL.write(json.dumps(message) + "\n")
+    PROTOCOL.flush()
+
+
+def main():
+    parser = argparse.ArgumentParser(description="Dia-Meistro JSON-lines worker")
+    parser.add_argument("--dia-path", default="./dia-meistro")
+    parser.add_argument("--sample-rate", type=int, default=22050)
+    args = parser.parse_args()
+
+    sys.path.append(args.dia_path)
+
+    # Keep whatever the model prints while loading off the protocol stream
+    with contextlib.redirect_stdout(sys.stderr):
+        import soundfile as sf
+        import torch
+        from dia import Dia
+
+        device = "cuda" if torch.cuda.is_available() else "cpu"
+        dia = Dia(device=device)
+
+    started = time.time()
+    served = 0
+    send({"type": "ready", "device": device})
+
+    for line in sys.stdin:
+        line = line.strip()
+        if not line:
+            continue
+
+        try:
+            request = json.loads(line)
+        except ValueError as error:
+            send({"id": None, "type": "error", "error": f"Invalid JSON: {error}"})
+            continue
+
+        request_id = request.get("id")
+        kind = request.get("type")
+
+        if kind == "shutdown":
+            break
+
+        if kind == "health":
+            send({
+                "id": request_id,
+                "type": "health",
+                "device": device,
+                "uptime": round(time.time() - started, 1),
+                "requests": served,
+            })
+            continue
+
+        if kind != "synthesize":
+            send({"id": request_id, "type": "error", "error": f"Unknown request type: {kind}"})
+            continue
+
+        for segment in request.get("segments", []):
+            segment_id = segment.get("id")
+            try:
+                output_path = segment["outputPath"]
+                os.makedirs(os.path.dirname(output_path) or ".", exist_ok=True)
+                with contextlib.redirect_stdout(sys.stderr):
+                    audio = dia.generate(segment["text"], speed=segment.get("speed", 1.0))
+                    sf.write(output_path, audio, args.sample_rate)
+                send({"id": request_id, "type": "segment", "segmentId": segment_id, "path": output_path})
+            except Exception as error:
+                send({"id": request_id, "type": "segment_error", "segmentId": segment_id, "error": str(error)})
+
+        served += 1
+        send({"id": request_id, "type": "done"})
+
+
+if __name__ == "__main__":
+    main()
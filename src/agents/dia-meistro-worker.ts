@@ -0,0 +1,305 @@
+import { spawn, ChildProcessWithoutNullStreams } from 'child_process'
+import { createInterface } from 'readline'
+import path from 'path'
+
+/**
+ * Dia-Meistro Worker - One model load, every voice
+ *
+ * Keeps a single Python process (dia-meistro-worker.py) alive for the whole run
+ * and talks to it in JSON lines over stdin/stdout: the Dia model is loaded once,
+ * text travels as JSON instead of being pasted into a script, and every finished
+ * segment path is streamed back as soon as it is written. A worker that dies or
+ * hangs is replaced on the next request.
+ */
+
+export interface WorkerSegment {
+  id: string
+  text: string
+  speed: number
+  outputPath: string
+}
+
+export interface WorkerSegmentResult {
+  segmentId: string
+  audioPath?: string
+  error?: string
+}
+
+export interface WorkerHealth {
+  device: string
+  uptimeSeconds: number
+  requestsServed: number
+}
+
+export interface DiaMeistroWorkerOptions {
+  diaPath: string
+  pythonPath?: string
+  scriptPath?: string
+  // Loading the model on a CPU can take minutes
+  startTimeoutMs?: number
+  // How long one segment may take before the worker is considered stuck
+  segmentTimeoutMs?: number
+  // How long a shutdown may take before the worker is killed
+  shutdownGraceMs?: number
+}
+
+type WorkerMessage =
+  | { type: 'ready'; device: string }
+  | { id: string; type: 'segment'; segmentId: string; path: string }
+  | { id: string; type: 'segment_error'; segmentId: string; error: string }
+  | { id: string; type: 'done' }
+  | { id: string; type: 'health'; device: string; uptime: number; requests: number }
+  | { id: string | null; type: 'error'; error: string }
+
+interface PendingRequest {
+  onMessage: (message: WorkerMessage) => void
+  fail: (error: Error) => void
+}
+
+const STDERR_LINES_KEPT = 20
+
+export class DiaMeistroWorkerError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'DiaMeistroWorkerError'
+  }
+}
+
+export class DiaMeistroWorker {
+  private process: ChildProcessWithoutNullStreams | null = null
+  private ready: Promise<void> | null = null
+  private pending = new Map<string, PendingRequest>()
+  private stderrTail: string[] = []
+  private nextRequestId = 1
+  private readonly options: Required<DiaMeistroWorkerOptions>
+
+  constructor(options: DiaMeistroWorkerOptions) {
+    this.options = {
+      pythonPath: process.env.DIA_MEISTRO_PYTHON || 'python',
+      scriptPath: process.env.DIA_MEISTRO_WORKER_SCRIPT || path.join(__dirname, 'dia-meistro-worker.py'),
+      startTimeoutMs: 300_000,
+      segmentTimeoutMs: 120_000,
+      shutdownGraceMs: 5_000,
+      ...options
+    }
+  }
+
+  get running(): boolean {
+    return this.process !== null
+  }
+
+  /**
+   * Start the worker and wait until the model is loaded. Safe to call repeatedly -
+   * callers share the same start-up.
+   */
+  start(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.spawnWorker().catch(error => {
+        this.ready = null
+        throw error
+      })
+    }
+    return this.ready
+  }
+
+  /**
+   * Synthesize a batch of segments in one request. Results come back in the order
+   * they were sent; onSegment hears about each one the moment its file is written.
+   * A segment the model fails on is reported with its error, not thrown.
+   */
+  async synthesize(
+    segments: WorkerSegment[],
+    onSegment?: (result: WorkerSegmentResult) => void
+  ): Promise<WorkerSegmentResult[]> {
+    if (segments.length === 0) return []
+    await this.start()
+
+    const results = new Map<string, WorkerSegmentResult>()
+    await this.request({ type: 'synthesize', segments }, this.options.segmentTimeoutMs, message => {
+      if (message.type === 'done') return true
+      if (message.type !== 'segment' && message.type !== 'segment_error') return undefined
+
+      const result = message.type === 'segment'
+        ? { segmentId: message.segmentId, audioPath: message.path }
+        : { segmentId: message.segmentId, error: message.error }
+      results.set(result.segmentId, result)
+      onSegment?.(result)
+      return undefined
+    })
+
+    return segments.map(segment => results.get(segment.id) ?? { segmentId: segment.id, error: 'The worker did not report this segment' })
+  }
+
+  /**
+   * Ask the worker whether it is alive and what it has done so far
+   */
+  async health(timeoutMs = 10_000): Promise<WorkerHealth> {
+    await this.start()
+
+    return this.request({ type: 'health' }, timeoutMs, message =>
+      message.type === 'health'
+        ? { device: message.device, uptimeSeconds: message.uptime, requestsServed: message.requests }
+        : undefined
+    )
+  }
+
+  /**
+   * Stop the worker gracefully and start a fresh one
+   */
+  async restart(): Promise<void> {
+    await this.stop()
+    await this.start()
+  }
+
+  /**
+   * Ask the worker to finish and exit; kill it if it takes longer than the grace period.
+   * Requests still waiting are rejected.
+   */
+  async stop(): Promise<void> {
+    const worker = this.process
+    if (!worker) return
+
+    const exited = new Promise<void>(resolve => worker.once('exit', () => resolve()))
+    this.write({ type: 'shutdown' })
+    worker.stdin.end()
+
+    let timer: NodeJS.Timeout | undefined
+    const graceExpired = new Promise<'expired'>(resolve => {
+      timer = setTimeout(() => resolve('expired'), this.options.shutdownGraceMs)
+    })
+    if (await Promise.race([exited, graceExpired]) === 'expired') {
+      worker.kill('SIGKILL')
+      await exited
+    }
+    clearTimeout(timer)
+  }
+
+  private spawnWorker(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const worker = spawn(this.options.pythonPath, [this.options.scriptPath, '--dia-path', this.options.diaPath])
+      this.process = worker
+      this.stderrTail = []
+      let started = false
+
+      const timer = setTimeout(() => {
+        reject(new DiaMeistroWorkerError(`Dia-Meistro worker did not load the model within ${this.options.startTimeoutMs}ms`))
+        worker.kill('SIGKILL')
+      }, this.options.startTimeoutMs)
+
+      createInterface({ input: worker.stdout }).on('line', line => {
+        const message = this.parse(line)
+        if (!message) return
+
+        if (message.type === 'ready') {
+          started = true
+          clearTimeout(timer)
+          console.log(`🎙️ Dia-Meistro worker ready on ${message.device}`)
+          resolve()
+        } else if (message.id && this.pending.has(message.id)) {
+          this.pending.get(message.id)!.onMessage(message)
+        } else if (message.type === 'error') {
+          console.warn(`⚠️ Dia-Meistro worker: ${message.error}`)
+        }
+      })
+
+      createInterface({ input: worker.stderr }).on('line', line => {
+        this.stderrTail = [...this.stderrTail, line].slice(-STDERR_LINES_KEPT)
+      })
+
+      worker.on('error', error => {
+        clearTimeout(timer)
+        const startError = new DiaMeistroWorkerError(`Could not start the Dia-Meistro worker: ${error.message}`)
+        reject(startError)
+        this.detach(worker, startError)
+      })
+
+      worker.on('exit', (code, signal) => {
+        clearTimeout(timer)
+        const error = new DiaMeistroWorkerError(
+          `Dia-Meistro worker exited (${signal ?? `code ${code}`})${this.stderrTail.length > 0 ? `: ${this.stderrTail.join('\n')}` : ''}`
+        )
+        if (!started) reject(error)
+        this.detach(worker, error)
+      })
+    })
+  }
+
+  /**
+   * Send one request and feed its replies to handle until it returns a value. The
+   * timeout restarts with every reply, so a long batch is fine as long as it moves;
+   * a worker that stops answering is killed and replaced on the next request.
+   */
+  private request<T>(
+    body: { type: string; [key: string]: unknown },
+    timeoutMs: number,
+    handle: (message: WorkerMessage) => T | undefined
+  ): Promise<T> {
+    const id = `req-${this.nextRequestId++}`
+
+    return new Promise((resolve, reject) => {
+      let timer: NodeJS.Timeout
+
+      const finish = (error: Error | null, value?: T) => {
+        clearTimeout(timer)
+        this.pending.delete(id)
+        if (error) reject(error)
+        else resolve(value!)
+      }
+
+      const arm = () => {
+        clearTimeout(timer)
+        timer = setTimeout(() => {
+          const stuck = this.process
+          const error = new DiaMeistroWorkerError(`Dia-Meistro worker did not answer ${body.type} request ${id} within ${timeoutMs}ms`)
+          finish(error)
+          if (stuck) {
+            this.detach(stuck, error)
+            stuck.kill('SIGKILL')
+          }
+        }, timeoutMs)
+      }
+
+      this.pending.set(id, {
+        onMessage: message => {
+          if (message.type === 'error') return finish(new DiaMeistroWorkerError(message.error))
+          const value = handle(message)
+          if (value !== undefined) finish(null, value)
+          else arm()
+        },
+        fail: finish
+      })
+
+      arm()
+      this.write({ id, ...body })
+    })
+  }
+
+  /**
+   * Forget a worker that exited or is being killed, failing whatever it still owed.
+   * Only the current worker is detached - a replacement may already be running.
+   */
+  private detach(worker: ChildProcessWithoutNullStreams, error: Error): void {
+    if (this.process !== worker) return
+
+    this.process = null
+    this.ready = null
+    for (const request of this.pending.values()) request.fail(error)
+    this.pending.clear()
+  }
+
+  private write(message: object): void {
+    if (this.process?.stdin.writable) {
+      this.process.stdin.write(`${JSON.stringify(message)}\n`)
+    }
+  }
+
+  private parse(line: string): WorkerMessage | null {
+    try {
+      return JSON.parse(line) as WorkerMessage
+    } catch {
+      // The model or its libraries printed something of their own
+      this.stderrTail = [...this.stderrTail, line].slice(-STDERR_LINES_KEPT)
+      return null
+    }
+  }
+}
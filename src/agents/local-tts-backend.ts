@@ -0,0 +1,155 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import {
+  AudioGenerationRequest,
+  AudioGenerationResult,
+  ChapterAudioRequest,
+  ChapterAudioResult,
+  DEFAULT_VOICE_PROFILES,
+  VoiceBackend,
+  VoiceProfile,
+  describeAudioFile,
+  renderChapterAudio,
+  runCommand,
+  synthesizeInTurn
+} from './voice-backend'
+
+/**
+ * Local TTS Backend - A voice for every machine
+ *
+ * Speaks through a CPU-only engine: Piper when a Piper voice model is configured,
+ * otherwise espeak-ng. Neither needs a GPU or Python, so previews and audiobooks
+ * still work where Dia-Meistro isn't installed. Text is passed on stdin, never on
+ * a command line. Piper multi-speaker models can give each voice profile its own
+ * speaker; espeak-ng varies the voice, pitch and pace per profile.
+ */
+
+export type LocalTTSEngine = 'piper' | 'espeak-ng'
+
+export interface LocalTTSOptions {
+  engine?: LocalTTSEngine
+  piperPath?: string
+  piperModel?: string
+  // Speaker ids of a multi-speaker Piper model, by voice profile id
+  piperSpeakers?: { [profileId: string]: number }
+  espeakPath?: string
+  espeakLanguage?: string
+}
+
+const ESPEAK_WORDS_PER_MINUTE = 165
+
+const ESPEAK_PITCH_BY_AGE: { [age in VoiceProfile['age']]: number } = {
+  child: 80,
+  young: 60,
+  adult: 50,
+  elder: 35
+}
+
+export class LocalTTSVoiceBackend implements VoiceBackend {
+  readonly name: LocalTTSEngine
+  private options: LocalTTSOptions
+  private isInitialized = false
+
+  constructor(options: LocalTTSOptions = {}) {
+    this.options = {
+      piperPath: process.env.PIPER_PATH || 'piper',
+      piperModel: process.env.PIPER_MODEL,
+      espeakPath: process.env.ESPEAK_PATH || 'espeak-ng',
+      espeakLanguage: process.env.ESPEAK_LANGUAGE || 'en-us',
+      ...options
+    }
+    this.name = this.options.engine ?? (this.options.piperModel ? 'piper' : 'espeak-ng')
+  }
+
+  /**
+   * Check the engine (and for Piper, its voice model) is there
+   */
+  async initialize(): Promise<boolean> {
+    try {
+      if (this.name === 'piper') {
+        if (!this.options.piperModel) {
+          throw new Error('No Piper voice model configured. Set PIPER_MODEL to an .onnx voice')
+        }
+        await fs.access(this.options.piperModel)
+        await runCommand(this.options.piperPath!, ['--help'])
+      } else {
+        await runCommand(this.options.espeakPath!, ['--version'])
+      }
+
+      this.isInitialized = true
+      console.log(`✅ ${this.name} voice backend ready`)
+      return true
+    } catch (error) {
+      console.warn(`⚠️ ${this.name} voice backend unavailable:`, error instanceof Error ? error.message : error)
+      return false
+    }
+  }
+
+  async generateChapterAudio(request: ChapterAudioRequest): Promise<ChapterAudioResult> {
+    if (!this.isInitialized) {
+      throw new Error(`${this.name} backend not initialized`)
+    }
+
+    return renderChapterAudio(request, synthesizeInTurn(segment => this.generateAudio(segment)))
+  }
+
+  async generateAudio(request: AudioGenerationRequest): Promise<AudioGenerationResult> {
+    const startTime = Date.now()
+
+    try {
+      await fs.mkdir(path.dirname(request.outputPath), { recursive: true })
+
+      if (this.name === 'piper') {
+        await runCommand(this.options.piperPath!, this.piperArgs(request), request.text)
+      } else {
+        await runCommand(this.options.espeakPath!, this.espeakArgs(request), request.text)
+      }
+
+      return await describeAudioFile(request.outputPath, request, startTime)
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        processingTime: Date.now() - startTime,
+        voiceProfileUsed: request.voiceProfile.id
+      }
+    }
+  }
+
+  getVoiceProfiles(): VoiceProfile[] {
+    return [...DEFAULT_VOICE_PROFILES]
+  }
+
+  getVoiceProfileByArchetype(archetype: string): VoiceProfile | undefined {
+    return DEFAULT_VOICE_PROFILES.find(profile => profile.archetype === archetype)
+  }
+
+  async cleanup(): Promise<void> {
+    this.isInitialized = false
+  }
+
+  private piperArgs(request: AudioGenerationRequest): string[] {
+    const speaker = this.options.piperSpeakers?.[request.voiceProfile.id]
+    return [
+      '--model', this.options.piperModel!,
+      '--output_file', request.outputPath,
+      // Piper stretches time rather than speeding up: 2.0 is half speed
+      '--length_scale', String(1 / (request.speed || 1.0)),
+      ...(speaker !== undefined ? ['--speaker', String(speaker)] : [])
+    ]
+  }
+
+  private espeakArgs(request: AudioGenerationRequest): string[] {
+    const profile = request.voiceProfile
+    const variant = profile.gender === 'male' ? '+m3' : profile.gender === 'female' ? '+f3' : ''
+    const pace = profile.age === 'elder' ? 0.9 : profile.tone === 'playful' ? 1.1 : 1.0
+
+    return [
+      '--stdin',
+      '-w', request.outputPath,
+      '-v', `${this.options.espeakLanguage}${variant}`,
+      '-s', String(Math.round(ESPEAK_WORDS_PER_MINUTE * pace * (request.speed || 1.0))),
+      '-p', String(ESPEAK_PITCH_BY_AGE[profile.age])
+    ]
+  }
+}
@@ -1,8 +1,12 @@
 import { EncouragementAgent } from './encouragement-agent'
 import { ContentParserAgent } from './content-parser-agent'
 import { ChapterAnalyzerAgent } from './chapter-analyzer-agent'
+import { QualityRefinerAgent } from './quality-refiner-agent'
 import { callAgent } from '@/lib/openai'
 import { prisma } from '@/lib/prisma'
+import { TokenBudget, runWithBudget, currentBudget, BudgetExceededError } from '@/lib/token-budget'
+import { PassageIndex } from '@/lib/passage-index'
+import { countWords } from '@/lib/utils'
 
 /**
  * Parallel Chapter Processing System - The High-Performance Story Factory
@@ -15,7 +19,7 @@ import { prisma } from '@/lib/prisma'
 export interface ParallelProcessingConfig {
   maxConcurrentChapters: number
   qualityThreshold: number
-  retryAttempts: number
+  retryAttempts: number // Attempts after a failed call, and rewrites allowed per chapter by the quality gate
   enableProgressiveGeneration: boolean
   useAdaptiveEncouragement: boolean
 }
@@ -58,6 +62,8 @@ export class ParallelChapterProcessor {
   private encouragementAgent: EncouragementAgent
   private contentParser: ContentParserAgent
   private chapterAnalyzer: ChapterAnalyzerAgent
+  private qualityRefiner: QualityRefinerAgent
+  private passageIndex: PassageIndex
   private activeJobs: Map<number, Promise<ProcessingResult>> = new Map()
   private completedChapters: Map<number, any> = new Map()
   private jobQueue: ChapterJob[] = []
@@ -80,6 +86,8 @@ export class ParallelChapterProcessor {
     this.encouragementAgent = new EncouragementAgent(storyId)
     this.contentParser = new ContentParserAgent(storyId)
     this.chapterAnalyzer = new ChapterAnalyzerAgent(storyId)
+    this.qualityRefiner = new QualityRefinerAgent(storyId, this.chapterAnalyzer, this.contentParser)
+    this.passageIndex = new PassageIndex(storyId)
     this.progressCallback = progressCallback
   }
 
@@ -100,6 +108,12 @@ export class ParallelChapterProcessor {
       parallelEfficiency: number
     }
   }> {
+    // Charge every chapter call to the story's token budget
+    if (!currentBudget()) {
+      const budget = await TokenBudget.forStory(this.storyId)
+      return runWithBudget(budget, () => this.processChaptersInParallel(chapters, baseStoryContext))
+    }
+
     const startTime = Date.now()
     let totalTokens = 0
     const results: ProcessingResult[] = []
@@ -194,7 +208,7 @@ export class ParallelChapterProcessor {
       
       // Remove job from queue and start processing
       const job = this.jobQueue.splice(availableJobIndex, 1)[0]
-      const enhancedContext = this.buildEnhancedContext(baseStoryContext, job)
+      const enhancedContext = await this.buildEnhancedContext(baseStoryContext, job)
       
       console.log(`🎬 Starting Chapter ${job.chapterNumber}: "${job.title}"`)
       
@@ -220,6 +234,7 @@ export class ParallelChapterProcessor {
     // Store completed chapter if successful
     if (result.success && result.chapter) {
       this.completedChapters.set(chapterNumber, result.chapter)
+      await this.passageIndex.indexChapter(chapterNumber, result.chapter.content)
       console.log(`✅ Chapter ${chapterNumber} completed! Quality: ${result.qualityScore.toFixed(2)}`)
     } else {
       console.log(`❌ Chapter ${chapterNumber} failed: ${result.error}`)
@@ -236,23 +251,25 @@ export class ParallelChapterProcessor {
   }
 
   /**
-   * Build enhanced context with completed chapters
+   * Build enhanced context: the summary of the chapter just before this one, plus
+   * the earlier passages most relevant to it. Retrieval keeps the context the same
+   * size however many chapters are already written.
    */
-  private buildEnhancedContext(baseContext: string, job: ChapterJob): string {
+  private async buildEnhancedContext(baseContext: string, job: ChapterJob): Promise<string> {
     let enhancedContext = baseContext
     
-    // Add summaries of completed chapters
-    if (this.completedChapters.size > 0) {
-      enhancedContext += '\n\nCOMPLETED CHAPTERS:\n'
-      
-      // Get completed chapters in order
-      const completedInOrder = Array.from(this.completedChapters.entries())
-        .filter(([num]) => num < job.chapterNumber)
-        .sort(([a], [b]) => a - b)
-      
-      completedInOrder.forEach(([num, chapter]) => {
-        enhancedContext += `Chapter ${num}: ${chapter.title}\nSummary: ${chapter.summary}\n\n`
-      })
+    const previous = this.completedChapters.get(job.chapterNumber - 1)
+    if (previous) {
+      enhancedContext += `\n\nPREVIOUS CHAPTER:\nChapter ${job.chapterNumber - 1}: ${previous.title}\nSummary: ${previous.summary}`
+    }
+
+    const recalled = await this.passageIndex.contextFor({
+      number: job.chapterNumber,
+      title: job.title,
+      plan: job.storyContext
+    })
+    if (recalled) {
+      enhancedContext += `\n\n${recalled}`
     }
     
     return enhancedContext
@@ -285,54 +302,56 @@ export class ParallelChapterProcessor {
         // Step 3: Parse content
         const parsedChapter = await this.contentParser.parseChapterContent(chapterResponse.content)
         
-        // Step 4: Quality analysis
-        const analysis = await this.chapterAnalyzer.analyzeChapter(parsedChapter.content, {
+        // Step 4: Quality gate - rewrite from the analysis until the chapter passes.
+        // A low budget keeps the chapter as it is rather than paying for rewrites.
+        const refined = await this.qualityRefiner.refine(parsedChapter.content, {
           number: job.chapterNumber,
           title: job.title,
           storyThemes: job.questionnaire.spiritualElements,
           targetAge: job.questionnaire.targetAge,
           overallStoryArc: job.questionnaire.primaryTheme
+        }, {
+          qualityThreshold: this.config.qualityThreshold,
+          maxIterations: this.config.retryAttempts
         })
-        
-        // Step 5: Quality check
-        if (analysis.overallScore >= this.config.qualityThreshold) {
-          // Success! Chapter meets quality standards
-          const chapter = {
-            number: job.chapterNumber,
-            title: job.title,
-            content: parsedChapter.content,
-            summary: parsedChapter.learningElement || `Chapter ${job.chapterNumber} summary`,
-            keyLessons: analysis.learningIntegration.explicitLessons,
-            wordCount: parsedChapter.wordCount,
-            qualityScore: analysis.overallScore
-          }
-          
-          return {
-            chapterNumber: job.chapterNumber,
-            success: true,
-            chapter,
-            processingTime: Date.now() - startTime,
-            tokensUsed: totalTokens,
-            qualityScore: analysis.overallScore,
-            retryCount
-          }
-        } else {
-          // Quality too low, retry with improvements
-          retryCount++
-          
-          if (retryCount <= this.config.retryAttempts) {
-            console.log(`🔄 Chapter ${job.chapterNumber} quality (${analysis.overallScore.toFixed(2)}) below threshold. Retrying... (${retryCount}/${this.config.retryAttempts})`)
-            
-            // Add improvement context for retry
-            job.storyContext += `\n\nIMPROVEMENT NEEDED:\n${analysis.recommendations.map(r => r.suggestion).join('\n')}`
+        totalTokens += refined.tokens
+
+        if (refined.stoppedBecause === 'budget') {
+          console.log(`💰 Token budget running low - keeping Chapter ${job.chapterNumber} at quality ${refined.finalScore.toFixed(2)}`)
+        }
+
+        const chapter = {
+          number: job.chapterNumber,
+          title: job.title,
+          content: refined.content,
+          summary: parsedChapter.learningElement || `Chapter ${job.chapterNumber} summary`,
+          keyLessons: refined.analysis.learningIntegration.explicitLessons,
+          wordCount: countWords(refined.content),
+          qualityScore: refined.finalScore,
+          refinement: {
+            initialScore: refined.initialScore,
+            finalScore: refined.finalScore,
+            iterations: refined.iterations.map(({ content, ...iteration }) => iteration),
+            stoppedBecause: refined.stoppedBecause
           }
         }
-        
+
+        return {
+          chapterNumber: job.chapterNumber,
+          success: true,
+          chapter,
+          processingTime: Date.now() - startTime,
+          tokensUsed: totalTokens,
+          qualityScore: refined.finalScore,
+          retryCount
+        }
+
       } catch (error) {
         retryCount++
         console.error(`Error processing Chapter ${job.chapterNumber} (attempt ${retryCount}):`, error)
         
-        if (retryCount > this.config.retryAttempts) {
+        // Retrying cannot help once the budget is gone
+        if (retryCount > this.config.retryAttempts || error instanceof BudgetExceededError) {
           return {
             chapterNumber: job.chapterNumber,
             success: false,
@@ -362,7 +381,8 @@ export class ParallelChapterProcessor {
    * Generate adaptive encouragement based on chapter and context
    */
   private async generateAdaptiveEncouragement(job: ChapterJob, retryCount: number): Promise<string> {
-    if (!this.config.useAdaptiveEncouragement) {
+    // Generated encouragement costs tokens - the canned motivation is free
+    if (!this.config.useAdaptiveEncouragement || currentBudget()?.isNearlySpent()) {
       return await this.encouragementAgent.motivateForTask({
         storyTitle: job.questionnaire.primaryTheme,
         currentPhase: 'chapter',
@@ -546,7 +566,18 @@ Make it magical, meaningful, and true to your SoulScribe essence!`
       questionnaire,
       dependencies: ch.number > 1 ? [ch.number - 1] : [], // Depend on previous chapter
       priority: index < 2 ? 'high' : (index < chapters.length - 2 ? 'normal' : 'high'), // First 2 and last 2 are high priority
-      estimatedComplexity: Math.random() * 0.5 + 0.5 // Random complexity between 0.5-1.0
+      estimatedComplexity: ParallelChapterProcessor.estimateComplexity(index, chapters.length)
     }))
   }
+
+  /**
+   * Complexity between 0.5-1.0 that rises toward the climax (~75% through the story).
+   * Deterministic so chapter prompts stay stable for fixture replay.
+   */
+  private static estimateComplexity(index: number, total: number): number {
+    if (total <= 1) return 0.75
+    const position = index / (total - 1)
+    const distanceFromClimax = Math.abs(position - 0.75)
+    return Math.round((1 - distanceFromClimax * 0.66) * 100) / 100
+  }
 }
\ No newline at end of file
@@ -0,0 +1,196 @@
+import { callAgent } from '@/lib/openai'
+import { prisma } from '@/lib/prisma'
+import { currentBudget } from '@/lib/token-budget'
+import type { QualityLevel } from '@/lib/pipeline-stages'
+import { ChapterAnalyzerAgent, ChapterAnalysis, Recommendation } from './chapter-analyzer-agent'
+import { ContentParserAgent } from './content-parser-agent'
+
+/**
+ * Quality Refiner Agent - Every chapter gets a second look (and a third, if it needs one)
+ *
+ * Feeds the Chapter Analyzer's recommendations back to SoulScribe as a rewrite
+ * brief, then analyzes the rewrite. The loop runs while the chapter scores below
+ * the threshold or still has critical recommendations, up to a fixed number of
+ * rewrites. A rewrite that does not improve on the text it replaced is thrown away
+ * and the next attempt starts again from the kept text - rewrites are sampled, so
+ * one miss does not mean the next will miss too.
+ */
+
+export type ChapterContext = Parameters<ChapterAnalyzerAgent['analyzeChapter']>[1]
+
+export interface RefinementOptions {
+  qualityThreshold: number
+  maxIterations: number
+  // Checked before each rewrite - defaults to stopping when the token budget runs low
+  shouldStop?: () => boolean
+}
+
+export interface RefinementIteration {
+  iteration: number
+  scoreBefore: number
+  scoreAfter: number
+  criticalBefore: number
+  criticalAfter: number
+  kept: boolean
+  content: string
+  tokens: number // The rewrite and its analysis
+}
+
+export interface RefinementResult {
+  content: string
+  analysis: ChapterAnalysis
+  initialScore: number
+  finalScore: number
+  iterations: RefinementIteration[]
+  stoppedBecause: 'passed' | 'max_iterations' | 'no_improvement' | 'budget'
+  tokens: number
+}
+
+export const REFINEMENT_BY_QUALITY: { [level in QualityLevel]: Omit<RefinementOptions, 'shouldStop'> } = {
+  fast: { qualityThreshold: 0.6, maxIterations: 1 },
+  balanced: { qualityThreshold: 0.7, maxIterations: 2 },
+  premium: { qualityThreshold: 0.8, maxIterations: 3 }
+}
+
+const PRIORITY_ORDER: Recommendation['priority'][] = ['critical', 'high', 'medium', 'low']
+
+// The rewrite brief stays focused - the most important points only
+const MAX_RECOMMENDATIONS = 6
+
+export function criticalCount(analysis: ChapterAnalysis): number {
+  return analysis.recommendations.filter(recommendation => recommendation.priority === 'critical').length
+}
+
+export function needsRefinement(analysis: ChapterAnalysis, qualityThreshold: number): boolean {
+  return analysis.overallScore < qualityThreshold || criticalCount(analysis) > 0
+}
+
+/**
+ * The recommendations most worth acting on, critical first
+ */
+export function prioritizeRecommendations(recommendations: Recommendation[], limit = MAX_RECOMMENDATIONS): Recommendation[] {
+  return [...recommendations]
+    .sort((a, b) => PRIORITY_ORDER.indexOf(a.priority) - PRIORITY_ORDER.indexOf(b.priority))
+    .slice(0, limit)
+}
+
+export function formatRecommendations(recommendations: Recommendation[]): string {
+  return recommendations.map(recommendation =>
+    `• [${recommendation.priority}] ${recommendation.issue} - ${recommendation.suggestion}` +
+    (recommendation.exampleFix ? `\n  For example: ${recommendation.exampleFix}` : '')
+  ).join('\n')
+}
+
+export class QualityRefinerAgent {
+  private storyId: string
+  private chapterAnalyzer: ChapterAnalyzerAgent
+  private contentParser: ContentParserAgent
+
+  constructor(storyId: string, chapterAnalyzer?: ChapterAnalyzerAgent, contentParser?: ContentParserAgent) {
+    this.storyId = storyId
+    this.chapterAnalyzer = chapterAnalyzer ?? new ChapterAnalyzerAgent(storyId)
+    this.contentParser = contentParser ?? new ContentParserAgent(storyId)
+  }
+
+  /**
+   * Rewrite the chapter from its analysis until it passes or the cap is reached.
+   * Pass the analysis of the current text when you already have it.
+   */
+  async refine(
+    content: string,
+    chapterContext: ChapterContext,
+    options: RefinementOptions,
+    analysis?: ChapterAnalysis
+  ): Promise<RefinementResult> {
+    const shouldStop = options.shouldStop ?? (() => currentBudget()?.isNearlySpent() ?? false)
+
+    const initialAnalysis = analysis ?? await this.chapterAnalyzer.analyzeChapter(content, chapterContext)
+    let current = { content, analysis: initialAnalysis }
+    const initialScore = current.analysis.overallScore
+    const iterations: RefinementIteration[] = []
+    // An analysis passed in was paid for by the caller
+    let tokens = analysis ? 0 : initialAnalysis.tokensUsed
+    let stoppedBecause: RefinementResult['stoppedBecause'] = 'passed'
+
+    while (needsRefinement(current.analysis, options.qualityThreshold)) {
+      if (iterations.length >= options.maxIterations) {
+        stoppedBecause = iterations.some(iteration => iteration.kept) ? 'max_iterations' : 'no_improvement'
+        break
+      }
+      if (shouldStop()) {
+        stoppedBecause = 'budget'
+        break
+      }
+
+      const rewrite = await this.rewrite(current.content, current.analysis, chapterContext)
+      const rewriteAnalysis = await this.chapterAnalyzer.analyzeChapter(rewrite.content, chapterContext)
+      tokens += rewrite.tokens + rewriteAnalysis.tokensUsed
+
+      // Fewer critical problems wins; on a tie the higher score does
+      const kept = criticalCount(rewriteAnalysis) < criticalCount(current.analysis) ||
+        (criticalCount(rewriteAnalysis) === criticalCount(current.analysis) &&
+          rewriteAnalysis.overallScore > current.analysis.overallScore)
+
+      iterations.push({
+        iteration: iterations.length + 1,
+        scoreBefore: current.analysis.overallScore,
+        scoreAfter: rewriteAnalysis.overallScore,
+        criticalBefore: criticalCount(current.analysis),
+        criticalAfter: criticalCount(rewriteAnalysis),
+        kept,
+        content: rewrite.content,
+        tokens: rewrite.tokens + rewriteAnalysis.tokensUsed
+      })
+      console.log(`🔁 Chapter ${chapterContext.number} refinement ${iterations.length}: ${current.analysis.overallScore.toFixed(2)} → ${rewriteAnalysis.overallScore.toFixed(2)}${kept ? '' : ' (discarded)'}`)
+
+      if (kept) {
+        current = { content: rewrite.content, analysis: rewriteAnalysis }
+      }
+    }
+
+    return {
+      content: current.content,
+      analysis: current.analysis,
+      initialScore,
+      finalScore: current.analysis.overallScore,
+      iterations,
+      stoppedBecause,
+      tokens
+    }
+  }
+
+  private async rewrite(
+    content: string,
+    analysis: ChapterAnalysis,
+    chapterContext: ChapterContext
+  ): Promise<{ content: string; tokens: number }> {
+    const prompt = `Chapter ${chapterContext.number}: "${chapterContext.title}" scored ${analysis.overallScore.toFixed(2)} in review. Here is what to improve, most important first:
+
+${formatRecommendations(prioritizeRecommendations(analysis.recommendations))}
+
+Please revise the chapter to address these points while maintaining your beautiful storytelling voice. Keep what already works and return the complete chapter.
+
+Original Chapter:
+${content}`
+
+    const response = await callAgent({
+      agentType: 'soulscribe',
+      messages: [{ role: 'user', content: prompt }],
+      temperature: 0.8,
+      maxTokens: 4000
+    })
+
+    await prisma.agentSession.create({
+      data: {
+        storyId: this.storyId,
+        agentType: 'soulscribe',
+        input: prompt,
+        output: response.content,
+        tokensUsed: response.tokensUsed
+      }
+    })
+
+    const parsed = await this.contentParser.parseChapterContent(response.content)
+    return { content: parsed.content, tokens: response.tokensUsed }
+  }
+}
@@ -1,12 +1,39 @@
-import { callAgent, AgentType } from '@/lib/openai'
+import { callAgent, callAgentStreaming, callAgentStructured, learningSynthesisSchema, AgentType } from '@/lib/openai'
 import { prisma } from '@/lib/prisma'
+import { currentBudget } from '@/lib/token-budget'
+import { PassageIndex } from '@/lib/passage-index'
+import { GenerationCheckpointStore } from '@/lib/generation-checkpoints'
+import { ChapterDraft, saveChapterDrafts } from '@/lib/version-history'
+import { PipelineStage, loadStoryStages, renderStagePrompt } from '@/lib/pipeline-stages'
 import type { Story, Chapter, AgentSession } from '@/types/story'
+import { StoryBibleAgent, selectRelevantEntries, formatBibleSection } from './story-bible-agent'
+
+// The fields of a 'chapter' checkpoint that continueStory reads and writes -
+// the generation pipeline's checkpoints carry more
+interface CheckpointedChapter {
+  number: number
+  title: string
+  content: string
+  summary: string
+  keyLessons: string[]
+  wordCount: number
+  drafts?: ChapterDraft[]
+}
 
 export class SoulScribeOrchestrator {
   private storyId: string
+  private storyBible: StoryBibleAgent
+  private passageIndex: PassageIndex
+  private checkpoints: GenerationCheckpointStore
+  private stages?: PipelineStage[]
+  // Every agent call's tokens, as logged - a chapter's share is the difference across it
+  private tokensUsed = 0
 
   constructor(storyId: string) {
     this.storyId = storyId
+    this.storyBible = new StoryBibleAgent(storyId)
+    this.passageIndex = new PassageIndex(storyId)
+    this.checkpoints = new GenerationCheckpointStore(storyId)
   }
 
   async logAgentSession(
@@ -15,6 +42,7 @@ export class SoulScribeOrchestrator {
     output: string,
     tokensUsed: number
   ): Promise<void> {
+    this.tokensUsed += tokensUsed
     await prisma.agentSession.create({
       data: {
         storyId: this.storyId,
@@ -49,31 +77,47 @@ export class SoulScribeOrchestrator {
     return response.content
   }
 
-  async generateChapter(chapterNumber: number, chapterTitle: string, context: string): Promise<{
+  /**
+   * Pass onDelta to watch the first draft being written token by token. The
+   * passes between the draft and the learning synthesis come from the story's
+   * pipeline stages; every pass's text is returned in drafts for the chapter's history.
+   */
+  async generateChapter(
+    chapterNumber: number,
+    chapterTitle: string,
+    context: string,
+    onDelta?: (delta: string) => void
+  ): Promise<{
     content: string
     summary: string
     keyLessons: string[]
+    drafts: ChapterDraft[]
   }> {
     // Step 1: Generate initial chapter content
-    const initialContent = await this.generateInitialChapter(chapterNumber, chapterTitle, context)
+    const initialContent = await this.generateInitialChapter(chapterNumber, chapterTitle, context, onDelta)
+    const drafts: ChapterDraft[] = [{ content: initialContent, agentType: 'soulscribe', stage: 'draft', note: 'First draft' }]
     
-    // Step 2: Review and enhance with specialized agents
-    const enhancedContent = await this.enhanceChapter(initialContent, context)
+    // Step 2: Enhance and review through the story's pipeline stages
+    drafts.push(...await this.runStages(initialContent, context))
+    const finalContent = drafts[drafts.length - 1].content
     
-    // Step 3: Quality check and finalize
-    const finalContent = await this.qualityCheckChapter(enhancedContent)
-    
-    // Step 4: Generate learning synthesis
+    // Step 3: Generate learning synthesis
     const learningSynthesis = await this.generateLearningSynthesis(finalContent)
 
     return {
       content: finalContent,
       summary: learningSynthesis.summary,
-      keyLessons: learningSynthesis.lessons
+      keyLessons: learningSynthesis.lessons,
+      drafts
     }
   }
 
-  private async generateInitialChapter(chapterNumber: number, title: string, context: string): Promise<string> {
+  private async generateInitialChapter(
+    chapterNumber: number,
+    title: string,
+    context: string,
+    onDelta?: (delta: string) => void
+  ): Promise<string> {
     const prompt = `Generate Chapter ${chapterNumber}: "${title}"
 
     Story Context:
@@ -86,74 +130,46 @@ export class SoulScribeOrchestrator {
     - Meaningful dialogue
     - Mystical yet grounded tone`
 
-    const response = await callAgent({
-      agentType: 'soulscribe',
-      messages: [{ role: 'user', content: prompt }],
+    const request = {
+      agentType: 'soulscribe' as const,
+      messages: [{ role: 'user' as const, content: prompt }],
       temperature: 0.85,
       maxTokens: 4000
-    })
+    }
+    const response = onDelta ? await callAgentStreaming(request, onDelta) : await callAgent(request)
 
     await this.logAgentSession('soulscribe', prompt, response.content, response.tokensUsed)
     return response.content
   }
 
-  private async enhanceChapter(content: string, context: string): Promise<string> {
-    // Metaphor enhancement
-    const metaphorPrompt = `Review and enhance the metaphorical depth of this chapter:
-    
-    Context: ${context}
-    Chapter: ${content}
-    
-    Strengthen symbolic language and archetypal elements while maintaining natural flow.`
-
-    const metaphorResponse = await callAgent({
-      agentType: 'metaphor_architect',
-      messages: [{ role: 'user', content: metaphorPrompt }],
-      temperature: 0.7,
-      maxTokens: 4000
-    })
-
-    await this.logAgentSession('metaphor_architect', metaphorPrompt, metaphorResponse.content, metaphorResponse.tokensUsed)
-
-    // Wisdom weaving
-    const wisdomPrompt = `Ensure this chapter carries meaningful spiritual lessons naturally:
-    
-    Enhanced Chapter: ${metaphorResponse.content}
-    
-    Verify that wisdom is woven organically into the narrative without being preachy.`
-
-    const wisdomResponse = await callAgent({
-      agentType: 'wisdom_weaver',
-      messages: [{ role: 'user', content: wisdomPrompt }],
-      temperature: 0.6,
-      maxTokens: 4000
-    })
-
-    await this.logAgentSession('wisdom_weaver', wisdomPrompt, wisdomResponse.content, wisdomResponse.tokensUsed)
-    return wisdomResponse.content
-  }
-
-  private async qualityCheckChapter(content: string): Promise<string> {
-    const prompt = `Perform a final quality review of this chapter:
-    
-    ${content}
-    
-    Check for:
-    - Narrative consistency
-    - Character voice authenticity
-    - Spiritual theme integration
-    - Readability and flow
-    - SoulScribe tone adherence`
+  /**
+   * Run the story's enhancement stages in order, each one rewriting the last one's text
+   */
+  private async runStages(content: string, context: string): Promise<ChapterDraft[]> {
+    this.stages ??= await loadStoryStages(this.storyId)
+
+    const drafts: ChapterDraft[] = []
+    let current = content
+    for (const stage of this.stages) {
+      // Optional stages are polish - when the budget runs low they are skipped
+      if (stage.optional && currentBudget()?.isNearlySpent()) {
+        console.log(`💰 Token budget running low - skipping the ${stage.label.toLowerCase()}`)
+        continue
+      }
 
-    const response = await callAgent({
-      agentType: 'quality_guardian',
-      messages: [{ role: 'user', content: prompt }],
-      temperature: 0.5,
-      maxTokens: 4000
-    })
+      const prompt = renderStagePrompt(stage, { chapter: current, context })
+      const response = await callAgent({
+        agentType: stage.agentType,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: stage.temperature,
+        maxTokens: stage.maxTokens
+      })
 
-    await this.logAgentSession('quality_guardian', prompt, response.content, response.tokensUsed)
-    return response.content
+      await this.logAgentSession(stage.agentType, prompt, response.content, response.tokensUsed)
+      current = response.content
+      drafts.push({ content: current, agentType: stage.agentType, stage: stage.id, note: stage.label })
+    }
+    return drafts
   }
 
   private async generateLearningSynthesis(content: string): Promise<{
@@ -170,26 +186,23 @@ export class SoulScribeOrchestrator {
     
     Format as JSON: {"summary": "...", "lessons": ["...", "..."]}`
 
-    const response = await callAgent({
+    const response = await callAgentStructured({
       agentType: 'learning_synthesis',
       messages: [{ role: 'user', content: prompt }],
+      schema: learningSynthesisSchema,
       temperature: 0.4,
       maxTokens: 1000
     })
 
     await this.logAgentSession('learning_synthesis', prompt, response.content, response.tokensUsed)
-
-    try {
-      return JSON.parse(response.content)
-    } catch (error) {
-      // Fallback if JSON parsing fails
-      return {
-        summary: "Chapter summary processing error",
-        lessons: ["Key insights from this chapter"]
-      }
-    }
+    return response.data
   }
 
+  /**
+   * Write the story's chapters from fromChapter on. Chapters with a checkpoint -
+   * from an earlier call or from the generation pipeline - are kept rather than
+   * written again, so a crashed or cancelled run resumes where it stopped.
+   */
   async continueStory(fromChapter: number): Promise<void> {
     const story = await prisma.story.findUnique({
       where: { id: this.storyId },
@@ -203,38 +216,65 @@ export class SoulScribeOrchestrator {
 
     if (!story) throw new Error('Story not found')
 
-    // Build context from existing chapters
+    // Existing chapters are recalled by retrieval rather than pasted in whole
     const context = this.buildStoryContext(story)
+    await this.passageIndex.syncChapters(story.chapters)
 
     // Generate remaining chapters
     for (let i = fromChapter; i <= story.chapterCount; i++) {
-      const chapterTitle = `Chapter ${i}` // This could be generated by an agent
-      const chapterData = await this.generateChapter(i, chapterTitle, context)
-
-      await prisma.chapter.create({
-        data: {
-          storyId: this.storyId,
-          number: i,
-          title: chapterTitle,
-          content: chapterData.content,
-          summary: chapterData.summary,
-          keyLessons: chapterData.keyLessons,
-          wordCount: chapterData.content.split(' ').length,
-          status: 'draft'
+      const checkpointed = await this.checkpoints.get<{ chapter: CheckpointedChapter; tokens: number }>('chapter', i)
+      if (checkpointed) {
+        // Its bible entries and passages were recorded when it was written - only the chapter may be missing
+        const saved = story.chapters.find(chapter => chapter.number === i)
+        if (saved?.content !== checkpointed.chapter.content) {
+          await this.saveChapter(checkpointed.chapter)
         }
-      })
+        continue
+      }
 
-      // Update context for next chapter
-      context += `\n\nChapter ${i} Summary: ${chapterData.summary}`
+      const chapterTitle = `Chapter ${i}` // This could be generated by an agent
+      const bible = await this.storyBible.load({ beforeChapter: i })
+      const chapterContext = [
+        context,
+        formatBibleSection(selectRelevantEntries(bible, { number: i, title: chapterTitle })),
+        await this.passageIndex.contextFor({ number: i, title: chapterTitle })
+      ].filter(Boolean).join('\n\n')
+      const tokensBefore = this.tokensUsed
+      const chapterData = await this.generateChapter(i, chapterTitle, chapterContext)
+      const chapter: CheckpointedChapter = {
+        number: i,
+        title: chapterTitle,
+        content: chapterData.content,
+        summary: chapterData.summary,
+        keyLessons: chapterData.keyLessons,
+        wordCount: chapterData.content.split(' ').length,
+        drafts: chapterData.drafts
+      }
+
+      await this.saveChapter(chapter)
+      await this.storyBible.recordChapter(i, chapterData.content)
+      await this.passageIndex.indexChapter(i, chapterData.content)
+      await this.checkpoints.save('chapter', { chapter, tokens: this.tokensUsed - tokensBefore }, i)
     }
 
     // Update story status
     await prisma.story.update({
       where: { id: this.storyId },
-      data: { status: 'reviewing' }
+      data: { generationStatus: 'reviewing' }
     })
   }
 
+  private async saveChapter(chapter: CheckpointedChapter): Promise<void> {
+    await saveChapterDrafts(this.storyId, chapter.number, {
+      title: chapter.title,
+      content: chapter.content,
+      summary: chapter.summary,
+      keyLessons: chapter.keyLessons,
+      wordCount: chapter.wordCount,
+      status: 'draft'
+    }, chapter.drafts?.length ? chapter.drafts : [{ content: chapter.content, agentType: 'soulscribe', stage: 'draft', note: 'First draft' }])
+  }
+
   private buildStoryContext(story: any): string {
     let context = `Title: ${story.title}\n`
     context += `Genre: ${story.genre}\n`
@@ -245,10 +285,10 @@ export class SoulScribeOrchestrator {
       context += `Outline:\n${story.outline}\n\n`
     }
 
-    // Add existing chapters
-    story.chapters.forEach((chapter: any) => {
-      context += `Chapter ${chapter.number} Summary: ${chapter.summary}\n`
-    })
+    // Titles only - what was written is recalled from the passage index
+    if (story.chapters.length > 0) {
+      context += `Chapters so far: ${story.chapters.map((chapter: any) => `${chapter.number}. ${chapter.title}`).join('; ')}\n`
+    }
 
     return context
   }
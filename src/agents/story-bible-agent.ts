@@ -0,0 +1,469 @@
+import { callAgentStructured } from '@/lib/openai'
+import { schema, Infer } from '@/lib/agent-schemas'
+import { prisma } from '@/lib/prisma'
+
+/**
+ * Story Bible Agent - The Keeper of What Is True in This World
+ *
+ * After every chapter this agent writes down who appeared, where the story went,
+ * which objects matter and which facts are now canon (eye colours, promises, deaths).
+ * The bible lives in the characters, settings and story_facts tables, and the entries
+ * relevant to the next chapter are handed to SoulScribe so the story stays consistent.
+ * Every chapter's cast and places are kept as appearances in story_facts too, so
+ * the bible can be read as it stood before any chapter - who had been met, where,
+ * and who was still alive.
+ */
+
+export type CharacterStatus = 'alive' | 'dead' | 'departed' | 'unknown'
+
+export interface BibleCharacter {
+  name: string
+  role: string
+  archetype: string
+  description: string
+  status: CharacterStatus
+  firstChapter: number | null
+  lastChapter: number | null
+}
+
+export interface BibleSetting {
+  name: string
+  description: string
+  mood: string
+  symbolism: string
+  firstChapter: number | null
+  lastChapter: number | null
+}
+
+export interface BibleFact {
+  kind: 'object' | 'fact'
+  subject: string
+  detail: string
+  chapterNumber: number
+}
+
+// A story_facts row as merge writes it - facts and objects, or appearances
+interface BibleFactRow {
+  kind: string
+  subject: string
+  detail: string
+  chapterNumber: number
+}
+
+export interface StoryBible {
+  characters: BibleCharacter[]
+  settings: BibleSetting[]
+  facts: BibleFact[]
+}
+
+export interface UpcomingChapter {
+  number: number
+  title: string
+  // Anything known about the chapter before it is written (TOC description, character focus, guidance)
+  plan?: string
+}
+
+const CHARACTER_STATUSES = ['alive', 'dead', 'departed', 'unknown'] as const
+
+// story_facts kinds that record who appeared (detail: their status) and where the story went
+const APPEARANCE = 'appearance'
+const VISIT = 'visit'
+
+export const chapterBibleSchema = schema.object({
+  characters: schema.array(schema.object({
+    name: schema.string({ minLength: 1 }),
+    role: schema.enum(['protagonist', 'antagonist', 'guide', 'supporting'] as const),
+    archetype: schema.string().optional(),
+    description: schema.string(),
+    status: schema.enum(CHARACTER_STATUSES).optional()
+  })),
+  places: schema.array(schema.object({
+    name: schema.string({ minLength: 1 }),
+    description: schema.string(),
+    mood: schema.string().optional(),
+    symbolism: schema.string().optional()
+  })),
+  objects: schema.array(schema.object({
+    name: schema.string({ minLength: 1 }),
+    detail: schema.string({ minLength: 1 })
+  })),
+  facts: schema.array(schema.object({
+    subject: schema.string({ minLength: 1 }),
+    fact: schema.string({ minLength: 1 })
+  }))
+})
+
+export type ChapterBibleExtraction = Infer<typeof chapterBibleSchema>
+
+const MAX_PROMPT_FACTS = 20
+
+export class StoryBibleAgent {
+  private storyId: string
+
+  constructor(storyId: string) {
+    this.storyId = storyId
+  }
+
+  /**
+   * Load the bible. With beforeChapter it is the bible as it stood before that chapter:
+   * only characters, places and facts from earlier chapters, with each character's
+   * status as of then (used when a chapter is written or rewritten - a rewrite must
+   * not be held to its own previous draft or to anything that happens later).
+   */
+  async load(options: { beforeChapter?: number } = {}): Promise<StoryBible> {
+    const before = options.beforeChapter
+    const introducedBefore = before !== undefined
+      ? { OR: [{ firstChapter: null }, { firstChapter: { lt: before } }] }
+      : {}
+
+    const [characters, settings, facts] = await Promise.all([
+      prisma.character.findMany({ where: { storyId: this.storyId, ...introducedBefore }, orderBy: { firstChapter: 'asc' } }),
+      prisma.setting.findMany({ where: { storyId: this.storyId, ...introducedBefore }, orderBy: { firstChapter: 'asc' } }),
+      prisma.storyFact.findMany({
+        where: {
+          storyId: this.storyId,
+          ...(before !== undefined && { chapterNumber: { lt: before } })
+        },
+        orderBy: { chapterNumber: 'asc' }
+      })
+    ])
+
+    // Chapters recorded before appearances were kept only have the first/last columns
+    const chaptersOf = (kind: string, name: string, first: number | null, last: number | null) => {
+      const seen = facts.filter(fact => fact.kind === kind && fact.subject.toLowerCase() === name.toLowerCase())
+      if (seen.length === 0) {
+        return { firstChapter: first, lastChapter: last !== null && before !== undefined ? Math.min(last, before - 1) : last, seen }
+      }
+      return { firstChapter: seen[0].chapterNumber, lastChapter: seen[seen.length - 1].chapterNumber, seen }
+    }
+
+    return {
+      characters: characters.map(character => {
+        const { firstChapter, lastChapter, seen } = chaptersOf(APPEARANCE, character.name, character.firstChapter, character.lastChapter)
+        return {
+          name: character.name,
+          role: character.role,
+          archetype: character.archetype,
+          description: character.description,
+          status: toCharacterStatus(seen.length > 0 ? seen[seen.length - 1].detail : character.status),
+          firstChapter,
+          lastChapter
+        }
+      }),
+      settings: settings.map(setting => {
+        const { firstChapter, lastChapter } = chaptersOf(VISIT, setting.name, setting.firstChapter, setting.lastChapter)
+        return {
+          name: setting.name,
+          description: setting.description,
+          mood: setting.mood,
+          symbolism: setting.symbolism,
+          firstChapter,
+          lastChapter
+        }
+      }),
+      facts: facts
+        .filter(fact => fact.kind !== APPEARANCE && fact.kind !== VISIT)
+        .map(fact => ({
+          kind: fact.kind === 'object' ? 'object' : 'fact',
+          subject: fact.subject,
+          detail: fact.detail,
+          chapterNumber: fact.chapterNumber
+        }))
+    }
+  }
+
+  /**
+   * Ask the bible keeper what a finished chapter established
+   */
+  async extractFromChapter(chapterNumber: number, content: string): Promise<{ extraction: ChapterBibleExtraction; tokens: number }> {
+    const prompt = `Record what Chapter ${chapterNumber} establishes for the story bible.
+
+Chapter ${chapterNumber}:
+${content}
+
+List only what the chapter actually shows or states:
+- characters: everyone who appears or is named, with role, a short physical and personality description, and status (alive, dead, departed or unknown)
+- places: every location the story visits, with description, mood and symbolism
+- objects: important objects, what they look like, what they do and who holds them
+- facts: lasting details later chapters must respect (appearance, abilities, relationships, promises, injuries, deaths, rules of the world)
+
+Respond with JSON:
+{
+  "characters": [{ "name": "Luna", "role": "protagonist", "archetype": "seeker", "description": "a small silver fox with emerald eyes", "status": "alive" }],
+  "places": [{ "name": "Whispering Grove", "description": "...", "mood": "hushed", "symbolism": "..." }],
+  "objects": [{ "name": "Moon Lantern", "detail": "glows only when someone tells the truth; carried by Luna" }],
+  "facts": [{ "subject": "Luna", "fact": "has emerald green eyes" }]
+}`
+
+    const response = await callAgentStructured({
+      agentType: 'story_bible',
+      messages: [{ role: 'user', content: prompt }],
+      schema: chapterBibleSchema,
+      temperature: 0.2,
+      maxTokens: 1500
+    })
+
+    await this.logSession(chapterNumber, content, response.data, response.tokensUsed)
+    return { extraction: response.data, tokens: response.tokensUsed }
+  }
+
+  /**
+   * Extract a chapter's canon and merge it into the bible
+   */
+  async recordChapter(chapterNumber: number, content: string): Promise<{ bible: StoryBible; tokens: number }> {
+    const { extraction, tokens } = await this.extractFromChapter(chapterNumber, content)
+    const bible = await this.merge(chapterNumber, extraction)
+    return { bible, tokens }
+  }
+
+  /**
+   * Merge an extraction into the stored bible. Names match case-insensitively, so
+   * "luna" in chapter 3 updates the Luna introduced in chapter 1. Every character and
+   * place in the chapter is recorded as appearing there, characters with their status.
+   */
+  async merge(chapterNumber: number, extraction: ChapterBibleExtraction): Promise<StoryBible> {
+    const [bible, earlier, recorded] = await Promise.all([
+      this.load(),
+      this.load({ beforeChapter: chapterNumber }),
+      prisma.storyFact.findMany({
+        where: { storyId: this.storyId, chapterNumber, kind: { in: [APPEARANCE, VISIT] } },
+        select: { kind: true, subject: true }
+      })
+    ])
+    const appearances: BibleFactRow[] = []
+
+    for (const character of extraction.characters) {
+      const existing = findByName(bible.characters, character.name)
+      const name = existing?.name ?? character.name.trim()
+      // A chapter that does not say otherwise leaves the character as they were
+      const status = character.status || findByName(earlier.characters, name)?.status || 'alive'
+      const isLatest = chapterNumber >= (existing?.lastChapter ?? chapterNumber)
+
+      await prisma.character.upsert({
+        where: { storyId_name: { storyId: this.storyId, name } },
+        create: {
+          storyId: this.storyId,
+          name,
+          role: character.role,
+          archetype: character.archetype || '',
+          description: character.description,
+          growthArc: '',
+          symbolism: '',
+          status,
+          firstChapter: chapterNumber,
+          lastChapter: chapterNumber
+        },
+        update: {
+          // The first description stays canon - later chapters only add to it
+          ...(!existing?.description && { description: character.description }),
+          // The column holds the status as of the latest chapter; earlier ones are in the appearances
+          ...(isLatest && { status }),
+          firstChapter: Math.min(existing?.firstChapter ?? chapterNumber, chapterNumber),
+          lastChapter: Math.max(existing?.lastChapter ?? chapterNumber, chapterNumber)
+        }
+      })
+      appearances.push({ kind: APPEARANCE, subject: name, detail: status, chapterNumber })
+    }
+
+    for (const place of extraction.places) {
+      const existing = findByName(bible.settings, place.name)
+      const name = existing?.name ?? place.name.trim()
+
+      await prisma.setting.upsert({
+        where: { storyId_name: { storyId: this.storyId, name } },
+        create: {
+          storyId: this.storyId,
+          name,
+          description: place.description,
+          mood: place.mood || '',
+          symbolism: place.symbolism || '',
+          firstChapter: chapterNumber,
+          lastChapter: chapterNumber
+        },
+        update: {
+          ...(!existing?.description && { description: place.description }),
+          firstChapter: Math.min(existing?.firstChapter ?? chapterNumber, chapterNumber),
+          lastChapter: Math.max(existing?.lastChapter ?? chapterNumber, chapterNumber)
+        }
+      })
+      appearances.push({ kind: VISIT, subject: name, detail: '', chapterNumber })
+    }
+
+    const newFacts: BibleFactRow[] = [
+      ...extraction.objects.map(object => ({ kind: 'object' as const, subject: object.name.trim(), detail: object.detail.trim(), chapterNumber })),
+      ...extraction.facts.map(fact => ({ kind: 'fact' as const, subject: fact.subject.trim(), detail: fact.fact.trim(), chapterNumber }))
+    ].filter(fact => !bible.facts.some(known =>
+      known.kind === fact.kind &&
+      known.subject.toLowerCase() === fact.subject.toLowerCase() &&
+      known.detail.toLowerCase() === fact.detail.toLowerCase()
+    ))
+    // Recording the same chapter twice does not count its cast twice
+    const newAppearances = appearances.filter((appearance, index) =>
+      !recorded.some(row => row.kind === appearance.kind && row.subject.toLowerCase() === appearance.subject.toLowerCase()) &&
+      appearances.findIndex(other => other.kind === appearance.kind && other.subject === appearance.subject) === index
+    )
+
+    if (newFacts.length > 0 || newAppearances.length > 0) {
+      await prisma.storyFact.createMany({
+        data: [...newFacts, ...newAppearances].map(fact => ({ ...fact, storyId: this.storyId }))
+      })
+    }
+
+    return this.load()
+  }
+
+  /**
+   * Drop everything a chapter established - called before that chapter is rewritten.
+   * Its facts, appearances and status changes go; characters and places met only
+   * in that chapter go with them, and anyone first met there is first met at their
+   * next appearance.
+   */
+  async forgetChapter(chapterNumber: number): Promise<void> {
+    await prisma.storyFact.deleteMany({ where: { storyId: this.storyId, chapterNumber } })
+
+    const remaining = await prisma.storyFact.findMany({
+      where: { storyId: this.storyId, kind: { in: [APPEARANCE, VISIT] }, chapterNumber: { gt: chapterNumber } },
+      orderBy: { chapterNumber: 'asc' },
+      select: { kind: true, subject: true, chapterNumber: true }
+    })
+    const nextAppearance = (kind: string, name: string) =>
+      remaining.find(row => row.kind === kind && row.subject.toLowerCase() === name.toLowerCase())?.chapterNumber
+
+    const [characters, settings] = await Promise.all([
+      prisma.character.findMany({ where: { storyId: this.storyId, firstChapter: chapterNumber }, select: { id: true, name: true, lastChapter: true } }),
+      prisma.setting.findMany({ where: { storyId: this.storyId, firstChapter: chapterNumber }, select: { id: true, name: true, lastChapter: true } })
+    ])
+
+    for (const character of characters) {
+      const next = nextAppearance(APPEARANCE, character.name)
+      if (next !== undefined) {
+        await prisma.character.update({ where: { id: character.id }, data: { firstChapter: next } })
+      } else if (character.lastChapter === chapterNumber) {
+        await prisma.character.delete({ where: { id: character.id } })
+      }
+    }
+    for (const setting of settings) {
+      const next = nextAppearance(VISIT, setting.name)
+      if (next !== undefined) {
+        await prisma.setting.update({ where: { id: setting.id }, data: { firstChapter: next } })
+      } else if (setting.lastChapter === chapterNumber) {
+        await prisma.setting.delete({ where: { id: setting.id } })
+      }
+    }
+  }
+
+  private async logSession(chapterNumber: number, content: string, extraction: ChapterBibleExtraction, tokensUsed: number): Promise<void> {
+    await prisma.agentSession.create({
+      data: {
+        storyId: this.storyId,
+        agentType: 'story_bible',
+        input: `Chapter ${chapterNumber}: ${content.substring(0, 300)}...`,
+        output: JSON.stringify(extraction),
+        tokensUsed
+      }
+    })
+  }
+}
+
+/**
+ * Pick the bible entries that matter for the next chapter: protagonists, anyone
+ * named in its plan, anyone seen in the last couple of chapters, and the facts about them.
+ * Only what earlier chapters established counts - nobody is introduced ahead of time.
+ */
+export function selectRelevantEntries(
+  bible: StoryBible,
+  upcoming: UpcomingChapter,
+  options: { recentChapters?: number; maxFacts?: number } = {}
+): StoryBible {
+  const recentChapters = options.recentChapters ?? 2
+  const maxFacts = options.maxFacts ?? MAX_PROMPT_FACTS
+  const plan = `${upcoming.title}\n${upcoming.plan || ''}`
+  const isKnown = (firstChapter: number | null) => firstChapter === null || firstChapter < upcoming.number
+  const isRecent = (lastChapter: number | null) =>
+    lastChapter !== null && lastChapter >= upcoming.number - recentChapters && lastChapter < upcoming.number
+
+  const characters = bible.characters.filter(character =>
+    isKnown(character.firstChapter) &&
+    (character.role === 'protagonist' || mentions(plan, character.name) || isRecent(character.lastChapter))
+  )
+  const settings = bible.settings.filter(setting =>
+    isKnown(setting.firstChapter) && (mentions(plan, setting.name) || isRecent(setting.lastChapter))
+  )
+
+  const subjects = [...characters.map(character => character.name), ...settings.map(setting => setting.name)]
+  const facts = bible.facts
+    .filter(fact => fact.chapterNumber < upcoming.number)
+    .filter(fact =>
+      mentions(plan, fact.subject) ||
+      subjects.some(subject => subject.toLowerCase() === fact.subject.toLowerCase() || mentions(fact.detail, subject))
+    )
+    // Most recent first, so the cap keeps what the reader remembers best
+    .sort((a, b) => b.chapterNumber - a.chapterNumber)
+    .slice(0, maxFacts)
+
+  return { characters, settings, facts }
+}
+
+/**
+ * Render bible entries as a prompt section (empty string when there is nothing yet)
+ */
+export function formatBibleSection(bible: StoryBible): string {
+  if (bible.characters.length === 0 && bible.settings.length === 0 && bible.facts.length === 0) {
+    return ''
+  }
+
+  const lines = ['STORY BIBLE (established canon - stay consistent with it):']
+
+  if (bible.characters.length > 0) {
+    lines.push('', 'Characters:')
+    bible.characters.forEach(character => {
+      lines.push(`• ${character.name} (${character.role}, ${describeStatus(character)}) - ${character.description}`)
+    })
+  }
+
+  if (bible.settings.length > 0) {
+    lines.push('', 'Places:')
+    bible.settings.forEach(setting => {
+      lines.push(`• ${setting.name}${setting.mood ? ` (${setting.mood})` : ''} - ${setting.description}`)
+    })
+  }
+
+  if (bible.facts.length > 0) {
+    lines.push('', 'Established facts:')
+    bible.facts.forEach(fact => {
+      lines.push(`• ${fact.subject}: ${fact.detail} (ch. ${fact.chapterNumber})`)
+    })
+  }
+
+  return lines.join('\n')
+}
+
+export function describeStatus(character: BibleCharacter): string {
+  switch (character.status) {
+    case 'dead':
+      return 'dead - may appear only in memories, never speaking or acting'
+    case 'departed':
+      return 'has left the story'
+    case 'unknown':
+      return 'whereabouts unknown'
+    default:
+      return 'alive'
+  }
+}
+
+function findByName<T extends { name: string }>(entries: T[], name: string): T | undefined {
+  const key = name.trim().toLowerCase()
+  return entries.find(entry => entry.name.toLowerCase() === key)
+}
+
+function mentions(text: string, name: string): boolean {
+  return new RegExp(`\\b${escapeRegExp(name)}\\b`, 'i').test(text)
+}
+
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function toCharacterStatus(status: string): CharacterStatus {
+  return (CHARACTER_STATUSES as readonly string[]).includes(status) ? status as CharacterStatus : 'unknown'
+}
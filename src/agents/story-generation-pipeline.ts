@@ -1,9 +1,23 @@
 import { EncouragementAgent } from './encouragement-agent'
 import { ContentParserAgent } from './content-parser-agent'
-import { TOCProcessorAgent } from './toc-processor-agent'
+import { TOCProcessorAgent, ProcessedTOC } from './toc-processor-agent'
+import { BeatSheetAgent } from './beat-sheet-agent'
 import { ChapterAnalyzerAgent } from './chapter-analyzer-agent'
-import { callAgent } from '@/lib/openai'
+import { StoryBibleAgent, selectRelevantEntries, formatBibleSection } from './story-bible-agent'
+import { ContinuityCheckerAgent, ContinuityIssue, formatContinuityNotes } from './continuity-checker-agent'
+import { QualityRefinerAgent, RefinementResult, REFINEMENT_BY_QUALITY } from './quality-refiner-agent'
+import { callAgent, callAgentStreaming } from '@/lib/openai'
 import { prisma } from '@/lib/prisma'
+import { GenerationCheckpointStore } from '@/lib/generation-checkpoints'
+import { GenerationProgress, ChapterPreview } from '@/lib/generation-progress'
+import { TokenBudget, runWithBudget, currentBudget } from '@/lib/token-budget'
+import { PassageIndex } from '@/lib/passage-index'
+import { ChapterDraft, saveChapterDrafts, saveStoryRevision } from '@/lib/version-history'
+import { PipelineStage, isQualityLevel, loadStoryStages, renderStagePrompt } from '@/lib/pipeline-stages'
+import { StoryTemplate, formatTemplateGuide } from '@/lib/story-templates'
+import { BeatSheet, PlannedChapter, beatSheetFromTOC, formatBeatSheetTOC, formatChapterPlan, plannedChapters } from '@/lib/beat-sheet'
+
+export type { GenerationProgress } from '@/lib/generation-progress'
 
 /**
  * Automated Story Generation Pipeline - The Master Conductor
@@ -27,23 +41,19 @@ export interface StoryGenerationRequest {
     toneKeywords: string[]
     writingStyle: string
     chatResponses: Array<{ question: string; answer: string }>
+    templateId?: string
   }
+  // The story structure to follow, resolved from templateId when the run was queued
+  template?: StoryTemplate | null
   userPreferences: {
     generateAudio: boolean
     realTimeUpdates: boolean
     qualityLevel: 'fast' | 'balanced' | 'premium'
+    // Stop after the beat sheet until the author approves it
+    reviewOutline?: boolean
   }
 }
 
-export interface GenerationProgress {
-  phase: 'initializing' | 'outline' | 'toc' | 'introduction' | 'chapters' | 'review' | 'audio' | 'complete'
-  currentStep: string
-  completedSteps: string[]
-  estimatedTimeRemaining: number
-  chapterProgress: { [chapterNumber: number]: 'pending' | 'generating' | 'reviewing' | 'complete' }
-  errors: Array<{ step: string; error: string; resolved: boolean }>
-}
-
 export interface GenerationResult {
   storyId: string
   success: boolean
@@ -59,6 +69,9 @@ export interface GenerationResult {
       summary: string
       keyLessons: string[]
       audioUrl?: string
+      continuityIssues?: ContinuityIssue[]
+      qualityScore?: number
+      refinement?: ChapterRefinement
     }>
     learningReflection: string
   }
@@ -69,6 +82,23 @@ export interface GenerationResult {
     qualityScore: number
   }
   errors: any[]
+  resumedFrom?: string | null
+  // The run stopped for the author to review the beat sheet - no chapters yet
+  awaitingOutlineReview?: boolean
+}
+
+/**
+ * The quality gate's record for one chapter - scores before and after each rewrite
+ */
+export type ChapterRefinement = Omit<RefinementResult, 'content' | 'analysis' | 'iterations'> & {
+  iterations: Array<Omit<RefinementResult['iterations'][number], 'content'>>
+}
+
+export class GenerationCancelledError extends Error {
+  constructor(storyId: string) {
+    super(`Story generation for ${storyId} was cancelled`)
+    this.name = 'GenerationCancelledError'
+  }
 }
 
 export class StoryGenerationPipeline {
@@ -76,28 +106,71 @@ export class StoryGenerationPipeline {
   private encouragementAgent: EncouragementAgent
   private contentParser: ContentParserAgent
   private tocProcessor: TOCProcessorAgent
+  private beatSheets: BeatSheetAgent
   private chapterAnalyzer: ChapterAnalyzerAgent
+  private storyBible: StoryBibleAgent
+  private continuityChecker: ContinuityCheckerAgent
+  private qualityRefiner: QualityRefinerAgent
+  private refinement = REFINEMENT_BY_QUALITY.balanced
+  private stages?: PipelineStage[]
+  private template: StoryTemplate | null = null
+  private passageIndex: PassageIndex
+  private checkpoints: GenerationCheckpointStore
   private progressCallback?: (progress: GenerationProgress) => void
+  private chapterPreviews: { [chapterNumber: number]: ChapterPreview } = {}
+  private lastProgress: GenerationProgress | null = null
+  private budgetSkips: string[] = []
+  private cancelled = false
 
   constructor(storyId: string, progressCallback?: (progress: GenerationProgress) => void) {
     this.storyId = storyId
     this.encouragementAgent = new EncouragementAgent(storyId)
     this.contentParser = new ContentParserAgent(storyId)
     this.tocProcessor = new TOCProcessorAgent(storyId)
+    this.beatSheets = new BeatSheetAgent(storyId)
     this.chapterAnalyzer = new ChapterAnalyzerAgent(storyId)
+    this.storyBible = new StoryBibleAgent(storyId)
+    this.continuityChecker = new ContinuityCheckerAgent(storyId)
+    this.qualityRefiner = new QualityRefinerAgent(storyId, this.chapterAnalyzer, this.contentParser)
+    this.passageIndex = new PassageIndex(storyId)
+    this.checkpoints = new GenerationCheckpointStore(storyId)
     this.progressCallback = progressCallback
   }
 
   /**
-   * THE MAIN EVENT - Generate a complete story from questionnaire
+   * Stop the run after the current step - completed phases stay checkpointed
+   */
+  cancel(): void {
+    this.cancelled = true
+  }
+
+  /**
+   * THE MAIN EVENT - Generate a complete story from questionnaire.
+   * Phases with an existing checkpoint are reused, so calling this again after a
+   * crash or cancel resumes from the last completed phase or chapter.
+   * Every agent call is charged to the story's token budget; optional passes are
+   * skipped once it runs low and the run fails cleanly when it is exhausted.
    */
   async generateCompleteStory(request: StoryGenerationRequest): Promise<GenerationResult> {
+    const budget = currentBudget() ?? await TokenBudget.forStory(this.storyId)
+    return runWithBudget(budget, () => this.runGeneration(request))
+  }
+
+  private async runGeneration(request: StoryGenerationRequest): Promise<GenerationResult> {
     const startTime = Date.now()
     let totalTokens = 0
     let agentInteractions = 0
     const errors: any[] = []
+    let resumedFrom: string | null = null
 
     try {
+      this.cancelled = false
+      this.chapterPreviews = {}
+      this.budgetSkips = []
+      this.refinement = REFINEMENT_BY_QUALITY[request.userPreferences.qualityLevel] ?? REFINEMENT_BY_QUALITY.balanced
+      this.template = request.template ?? null
+      resumedFrom = await this.checkpoints.lastCompletedStep()
+
       this.updateProgress({
         phase: 'initializing',
         currentStep: 'Preparing SoulScribe for story creation',
@@ -124,7 +197,9 @@ export class StoryGenerationPipeline {
       })
 
       // Step 2: Generate outline with encouragement
-      const { outline, tokens: outlineTokens } = await this.generateOutlineWithEncouragement(storyBrief, request.questionnaire)
+      const { outline, tokens: outlineTokens } = await this.runCheckpointed('outline', () =>
+        this.generateOutlineWithEncouragement(storyBrief, request.questionnaire)
+      )
       totalTokens += outlineTokens
       agentInteractions += 2
 
@@ -138,17 +213,63 @@ export class StoryGenerationPipeline {
         errors: []
       })
 
-      const { toc, tokens: tocTokens } = await this.generateTOCWithEncouragement(outline, request.questionnaire)
+      // Step 4: Process TOC into structured format - checkpointed together with the raw TOC
+      const { processedTOC, tokens: tocTokens } = await this.runCheckpointed('toc', async () => {
+        const generated = await this.generateTOCWithEncouragement(outline, request.questionnaire)
+        const processed = await this.tocProcessor.processTableOfContents(generated.toc, {
+          genre: request.questionnaire.genre,
+          targetAge: request.questionnaire.targetAge,
+          themes: request.questionnaire.spiritualElements,
+          learningObjectives: [request.questionnaire.lifeLesson],
+          template: this.template
+        })
+        return { toc: generated.toc, processedTOC: processed, tokens: generated.tokens }
+      })
       totalTokens += tocTokens
       agentInteractions += 2
 
-      // Step 4: Process TOC into structured format
-      const processedTOC = await this.tocProcessor.processTableOfContents(toc, {
-        genre: request.questionnaire.genre,
-        targetAge: request.questionnaire.targetAge,
-        themes: request.questionnaire.spiritualElements,
-        learningObjectives: [request.questionnaire.lifeLesson]
-      })
+      // Step 4b: Break the outline into acts, chapters and beats - the author's edits are kept across runs
+      const { beatSheet, approved, tokens: beatSheetTokens } = await this.loadOrPlanBeatSheet(outline, processedTOC, request.questionnaire)
+      totalTokens += beatSheetTokens
+
+      if (request.userPreferences.reviewOutline && !approved) {
+        // Approving the beat sheet queues the run again, which resumes from here
+        await prisma.story.update({ where: { id: this.storyId }, data: { generationStatus: 'outline_review' } })
+        this.updateProgress({
+          phase: 'outline_review',
+          currentStep: 'The beat sheet is ready for your review',
+          completedSteps: [...this.getCompletedSteps('toc'), 'Beat sheet drafted'],
+          estimatedTimeRemaining: 0,
+          chapterProgress: {},
+          errors: []
+        })
+
+        return {
+          storyId: this.storyId,
+          success: true,
+          story: {
+            title: this.extractTitleFromOutline(outline),
+            outline,
+            tableOfContents: processedTOC,
+            introduction: '',
+            chapters: [],
+            learningReflection: ''
+          },
+          analytics: {
+            totalTime: Date.now() - startTime,
+            tokensUsed: totalTokens,
+            agentInteractions,
+            qualityScore: 0
+          },
+          errors: this.budgetSkipErrors(),
+          resumedFrom,
+          awaitingOutlineReview: true
+        }
+      }
+
+      // Chapters are written from the beat sheet, so its order and titles win over the raw TOC
+      const plan = plannedChapters(beatSheet)
+      const tableOfContents = formatBeatSheetTOC(beatSheet)
 
       // Step 5: Generate Introduction
       this.updateProgress({
@@ -160,14 +281,17 @@ export class StoryGenerationPipeline {
         errors: []
       })
 
-      const { introduction, tokens: introTokens } = await this.generateIntroductionWithEncouragement(outline, toc, request.questionnaire)
+      const { introduction, tokens: introTokens } = await this.runCheckpointed('introduction', () =>
+        this.generateIntroductionWithEncouragement(outline, tableOfContents, request.questionnaire)
+      )
       totalTokens += introTokens
       agentInteractions += 2
 
-      // Step 6: Initialize chapter progress tracking
+      // Step 6: Initialize chapter progress tracking (checkpointed chapters are already complete)
+      const checkpointedChapters = await this.checkpoints.completedChapters()
       const chapterProgress: { [key: number]: 'pending' | 'generating' | 'reviewing' | 'complete' } = {}
-      for (let i = 1; i <= request.questionnaire.chapterCount; i++) {
-        chapterProgress[i] = 'pending'
+      for (let i = 1; i <= plan.length; i++) {
+        chapterProgress[i] = checkpointedChapters.includes(i) ? 'complete' : 'pending'
       }
 
       // Step 7: Generate chapters (this is where the magic happens!)
@@ -180,11 +304,20 @@ export class StoryGenerationPipeline {
         errors: []
       })
 
-      const chapters = []
-      const storyContext = this.buildStoryContext(outline, toc, request.questionnaire)
+      const chapters: any[] = []
+      const storyContext = this.buildStoryContext(outline, tableOfContents, request.questionnaire)
 
       // Generate chapters with parallel processing capability
-      for (let chapterNum = 1; chapterNum <= request.questionnaire.chapterCount; chapterNum++) {
+      for (let chapterNum = 1; chapterNum <= plan.length; chapterNum++) {
+        const checkpointed = await this.checkpoints.get<{ chapter: any; tokens: number }>('chapter', chapterNum)
+        if (checkpointed) {
+          chapters.push(checkpointed.chapter)
+          this.setChapterPreview(checkpointed.chapter)
+          totalTokens += checkpointed.tokens
+          continue
+        }
+
+        this.throwIfCancelled()
         chapterProgress[chapterNum] = 'generating'
         this.updateProgress({
           phase: 'chapters',
@@ -195,26 +328,39 @@ export class StoryGenerationPipeline {
           errors: []
         })
 
-        const chapterTitle = processedTOC.chapters[chapterNum - 1]?.title || `Chapter ${chapterNum}`
+        const planned = plan[chapterNum - 1]
         const { chapter, tokens: chapterTokens } = await this.generateChapterWithFullPipeline(
           chapterNum, 
-          chapterTitle, 
+          planned.chapter.title, 
           storyContext, 
-          request.questionnaire
+          request.questionnaire,
+          formatChapterPlan(planned)
         )
         
+        await this.checkpoints.save('chapter', { chapter, tokens: chapterTokens }, chapterNum)
         chapters.push(chapter)
         totalTokens += chapterTokens
-        agentInteractions += 4 // Encouragement + Generation + Parsing + Analysis
+        agentInteractions += 6 // Encouragement + Generation + Parsing + Analysis + Continuity + Bible
 
         chapterProgress[chapterNum] = 'complete'
+        this.setChapterPreview(chapter)
+        this.updateProgress({
+          phase: 'chapters',
+          currentStep: `Chapter ${chapterNum} is ready to read`,
+          completedSteps: [...this.getCompletedSteps('introduction')],
+          estimatedTimeRemaining: Math.max(1, this.estimateTimeRemaining(request) - 8 - chapterNum),
+          chapterProgress,
+          errors: []
+        })
         
         // Celebrate the completion!
-        await this.encouragementAgent.celebrateSuccess({
-          storyTitle: request.questionnaire.primaryTheme,
-          currentPhase: 'chapter',
-          chapterNumber: chapterNum
-        }, chapter.content)
+        if (!this.shouldSaveTokens(`chapter ${chapterNum} celebration`)) {
+          await this.encouragementAgent.celebrateSuccess({
+            storyTitle: request.questionnaire.primaryTheme,
+            currentPhase: 'chapter',
+            chapterNumber: chapterNum
+          }, chapter.content)
+        }
       }
 
       // Step 8: Generate final learning reflection
@@ -227,15 +373,19 @@ export class StoryGenerationPipeline {
         errors: []
       })
 
-      const { learningReflection, tokens: reflectionTokens } = await this.generateFinalReflection(outline, chapters, request.questionnaire)
+      const { learningReflection, tokens: reflectionTokens } = await this.runCheckpointed('reflection', () =>
+        this.generateFinalReflection(outline, chapters, request.questionnaire)
+      )
       totalTokens += reflectionTokens
       agentInteractions += 1
 
       // Step 9: Final celebration and completion
-      await this.encouragementAgent.celebrateSuccess({
-        storyTitle: request.questionnaire.primaryTheme,
-        currentPhase: 'completion'
-      }, 'Complete story creation!')
+      if (!this.shouldSaveTokens('final celebration')) {
+        await this.encouragementAgent.celebrateSuccess({
+          storyTitle: request.questionnaire.primaryTheme,
+          currentPhase: 'completion'
+        }, 'Complete story creation!')
+      }
 
       this.updateProgress({
         phase: 'complete',
@@ -247,7 +397,7 @@ export class StoryGenerationPipeline {
       })
 
       // Calculate final quality score
-      const qualityScore = await this.calculateOverallQualityScore(chapters, request.questionnaire)
+      const qualityScore = this.calculateOverallQualityScore(chapters)
 
       // Save the complete story to database
       await this.saveStoryToDatabase({
@@ -258,6 +408,9 @@ export class StoryGenerationPipeline {
         learningReflection
       }, request.questionnaire)
 
+      errors.push(...this.continuityErrors(chapters))
+      errors.push(...this.budgetSkipErrors())
+
       return {
         storyId: this.storyId,
         success: true,
@@ -275,11 +428,17 @@ export class StoryGenerationPipeline {
           agentInteractions,
           qualityScore
         },
-        errors
+        errors,
+        resumedFrom
       }
 
     } catch (error) {
-      errors.push({ step: 'generation', error: error.message, resolved: false })
+      errors.push({
+        step: error instanceof GenerationCancelledError ? 'cancelled' : 'generation',
+        error: error instanceof Error ? error.message : String(error),
+        resolved: false
+      })
+      errors.push(...this.budgetSkipErrors())
       
       return {
         storyId: this.storyId,
@@ -291,11 +450,130 @@ export class StoryGenerationPipeline {
           agentInteractions,
           qualityScore: 0
         },
-        errors
+        errors,
+        resumedFrom
       }
     }
   }
 
+  /**
+   * Write one chapter again from the story's outline and TOC checkpoints.
+   * Optional guidance from the author is passed to SoulScribe with the context.
+   */
+  async regenerateChapter(
+    chapterNumber: number,
+    questionnaire: StoryGenerationRequest['questionnaire'],
+    guidance?: string
+  ): Promise<{ chapter: any; tokens: number }> {
+    const budget = currentBudget() ?? await TokenBudget.forStory(this.storyId)
+
+    return runWithBudget(budget, async () => {
+      const story = await prisma.story.findUnique({
+        where: { id: this.storyId },
+        select: { outline: true, qualityLevel: true, chapters: { select: { number: true, title: true, content: true } } }
+      })
+      this.refinement = REFINEMENT_BY_QUALITY[story && isQualityLevel(story.qualityLevel) ? story.qualityLevel : 'balanced']
+      const outlineCheckpoint = await this.checkpoints.get<{ outline: string }>('outline')
+      const tocCheckpoint = await this.checkpoints.get<{ toc: string; processedTOC: any }>('toc')
+      const beatSheet = (await this.beatSheets.load())?.beatSheet
+      const planned: PlannedChapter | undefined = beatSheet && plannedChapters(beatSheet)[chapterNumber - 1]
+
+      const outline = story?.outline || outlineCheckpoint?.outline || ''
+      const chapterTitle = story?.chapters.find(chapter => chapter.number === chapterNumber)?.title ||
+        planned?.chapter.title ||
+        tocCheckpoint?.processedTOC?.chapters?.[chapterNumber - 1]?.title ||
+        `Chapter ${chapterNumber}`
+
+      let storyContext = this.buildStoryContext(outline, beatSheet ? formatBeatSheetTOC(beatSheet) : tocCheckpoint?.toc || '', questionnaire)
+      if (guidance) {
+        storyContext += `\n\nGuidance for this rewrite:\n${guidance}`
+      }
+
+      // The rewrite is held to earlier chapters, not to the draft it replaces
+      await this.storyBible.forgetChapter(chapterNumber)
+      // Earlier chapters may have been edited since they were indexed
+      await this.passageIndex.syncChapters((story?.chapters || []).filter(chapter => chapter.number < chapterNumber))
+      const result = await this.generateChapterWithFullPipeline(
+        chapterNumber,
+        chapterTitle,
+        storyContext,
+        questionnaire,
+        planned ? formatChapterPlan(planned) : undefined
+      )
+      await this.checkpoints.save('chapter', result, chapterNumber)
+      await this.saveChapter(result.chapter)
+      return result
+    })
+  }
+
+  /**
+   * The story's beat sheet: the stored one (with the author's edits) if there is one,
+   * else drafted now - straight from the TOC when the budget is running low
+   */
+  private async loadOrPlanBeatSheet(
+    outline: string,
+    processedTOC: ProcessedTOC,
+    questionnaire: StoryGenerationRequest['questionnaire']
+  ): Promise<{ beatSheet: BeatSheet; approved: boolean; tokens: number }> {
+    const stored = await this.beatSheets.load()
+    if (stored) {
+      return { beatSheet: stored.beatSheet, approved: stored.approvedAt !== null, tokens: 0 }
+    }
+
+    this.throwIfCancelled()
+    const drafted = this.shouldSaveTokens('beat sheet')
+      ? { beatSheet: beatSheetFromTOC(processedTOC), tokens: 0 }
+      : await this.beatSheets.generate(outline, processedTOC, questionnaire)
+    await this.beatSheets.save(drafted.beatSheet)
+    return { ...drafted, approved: false }
+  }
+
+  /**
+   * Run a phase once - later runs reuse its checkpoint instead of calling agents again
+   */
+  private async runCheckpointed<T>(phase: 'outline' | 'toc' | 'introduction' | 'reflection', run: () => Promise<T>): Promise<T> {
+    const checkpointed = await this.checkpoints.get<T>(phase)
+    if (checkpointed) {
+      return checkpointed
+    }
+
+    this.throwIfCancelled()
+    const result = await run()
+    await this.checkpoints.save(phase, result)
+    return result
+  }
+
+  /**
+   * True when the token budget is running low - the skipped step is noted in the result
+   */
+  private shouldSaveTokens(step: string): boolean {
+    if (!currentBudget()?.isNearlySpent()) return false
+    this.budgetSkips.push(step)
+    return true
+  }
+
+  private continuityErrors(chapters: any[]): Array<{ step: string; error: string; resolved: boolean }> {
+    return chapters.flatMap(chapter => (chapter.continuityIssues || []).map((issue: ContinuityIssue) => ({
+      step: `chapter ${chapter.number} continuity`,
+      error: `${issue.subject}: "${issue.contradiction}" contradicts "${issue.established}" (${issue.severity})`,
+      resolved: false
+    })))
+  }
+
+  private budgetSkipErrors(): Array<{ step: string; error: string; resolved: boolean }> {
+    return this.budgetSkips.map(step => ({
+      step: 'budget',
+      error: `Skipped ${step} to stay within the token budget`,
+      resolved: true
+    }))
+  }
+
+  private throwIfCancelled(): void {
+    if (this.cancelled) {
+      throw new GenerationCancelledError(this.storyId)
+    }
+  }
+
   /**
    * Create the master story brief that gets SoulScribe excited
    */
@@ -348,11 +626,11 @@ Ready to create something magical? ✨`
     const outlinePrompt = `${encouragement}
 
 ${storyBrief}
-
+${this.template ? `\n${formatTemplateGuide(this.template, questionnaire.chapterCount)}\n` : ''}
 Create a comprehensive story outline that includes:
 1. Story premise and central spiritual conflict
 2. Character introductions and growth arcs
-3. Chapter-by-chapter progression
+3. Chapter-by-chapter progression${this.template ? `, following the ${this.template.name} structure above chapter by chapter` : ''}
 4. Key metaphorical elements and symbols
 5. The spiritual transformation journey
 6. How it culminates in the life lesson: "${questionnaire.lifeLesson}"
@@ -385,9 +663,9 @@ Make it rich, meaningful, and true to the SoulScribe vision of awakening through
 
 Based on this beautiful outline:
 ${outline}
-
+${this.template ? `\n${formatTemplateGuide(this.template, questionnaire.chapterCount)}\n` : ''}
 Create a Table of Contents with ${questionnaire.chapterCount} chapters that:
-• Has compelling, poetic chapter titles
+${this.template ? '• Gives every chapter the role the story structure assigns to it\n' : ''}• Has compelling, poetic chapter titles
 • Shows clear spiritual progression
 • Hints at the awakening journey
 • Maintains mystery and intrigue
@@ -460,10 +738,19 @@ Style: ${questionnaire.writingStyle}`
     chapterNumber: number,
     chapterTitle: string,
     storyContext: string,
-    questionnaire: any
+    questionnaire: any,
+    chapterPlan?: string
   ): Promise<{ chapter: any; tokens: number }> {
     let totalTokens = 0
 
+    // Canon from earlier chapters that this one has to respect
+    const bible = await this.storyBible.load({ beforeChapter: chapterNumber })
+    const bibleSection = formatBibleSection(
+      selectRelevantEntries(bible, { number: chapterNumber, title: chapterTitle, plan: chapterPlan })
+    )
+    // Earlier passages worth calling back to, found by retrieval over the written chapters
+    const recalled = await this.passageIndex.contextFor({ number: chapterNumber, title: chapterTitle, plan: chapterPlan })
+
     // Step 1: Encourage SoulScribe for this chapter
     const encouragement = await this.encouragementAgent.motivateForTask({
       storyTitle: questionnaire.primaryTheme,
@@ -476,11 +763,11 @@ Style: ${questionnaire.writingStyle}`
 
 Story Context:
 ${storyContext}
-
+${bibleSection ? `\n${bibleSection}\n` : ''}${recalled ? `\n${recalled}\n` : ''}
 Generate Chapter ${chapterNumber}: "${chapterTitle}"
-
+${chapterPlan ? `\nPlan for this chapter:\n${chapterPlan}\n` : ''}
 Create a complete chapter that:
-• Advances the story meaningfully
+${chapterPlan ? '• Follows the plan for this chapter, beat by beat\n' : ''}• Advances the story meaningfully
 • Contains rich sensory descriptions
 • Includes meaningful dialogue with [S1], [S2] tags for different speakers
 • Weaves spiritual themes naturally
@@ -488,65 +775,153 @@ Create a complete chapter that:
 • Ends with a "What did we learn from this chapter?" reflection
 • Maintains the ${questionnaire.writingStyle} style
 • Is appropriate for ${questionnaire.targetAge} audience
+• Stays true to every established character, place and fact
 
 Make it magical, meaningful, and true to your SoulScribe essence!`
 
-    const chapterResponse = await callAgent({
+    // Streamed so readers can watch the draft appear while it is written
+    const chapterResponse = await callAgentStreaming({
       agentType: 'soulscribe',
       messages: [{ role: 'user', content: chapterPrompt }],
       temperature: 0.85,
       maxTokens: 4000
-    })
+    }, this.streamChapterPreview(chapterNumber, chapterTitle))
     totalTokens += chapterResponse.tokensUsed
 
     // Step 3: Parse the chapter content
     const parsedChapter = await this.contentParser.parseChapterContent(chapterResponse.content)
+    // Each pass is kept so the chapter's version history shows how it got here
+    const drafts: ChapterDraft[] = [{ content: parsedChapter.content, agentType: 'soulscribe', stage: 'draft', note: 'First draft' }]
+
+    // Step 4: Enhance the draft through the story's pipeline stages
+    const staged = await this.runStages(chapterNumber, parsedChapter.content, storyContext)
+    totalTokens += staged.tokens
+    drafts.push(...staged.drafts)
+    parsedChapter.content = drafts[drafts.length - 1].content
 
-    // Step 4: Analyze chapter quality
-    const analysis = await this.chapterAnalyzer.analyzeChapter(parsedChapter.content, {
+    // Step 5: Analyze chapter quality
+    const chapterContext = {
       number: chapterNumber,
       title: chapterTitle,
       storyThemes: questionnaire.spiritualElements,
       targetAge: questionnaire.targetAge,
       overallStoryArc: questionnaire.primaryTheme
-    })
+    }
+    const analysis = await this.chapterAnalyzer.analyzeChapter(parsedChapter.content, chapterContext)
+    totalTokens += analysis.tokensUsed
+
+    // Step 6: Rewrite from the analyzer's recommendations until the chapter passes the quality gate
+    const refined = await this.qualityRefiner.refine(parsedChapter.content, chapterContext, {
+      ...this.refinement,
+      shouldStop: () => this.shouldSaveTokens(`chapter ${chapterNumber} quality refinement`)
+    }, analysis)
+    totalTokens += refined.tokens
+    parsedChapter.content = refined.content
+    for (const iteration of refined.iterations.filter(iteration => iteration.kept)) {
+      drafts.push({
+        content: iteration.content,
+        agentType: 'soulscribe',
+        stage: 'quality_refinement',
+        note: `Quality refinement ${iteration.iteration}: ${iteration.scoreBefore.toFixed(2)} → ${iteration.scoreAfter.toFixed(2)}`
+      })
+    }
+
+    // Step 7: Check the chapter against the story bible and mend major contradictions once
+    const thorough = !this.shouldSaveTokens(`chapter ${chapterNumber} continuity review`)
+    let continuity = await this.continuityChecker.checkChapter(chapterNumber, parsedChapter.content, bible, { thorough })
+    totalTokens += continuity.tokens
+
+    const majorIssues = continuity.issues.filter(issue => issue.severity === 'major')
+    if (majorIssues.length > 0 && !this.shouldSaveTokens(`chapter ${chapterNumber} continuity revision`)) {
+      const continuityPrompt = `This chapter contradicts what earlier chapters established:
 
-    // Step 5: If quality is too low, provide feedback and regenerate
-    if (analysis.overallScore < 0.7) {
-      const improvementPrompt = `The chapter needs some enhancement. Here are the specific recommendations:
+${formatContinuityNotes(majorIssues)}
 
-${analysis.recommendations.map(r => `• ${r.suggestion}`).join('\n')}
+${bibleSection}
 
-Please revise the chapter to address these points while maintaining your beautiful storytelling voice.
+Please revise the chapter so it agrees with the established story, changing as little as possible and keeping your beautiful storytelling voice.
 
 Original Chapter:
 ${parsedChapter.content}`
 
-      const improvedResponse = await callAgent({
+      const revisedResponse = await callAgent({
         agentType: 'soulscribe',
-        messages: [{ role: 'user', content: improvementPrompt }],
-        temperature: 0.8,
+        messages: [{ role: 'user', content: continuityPrompt }],
+        temperature: 0.6,
         maxTokens: 4000
       })
-      totalTokens += improvedResponse.tokensUsed
+      totalTokens += revisedResponse.tokensUsed
 
-      const improvedParsed = await this.contentParser.parseChapterContent(improvedResponse.content)
-      parsedChapter.content = improvedParsed.content
+      const revisedParsed = await this.contentParser.parseChapterContent(revisedResponse.content)
+      parsedChapter.content = revisedParsed.content
+      drafts.push({ content: parsedChapter.content, agentType: 'soulscribe', stage: 'continuity_revision', note: 'Continuity revision' })
+
+      continuity = await this.continuityChecker.checkChapter(chapterNumber, parsedChapter.content, bible, { thorough })
+      totalTokens += continuity.tokens
     }
 
+    // Step 8: Record what this chapter established for the chapters that follow
+    const { tokens: bibleTokens } = await this.storyBible.recordChapter(chapterNumber, parsedChapter.content)
+    totalTokens += bibleTokens
+    await this.passageIndex.indexChapter(chapterNumber, parsedChapter.content)
+
     return {
       chapter: {
         number: chapterNumber,
         title: chapterTitle,
         content: parsedChapter.content,
         summary: parsedChapter.learningElement || `Chapter ${chapterNumber} summary`,
-        keyLessons: analysis.learningIntegration.explicitLessons,
-        wordCount: parsedChapter.wordCount
+        keyLessons: refined.analysis.learningIntegration.explicitLessons,
+        wordCount: parsedChapter.wordCount,
+        continuityIssues: continuity.issues,
+        qualityScore: refined.finalScore,
+        refinement: {
+          initialScore: refined.initialScore,
+          finalScore: refined.finalScore,
+          iterations: refined.iterations.map(({ content, ...iteration }) => iteration),
+          stoppedBecause: refined.stoppedBecause,
+          tokens: refined.tokens
+        },
+        drafts
       },
       tokens: totalTokens
     }
   }
 
+  /**
+   * Run the story's enhancement stages (its own list, or its quality level's) in
+   * order, each one rewriting the last one's text. Optional stages are skipped
+   * once the budget runs low.
+   */
+  private async runStages(
+    chapterNumber: number,
+    content: string,
+    storyContext: string
+  ): Promise<{ drafts: ChapterDraft[]; tokens: number }> {
+    this.stages ??= await loadStoryStages(this.storyId)
+
+    const drafts: ChapterDraft[] = []
+    let current = content
+    let tokens = 0
+    for (const stage of this.stages) {
+      if (stage.optional && this.shouldSaveTokens(`chapter ${chapterNumber} ${stage.label.toLowerCase()}`)) {
+        continue
+      }
+
+      this.throwIfCancelled()
+      const response = await callAgent({
+        agentType: stage.agentType,
+        messages: [{ role: 'user', content: renderStagePrompt(stage, { chapter: current, context: storyContext }) }],
+        temperature: stage.temperature,
+        maxTokens: stage.maxTokens
+      })
+      tokens += response.tokensUsed
+      current = response.content
+      drafts.push({ content: current, agentType: stage.agentType, stage: stage.id, note: stage.label })
+    }
+    return { drafts, tokens }
+  }
+
   /**
    * Generate final learning reflection
    */
@@ -569,7 +944,7 @@ Write a final "What did we learn from this story?" reflection that:
 This should be the perfect capstone to a transformative journey.`
 
     const response = await callAgent({
-      agentType: 'learning_synthesis' as any,
+      agentType: 'learning_synthesis',
       messages: [{ role: 'user', content: reflectionPrompt }],
       temperature: 0.7,
       maxTokens: 1000
@@ -602,11 +977,12 @@ Key Elements:
   }
 
   /**
-   * Calculate overall quality score
+   * Calculate overall quality score - the average of the chapters' final analyzer scores
    */
-  private async calculateOverallQualityScore(chapters: any[], questionnaire: any): Promise<number> {
-    // This would analyze all chapters for consistency and quality
-    return 0.85 // Placeholder
+  private calculateOverallQualityScore(chapters: any[]): number {
+    const scores = chapters.map(chapter => chapter.qualityScore).filter((score): score is number => typeof score === 'number')
+    if (scores.length === 0) return 0
+    return scores.reduce((sum, score) => sum + score, 0) / scores.length
   }
 
   /**
@@ -621,39 +997,80 @@ Key Elements:
    * Save complete story to database
    */
   private async saveStoryToDatabase(storyData: any, questionnaire: any): Promise<void> {
+    await saveStoryRevision(
+      this.storyId,
+      { title: this.extractTitleFromOutline(storyData.outline) },
+      { source: 'agent', agentType: 'soulscribe', note: 'Title from the outline' }
+    )
     await prisma.story.update({
       where: { id: this.storyId },
       data: {
-        title: this.extractTitleFromOutline(storyData.outline),
         outline: storyData.outline,
-        status: 'completed',
+        generationStatus: 'completed',
         updatedAt: new Date()
       }
     })
 
-    // Save chapters
     for (const chapter of storyData.chapters) {
-      await prisma.chapter.create({
-        data: {
-          storyId: this.storyId,
-          number: chapter.number,
-          title: chapter.title,
-          content: chapter.content,
-          summary: chapter.summary,
-          keyLessons: chapter.keyLessons,
-          wordCount: chapter.wordCount,
-          status: 'final'
-        }
-      })
+      await this.saveChapter(chapter)
     }
   }
 
+  /**
+   * Save one chapter with a revision per pass (a resumed run can re-save safely)
+   */
+  private async saveChapter(chapter: any): Promise<void> {
+    await saveChapterDrafts(this.storyId, chapter.number, {
+      title: chapter.title,
+      content: chapter.content,
+      summary: chapter.summary,
+      keyLessons: chapter.keyLessons,
+      wordCount: chapter.wordCount,
+      qualityScore: chapter.qualityScore,
+      status: 'final'
+    }, chapter.drafts || [])
+  }
+
   /**
    * Update progress and notify callback
    */
   private updateProgress(progress: GenerationProgress): void {
+    this.lastProgress = progress
     if (this.progressCallback) {
-      this.progressCallback(progress)
+      // Snapshot the previews - streaming keeps growing them after this call returns
+      const chapterPreviews: { [chapterNumber: number]: ChapterPreview } = {}
+      Object.values(this.chapterPreviews).forEach(preview => {
+        chapterPreviews[preview.number] = { ...preview }
+      })
+      this.progressCallback({ ...progress, chapterPreviews })
+    }
+  }
+
+  /**
+   * Grow a chapter's preview as tokens arrive, re-sending the latest progress with it
+   */
+  private streamChapterPreview(chapterNumber: number, chapterTitle: string): (delta: string) => void {
+    const preview: ChapterPreview = { number: chapterNumber, title: chapterTitle, content: '' }
+    this.chapterPreviews[chapterNumber] = preview
+
+    return (delta) => {
+      preview.content += delta
+      if (this.lastProgress) {
+        this.updateProgress(this.lastProgress)
+      }
+    }
+  }
+
+  /**
+   * Remember a chapter's text so progress listeners can show it before the story is saved
+   */
+  private setChapterPreview(chapter: { number: number; title: string; content: string; summary?: string; keyLessons?: string[] }): void {
+    this.chapterPreviews[chapter.number] = {
+      number: chapter.number,
+      title: chapter.title,
+      content: chapter.content,
+      summary: chapter.summary,
+      keyLessons: chapter.keyLessons
     }
   }
 
@@ -661,7 +1078,7 @@ Key Elements:
    * Get completed steps for a phase
    */
   private getCompletedSteps(phase: string): string[] {
-    const allSteps = {
+    const allSteps: { [phase: string]: string[] } = {
       'outline': ['Story brief created', 'SoulScribe motivated', 'Outline generated'],
       'toc': ['Story brief created', 'SoulScribe motivated', 'Outline generated', 'Table of Contents created'],
       'introduction': ['Story brief created', 'SoulScribe motivated', 'Outline generated', 'Table of Contents created', 'Introduction written'],
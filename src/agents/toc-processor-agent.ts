@@ -1,6 +1,8 @@
-import { callAgent } from '@/lib/openai'
+import { callAgentStructured } from '@/lib/openai'
+import { schema } from '@/lib/agent-schemas'
 import { prisma } from '@/lib/prisma'
 import { ContentParserAgent } from './content-parser-agent'
+import { StoryTemplate, chapterRoleLabel, fitTemplate, templateThematicArcs } from '@/lib/story-templates'
 
 /**
  * Table of Contents Processing Agent - The Master Organizer of Spiritual Journeys
@@ -28,6 +30,8 @@ export interface ChapterOutline {
   characterFocus: string[]
   learningObjectives: string[]
   difficulty: 'gentle' | 'moderate' | 'deep' | 'profound'
+  // The part this chapter plays in the story template, when there is one
+  role?: string
 }
 
 export interface ThematicArc {
@@ -50,6 +54,39 @@ export interface SpiritualProgression {
   wisdomMilestones: Array<{ atChapter: number; wisdom: string }>
 }
 
+// Output shapes the TOC processor's model calls must return
+const stringList = () => schema.array(schema.string())
+
+const enhancedChaptersSchema = schema.object({
+  chapters: schema.array(schema.object({
+    number: schema.number({ min: 1 }),
+    title: schema.string({ minLength: 1 }),
+    subtitle: schema.string().optional(),
+    description: schema.string().optional(),
+    estimatedReadTime: schema.number({ min: 0 }),
+    spiritualThemes: stringList(),
+    characterFocus: stringList(),
+    learningObjectives: stringList(),
+    difficulty: schema.enum(['gentle', 'moderate', 'deep', 'profound'] as const)
+  }), { minItems: 1 })
+})
+
+const thematicArcsSchema = schema.object({
+  arcs: schema.array(schema.object({
+    name: schema.string({ minLength: 1 }),
+    chapters: schema.array(schema.number({ min: 1 })),
+    centralLesson: schema.string(),
+    arcType: schema.enum(['introduction', 'exploration', 'challenge', 'revelation', 'integration'] as const)
+  }))
+})
+
+const spiritualProgressionSchema = schema.object({
+  startingPoint: schema.string(),
+  endingPoint: schema.string(),
+  keyTransformations: schema.array(schema.object({ atChapter: schema.number({ min: 1 }), transformation: schema.string() })),
+  wisdomMilestones: schema.array(schema.object({ atChapter: schema.number({ min: 1 }), wisdom: schema.string() }))
+})
+
 export class TOCProcessorAgent {
   private storyId: string
   private contentParser: ContentParserAgent
@@ -69,6 +106,7 @@ export class TOCProcessorAgent {
       targetAge: string
       themes: string[]
       learningObjectives: string[]
+      template?: StoryTemplate | null
     }
   ): Promise<ProcessedTOC> {
     // Step 1: Parse and clean the raw TOC
@@ -77,8 +115,10 @@ export class TOCProcessorAgent {
     // Step 2: Enhance chapters with AI analysis
     const enhancedChapters = await this.enhanceChapters(parsedTOC.chapters, storyContext)
     
-    // Step 3: Identify thematic arcs
-    const thematicArcs = await this.identifyThematicArcs(enhancedChapters, storyContext)
+    // Step 3: Identify thematic arcs - a template's acts are the arcs
+    const thematicArcs = storyContext.template
+      ? templateThematicArcs(storyContext.template, enhancedChapters.length)
+      : await this.identifyThematicArcs(enhancedChapters, storyContext)
     
     // Step 4: Create navigation structure
     const navigationData = this.createNavigationStructure(enhancedChapters, thematicArcs)
@@ -87,7 +127,7 @@ export class TOCProcessorAgent {
     const spiritualProgression = await this.mapSpiritualProgression(enhancedChapters, storyContext)
     
     // Step 6: Determine overall story structure
-    const storyStructure = this.determineStoryStructure(enhancedChapters, thematicArcs)
+    const storyStructure = storyContext.template?.structure ?? this.determineStoryStructure(enhancedChapters, thematicArcs)
 
     const processedTOC: ProcessedTOC = {
       chapters: enhancedChapters,
@@ -111,6 +151,12 @@ export class TOCProcessorAgent {
     basicChapters: Array<{ number: number; title: string }>,
     storyContext: any
   ): Promise<ChapterOutline[]> {
+    const template: StoryTemplate | null = storyContext.template ?? null
+    const roles = template ? fitTemplate(template, basicChapters.length) : []
+    const roleOf = (index: number) => roles[index]
+      ? ` - role: ${chapterRoleLabel(roles[index])} (${roles[index].roles.map(role => role.purpose).join(' Then: ')})`
+      : ''
+
     const enhancementPrompt = `Analyze these chapter titles in the context of a SoulScribe story and provide detailed insights:
 
 Story Context:
@@ -118,13 +164,13 @@ Story Context:
 - Target Age: ${storyContext.targetAge}
 - Themes: ${storyContext.themes.join(', ')}
 - Learning Objectives: ${storyContext.learningObjectives.join(', ')}
-
+${template ? `- Structure: ${template.name} - every chapter must play the role given next to its title\n` : ''}
 Chapter Titles:
-${basicChapters.map(ch => `${ch.number}. ${ch.title}`).join('\n')}
+${basicChapters.map((ch, index) => `${ch.number}. ${ch.title}${roleOf(index)}`).join('\n')}
 
 For each chapter, provide:
 1. A meaningful subtitle that hints at the spiritual journey
-2. 2-3 sentence description of what happens
+2. 2-3 sentence description of what happens${template ? ', true to the chapter\'s role' : ''}
 3. Estimated reading time (5-15 minutes)
 4. 2-3 spiritual themes explored
 5. Main characters featured
@@ -148,30 +194,17 @@ Format as JSON array with this structure:
   ]
 }`
 
-    const response = await callAgent({
-      agentType: 'toc_processor' as any,
+    const response = await callAgentStructured({
+      agentType: 'toc_processor',
       messages: [{ role: 'user', content: enhancementPrompt }],
+      schema: enhancedChaptersSchema,
       temperature: 0.7,
       maxTokens: 3000
     })
 
-    try {
-      const parsed = JSON.parse(response.content)
-      return parsed.chapters
-    } catch (error) {
-      // Fallback if JSON parsing fails
-      return basicChapters.map(ch => ({
-        number: ch.number,
-        title: ch.title,
-        subtitle: undefined,
-        description: 'A chapter in the spiritual journey',
-        estimatedReadTime: 10,
-        spiritualThemes: storyContext.themes.slice(0, 2),
-        characterFocus: ['Protagonist'],
-        learningObjectives: storyContext.learningObjectives.slice(0, 1),
-        difficulty: 'moderate' as const
-      }))
-    }
+    return response.data.chapters.map((chapter, index) =>
+      roles[index] ? { ...chapter, role: chapterRoleLabel(roles[index]) } : chapter
+    )
   }
 
   /**
@@ -213,40 +246,15 @@ Format as JSON:
   ]
 }`
 
-    const response = await callAgent({
-      agentType: 'toc_processor' as any,
+    const response = await callAgentStructured({
+      agentType: 'toc_processor',
       messages: [{ role: 'user', content: arcPrompt }],
+      schema: thematicArcsSchema,
       temperature: 0.6,
       maxTokens: 2000
     })
 
-    try {
-      const parsed = JSON.parse(response.content)
-      return parsed.arcs
-    } catch (error) {
-      // Fallback arcs based on chapter distribution
-      const totalChapters = chapters.length
-      return [
-        {
-          name: 'The Awakening',
-          chapters: chapters.slice(0, Math.ceil(totalChapters * 0.3)).map(ch => ch.number),
-          centralLesson: 'Opening to new possibilities',
-          arcType: 'introduction' as const
-        },
-        {
-          name: 'The Journey',
-          chapters: chapters.slice(Math.ceil(totalChapters * 0.3), Math.ceil(totalChapters * 0.7)).map(ch => ch.number),
-          centralLesson: 'Learning through experience',
-          arcType: 'exploration' as const
-        },
-        {
-          name: 'The Transformation',
-          chapters: chapters.slice(Math.ceil(totalChapters * 0.7)).map(ch => ch.number),
-          centralLesson: 'Integration and wisdom',
-          arcType: 'integration' as const
-        }
-      ]
-    }
+    return response.data.arcs
   }
 
   /**
@@ -264,7 +272,7 @@ Format as JSON:
     }))
 
     // Identify key jump points (arc beginnings, high-difficulty chapters, etc.)
-    const jumpPoints = []
+    const jumpPoints: NavigationStructure['jumpPoints'] = []
     
     // Add arc starting points
     thematicArcs.forEach(arc => {
@@ -336,31 +344,15 @@ Format as JSON:
   ]
 }`
 
-    const response = await callAgent({
-      agentType: 'toc_processor' as any,
+    const response = await callAgentStructured({
+      agentType: 'toc_processor',
       messages: [{ role: 'user', content: progressionPrompt }],
+      schema: spiritualProgressionSchema,
       temperature: 0.7,
       maxTokens: 1500
     })
 
-    try {
-      return JSON.parse(response.content)
-    } catch (error) {
-      // Fallback progression
-      return {
-        startingPoint: 'A seeker beginning their journey',
-        endingPoint: 'An awakened soul, wise and compassionate',
-        keyTransformations: [
-          { atChapter: Math.ceil(chapters.length * 0.3), transformation: 'First awakening to deeper truth' },
-          { atChapter: Math.ceil(chapters.length * 0.7), transformation: 'Facing and overcoming inner challenges' }
-        ],
-        wisdomMilestones: [
-          { atChapter: Math.ceil(chapters.length * 0.2), wisdom: 'Understanding the power of perspective' },
-          { atChapter: Math.ceil(chapters.length * 0.5), wisdom: 'Discovering inner strength and resilience' },
-          { atChapter: Math.ceil(chapters.length * 0.8), wisdom: 'Learning the art of compassionate living' }
-        ]
-      }
-    }
+    return response.data
   }
 
   /**
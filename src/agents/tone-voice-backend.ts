@@ -0,0 +1,143 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { encodeWav } from '@/lib/wav'
+import { SpokenWord } from '@/lib/word-alignment'
+import {
+  AudioGenerationRequest,
+  AudioGenerationResult,
+  ChapterAudioRequest,
+  ChapterAudioResult,
+  DEFAULT_VOICE_PROFILES,
+  VoiceBackend,
+  VoiceProfile,
+  renderChapterAudio,
+  synthesizeInTurn
+} from './voice-backend'
+
+/**
+ * Tone Voice Backend - A stand-in voice that never surprises
+ *
+ * Writes a soft tone (or silence) for every segment instead of speech. The length
+ * follows the number of words and the speed, and each voice profile gets its own
+ * pitch, so the same text always makes the same file. Tests and machines with no
+ * speech engine get real WAV files and timelines without any model installed.
+ * Every word gets the same share of its segment, so the word timings are exact.
+ */
+
+export interface ToneVoiceBackendOptions {
+  mode?: 'tone' | 'silence'
+  sampleRate?: number
+  // Speaking pace at speed 1.0
+  msPerWord?: number
+}
+
+const MIN_SEGMENT_MS = 300
+const AMPLITUDE = 0.2
+const FADE_MS = 10
+
+export class ToneVoiceBackend implements VoiceBackend {
+  readonly name: string
+  private mode: 'tone' | 'silence'
+  private sampleRate: number
+  private msPerWord: number
+
+  constructor(options: ToneVoiceBackendOptions = {}) {
+    this.mode = options.mode ?? 'tone'
+    this.name = this.mode
+    this.sampleRate = options.sampleRate ?? 22050
+    this.msPerWord = options.msPerWord ?? 350
+  }
+
+  async initialize(): Promise<boolean> {
+    return true
+  }
+
+  async generateChapterAudio(request: ChapterAudioRequest): Promise<ChapterAudioResult> {
+    return renderChapterAudio(request, synthesizeInTurn(segment => this.generateAudio(segment)))
+  }
+
+  async generateAudio(request: AudioGenerationRequest): Promise<AudioGenerationResult> {
+    const startTime = Date.now()
+
+    try {
+      const samples = this.render(request)
+      const file = encodeWav(samples, this.sampleRate)
+      const duration = Math.round(samples.length / this.sampleRate * 1000)
+
+      await fs.mkdir(path.dirname(request.outputPath), { recursive: true })
+      await fs.writeFile(request.outputPath, file)
+
+      return {
+        success: true,
+        audioPath: request.outputPath,
+        duration,
+        fileSize: file.length,
+        processingTime: Date.now() - startTime,
+        voiceProfileUsed: request.voiceProfile.id,
+        words: this.wordTimings(request.text, duration)
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        processingTime: Date.now() - startTime,
+        voiceProfileUsed: request.voiceProfile.id
+      }
+    }
+  }
+
+  /**
+   * How long a segment lasts: its words at the backend's pace, scaled by speed
+   */
+  durationFor(text: string, speed = 1.0): number {
+    const words = text.split(/\s+/).filter(Boolean).length
+    return Math.max(MIN_SEGMENT_MS, Math.round(words * this.msPerWord / speed))
+  }
+
+  /**
+   * When each word is "spoken" - the segment shared evenly between its words
+   */
+  wordTimings(text: string, duration: number): SpokenWord[] {
+    const words = text.split(/\s+/).filter(Boolean)
+    return words.map((word, i) => ({
+      word,
+      start: Math.round(i * duration / words.length),
+      end: Math.round((i + 1) * duration / words.length)
+    }))
+  }
+
+  getVoiceProfiles(): VoiceProfile[] {
+    return [...DEFAULT_VOICE_PROFILES]
+  }
+
+  getVoiceProfileByArchetype(archetype: string): VoiceProfile | undefined {
+    return DEFAULT_VOICE_PROFILES.find(profile => profile.archetype === archetype)
+  }
+
+  async cleanup(): Promise<void> {}
+
+  private render(request: AudioGenerationRequest): Int16Array {
+    const sampleCount = Math.round(this.durationFor(request.text, request.speed) / 1000 * this.sampleRate)
+    const samples = new Int16Array(sampleCount)
+    if (this.mode === 'silence') return samples
+
+    const frequency = pitchFor(request.voiceProfile)
+    const fadeSamples = Math.min(Math.round(FADE_MS / 1000 * this.sampleRate), Math.floor(sampleCount / 2))
+    for (let i = 0; i < sampleCount; i++) {
+      // Fade in and out so joined segments don't click
+      const edge = Math.min(i, sampleCount - 1 - i)
+      const envelope = fadeSamples > 0 && edge < fadeSamples ? edge / fadeSamples : 1
+      samples[i] = Math.round(Math.sin(2 * Math.PI * frequency * i / this.sampleRate) * AMPLITUDE * envelope * 32767)
+    }
+    return samples
+  }
+}
+
+// A pitch per voice profile between 220 and 660 Hz, stable across runs
+function pitchFor(profile: VoiceProfile): number {
+  let hash = 0
+  for (const char of profile.id) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0
+  }
+  return 220 + (hash % 441)
+}
@@ -0,0 +1,445 @@
+import { spawn } from 'child_process'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { concatWav, readWavInfo, readWavSamples } from '@/lib/wav'
+import { AlignableSegment, Pause, SpokenWord, WordTiming, alignChapterWords, findPauses } from '@/lib/word-alignment'
+
+/**
+ * Voice Backend - What every SoulScribe voice engine can do
+ *
+ * Dia-Meistro gives the richest voices but needs its model and a Python stack.
+ * A CPU engine (Piper or espeak-ng) runs anywhere, and the tone backend needs
+ * nothing at all, which is what tests use. Agents, previews and audiobook
+ * generation only ever see this interface. Chapters are split into narration and
+ * dialogue segments, voiced, then joined the same way whichever engine speaks -
+ * and every chapter comes back with word timings for read-along, from the engine
+ * when it knows them and from the local aligner when it doesn't.
+ */
+
+export interface VoiceProfile {
+  id: string
+  name: string
+  archetype: 'narrator' | 'wise_elder' | 'child' | 'guide' | 'mystical' | 'hero' | 'trickster'
+  gender: 'male' | 'female' | 'neutral'
+  age: 'child' | 'young' | 'adult' | 'elder'
+  tone: 'warm' | 'authoritative' | 'playful' | 'mysterious' | 'compassionate'
+  sampleAudioPath?: string
+  isDefault: boolean
+}
+
+// What a caller knows about the voice it wants - any of it may be missing
+export interface VoicePreference {
+  id?: string
+  age?: VoiceProfile['age']
+  gender?: VoiceProfile['gender']
+  tone?: VoiceProfile['tone']
+}
+
+export interface AudioGenerationRequest {
+  text: string
+  voiceProfile: VoiceProfile
+  speakerTag?: string // [S1], [S2], etc.
+  emotionalContext?: string
+  speed?: number // 0.5 - 2.0
+  addBackgroundAmbience?: boolean
+  outputPath: string
+}
+
+export interface AudioGenerationResult {
+  success: boolean
+  audioPath?: string
+  duration?: number
+  fileSize?: number
+  error?: string
+  processingTime: number
+  voiceProfileUsed: string
+  // Word timings from the engine itself, for engines that know them
+  words?: SpokenWord[]
+}
+
+export interface ChapterAudioRequest {
+  chapterNumber: number
+  chapterTitle: string
+  content: string
+  characterVoiceMap: Map<string, VoiceProfile>
+  narratorVoice: VoiceProfile
+  outputDirectory: string
+  // Hears about every segment as soon as its audio is written, before the chapter is done
+  onSegmentReady?: (segment: { segmentIndex: number; audioPath: string; speaker: string; text: string }) => void
+}
+
+export interface ChapterAudioSegment {
+  segmentId: string
+  audioPath: string
+  startTime: number
+  duration: number
+  speaker: string
+  voiceProfile: string
+  text: string
+}
+
+export interface ChapterAudioResult {
+  success: boolean
+  audioSegments: ChapterAudioSegment[]
+  fullChapterAudioPath?: string
+  // Every word's time in the full chapter audio and place in the chapter content
+  words?: WordTiming[]
+  error?: string
+}
+
+export interface VoiceBackend {
+  readonly name: string
+  // Resolves false when the engine can't run on this machine
+  initialize(): Promise<boolean>
+  generateAudio(request: AudioGenerationRequest): Promise<AudioGenerationResult>
+  generateChapterAudio(request: ChapterAudioRequest): Promise<ChapterAudioResult>
+  getVoiceProfiles(): VoiceProfile[]
+  getVoiceProfileByArchetype(archetype: string): VoiceProfile | undefined
+  cleanup(): Promise<void>
+}
+
+export interface ChapterSegment {
+  type: 'narrative' | 'dialogue'
+  text: string
+  speaker?: string
+  speakerTag?: string
+  emotion?: string
+}
+
+// Voices several requests at once; onResult hears about each as soon as it is done
+export type SynthesizeBatch = (
+  requests: AudioGenerationRequest[],
+  onResult?: (index: number, result: AudioGenerationResult) => void
+) => Promise<AudioGenerationResult[]>
+
+/**
+ * The voices every backend offers - each engine decides how to sound like them
+ */
+export const DEFAULT_VOICE_PROFILES: VoiceProfile[] = [
+  {
+    id: 'narrator_main',
+    name: 'SoulScribe Narrator',
+    archetype: 'narrator',
+    gender: 'neutral',
+    age: 'adult',
+    tone: 'warm',
+    isDefault: true
+  },
+  {
+    id: 'wise_elder',
+    name: 'The Wise Elder',
+    archetype: 'wise_elder',
+    gender: 'male',
+    age: 'elder',
+    tone: 'authoritative',
+    isDefault: false
+  },
+  {
+    id: 'child_spirit',
+    name: 'Child of Wonder',
+    archetype: 'child',
+    gender: 'female',
+    age: 'child',
+    tone: 'playful',
+    isDefault: false
+  },
+  {
+    id: 'mystical_guide',
+    name: 'Mystical Guide',
+    archetype: 'mystical',
+    gender: 'female',
+    age: 'adult',
+    tone: 'mysterious',
+    isDefault: false
+  },
+  {
+    id: 'compassionate_teacher',
+    name: 'Compassionate Teacher',
+    archetype: 'guide',
+    gender: 'neutral',
+    age: 'adult',
+    tone: 'compassionate',
+    isDefault: false
+  }
+]
+
+/**
+ * The voice a request asks for - the profile with that id when the backend has
+ * it, otherwise the one that shares most of its age, gender and tone. Ties go to
+ * the default voice.
+ */
+export function matchVoiceProfile(profiles: VoiceProfile[], preference: VoicePreference = {}): VoiceProfile {
+  const requested = preference.id ? profiles.find(profile => profile.id === preference.id) : undefined
+  if (requested) return requested
+
+  const score = (profile: VoiceProfile) =>
+    Number(profile.age === preference.age) +
+    Number(profile.gender === preference.gender) +
+    Number(profile.tone === preference.tone)
+  const fallback = profiles.find(profile => profile.isDefault) || profiles[0]
+  return profiles.reduce((best, profile) => (score(profile) > score(best) ? profile : best), fallback)
+}
+
+/**
+ * Parse chapter content into speakable segments
+ */
+export function parseChapterIntoSegments(content: string): ChapterSegment[] {
+  const segments: ChapterSegment[] = []
+  const lines = content.split('\n').filter(line => line.trim())
+
+  for (const line of lines) {
+    const trimmedLine = line.trim()
+
+    // Check for dialogue tags [S1], [S2], etc.
+    const speakerMatch = trimmedLine.match(/^\[S(\d+)\]\s*(.+)/)
+    if (speakerMatch) {
+      const speakerNum = speakerMatch[1]
+      const dialogueText = speakerMatch[2]
+
+      // Extract emotion from parentheses
+      const emotionMatch = dialogueText.match(/\(([^)]+)\)/)
+      const emotion = emotionMatch ? emotionMatch[1] : undefined
+      const cleanText = dialogueText.replace(/\([^)]+\)/g, '').trim()
+
+      segments.push({
+        type: 'dialogue',
+        text: cleanText,
+        speaker: `Speaker${speakerNum}`,
+        speakerTag: `[S${speakerNum}]`,
+        emotion
+      })
+    } else if (trimmedLine.startsWith('"') && trimmedLine.endsWith('"')) {
+      // Regular quoted dialogue
+      segments.push({
+        type: 'dialogue',
+        text: trimmedLine.slice(1, -1), // Remove quotes
+        speaker: 'Character'
+      })
+    } else if (trimmedLine.length > 0) {
+      // Narrative text
+      segments.push({
+        type: 'narrative',
+        text: trimmedLine
+      })
+    }
+  }
+
+  return segments
+}
+
+/**
+ * Voice a whole chapter: split it into segments, give each the right voice, voice
+ * them as one batch and join them into a single file with a timeline
+ */
+export async function renderChapterAudio(
+  request: ChapterAudioRequest,
+  synthesizeBatch: SynthesizeBatch
+): Promise<ChapterAudioResult> {
+  const audioSegments: ChapterAudioSegment[] = []
+  let currentTime = 0
+
+  try {
+    console.log(`🎬 Generating audio for Chapter ${request.chapterNumber}: "${request.chapterTitle}"`)
+
+    // Parse the chapter content into dialogue and narrative segments
+    const segments = parseChapterIntoSegments(request.content)
+
+    // Create output directory
+    await fs.mkdir(request.outputDirectory, { recursive: true })
+
+    const audioRequests: AudioGenerationRequest[] = segments.map((segment, i) => {
+      const voiceProfile = segment.type === 'dialogue'
+        ? request.characterVoiceMap.get(segment.speaker!) || request.narratorVoice
+        : request.narratorVoice
+
+      return {
+        text: segment.text,
+        voiceProfile,
+        speakerTag: segment.speakerTag,
+        emotionalContext: segment.emotion,
+        speed: segment.type === 'narrative' ? 0.9 : 1.0, // Slightly slower for narration
+        addBackgroundAmbience: segment.type === 'narrative',
+        outputPath: path.join(request.outputDirectory, `segment_${String(i).padStart(3, '0')}.wav`)
+      }
+    })
+
+    const results = await synthesizeBatch(audioRequests, (i, result) => {
+      if (result.success && result.audioPath) {
+        request.onSegmentReady?.({
+          segmentIndex: i,
+          audioPath: result.audioPath,
+          speaker: segments[i].speaker || 'narrator',
+          text: segments[i].text
+        })
+      }
+    })
+
+    const alignable: AlignableSegment[] = []
+    for (const [i, result] of results.entries()) {
+      if (result.success && result.audioPath && result.duration) {
+        alignable.push({
+          text: segments[i].text,
+          startTime: currentTime,
+          duration: result.duration,
+          words: result.words,
+          pauses: result.words ? undefined : await findAudioPauses(result.audioPath)
+        })
+        audioSegments.push({
+          segmentId: `ch${request.chapterNumber}_seg${i}`,
+          audioPath: result.audioPath,
+          startTime: currentTime,
+          duration: result.duration,
+          speaker: segments[i].speaker || 'narrator',
+          voiceProfile: result.voiceProfileUsed,
+          text: segments[i].text
+        })
+
+        currentTime += result.duration
+      } else {
+        console.warn(`⚠️ Failed to generate audio for segment ${i}: ${result.error}`)
+      }
+    }
+
+    if (audioSegments.length === 0) {
+      return { success: false, audioSegments, error: 'No segment of the chapter could be voiced' }
+    }
+
+    // Combine all segments into a single chapter audio file
+    const fullChapterPath = await combineAudioFiles(
+      audioSegments.map(seg => seg.audioPath),
+      path.join(request.outputDirectory, `chapter_${request.chapterNumber}_full.wav`)
+    )
+
+    console.log(`✅ Chapter ${request.chapterNumber} audio generated: ${audioSegments.length} segments, ${(currentTime / 1000 / 60).toFixed(1)} minutes`)
+
+    return {
+      success: true,
+      audioSegments,
+      fullChapterAudioPath: fullChapterPath,
+      words: alignChapterWords(request.content, alignable)
+    }
+  } catch (error) {
+    return {
+      success: false,
+      audioSegments: [],
+      error: error instanceof Error ? error.message : String(error)
+    }
+  }
+}
+
+/**
+ * A batch for engines that voice one segment at a time
+ */
+export function synthesizeInTurn(
+  generateAudio: (request: AudioGenerationRequest) => Promise<AudioGenerationResult>
+): SynthesizeBatch {
+  return async (requests, onResult) => {
+    const results: AudioGenerationResult[] = []
+    for (let i = 0; i < requests.length; i++) {
+      results.push(await generateAudio(requests[i]))
+      onResult?.(i, results[i])
+    }
+    return results
+  }
+}
+
+/**
+ * Success result for a file an engine has just written
+ */
+export async function describeAudioFile(
+  audioPath: string,
+  request: AudioGenerationRequest,
+  startTime: number
+): Promise<AudioGenerationResult> {
+  const stats = await fs.stat(audioPath)
+  return {
+    success: true,
+    audioPath,
+    duration: await getAudioDuration(audioPath),
+    fileSize: stats.size,
+    processingTime: Date.now() - startTime,
+    voiceProfileUsed: request.voiceProfile.id
+  }
+}
+
+/**
+ * Get audio file duration in milliseconds - from the WAV header when there is one,
+ * otherwise from ffprobe
+ */
+export async function getAudioDuration(audioPath: string): Promise<number> {
+  const info = readWavInfo(await fs.readFile(audioPath))
+  if (info) return info.durationMs
+
+  try {
+    const output = await runCommand('ffprobe', ['-v', 'quiet', '-show_entries', 'format=duration', '-of', 'csv=p=0', audioPath])
+    return parseFloat(output.trim()) * 1000 // Convert to milliseconds
+  } catch {
+    return 5000 // Default 5 seconds if ffprobe is not available or fails
+  }
+}
+
+/**
+ * The silences in a segment's audio, for the aligner - none for files it can't read
+ */
+async function findAudioPauses(audioPath: string): Promise<Pause[]> {
+  const audio = readWavSamples(await fs.readFile(audioPath))
+  return audio ? findPauses(audio.samples, audio.sampleRate) : []
+}
+
+/**
+ * Combine audio files into one. WAV files that share a format are joined directly;
+ * anything else goes through ffmpeg.
+ */
+export async function combineAudioFiles(audioPaths: string[], outputPath: string): Promise<string> {
+  const joined = concatWav(await Promise.all(audioPaths.map(audioPath => fs.readFile(audioPath))))
+  if (joined) {
+    await fs.writeFile(outputPath, joined)
+    return outputPath
+  }
+
+  await runCommand('ffmpeg', [
+    '-y', // Overwrite output file
+    ...audioPaths.flatMap(audioPath => ['-i', audioPath]),
+    '-filter_complex',
+    `concat=n=${audioPaths.length}:v=0:a=1`,
+    outputPath
+  ])
+  return outputPath
+}
+
+/**
+ * Run a command to completion and return its stdout. input is written to stdin,
+ * so text never has to be quoted for a shell.
+ */
+export function runCommand(command: string, args: string[], input?: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args)
+    let output = ''
+    let error = ''
+
+    child.stdout.on('data', data => {
+      output += data.toString()
+    })
+
+    child.stderr.on('data', data => {
+      error += data.toString()
+    })
+
+    child.on('close', code => {
+      if (code === 0) {
+        resolve(output)
+      } else {
+        reject(new Error(`${command} failed with code ${code}${error ? `: ${error.trim()}` : ''}`))
+      }
+    })
+
+    child.on('error', err => {
+      reject(new Error(`${command} error: ${err.message}`))
+    })
+
+    child.stdin.on('error', () => {
+      // The command exited before reading its input - close reports why
+    })
+    child.stdin.end(input)
+  })
+}
@@ -1,5 +1,6 @@
-import { callAgent } from '@/lib/openai'
-import { DiaMetistroVoiceBackend, VoiceProfile } from './dia-meistro-backend'
+import { callAgent, callAgentStructured } from '@/lib/openai'
+import { schema } from '@/lib/agent-schemas'
+import { VoiceBackend, VoiceProfile } from './voice-backend'
 import { prisma } from '@/lib/prisma'
 
 /**
@@ -56,12 +57,32 @@ export interface VoiceConsistencyRule {
   voiceModification: Partial<VoiceProfile>
 }
 
+// Output shapes the voice agent's model calls must return
+const voiceStrategySchema = schema.object({
+  overallTone: schema.string({ minLength: 1 }),
+  voiceDistribution: schema.string({ minLength: 1 }),
+  specialConsiderations: schema.array(schema.string()),
+  targetEmotionalRange: schema.array(schema.string())
+})
+
+const voiceChoiceSchema = schema.object({
+  primaryVoiceId: schema.string({ minLength: 1 }),
+  confidence: schema.number({ min: 0, max: 1 }),
+  reasoning: schema.string(),
+  alternativeVoiceIds: schema.array(schema.string()),
+  emotionalModifiers: schema.record(schema.object({
+    speed: schema.number({ min: 0 }),
+    tone: schema.string(),
+    nonVerbalSounds: schema.array(schema.string())
+  }))
+})
+
 export class VoiceCharacterAssignmentAgent {
   private storyId: string
-  private voiceBackend: DiaMetistroVoiceBackend
+  private voiceBackend: VoiceBackend
   private availableVoices: VoiceProfile[]
 
-  constructor(storyId: string, voiceBackend: DiaMetistroVoiceBackend) {
+  constructor(storyId: string, voiceBackend: VoiceBackend) {
     this.storyId = storyId
     this.voiceBackend = voiceBackend
     this.availableVoices = voiceBackend.getVoiceProfiles()
@@ -136,7 +157,7 @@ Themes: ${storyContext.themes.join(', ')}
 Narrative Style: ${storyContext.narrativeStyle}
 
 Characters:
-${storyContext.characters.map(ch => `- ${ch.name}: ${ch.role}, ${ch.archetype}, ${ch.spiritualRole}`).join('\n')}
+${storyContext.characters.map((ch: CharacterProfile) => `- ${ch.name}: ${ch.role}, ${ch.archetype}, ${ch.spiritualRole}`).join('\n')}
 
 Determine:
 1. Overall tone for voice selection (warm/authoritative/mystical/playful)
@@ -152,23 +173,15 @@ Respond with JSON:
   "targetEmotionalRange": ["wonder", "wisdom", "compassion"]
 }`
 
-    const response = await callAgent({
-      agentType: 'voice_character_agent' as any,
+    const response = await callAgentStructured({
+      agentType: 'voice_character_agent',
       messages: [{ role: 'user', content: strategyPrompt }],
+      schema: voiceStrategySchema,
       temperature: 0.6,
       maxTokens: 800
     })
 
-    try {
-      return JSON.parse(response.content)
-    } catch {
-      return {
-        overallTone: 'warm',
-        voiceDistribution: 'harmonious',
-        specialConsiderations: ['spiritual depth', 'age appropriate'],
-        targetEmotionalRange: ['wonder', 'wisdom', 'compassion']
-      }
-    }
+    return response.data
   }
 
   /**
@@ -196,7 +209,7 @@ Consider:
 Respond with the voice profile ID that best fits.`
 
     const response = await callAgent({
-      agentType: 'voice_character_agent' as any,
+      agentType: 'voice_character_agent',
       messages: [{ role: 'user', content: narratorPrompt }],
       temperature: 0.4,
       maxTokens: 200
@@ -258,33 +271,32 @@ Respond with JSON:
   }
 }`
 
-    const response = await callAgent({
-      agentType: 'voice_character_agent' as any,
+    const { data: choice } = await callAgentStructured({
+      agentType: 'voice_character_agent',
       messages: [{ role: 'user', content: assignmentPrompt }],
+      schema: voiceChoiceSchema,
       temperature: 0.7,
       maxTokens: 1000
     })
 
-    try {
-      const parsed = JSON.parse(response.content)
-      
-      const assignedVoice = this.availableVoices.find(v => v.id === parsed.primaryVoiceId) || this.availableVoices[0]
-      const alternativeVoices = parsed.alternativeVoiceIds
-        .map((id: string) => this.availableVoices.find(v => v.id === id))
-        .filter(Boolean)
-
-      return {
-        characterName: character.name,
-        assignedVoiceProfile: assignedVoice,
-        confidence: parsed.confidence || 0.8,
-        reasoning: parsed.reasoning || 'Voice matches character archetype',
-        alternativeVoices,
-        emotionalModifiers: parsed.emotionalModifiers || {}
-      }
-    } catch {
-      // Fallback assignment based on archetype matching
+    // A voice id we don't have is a valid reply but an unusable one - match by archetype instead
+    const assignedVoice = this.availableVoices.find(v => v.id === choice.primaryVoiceId)
+    if (!assignedVoice) {
       return this.fallbackVoiceAssignment(character)
     }
+
+    const alternativeVoices = choice.alternativeVoiceIds
+      .map(id => this.availableVoices.find(v => v.id === id))
+      .filter((voice): voice is VoiceProfile => voice !== undefined)
+
+    return {
+      characterName: character.name,
+      assignedVoiceProfile: assignedVoice,
+      confidence: choice.confidence,
+      reasoning: choice.reasoning,
+      alternativeVoices,
+      emotionalModifiers: choice.emotionalModifiers
+    }
   }
 
   /**
@@ -316,7 +328,7 @@ Respond with JSON:
           characterName: character.name,
           rule: 'Voice softens during vulnerable moments',
           context: 'Emotional revelation scenes',
-          voiceModification: { tone: 'gentle' }
+          voiceModification: { tone: 'compassionate' }
         })
       }
 
@@ -326,7 +338,7 @@ Respond with JSON:
           characterName: character.name,
           rule: 'Voice becomes more resonant when sharing wisdom',
           context: 'Teaching or guidance moments',
-          voiceModification: { tone: 'wise' }
+          voiceModification: { tone: 'authoritative' }
         })
       }
     }
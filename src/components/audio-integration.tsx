@@ -8,6 +8,9 @@ import {
   Loader2, Sparkles, Users, Music, Waves
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { WordTiming, alignChapterWords } from '@/lib/word-alignment'
+import { runBackgroundJob } from '@/lib/background-jobs'
+import { ReadAlongText, usePlaybackTime } from '@/components/read-along-text'
 
 /**
  * Real-time Audio Generation & Flipbook Integration
@@ -33,6 +36,8 @@ export interface ChapterAudio {
   chapterNumber: number
   segments: AudioSegment[]
   fullAudioUrl?: string
+  // Read-along timings for fullAudioUrl
+  words?: WordTiming[]
   totalDuration: number
   isGenerating: boolean
   isComplete: boolean
@@ -84,6 +89,7 @@ export function AudioIntegration({
   const audioRef = useRef<HTMLAudioElement>(null)
   const audioContextRef = useRef<AudioContext | null>(null)
   const gainNodeRef = useRef<GainNode | null>(null)
+  const playbackTimeMs = usePlaybackTime(audioRef, audioState.isPlaying)
 
   // Initialize audio context
   useEffect(() => {
@@ -166,8 +172,7 @@ export function AudioIntegration({
         })
         
         // Generate audio for this segment
-        const audioUrl = await generateSegmentAudio(segment, storyId, chapterNumber, i)
-        const duration = await getAudioDuration(audioUrl)
+        const { audioUrl, durationMs: duration } = await generateSegmentAudio(segment)
         
         const audioSegment: AudioSegment = {
           id: `${chapterNumber}_${i}`,
@@ -200,6 +205,7 @@ export function AudioIntegration({
       
       // Combine all segments into full chapter audio
       const fullAudioUrl = await combineAudioSegments(audioSegments.map(s => s.audioUrl))
+      const words = await alignChapterAudio(chapter, audioSegments)
       
       // Mark chapter as complete
       setChapterAudios(prev => {
@@ -208,6 +214,7 @@ export function AudioIntegration({
           chapterNumber,
           segments: audioSegments,
           fullAudioUrl,
+          words,
           totalDuration: currentTime,
           isGenerating: false,
           isComplete: true,
@@ -284,46 +291,39 @@ export function AudioIntegration({
     return segments
   }
 
-  const generateSegmentAudio = async (segment: any, storyId: string, chapterNumber: number, segmentIndex: number): Promise<string> => {
-    // This would call the Dia-Meistro backend
-    const response = await fetch('/api/generate-audio', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        text: segment.text,
-        voiceProfile: segment.voiceProfile,
-        emotion: segment.emotion,
-        speaker: segment.speaker,
-        outputPath: `/audio/${storyId}/chapter_${chapterNumber}/segment_${segmentIndex}.wav`
-      })
+  // Voiced by the server's voice backend in a background job
+  const generateSegmentAudio = (segment: any): Promise<{ audioUrl: string; durationMs: number }> => {
+    return runBackgroundJob('/api/generate-audio', {
+      text: segment.text,
+      voiceProfile: segment.voiceProfile,
+      emotion: segment.emotion,
+      speaker: segment.speaker,
+      storyId
     })
-    
-    const result = await response.json()
-    return result.audioUrl
   }
 
   const combineAudioSegments = async (audioUrls: string[]): Promise<string> => {
-    // This would combine audio segments using FFmpeg
-    const response = await fetch('/api/combine-audio', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ audioUrls })
-    })
-    
-    const result = await response.json()
-    return result.combinedAudioUrl
+    const result = await runBackgroundJob<{ audioUrl: string }>('/api/combine-audio', { audioUrls, storyId })
+    return result.audioUrl
   }
 
-  const getAudioDuration = async (audioUrl: string): Promise<number> => {
-    return new Promise((resolve) => {
-      const audio = new Audio(audioUrl)
-      audio.addEventListener('loadedmetadata', () => {
-        resolve(audio.duration * 1000) // Convert to milliseconds
-      })
-      audio.addEventListener('error', () => {
-        resolve(5000) // Default 5 seconds if error
+  const alignChapterAudio = async (chapter: any, audioSegments: AudioSegment[]): Promise<WordTiming[]> => {
+    const segments = audioSegments.map(({ text, startTime, duration }) => ({ text, startTime, duration }))
+    try {
+      // Stored with the chapter so the flipbook can read along too
+      const response = await fetch(`/api/stories/${storyId}/chapters/${chapter.number}/alignment`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ segments })
       })
-    })
+      if (response.ok) {
+        const result = await response.json()
+        return result.alignment.words
+      }
+    } catch (error) {
+      console.warn(`Could not store word timings for chapter ${chapter.number}:`, error)
+    }
+    return alignChapterWords(chapter.content, segments)
   }
 
   const playChapterAudio = (chapterNumber: number) => {
@@ -381,6 +381,17 @@ export function AudioIntegration({
     }
   }
 
+  // A tapped word: play the chapter from there
+  const seekTo = (timeMs: number) => {
+    if (audioRef.current) {
+      audioRef.current.currentTime = timeMs / 1000
+      if (!audioState.isPlaying) {
+        audioRef.current.play()
+        setAudioState(prev => ({ ...prev, isPlaying: true }))
+      }
+    }
+  }
+
   const skipToChapter = (chapterNumber: number) => {
     playChapterAudio(chapterNumber)
   }
@@ -397,6 +408,10 @@ export function AudioIntegration({
     }
   }
 
+  const currentChapterWords = audioState.currentChapter !== undefined
+    ? chapterAudios.get(audioState.currentChapter)?.words
+    : undefined
+
   return (
     <div className="relative">
       {/* Audio Generation Progress */}
@@ -433,6 +448,18 @@ export function AudioIntegration({
         onShowFullControls={() => setShowAudioControls(true)}
       />
 
+      {/* Read Along with the chapter that's playing */}
+      {currentChapterWords && currentChapterWords.length > 0 && (
+        <ReadAlongText
+          content={chapters.find(chapter => chapter.number === audioState.currentChapter)?.content ?? ''}
+          words={currentChapterWords}
+          currentTimeMs={playbackTimeMs}
+          onSeek={seekTo}
+          className="mt-4 p-6 bg-white rounded-lg border border-soul-200 max-h-96 overflow-y-auto"
+          paragraphClassName="mb-3 text-soul-700 leading-relaxed"
+        />
+      )}
+
       {/* Hidden Audio Element */}
       <audio
         ref={audioRef}
@@ -8,6 +8,9 @@ import {
   Clock, Users, Palette, MessageSquare
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { ChapterGenerationStatus, ChapterStreamEvent, GenerationProgressSummary } from '@/lib/generation-progress'
+import { WordTiming } from '@/lib/word-alignment'
+import { ReadAlongText, usePlaybackTime, useWordTimings } from '@/components/read-along-text'
 
 /**
  * Flipbook UI with Real-time Generation Display
@@ -24,6 +27,8 @@ export interface Chapter {
   summary: string
   keyLessons: string[]
   audioUrl?: string
+  // Word timings for audioUrl - fetched from the story's chapter when not given
+  wordTimings?: WordTiming[]
   isGenerating?: boolean
   isComplete?: boolean
   estimatedReadTime?: number
@@ -57,21 +62,24 @@ interface FlipbookUIProps {
 }
 
 export function FlipbookUI({ 
-  story, 
+  story: initialStory, 
   onPageChange, 
   onAudioToggle,
   onChapterComplete,
   realTimeUpdates = true 
 }: FlipbookUIProps) {
+  const story = useLiveStory(initialStory, realTimeUpdates)
   const [currentPage, setCurrentPage] = useState(0) // 0 = cover, 1 = TOC, 2+ = chapters
   const [isPlaying, setIsPlaying] = useState(false)
   const [isMuted, setIsMuted] = useState(false)
   const [showNavigation, setShowNavigation] = useState(false)
   const [isFlipping, setIsFlipping] = useState(false)
   const [dragDirection, setDragDirection] = useState<'left' | 'right' | null>(null)
+  const [overlayMinimized, setOverlayMinimized] = useState(false)
   
   const audioRef = useRef<HTMLAudioElement>(null)
   const flipbookRef = useRef<HTMLDivElement>(null)
+  const playbackTimeMs = usePlaybackTime(audioRef, isPlaying)
 
   const totalPages = 2 + story.chapters.length + 1 // Cover + TOC + Chapters + Reflection
   const canFlipNext = currentPage < totalPages - 1
@@ -88,7 +96,10 @@ export function FlipbookUI({
       const chapterIndex = currentPage - 2
       const chapter = story.chapters[chapterIndex]
       if (chapter?.audioUrl && audioRef.current) {
-        audioRef.current.src = chapter.audioUrl
+        // Only load a new chapter's audio - pausing and playing keeps the position
+        if (audioRef.current.getAttribute('src') !== chapter.audioUrl) {
+          audioRef.current.src = chapter.audioUrl
+        }
         if (isPlaying) {
           audioRef.current.play()
         }
@@ -123,6 +134,17 @@ export function FlipbookUI({
     }
   }
 
+  // A tapped word: narrate from there
+  const seekAudio = (timeMs: number) => {
+    if (!audioRef.current) return
+    audioRef.current.currentTime = timeMs / 1000
+    if (!isPlaying) {
+      setIsPlaying(true)
+      onAudioToggle?.(true)
+      audioRef.current.play()
+    }
+  }
+
   const toggleMute = () => {
     setIsMuted(!isMuted)
     if (audioRef.current) {
@@ -153,8 +175,11 @@ export function FlipbookUI({
       default:
         const chapterIndex = currentPage - 2
         return <ChapterPage 
+          storyId={story.id}
           chapter={story.chapters[chapterIndex]} 
           chapterNumber={chapterIndex + 1}
+          playbackTimeMs={playbackTimeMs}
+          onSeek={seekAudio}
           onComplete={() => onChapterComplete?.(chapterIndex + 1)}
         />
     }
@@ -171,14 +196,31 @@ export function FlipbookUI({
 
       {/* Generation Progress Overlay */}
       <AnimatePresence>
-        {story.isGenerating && (
+        {story.isGenerating && !overlayMinimized && (
           <GenerationProgressOverlay 
             progress={story.generationProgress}
             chapters={story.chapters}
+            onStartReading={() => setOverlayMinimized(true)}
           />
         )}
       </AnimatePresence>
 
+      {/* Minimized progress - keep reading while later chapters are written */}
+      <AnimatePresence>
+        {story.isGenerating && overlayMinimized && (
+          <motion.button
+            initial={{ opacity: 0, y: -20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -20 }}
+            onClick={() => setOverlayMinimized(false)}
+            className="absolute top-8 left-8 z-30 flex items-center gap-2 px-4 py-2 rounded-full bg-black/20 backdrop-blur-lg text-white text-sm border border-white/10"
+          >
+            <Loader2 className="w-4 h-4 animate-spin" />
+            <span>{story.generationProgress.currentStep}</span>
+          </motion.button>
+        )}
+      </AnimatePresence>
+
       {/* Main Flipbook Container */}
       <div className="relative z-10 h-full flex items-center justify-center p-8">
         <div 
@@ -566,15 +608,25 @@ function TableOfContentsPage({
 
 // Chapter Page Component
 function ChapterPage({ 
+  storyId,
   chapter, 
   chapterNumber, 
+  playbackTimeMs,
+  onSeek,
   onComplete 
 }: { 
+  storyId: string
   chapter: Chapter
   chapterNumber: number
+  playbackTimeMs: number
+  onSeek: (timeMs: number) => void
   onComplete: () => void 
 }) {
   const [hasStartedReading, setHasStartedReading] = useState(false)
+  const wordTimings = useWordTimings(storyId, chapter?.number ?? chapterNumber, {
+    enabled: Boolean(chapter?.audioUrl && chapter.isComplete !== false),
+    initial: chapter?.wordTimings
+  })
 
   useEffect(() => {
     if (!hasStartedReading) {
@@ -589,7 +641,7 @@ function ChapterPage({
   }, [hasStartedReading, onComplete])
 
   if (chapter?.isGenerating) {
-    return <ChapterGeneratingState chapterNumber={chapterNumber} />
+    return <ChapterGeneratingState chapterNumber={chapterNumber} title={chapter.title} content={chapter.content} />
   }
 
   if (!chapter) {
@@ -625,26 +677,39 @@ function ChapterPage({
           {chapter.audioUrl && (
             <div className="flex items-center gap-2 text-sm text-mystic-600">
               <Volume2 className="w-4 h-4" />
-              <span>Audio narration available</span>
+              <span>
+                {wordTimings?.length ? 'Read along - tap any word to hear it' : 'Audio narration available'}
+              </span>
             </div>
           )}
         </div>
 
         {/* Chapter Content */}
         <div className="flex-1 overflow-y-auto">
-          <div className="prose prose-lg max-w-none text-soul-700 leading-relaxed">
-            {chapter.content.split('\n\n').map((paragraph, index) => (
-              <motion.p
-                key={index}
-                initial={{ opacity: 0, y: 10 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: index * 0.2 }}
-                className="mb-4"
-              >
-                {paragraph}
-              </motion.p>
-            ))}
-          </div>
+          {wordTimings?.length ? (
+            <ReadAlongText
+              content={chapter.content}
+              words={wordTimings}
+              currentTimeMs={playbackTimeMs}
+              onSeek={onSeek}
+              className="prose prose-lg max-w-none text-soul-700 leading-relaxed"
+              paragraphClassName="mb-4"
+            />
+          ) : (
+            <div className="prose prose-lg max-w-none text-soul-700 leading-relaxed">
+              {chapter.content.split('\n\n').map((paragraph, index) => (
+                <motion.p
+                  key={index}
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: index * 0.2 }}
+                  className="mb-4"
+                >
+                  {paragraph}
+                </motion.p>
+              ))}
+            </div>
+          )}
           
           {/* Key Lessons */}
           {chapter.keyLessons && chapter.keyLessons.length > 0 && (
@@ -675,7 +740,37 @@ function ChapterPage({
 }
 
 // Chapter Generating State
-function ChapterGeneratingState({ chapterNumber }: { chapterNumber: number }) {
+function ChapterGeneratingState({ 
+  chapterNumber, 
+  title, 
+  content 
+}: { 
+  chapterNumber: number
+  title?: string
+  content?: string 
+}) {
+  // Once tokens start streaming in, show the draft as it is written
+  if (content) {
+    return (
+      <div className="h-full">
+        <div className="flex items-center gap-3 mb-6">
+          <Loader2 className="w-5 h-5 text-mystic-500 animate-spin" />
+          <h2 className="text-2xl font-bold font-mystic text-mystic-700">
+            {title || `Chapter ${chapterNumber}`}
+          </h2>
+        </div>
+        <div className="prose prose-lg max-w-none text-soul-700 leading-relaxed whitespace-pre-wrap">
+          {content}
+          <motion.span
+            className="inline-block w-2 h-5 ml-1 align-middle bg-mystic-400"
+            animate={{ opacity: [0, 1, 0] }}
+            transition={{ duration: 1, repeat: Infinity }}
+          />
+        </div>
+      </div>
+    )
+  }
+
   return (
     <div className="h-full flex items-center justify-center">
       <motion.div
@@ -773,11 +868,15 @@ function ReflectionPage({ story }: { story: StoryData }) {
 // Generation Progress Overlay
 function GenerationProgressOverlay({ 
   progress, 
-  chapters 
+  chapters,
+  onStartReading
 }: { 
   progress: StoryData['generationProgress']
   chapters: Chapter[]
+  onStartReading?: () => void
 }) {
+  const hasReadableChapter = chapters.some(chapter => chapter.isComplete)
+
   return (
     <motion.div
       initial={{ opacity: 0 }}
@@ -845,6 +944,18 @@ function GenerationProgressOverlay({
           <Clock className="w-4 h-4 inline mr-1" />
           Estimated time remaining: {Math.ceil(progress.estimatedTimeRemaining)} minutes
         </div>
+
+        {/* Finished chapters can be read while the rest are written */}
+        {hasReadableChapter && onStartReading && (
+          <motion.button
+            onClick={onStartReading}
+            className="mt-6 w-full py-3 rounded-xl bg-mystic-500 text-white font-medium hover:bg-mystic-600 transition-colors"
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+          >
+            Start reading
+          </motion.button>
+        )}
       </motion.div>
     </motion.div>
   )
@@ -943,4 +1054,95 @@ function NavigationPanel({
       </div>
     </motion.div>
   )
-}
\ No newline at end of file
+}
+
+// Live generation updates
+
+/**
+ * Follow the story's progress stream while it is being written - chapters fill in
+ * as the pipeline finishes them instead of appearing all at once at the end
+ */
+function useLiveStory(story: StoryData, enabled: boolean): StoryData {
+  const [liveStory, setLiveStory] = useState(story)
+
+  useEffect(() => {
+    setLiveStory(story)
+  }, [story])
+
+  useEffect(() => {
+    if (!enabled || !story.isGenerating) return
+
+    const source = new EventSource(`/api/stories/${story.id}/progress`)
+
+    source.addEventListener('progress', (event) => {
+      const progress: GenerationProgressSummary = JSON.parse((event as MessageEvent).data)
+      setLiveStory(current => ({
+        ...current,
+        chapters: applyChapterStatuses(current.chapters, progress.chapterProgress),
+        generationProgress: {
+          phase: progress.phase,
+          currentStep: progress.currentStep,
+          completedSteps: progress.completedSteps,
+          estimatedTimeRemaining: progress.estimatedTimeRemaining
+        }
+      }))
+    })
+
+    source.addEventListener('chapter', (event) => {
+      const update: ChapterStreamEvent = JSON.parse((event as MessageEvent).data)
+      setLiveStory(current => ({
+        ...current,
+        chapters: applyChapterUpdate(current.chapters, update)
+      }))
+    })
+
+    source.addEventListener('done', () => {
+      setLiveStory(current => ({ ...current, isGenerating: false }))
+      source.close()
+    })
+
+    return () => source.close()
+  }, [enabled, story.id, story.isGenerating])
+
+  return liveStory
+}
+
+function placeholderChapter(number: number): Chapter {
+  return { number, title: `Chapter ${number}`, content: '', summary: '', keyLessons: [] }
+}
+
+function withStatus(chapter: Chapter, status: ChapterGenerationStatus): Chapter {
+  return {
+    ...chapter,
+    isGenerating: status === 'generating' || status === 'reviewing',
+    isComplete: status === 'complete'
+  }
+}
+
+function applyChapterStatuses(
+  chapters: Chapter[],
+  chapterProgress: { [chapterNumber: number]: ChapterGenerationStatus }
+): Chapter[] {
+  const byNumber = new Map(chapters.map(chapter => [chapter.number, chapter]))
+
+  Object.entries(chapterProgress).forEach(([key, status]) => {
+    const number = Number(key)
+    byNumber.set(number, withStatus(byNumber.get(number) || placeholderChapter(number), status))
+  })
+
+  return Array.from(byNumber.values()).sort((a, b) => a.number - b.number)
+}
+
+function applyChapterUpdate(chapters: Chapter[], update: ChapterStreamEvent): Chapter[] {
+  const existing = chapters.find(chapter => chapter.number === update.number) || placeholderChapter(update.number)
+  const updated = withStatus({
+    ...existing,
+    title: update.title,
+    content: update.append ? existing.content + update.content : update.content,
+    summary: update.summary ?? existing.summary,
+    keyLessons: update.keyLessons ?? existing.keyLessons
+  }, update.status)
+
+  return [...chapters.filter(chapter => chapter.number !== update.number), updated]
+    .sort((a, b) => a.number - b.number)
+}
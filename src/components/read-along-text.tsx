@@ -0,0 +1,173 @@
+'use client'
+
+import { useEffect, useMemo, useState, RefObject, KeyboardEvent } from 'react'
+import { cn } from '@/lib/utils'
+import { WordTiming, findWordAt } from '@/lib/word-alignment'
+
+/**
+ * Read-Along Text - The words light up as they are spoken
+ *
+ * Renders a chapter's paragraphs with the narrated word highlighted, following
+ * the chapter's stored word timings. Tapping (or pressing Enter on) any word
+ * jumps the narration to it, so a child can go back and hear a word again.
+ */
+
+interface ReadAlongTextProps {
+  content: string
+  words: WordTiming[]
+  // Where the chapter audio is, in milliseconds
+  currentTimeMs: number
+  onSeek: (timeMs: number) => void
+  className?: string
+  paragraphClassName?: string
+}
+
+interface TextPiece {
+  text: string
+  wordIndex?: number
+}
+
+export function ReadAlongText({
+  content,
+  words,
+  currentTimeMs,
+  onSeek,
+  className,
+  paragraphClassName
+}: ReadAlongTextProps) {
+  const paragraphs = useMemo(() => splitIntoPieces(content, words), [content, words])
+  const activeIndex = findWordAt(words, currentTimeMs)
+
+  const handleKeyDown = (event: KeyboardEvent, wordIndex: number) => {
+    if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault()
+      onSeek(words[wordIndex].start)
+    }
+  }
+
+  return (
+    <div className={className}>
+      {paragraphs.map((pieces, paragraphIndex) => (
+        <p key={paragraphIndex} className={paragraphClassName}>
+          {pieces.map((piece, pieceIndex) => piece.wordIndex === undefined ? (
+            <span key={pieceIndex}>{piece.text}</span>
+          ) : (
+            <span
+              key={pieceIndex}
+              role="button"
+              tabIndex={0}
+              aria-current={piece.wordIndex === activeIndex ? 'true' : undefined}
+              onClick={() => onSeek(words[piece.wordIndex!].start)}
+              onKeyDown={(event) => handleKeyDown(event, piece.wordIndex!)}
+              className={cn(
+                'cursor-pointer rounded px-0.5 -mx-0.5 transition-colors duration-150',
+                piece.wordIndex === activeIndex
+                  ? 'bg-mystic-200 text-soul-900'
+                  : 'hover:bg-mystic-50'
+              )}
+            >
+              {piece.text}
+            </span>
+          ))}
+        </p>
+      ))}
+    </div>
+  )
+}
+
+/**
+ * The audio's position in milliseconds - every frame while playing, so the
+ * highlight keeps up with fast speech, and on every seek while paused
+ */
+export function usePlaybackTime(audioRef: RefObject<HTMLAudioElement | null>, isPlaying: boolean): number {
+  const [timeMs, setTimeMs] = useState(0)
+
+  useEffect(() => {
+    const audio = audioRef.current
+    if (!audio) return
+
+    const update = () => setTimeMs(audio.currentTime * 1000)
+    audio.addEventListener('timeupdate', update)
+    audio.addEventListener('seeked', update)
+
+    let frame = 0
+    if (isPlaying) {
+      const tick = () => {
+        update()
+        frame = requestAnimationFrame(tick)
+      }
+      frame = requestAnimationFrame(tick)
+    }
+
+    return () => {
+      cancelAnimationFrame(frame)
+      audio.removeEventListener('timeupdate', update)
+      audio.removeEventListener('seeked', update)
+    }
+  }, [audioRef, isPlaying])
+
+  return timeMs
+}
+
+/**
+ * A chapter's stored word timings - fetched once the chapter has been voiced,
+ * unless the caller already has them
+ */
+export function useWordTimings(
+  storyId: string,
+  chapterNumber: number,
+  { enabled = true, initial }: { enabled?: boolean; initial?: WordTiming[] } = {}
+): WordTiming[] | undefined {
+  const [fetched, setFetched] = useState<WordTiming[]>()
+  const hasInitial = initial !== undefined
+
+  useEffect(() => {
+    setFetched(undefined)
+    if (!enabled || hasInitial) return
+
+    let cancelled = false
+    fetch(`/api/stories/${storyId}/chapters/${chapterNumber}/alignment`)
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (!cancelled && data?.alignment) setFetched(data.alignment.words)
+      })
+      .catch(() => {
+        // No timings yet - the chapter reads as plain text
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [storyId, chapterNumber, enabled, hasInitial])
+
+  return initial ?? fetched
+}
+
+// Paragraphs (split on blank lines, as the chapter pages show them) cut into plain text and timed words
+function splitIntoPieces(content: string, words: WordTiming[]): TextPiece[][] {
+  const paragraphs: TextPiece[][] = []
+  let wordIndex = 0
+  let paragraphStart = 0
+
+  for (const paragraph of content.split('\n\n')) {
+    const paragraphEnd = paragraphStart + paragraph.length
+    const pieces: TextPiece[] = []
+    let cursor = paragraphStart
+
+    while (wordIndex < words.length && words[wordIndex].charStart < paragraphEnd) {
+      const word = words[wordIndex]
+      if (word.charStart >= cursor && word.charEnd <= paragraphEnd) {
+        if (word.charStart > cursor) pieces.push({ text: content.slice(cursor, word.charStart) })
+        pieces.push({ text: content.slice(word.charStart, word.charEnd), wordIndex })
+        cursor = word.charEnd
+      }
+      wordIndex++
+    }
+    if (cursor < paragraphEnd) pieces.push({ text: content.slice(cursor, paragraphEnd) })
+
+    paragraphs.push(pieces)
+    paragraphStart = paragraphEnd + 2
+  }
+
+  return paragraphs
+}
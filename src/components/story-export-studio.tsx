@@ -9,6 +9,7 @@ import {
   File, Music, Video, Zap, Crown, Gift
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { runBackgroundJob } from '@/lib/background-jobs'
 import jsPDF from 'jspdf'
 
 /**
@@ -547,8 +548,7 @@ export function StoryExportStudio({
   const generateAudiobook = async (job: ExportJob, updateProgress: Function) => {
     updateProgress(10)
     
-    // This would combine all chapter audio files into a single audiobook
-    // with proper metadata and chapter markers
+    // Chapters are narrated and joined by the server in background jobs
     
     if (!job.story.chapters) {
       throw new Error('No chapters found for audiobook generation')
@@ -564,7 +564,7 @@ export function StoryExportStudio({
         audioSegments.push(chapter.audioUrl)
       } else {
         // Generate audio for this chapter
-        const audioUrl = await generateChapterAudio(chapter, job.options)
+        const audioUrl = await generateChapterAudio(job.story.id, chapter)
         audioSegments.push(audioUrl)
       }
       
@@ -573,7 +573,7 @@ export function StoryExportStudio({
 
     // Combine audio segments
     updateProgress(80)
-    const combinedAudioUrl = await combineAudioSegments(audioSegments, job.options)
+    const audiobook = await combineAudioSegments(job.story.id, audioSegments)
     
     setActiveJobs(prev => {
       const updated = new Map(prev)
@@ -581,8 +581,8 @@ export function StoryExportStudio({
       if (currentJob) {
         updated.set(job.id, {
           ...currentJob,
-          downloadUrl: combinedAudioUrl,
-          fileSize: '~150 MB' // Estimated
+          downloadUrl: audiobook.audioUrl,
+          fileSize: formatFileSize(audiobook.byteSize)
         })
       }
       return updated
@@ -636,35 +636,17 @@ export function StoryExportStudio({
     })
   }
 
-  const generateChapterAudio = async (chapter: any, options: any): Promise<string> => {
-    // This would call the voice synthesis API
-    const response = await fetch('/api/generate-chapter-audio', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        content: chapter.content,
-        title: chapter.title,
-        options
-      })
+  // Narrated in the story's character voices and kept as the chapter's audio
+  const generateChapterAudio = async (storyId: string, chapter: any): Promise<string> => {
+    const result = await runBackgroundJob<{ audioUrl: string }>('/api/generate-chapter-audio', {
+      storyId,
+      chapterNumber: chapter.number
     })
-    
-    const result = await response.json()
     return result.audioUrl
   }
 
-  const combineAudioSegments = async (audioUrls: string[], options: any): Promise<string> => {
-    // This would use FFmpeg to combine audio files
-    const response = await fetch('/api/combine-audiobook', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        audioUrls,
-        options
-      })
-    })
-    
-    const result = await response.json()
-    return result.downloadUrl
+  const combineAudioSegments = (storyId: string, audioUrls: string[]): Promise<{ audioUrl: string; byteSize: number }> => {
+    return runBackgroundJob('/api/combine-audiobook', { storyId, audioUrls })
   }
 
   const getMarginSize = (marginType: string): number => {
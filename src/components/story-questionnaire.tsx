@@ -1,9 +1,10 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { ChevronRight, ChevronLeft, Sparkles, Heart, BookOpen, Users, Palette, MessageCircle } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { BUILT_IN_TEMPLATES, StoryTemplate } from '@/lib/story-templates'
 
 /**
  * Story Questionnaire - The Gateway to SoulScribe Magic
@@ -18,6 +19,7 @@ export interface QuestionnaireData {
   targetAge: 'child' | 'teen' | 'adult' | 'all_ages'
   chapterCount: number
   estimatedLength: 'short' | 'medium' | 'long'
+  templateId?: string
   
   // Spiritual & Thematic Elements
   primaryTheme: string
@@ -334,6 +336,21 @@ function StepStructureAndLength({ formData, updateFormData, onNext, onPrev }: St
     { id: 'medium', name: 'Thoughtful Journey', description: '10-20 min read per chapter', icon: '🌱' },
     { id: 'long', name: 'Deep Exploration', description: '20+ min read per chapter', icon: '🌳' }
   ]
+  const [templates, setTemplates] = useState<StoryTemplate[]>(Object.values(BUILT_IN_TEMPLATES))
+
+  // The user's own templates join the built-in ones once they have loaded
+  useEffect(() => {
+    fetch('/api/templates')
+      .then(response => response.ok ? response.json() : null)
+      .then(data => data?.templates && setTemplates(data.templates))
+      .catch(() => {})
+  }, [])
+
+  const chooseTemplate = (template: StoryTemplate | null) => {
+    updateFormData(template
+      ? { templateId: template.id, chapterCount: template.recommendedChapters }
+      : { templateId: undefined })
+  }
 
   return (
     <div className="space-y-8">
@@ -343,6 +360,43 @@ function StepStructureAndLength({ formData, updateFormData, onNext, onPrev }: St
         <p className="text-soul-600">Choose the length and pacing that feels right for your story.</p>
       </div>
 
+      <div>
+        <h3 className="text-lg font-semibold text-soul-700 mb-4">Story Shape</h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <motion.button
+            onClick={() => chooseTemplate(null)}
+            className={cn(
+              "p-3 rounded-xl border-2 text-left transition-all duration-200",
+              !formData.templateId
+                ? "border-mystic-500 bg-mystic-50"
+                : "border-soul-200 hover:border-mystic-300"
+            )}
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+          >
+            <h4 className="font-semibold text-soul-800">Free Form</h4>
+            <p className="text-sm text-soul-600">Let the story find its own shape</p>
+          </motion.button>
+          {templates.map((template) => (
+            <motion.button
+              key={template.id}
+              onClick={() => chooseTemplate(template)}
+              className={cn(
+                "p-3 rounded-xl border-2 text-left transition-all duration-200",
+                formData.templateId === template.id
+                  ? "border-mystic-500 bg-mystic-50"
+                  : "border-soul-200 hover:border-mystic-300"
+              )}
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+            >
+              <h4 className="font-semibold text-soul-800">{template.name}</h4>
+              <p className="text-sm text-soul-600">{template.description || `${template.recommendedChapters} chapters`}</p>
+            </motion.button>
+          ))}
+        </div>
+      </div>
+
       <div>
         <h3 className="text-lg font-semibold text-soul-700 mb-4">Number of Chapters</h3>
         <div className="flex flex-wrap gap-3 justify-center">
@@ -9,6 +9,7 @@ import {
   RefreshCw, Copy, Share2, Eye, EyeOff
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { runBackgroundJob } from '@/lib/background-jobs'
 
 /**
  * Voice Cloning Studio - The AI Whisperer's Voice Magic Lab
@@ -420,22 +421,15 @@ export function VoiceCloningStudio({
   }
 
   const testVoiceGeneration = async (profile: VoiceProfile, testText: string) => {
-    // This would generate speech using the cloned voice
     console.log(`Testing voice ${profile.name} with text: "${testText}"`)
     
-    // Simulate voice generation API call
-    const response = await fetch('/api/generate-voice', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        modelId: profile.modelId,
-        text: testText,
-        characteristics: profile.characteristics
-      })
+    // Spoken by the server's voice backend in the closest voice it has
+    const result = await runBackgroundJob<{ audioUrl: string }>('/api/generate-voice', {
+      modelId: profile.modelId,
+      text: testText,
+      characteristics: profile.characteristics
     })
     
-    const result = await response.json()
-    
     if (result.audioUrl) {
       const audio = new Audio(result.audioUrl)
       await audio.play()
@@ -0,0 +1,186 @@
+/**
+ * Agent Schemas - Every agent says exactly what shape its answer takes
+ *
+ * A tiny, dependency-free schema layer for structured agent output. Agents declare
+ * the JSON they expect, responses are validated against it, and near-miss JSON
+ * (code fences, chatter around the object, trailing commas, smart quotes) is
+ * repaired before anyone has to retry. What still fails becomes a typed error.
+ */
+
+export interface SchemaIssue {
+  path: string
+  message: string
+}
+
+export type ParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: SchemaIssue[] }
+
+export interface Schema<T> {
+  parse(value: unknown, path?: string): ParseResult<T>
+  optional(): Schema<T | undefined>
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never
+
+type Shape = { [key: string]: Schema<unknown> }
+type InferShape<S extends Shape> = { [K in keyof S]: Infer<S[K]> }
+
+export class StructuredOutputError extends Error {
+  constructor(
+    public readonly agentType: string,
+    public readonly issues: SchemaIssue[],
+    public readonly rawOutput: string,
+    public readonly attempts: number
+  ) {
+    super(`${agentType} returned invalid structured output after ${attempts} attempt(s): ${formatIssues(issues)}`)
+    this.name = 'StructuredOutputError'
+  }
+}
+
+function createSchema<T>(parse: (value: unknown, path: string) => ParseResult<T>): Schema<T> {
+  const schema: Schema<T> = {
+    parse: (value, path = '$') => parse(value, path),
+    optional: () => createSchema<T | undefined>((value, path) =>
+      value === undefined || value === null ? { success: true, data: undefined } : parse(value, path)
+    )
+  }
+  return schema
+}
+
+function fail<T>(path: string, message: string): ParseResult<T> {
+  return { success: false, issues: [{ path, message }] }
+}
+
+export const schema = {
+  string: (options: { minLength?: number } = {}) => createSchema<string>((value, path) => {
+    if (typeof value !== 'string') return fail(path, `expected string, got ${describe(value)}`)
+    if (options.minLength !== undefined && value.trim().length < options.minLength) {
+      return fail(path, `expected at least ${options.minLength} character(s)`)
+    }
+    return { success: true, data: value }
+  }),
+
+  number: (options: { min?: number; max?: number } = {}) => createSchema<number>((value, path) => {
+    // Models often quote numbers - "0.8" is accepted as 0.8
+    const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value
+    if (typeof number !== 'number' || Number.isNaN(number)) return fail(path, `expected number, got ${describe(value)}`)
+    if (options.min !== undefined && number < options.min) return fail(path, `expected >= ${options.min}, got ${number}`)
+    if (options.max !== undefined && number > options.max) return fail(path, `expected <= ${options.max}, got ${number}`)
+    return { success: true, data: number }
+  }),
+
+  boolean: () => createSchema<boolean>((value, path) => {
+    if (typeof value === 'boolean') return { success: true, data: value }
+    if (value === 'true' || value === 'false') return { success: true, data: value === 'true' }
+    return fail(path, `expected boolean, got ${describe(value)}`)
+  }),
+
+  enum: <V extends string>(values: readonly V[]) => createSchema<V>((value, path) => {
+    const normalized = typeof value === 'string' ? value.trim().toLowerCase() : value
+    const match = values.find(option => option.toLowerCase() === normalized)
+    return match !== undefined
+      ? { success: true, data: match }
+      : fail(path, `expected one of ${values.join(' | ')}, got ${typeof value === 'string' ? `"${value}"` : describe(value)}`)
+  }),
+
+  array: <T>(item: Schema<T>, options: { minItems?: number } = {}) => createSchema<T[]>((value, path) => {
+    if (!Array.isArray(value)) return fail(path, `expected array, got ${describe(value)}`)
+    if (options.minItems !== undefined && value.length < options.minItems) {
+      return fail(path, `expected at least ${options.minItems} item(s), got ${value.length}`)
+    }
+
+    const data: T[] = []
+    const issues: SchemaIssue[] = []
+    value.forEach((entry, index) => {
+      const result = item.parse(entry, `${path}[${index}]`)
+      if ('issues' in result) issues.push(...result.issues)
+      else data.push(result.data)
+    })
+    return issues.length > 0 ? { success: false, issues } : { success: true, data }
+  }),
+
+  object: <S extends Shape>(shape: S) => createSchema<InferShape<S>>((value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return fail(path, `expected object, got ${describe(value)}`)
+    }
+
+    const data: { [key: string]: unknown } = {}
+    const issues: SchemaIssue[] = []
+    Object.entries(shape).forEach(([key, field]) => {
+      const result = field.parse((value as { [key: string]: unknown })[key], `${path}.${key}`)
+      if ('issues' in result) {
+        issues.push(...result.issues)
+      } else if (result.data !== undefined) {
+        data[key] = result.data
+      }
+    })
+    return issues.length > 0 ? { success: false, issues } : { success: true, data: data as InferShape<S> }
+  }),
+
+  record: <T>(values: Schema<T>) => createSchema<{ [key: string]: T }>((value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return fail(path, `expected object, got ${describe(value)}`)
+    }
+
+    const data: { [key: string]: T } = {}
+    const issues: SchemaIssue[] = []
+    Object.entries(value).forEach(([key, entry]) => {
+      const result = values.parse(entry, `${path}.${key}`)
+      if ('issues' in result) issues.push(...result.issues)
+      else data[key] = result.data
+    })
+    return issues.length > 0 ? { success: false, issues } : { success: true, data }
+  })
+}
+
+/**
+ * Parse model output as JSON, repairing the usual near misses first
+ */
+export function parseModelJSON(text: string): ParseResult<unknown> {
+  const candidates = repairCandidates(text)
+
+  for (const candidate of candidates) {
+    try {
+      return { success: true, data: JSON.parse(candidate) }
+    } catch {
+      // try the next, more aggressive repair
+    }
+  }
+  return fail('$', 'response is not valid JSON')
+}
+
+/**
+ * Parse and validate model output in one step
+ */
+export function parseStructuredOutput<T>(text: string, outputSchema: Schema<T>): ParseResult<T> {
+  const json = parseModelJSON(text)
+  return 'issues' in json ? json : outputSchema.parse(json.data)
+}
+
+export function formatIssues(issues: SchemaIssue[]): string {
+  return issues.slice(0, 5).map(issue => `${issue.path}: ${issue.message}`).join('; ')
+}
+
+function repairCandidates(text: string): string[] {
+  const trimmed = text.trim()
+  const unfenced = trimmed.replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '')
+
+  // Keep only the outermost object/array when the model wrapped it in prose
+  const start = unfenced.search(/[{[]/)
+  const end = Math.max(unfenced.lastIndexOf('}'), unfenced.lastIndexOf(']'))
+  const extracted = start !== -1 && end > start ? unfenced.slice(start, end + 1) : unfenced
+
+  const cleaned = extracted
+    .replace(/[“”]/g, '"')
+    .replace(/[‘’]/g, '\'')
+    .replace(/,\s*([}\]])/g, '$1')
+
+  return Array.from(new Set([trimmed, unfenced, extracted, cleaned]))
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
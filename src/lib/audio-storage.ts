@@ -0,0 +1,327 @@
+import { createHash, createHmac } from 'crypto'
+import { createReadStream, promises as fs } from 'fs'
+import path from 'path'
+import { Readable } from 'stream'
+
+/**
+ * Audio Storage - Where narration lives once it is made
+ *
+ * Voice backends write WAV files to a scratch directory; everything worth keeping
+ * is copied into an AudioStorage under a storage key and tracked in the database
+ * as an AudioAsset. SOULSCRIBE_AUDIO_STORAGE picks where: local (a directory,
+ * the default) or s3 for any S3-compatible store such as MinIO. The S3 client
+ * signs its own requests, so no SDK is needed. Reads can ask for a byte range,
+ * which is what lets the player seek without downloading a whole chapter.
+ */
+
+export interface ByteRange {
+  // Inclusive, as in an HTTP Range header
+  start: number
+  end: number
+}
+
+export interface StoredObject {
+  size: number
+  contentType?: string
+}
+
+export interface AudioStorage {
+  readonly name: string
+  put(key: string, data: Buffer, contentType: string): Promise<void>
+  read(key: string, range?: ByteRange): Promise<ReadableStream<Uint8Array>>
+  // null when there is nothing under the key
+  stat(key: string): Promise<StoredObject | null>
+  delete(key: string): Promise<void>
+}
+
+export interface S3StorageOptions {
+  endpoint: string
+  bucket: string
+  region?: string
+  accessKeyId: string
+  secretAccessKey: string
+  // Bucket in the path (MinIO, the default) rather than in the host name
+  forcePathStyle?: boolean
+}
+
+export class AudioStorageError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message)
+    this.name = 'AudioStorageError'
+  }
+}
+
+const EMPTY_PAYLOAD_HASH = sha256Hex('')
+
+/**
+ * Files under a directory on this machine, one per storage key
+ */
+export class LocalAudioStorage implements AudioStorage {
+  readonly name = 'local'
+  private root: string
+
+  constructor(root: string = process.env.SOULSCRIBE_AUDIO_DIR || './storage/audio') {
+    this.root = path.resolve(root)
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const target = this.pathFor(key)
+    await fs.mkdir(path.dirname(target), { recursive: true })
+    // Write beside the target and rename, so a reader never sees half a file
+    const partial = `${target}.${process.pid}.partial`
+    await fs.writeFile(partial, data)
+    await fs.rename(partial, target)
+  }
+
+  async read(key: string, range?: ByteRange): Promise<ReadableStream<Uint8Array>> {
+    const target = this.pathFor(key)
+    await fs.access(target).catch(() => {
+      throw new AudioStorageError(`No audio stored at ${key}`, 404)
+    })
+    const stream = createReadStream(target, range ? { start: range.start, end: range.end } : {})
+    return Readable.toWeb(stream) as unknown as ReadableStream<Uint8Array>
+  }
+
+  async stat(key: string): Promise<StoredObject | null> {
+    try {
+      const stats = await fs.stat(this.pathFor(key))
+      return { size: stats.size }
+    } catch {
+      return null
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.pathFor(key), { force: true })
+  }
+
+  private pathFor(key: string): string {
+    const target = path.resolve(this.root, key)
+    if (!target.startsWith(this.root + path.sep)) {
+      throw new AudioStorageError(`Invalid storage key: ${key}`)
+    }
+    return target
+  }
+}
+
+/**
+ * Objects in an S3-compatible bucket, with requests signed by AWS Signature V4
+ */
+export class S3AudioStorage implements AudioStorage {
+  readonly name = 's3'
+  private options: Required<S3StorageOptions>
+
+  constructor(options: S3StorageOptions) {
+    this.options = {
+      ...options,
+      endpoint: options.endpoint.replace(/\/$/, ''),
+      region: options.region ?? 'us-east-1',
+      forcePathStyle: options.forcePathStyle ?? true
+    }
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    const response = await this.send('PUT', key, { 'content-type': contentType }, data)
+    await this.expectOk(response, `store ${key}`)
+  }
+
+  async read(key: string, range?: ByteRange): Promise<ReadableStream<Uint8Array>> {
+    const response = await this.send('GET', key, range ? { range: `bytes=${range.start}-${range.end}` } : {})
+    await this.expectOk(response, `read ${key}`)
+    if (!response.body) {
+      throw new AudioStorageError(`Empty response reading ${key}`)
+    }
+    return response.body
+  }
+
+  async stat(key: string): Promise<StoredObject | null> {
+    const response = await this.send('HEAD', key)
+    if (response.status === 404) return null
+    await this.expectOk(response, `check ${key}`)
+    return {
+      size: Number(response.headers.get('content-length') || 0),
+      contentType: response.headers.get('content-type') || undefined
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.send('DELETE', key)
+    // Deleting something already gone is fine
+    if (response.status !== 404) await this.expectOk(response, `delete ${key}`)
+  }
+
+  private async send(method: string, key: string, headers: { [name: string]: string } = {}, body?: Buffer): Promise<Response> {
+    const url = this.urlFor(key)
+    const signed = signS3Request({
+      method,
+      url,
+      headers,
+      payloadHash: body ? sha256Hex(body) : EMPTY_PAYLOAD_HASH,
+      region: this.options.region,
+      accessKeyId: this.options.accessKeyId,
+      secretAccessKey: this.options.secretAccessKey
+    })
+    return fetch(url, { method, headers: signed, body: body ? new Uint8Array(body) : undefined })
+  }
+
+  private urlFor(key: string): URL {
+    const { endpoint, bucket, forcePathStyle } = this.options
+    const objectPath = `/${encodeKey(key)}`
+    if (forcePathStyle) {
+      return new URL(`${endpoint}/${bucket}${objectPath}`)
+    }
+    const url = new URL(endpoint)
+    url.host = `${bucket}.${url.host}`
+    url.pathname = objectPath
+    return url
+  }
+
+  private async expectOk(response: Response, action: string): Promise<void> {
+    if (response.ok) return
+    const detail = await response.text().catch(() => '')
+    throw new AudioStorageError(
+      `Could not ${action}: ${response.status} ${response.statusText}${detail ? ` - ${detail.slice(0, 200)}` : ''}`,
+      response.status
+    )
+  }
+}
+
+/**
+ * Add AWS Signature V4 headers to an S3 request. Returns every header to send,
+ * host and the signature included.
+ */
+export function signS3Request(request: {
+  method: string
+  url: URL
+  headers: { [name: string]: string }
+  payloadHash: string
+  region: string
+  accessKeyId: string
+  secretAccessKey: string
+  date?: Date
+}): { [name: string]: string } {
+  const timestamp = (request.date ?? new Date()).toISOString().replace(/[:-]|\.\d{3}/g, '')
+  const day = timestamp.slice(0, 8)
+  const scope = `${day}/${request.region}/s3/aws4_request`
+
+  const headers: { [name: string]: string } = {
+    host: request.url.host,
+    'x-amz-content-sha256': request.payloadHash,
+    'x-amz-date': timestamp
+  }
+  for (const [name, value] of Object.entries(request.headers)) {
+    headers[name.toLowerCase()] = value.trim()
+  }
+
+  const signedHeaders = Object.keys(headers).sort()
+  const canonicalQuery = [...request.url.searchParams.entries()]
+    .map(([name, value]) => `${encodeRfc3986(name)}=${encodeRfc3986(value)}`)
+    .sort()
+    .join('&')
+  const canonicalRequest = [
+    request.method,
+    request.url.pathname,
+    canonicalQuery,
+    signedHeaders.map(name => `${name}:${headers[name]}\n`).join(''),
+    signedHeaders.join(';'),
+    request.payloadHash
+  ].join('\n')
+
+  const stringToSign = ['AWS4-HMAC-SHA256', timestamp, scope, sha256Hex(canonicalRequest)].join('\n')
+  const signingKey = ['s3', 'aws4_request'].reduce(
+    (key, part) => hmac(key, part),
+    hmac(hmac(`AWS4${request.secretAccessKey}`, day), request.region)
+  )
+  const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex')
+
+  return {
+    ...headers,
+    authorization: `AWS4-HMAC-SHA256 Credential=${request.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`
+  }
+}
+
+/**
+ * Read an HTTP Range header against an object's size. null means the whole
+ * object; 'unsatisfiable' is a 416. Only single ranges are served.
+ */
+export function parseByteRange(header: string | null, size: number): ByteRange | null | 'unsatisfiable' {
+  if (!header) return null
+
+  const match = header.trim().match(/^bytes=(\d*)-(\d*)$/)
+  if (!match || (match[1] === '' && match[2] === '')) return null
+
+  if (match[1] === '') {
+    // A suffix: the last N bytes
+    const length = Number(match[2])
+    if (length === 0 || size === 0) return 'unsatisfiable'
+    return { start: Math.max(0, size - length), end: size - 1 }
+  }
+
+  const start = Number(match[1])
+  const end = match[2] === '' ? size - 1 : Math.min(Number(match[2]), size - 1)
+  if (start >= size || end < start) return 'unsatisfiable'
+  return { start, end }
+}
+
+export function sha256Hex(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex')
+}
+
+let activeStorage: AudioStorage | null = null
+
+/**
+ * The storage for this process, from SOULSCRIBE_AUDIO_STORAGE and its settings
+ */
+export function getAudioStorage(): AudioStorage {
+  if (!activeStorage) {
+    activeStorage = createAudioStorage(process.env.SOULSCRIBE_AUDIO_STORAGE || 'local')
+  }
+  return activeStorage
+}
+
+/**
+ * Use this storage from now on - for tests and custom stores
+ */
+export function registerAudioStorage(storage: AudioStorage): void {
+  activeStorage = storage
+}
+
+export function resetAudioStorage(): void {
+  activeStorage = null
+}
+
+function createAudioStorage(name: string): AudioStorage {
+  switch (name) {
+    case 'local':
+      return new LocalAudioStorage()
+    case 's3': {
+      const { S3_ENDPOINT, S3_BUCKET, S3_REGION, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY, S3_FORCE_PATH_STYLE } = process.env
+      if (!S3_ENDPOINT || !S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+        throw new AudioStorageError('The s3 audio storage needs S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY')
+      }
+      return new S3AudioStorage({
+        endpoint: S3_ENDPOINT,
+        bucket: S3_BUCKET,
+        region: S3_REGION,
+        accessKeyId: S3_ACCESS_KEY_ID,
+        secretAccessKey: S3_SECRET_ACCESS_KEY,
+        forcePathStyle: S3_FORCE_PATH_STYLE !== 'false'
+      })
+    }
+    default:
+      throw new AudioStorageError(`Unknown audio storage "${name}". Use local or s3`)
+  }
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest()
+}
+
+// Keys keep their slashes; everything else is encoded the way S3 signs it
+function encodeKey(key: string): string {
+  return key.split('/').map(encodeRfc3986).join('/')
+}
+
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)
+}
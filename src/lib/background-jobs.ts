@@ -0,0 +1,81 @@
+/**
+ * Background Jobs - Waiting on work the server does in the background
+ *
+ * Slow work - story generation, narration, audiobooks - is queued: its route
+ * answers 202 with the job, a worker runs it, and /api/jobs/[id] says how it is
+ * going. runBackgroundJob does the whole round trip for the browser and resolves
+ * with what the job produced.
+ */
+
+export type BackgroundJobStatus = 'QUEUED' | 'RUNNING' | 'SUCCEEDED' | 'FAILED' | 'CANCELLED'
+
+export interface BackgroundJob<R = unknown> {
+  id: string
+  status: BackgroundJobStatus
+  progress: unknown
+  result: R | null
+  error: string | null
+}
+
+export interface WaitOptions {
+  // Hears every progress report the job makes
+  onProgress?: (progress: unknown) => void
+  pollIntervalMs?: number
+}
+
+export class BackgroundJobError extends Error {
+  constructor(message: string, public readonly job?: BackgroundJob) {
+    super(message)
+    this.name = 'BackgroundJobError'
+  }
+}
+
+/**
+ * Queue a job with a POST to one of the job routes and wait for its result
+ */
+export async function runBackgroundJob<R>(url: string, body: unknown, options: WaitOptions = {}): Promise<R> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  })
+  const answer = await response.json().catch(() => ({}))
+
+  if (!response.ok || !answer.job) {
+    throw new BackgroundJobError(answer.error || `${url} answered ${response.status}`)
+  }
+  return waitForJob<R>(answer.job, options)
+}
+
+/**
+ * Follow a queued job until it is done - its result when it succeeded, a
+ * BackgroundJobError when it failed or was cancelled
+ */
+export async function waitForJob<R>(
+  job: BackgroundJob<R>,
+  { onProgress, pollIntervalMs = 1000 }: WaitOptions = {}
+): Promise<R> {
+  let current = job
+  let lastProgress = JSON.stringify(job.progress)
+
+  while (current.status === 'QUEUED' || current.status === 'RUNNING') {
+    await new Promise(resolve => setTimeout(resolve, pollIntervalMs))
+
+    const response = await fetch(`/api/jobs/${current.id}`)
+    if (!response.ok) {
+      throw new BackgroundJobError(`Could not follow job ${current.id}: ${response.status}`, current)
+    }
+    current = (await response.json()).job
+
+    const progress = JSON.stringify(current.progress)
+    if (current.progress && progress !== lastProgress) {
+      onProgress?.(current.progress)
+    }
+    lastProgress = progress
+  }
+
+  if (current.status !== 'SUCCEEDED') {
+    throw new BackgroundJobError(current.error || `Job ${current.id} was ${current.status.toLowerCase()}`, current)
+  }
+  return current.result as R
+}
@@ -0,0 +1,264 @@
+import { schema, Infer } from '@/lib/agent-schemas'
+import type { ProcessedTOC, ThematicArc } from '@/agents/toc-processor-agent'
+
+/**
+ * Beat Sheet - The story's plan, in the author's hands
+ *
+ * The outline and table of contents broken down into acts, chapters and beats:
+ * what happens in each chapter, in which order, who is there and what it teaches.
+ * Authors edit, reorder and lock it before the chapters are written, and the
+ * pipeline writes every chapter from its entry. Locked chapters and beats are
+ * kept word for word when the rest of the sheet is generated again.
+ */
+
+export interface Beat {
+  id: string
+  description: string
+  characters: string[]
+  locked: boolean
+}
+
+export interface BeatSheetChapter {
+  id: string
+  number: number
+  title: string
+  summary: string
+  lesson: string
+  characters: string[]
+  beats: Beat[]
+  locked: boolean
+}
+
+export interface BeatSheetAct {
+  id: string
+  number: number
+  title: string
+  summary: string
+  arcType?: ThematicArc['arcType']
+  chapters: BeatSheetChapter[]
+}
+
+export interface BeatSheet {
+  acts: BeatSheetAct[]
+}
+
+export interface PlannedChapter {
+  act: BeatSheetAct
+  chapter: BeatSheetChapter
+}
+
+// The most chapters a story can have - the same limit as the questionnaire
+export const MAX_BEAT_SHEET_CHAPTERS = 30
+
+const nameList = () => schema.array(schema.string()).optional()
+
+/**
+ * A beat sheet as authors send it and as the model writes it - ids, numbers and
+ * lock flags are optional, normalizeBeatSheet fills them in
+ */
+export const beatSheetInputSchema = schema.object({
+  acts: schema.array(schema.object({
+    id: schema.string().optional(),
+    title: schema.string({ minLength: 1 }),
+    summary: schema.string().optional(),
+    arcType: schema.enum(['introduction', 'exploration', 'challenge', 'revelation', 'integration'] as const).optional(),
+    chapters: schema.array(schema.object({
+      id: schema.string().optional(),
+      title: schema.string({ minLength: 1 }),
+      summary: schema.string().optional(),
+      lesson: schema.string().optional(),
+      characters: nameList(),
+      locked: schema.boolean().optional(),
+      beats: schema.array(schema.object({
+        id: schema.string().optional(),
+        description: schema.string({ minLength: 1 }),
+        characters: nameList(),
+        locked: schema.boolean().optional()
+      }))
+    }))
+  }), { minItems: 1 })
+})
+
+export type BeatSheetInput = Infer<typeof beatSheetInputSchema>
+
+export class InvalidBeatSheetError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'InvalidBeatSheetError'
+  }
+}
+
+function idAllocator(input: BeatSheetInput): (id: string | undefined, prefix: string) => string {
+  // Ids already in the input are reserved first, so a new item never takes one
+  const given = new Set(input.acts.flatMap(act => [
+    act.id,
+    ...act.chapters.flatMap(chapter => [chapter.id, ...chapter.beats.map(beat => beat.id)])
+  ]).filter((id): id is string => Boolean(id)))
+  const used = new Set<string>()
+
+  return (id, prefix) => {
+    if (id && !used.has(id)) {
+      used.add(id)
+      return id
+    }
+    let index = 1
+    while (used.has(`${prefix}-${index}`) || given.has(`${prefix}-${index}`)) index++
+    used.add(`${prefix}-${index}`)
+    return `${prefix}-${index}`
+  }
+}
+
+function cleanNames(names: string[] | undefined): string[] {
+  return [...new Set((names || []).map(name => name.trim()).filter(Boolean))]
+}
+
+/**
+ * Give every act, chapter and beat an id and number chapters across acts in the
+ * order they appear - reordering is just sending the arrays in a new order.
+ * Throws InvalidBeatSheetError for a sheet with no chapters or too many.
+ */
+export function normalizeBeatSheet(input: BeatSheetInput): BeatSheet {
+  const keepId = idAllocator(input)
+  let chapterNumber = 0
+
+  const acts = input.acts.map((act, actIndex) => ({
+    id: keepId(act.id, 'act'),
+    number: actIndex + 1,
+    title: act.title.trim(),
+    summary: act.summary?.trim() || '',
+    ...(act.arcType && { arcType: act.arcType }),
+    chapters: act.chapters.map(chapter => ({
+      id: keepId(chapter.id, 'chapter'),
+      number: ++chapterNumber,
+      title: chapter.title.trim(),
+      summary: chapter.summary?.trim() || '',
+      lesson: chapter.lesson?.trim() || '',
+      characters: cleanNames(chapter.characters),
+      locked: chapter.locked === true,
+      beats: chapter.beats.map(beat => ({
+        id: keepId(beat.id, 'beat'),
+        description: beat.description.trim(),
+        characters: cleanNames(beat.characters),
+        locked: beat.locked === true
+      }))
+    }))
+  }))
+
+  if (chapterNumber === 0) {
+    throw new InvalidBeatSheetError('The beat sheet needs at least one chapter')
+  }
+  if (chapterNumber > MAX_BEAT_SHEET_CHAPTERS) {
+    throw new InvalidBeatSheetError(`A story can have at most ${MAX_BEAT_SHEET_CHAPTERS} chapters, the beat sheet has ${chapterNumber}`)
+  }
+  return { acts }
+}
+
+/**
+ * Every chapter in reading order, with the act it belongs to
+ */
+export function plannedChapters(sheet: BeatSheet): PlannedChapter[] {
+  return sheet.acts.flatMap(act => act.chapters.map(chapter => ({ act, chapter })))
+}
+
+/**
+ * A beat sheet straight from the processed TOC, without asking the model: each
+ * thematic arc becomes an act and each chapter's description its only beat
+ */
+export function beatSheetFromTOC(processedTOC: ProcessedTOC): BeatSheet {
+  const acts: BeatSheetInput['acts'] = []
+  let currentArc: ThematicArc | null | undefined
+
+  const chapters = [...processedTOC.chapters].sort((a, b) => a.number - b.number)
+  chapters.forEach(outline => {
+    const arc = processedTOC.thematicArcs.find(candidate => candidate.chapters.includes(outline.number)) || null
+    // Chapters outside every arc stay in the act before them
+    if (acts.length === 0 || (arc && arc !== currentArc)) {
+      acts.push({
+        id: undefined,
+        title: arc?.name || 'The Journey',
+        summary: arc?.centralLesson || '',
+        arcType: arc?.arcType,
+        chapters: []
+      })
+      currentArc = arc
+    }
+
+    const description = outline.description || outline.subtitle
+    acts[acts.length - 1].chapters.push({
+      id: undefined,
+      title: outline.title,
+      summary: description || '',
+      lesson: outline.learningObjectives[0] || '',
+      characters: outline.characterFocus,
+      locked: false,
+      beats: description ? [{ id: undefined, description, characters: outline.characterFocus, locked: false }] : []
+    })
+  })
+
+  return normalizeBeatSheet({ acts })
+}
+
+/**
+ * Carry what the author locked over into a newly generated sheet. A locked
+ * chapter takes the place of the chapter at its position; locked beats of an
+ * unlocked chapter are put back at their index in the new chapter's beats.
+ */
+export function keepLocked(previous: BeatSheet | null | undefined, regenerated: BeatSheetInput): BeatSheet {
+  if (!previous) return normalizeBeatSheet(regenerated)
+
+  const acts: BeatSheetInput['acts'] = regenerated.acts.map(act => ({ ...act, chapters: [...act.chapters] }))
+  const positions = acts.flatMap((act, actIndex) => act.chapters.map((_, index) => ({ actIndex, index })))
+
+  plannedChapters(previous).forEach(({ chapter }, position) => {
+    const lockedBeats = chapter.beats
+      .map((beat, index) => ({ beat, index }))
+      .filter(({ beat }) => beat.locked)
+    if (!chapter.locked && lockedBeats.length === 0) return
+
+    const target = positions[position]
+    if (!target) {
+      // The new sheet is shorter - locked work is appended rather than lost
+      acts[acts.length - 1].chapters.push(chapter)
+      return
+    }
+
+    const chapters = acts[target.actIndex].chapters
+    if (chapter.locked) {
+      chapters[target.index] = chapter
+      return
+    }
+
+    const beats = [...chapters[target.index].beats]
+    lockedBeats.forEach(({ beat, index }) => beats.splice(Math.min(index, beats.length), 0, beat))
+    chapters[target.index] = { ...chapters[target.index], beats }
+  })
+
+  return normalizeBeatSheet({ acts })
+}
+
+/**
+ * The chapter's plan as SoulScribe reads it when writing the chapter
+ */
+export function formatChapterPlan({ act, chapter }: PlannedChapter): string {
+  const lines = [`Act ${act.number}: ${act.title}${act.summary ? ` - ${act.summary}` : ''}`]
+  if (chapter.summary) lines.push(`What happens: ${chapter.summary}`)
+  if (chapter.lesson) lines.push(`Lesson of this chapter: ${chapter.lesson}`)
+  if (chapter.characters.length > 0) lines.push(`Characters: ${chapter.characters.join(', ')}`)
+  if (chapter.beats.length > 0) {
+    lines.push('Beats, in this order:')
+    chapter.beats.forEach((beat, index) => {
+      lines.push(`${index + 1}. ${beat.description}${beat.characters.length > 0 ? ` (${beat.characters.join(', ')})` : ''}`)
+    })
+  }
+  return lines.join('\n')
+}
+
+/**
+ * The sheet as a table of contents, so story context matches the edited structure
+ */
+export function formatBeatSheetTOC(sheet: BeatSheet): string {
+  return sheet.acts.map(act => [
+    `Act ${act.number}: ${act.title}`,
+    ...act.chapters.map(chapter => `Chapter ${chapter.number}: ${chapter.title}${chapter.summary ? ` - ${chapter.summary}` : ''}`)
+  ].join('\n')).join('\n\n')
+}
@@ -0,0 +1,215 @@
+import { Audience, VOCABULARY_LEVELS, audienceFor, computeReadability, computeStats, isDifficultWord, tokenizeWords } from '@/lib/text-analytics'
+
+/**
+ * Content Safety - Is this story right for the reader it was written for?
+ *
+ * A lexicon and rule engine that reads a chapter passage by passage and flags
+ * violence, frightening scenes, mature themes and vocabulary above the target
+ * reading level. Each category has a ceiling per audience; anything above it is
+ * annotated with the passage's character offsets so the author can find and mend
+ * it. Vocabulary findings are advice - the other categories decide whether the
+ * chapter passes. The ContentSafetyAgent adds an optional model pass on top.
+ */
+
+export type SafetyCategory = 'violence' | 'fear' | 'mature' | 'vocabulary'
+export type SafetySeverity = 'mild' | 'moderate' | 'severe'
+
+export interface SafetyAnnotation {
+  passage: number
+  start: number
+  end: number
+  excerpt: string
+  category: SafetyCategory
+  severity: SafetySeverity
+  terms: string[]
+  reason: string
+  source: 'rules' | 'model'
+  blocking: boolean
+}
+
+export interface SafetyCheck {
+  audience: Audience
+  passed: boolean
+  annotations: SafetyAnnotation[]
+}
+
+export interface PassageSpan {
+  start: number
+  end: number
+  text: string
+}
+
+type ContentCategory = Exclude<SafetyCategory, 'vocabulary'>
+
+const SEVERITY_ORDER: SafetySeverity[] = ['mild', 'moderate', 'severe']
+
+// The strongest content each audience may read without a flag - null allows none at all
+export const AUDIENCE_CEILINGS: { [audience in Audience]: { [category in ContentCategory]: SafetySeverity | null } } = {
+  child: { violence: 'mild', fear: 'mild', mature: null },
+  all_ages: { violence: 'mild', fear: 'moderate', mature: null },
+  teen: { violence: 'moderate', fear: 'moderate', mature: 'moderate' },
+  adult: { violence: 'severe', fear: 'severe', mature: 'severe' }
+}
+
+const LEXICON: { [category in ContentCategory]: { [severity in SafetySeverity]: string[] } } = {
+  violence: {
+    mild: ['hit', 'punch', 'punched', 'fight', 'fought', 'shove', 'shoved', 'slap', 'slapped', 'kick', 'kicked', 'sword', 'swords', 'battle', 'bruise', 'bruised'],
+    moderate: ['kill', 'killed', 'kills', 'killing', 'stab', 'stabbed', 'blood', 'bloody', 'bleeding', 'wound', 'wounded', 'gun', 'guns', 'shot', 'weapon', 'weapons', 'attack', 'attacked', 'beat him', 'beat her', 'whip', 'whipped', 'strangle', 'strangled'],
+    severe: ['murder', 'murdered', 'murderer', 'slaughter', 'slaughtered', 'massacre', 'torture', 'tortured', 'behead', 'beheaded', 'decapitated', 'gore', 'gory', 'mutilated', 'dismembered', 'execution']
+  },
+  fear: {
+    mild: ['scary', 'spooky', 'creepy', 'frightened', 'afraid', 'scared', 'monster', 'monsters', 'ghost', 'ghosts'],
+    moderate: ['terrified', 'terror', 'terrifying', 'horror', 'horrifying', 'nightmare', 'nightmares', 'screamed', 'screaming', 'shrieked', 'haunted', 'demon', 'demons', 'corpse', 'corpses'],
+    severe: ['blood-curdling', 'bloodcurdling', 'possessed', 'dead body', 'dead bodies', 'rotting', 'agony', 'tormented', 'buried alive']
+  },
+  mature: {
+    mild: [],
+    moderate: ['drunk', 'beer', 'whiskey', 'vodka', 'alcohol', 'cigarette', 'cigarettes', 'gamble', 'gambling', 'damn', 'crap', 'bastard', 'hell'],
+    severe: ['suicide', 'kill himself', 'kill herself', 'kill myself', 'self-harm', 'sex', 'sexual', 'naked', 'nude', 'rape', 'abuse', 'abused', 'overdose', 'cocaine', 'heroin', 'fuck', 'shit']
+  }
+}
+
+const REASONS: { [category in SafetyCategory]: string } = {
+  violence: 'Violence',
+  fear: 'Frightening content',
+  mature: 'Mature themes',
+  vocabulary: 'Vocabulary above the reading level'
+}
+
+// This many matches of one category in a passage reads one step more intense
+const INTENSITY_MATCHES = 3
+
+const PATTERNS = Object.fromEntries(
+  (Object.keys(LEXICON) as ContentCategory[]).map(category => [
+    category,
+    SEVERITY_ORDER.flatMap(severity => LEXICON[category][severity].map(term => ({
+      severity,
+      pattern: new RegExp(`\\b${term.replace(/[-\s]/g, '[-\\s]')}\\b`, 'gi')
+    })))
+  ])
+) as { [category in ContentCategory]: Array<{ severity: SafetySeverity; pattern: RegExp }> }
+
+export function severityRank(severity: SafetySeverity | null): number {
+  return severity ? SEVERITY_ORDER.indexOf(severity) : -1
+}
+
+/**
+ * Whether content of this category and severity is above what the audience may read
+ */
+export function exceedsCeiling(audience: Audience, category: SafetyCategory, severity: SafetySeverity): boolean {
+  if (category === 'vocabulary') return false
+  return severityRank(severity) > severityRank(AUDIENCE_CEILINGS[audience][category])
+}
+
+/**
+ * Paragraphs with their character offsets in the chapter text
+ */
+export function passageSpans(content: string): PassageSpan[] {
+  const spans: PassageSpan[] = []
+  const separator = /\n\s*\n/g
+  let start = 0
+  let match: RegExpExecArray | null
+
+  const push = (end: number) => {
+    const raw = content.slice(start, end)
+    const text = raw.trim()
+    if (text) {
+      const offset = start + raw.indexOf(text)
+      spans.push({ start: offset, end: offset + text.length, text })
+    }
+  }
+
+  while ((match = separator.exec(content)) !== null) {
+    push(match.index)
+    start = match.index + match[0].length
+  }
+  push(content.length)
+  return spans
+}
+
+function excerptOf(text: string, maxLength = 160): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text
+}
+
+function checkCategory(span: PassageSpan, passage: number, category: ContentCategory, audience: Audience): SafetyAnnotation | null {
+  const matches = PATTERNS[category].flatMap(({ severity, pattern }) =>
+    (span.text.match(pattern) || []).map(term => ({ severity, term: term.toLowerCase() }))
+  )
+  if (matches.length === 0) return null
+
+  let rank = Math.max(...matches.map(match => severityRank(match.severity)))
+  // Many milder matches together are as intense as one stronger one
+  if (matches.length >= INTENSITY_MATCHES) rank = Math.min(rank + 1, SEVERITY_ORDER.length - 1)
+  const severity = SEVERITY_ORDER[rank]
+
+  if (!exceedsCeiling(audience, category, severity)) return null
+
+  const terms = [...new Set(matches.map(match => match.term))]
+  return {
+    passage,
+    start: span.start,
+    end: span.end,
+    excerpt: excerptOf(span.text),
+    category,
+    severity,
+    terms,
+    reason: `${REASONS[category]} (${severity}) is above what ${audience.replace('_', ' ')} readers should get: ${terms.join(', ')}`,
+    source: 'rules',
+    blocking: true
+  }
+}
+
+function checkVocabulary(span: PassageSpan, passage: number, audience: Audience): SafetyAnnotation | null {
+  const stats = computeStats(span.text)
+  // Single lines are too short to grade fairly
+  if (stats.wordCount < 25) return null
+
+  const readability = computeReadability(span.text, stats)
+  const level = VOCABULARY_LEVELS[audience]
+  if (readability.fleschKincaidGrade <= level.maxGrade + 2 && readability.difficultWordRatio <= level.maxDifficultWordRatio * 1.5) {
+    return null
+  }
+
+  const terms = [...new Set(tokenizeWords(span.text).filter(isDifficultWord).map(word => word.toLowerCase()))].slice(0, 6)
+  return {
+    passage,
+    start: span.start,
+    end: span.end,
+    excerpt: excerptOf(span.text),
+    category: 'vocabulary',
+    severity: readability.fleschKincaidGrade > level.maxGrade + 5 ? 'moderate' : 'mild',
+    terms,
+    reason: `Reads at about grade ${readability.fleschKincaidGrade.toFixed(1)}; ${audience.replace('_', ' ')} readers need grade ${level.maxGrade} or below`,
+    source: 'rules',
+    blocking: false
+  }
+}
+
+/**
+ * Run the lexicon and reading-level rules over every passage of a chapter
+ */
+export function checkContentSafety(content: string, targetAge: string | null | undefined): SafetyCheck {
+  const audience = audienceFor(targetAge)
+  const annotations = passageSpans(content).flatMap((span, passage) => [
+    checkCategory(span, passage, 'violence', audience),
+    checkCategory(span, passage, 'fear', audience),
+    checkCategory(span, passage, 'mature', audience),
+    checkVocabulary(span, passage, audience)
+  ].filter((annotation): annotation is SafetyAnnotation => annotation !== null))
+
+  return {
+    audience,
+    passed: !annotations.some(annotation => annotation.blocking),
+    annotations
+  }
+}
+
+/**
+ * Blocking annotations as revision notes for SoulScribe
+ */
+export function formatSafetyNotes(annotations: SafetyAnnotation[]): string {
+  return annotations
+    .filter(annotation => annotation.blocking)
+    .map(annotation => `• Passage ${annotation.passage + 1}: ${annotation.reason} - "${annotation.excerpt}"`)
+    .join('\n')
+}
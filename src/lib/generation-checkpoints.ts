@@ -0,0 +1,114 @@
+import { prisma } from '@/lib/prisma'
+
+/**
+ * Generation Checkpoints - Nothing SoulScribe writes is ever lost
+ *
+ * Each completed pipeline phase (and each finished chapter) is persisted as a
+ * checkpoint, so a crashed or cancelled run picks up where it left off instead of
+ * starting from the outline again.
+ */
+
+export type CheckpointPhase = 'outline' | 'toc' | 'introduction' | 'chapter' | 'reflection'
+
+export interface CheckpointRecord<T = unknown> {
+  phase: CheckpointPhase
+  chapterNumber: number
+  data: T
+  updatedAt: Date
+}
+
+export class GenerationCheckpointStore {
+  private storyId: string
+  private cache = new Map<string, CheckpointRecord>()
+  private loaded = false
+
+  constructor(storyId: string) {
+    this.storyId = storyId
+  }
+
+  /**
+   * Load every checkpoint for the story (once per store)
+   */
+  async load(): Promise<CheckpointRecord[]> {
+    if (!this.loaded) {
+      const rows = await prisma.generationCheckpoint.findMany({
+        where: { storyId: this.storyId },
+        orderBy: [{ phase: 'asc' }, { chapterNumber: 'asc' }]
+      })
+
+      rows.forEach(row => {
+        this.cache.set(this.key(row.phase as CheckpointPhase, row.chapterNumber), {
+          phase: row.phase as CheckpointPhase,
+          chapterNumber: row.chapterNumber,
+          data: row.data,
+          updatedAt: row.updatedAt
+        })
+      })
+      this.loaded = true
+    }
+
+    return Array.from(this.cache.values())
+  }
+
+  async get<T>(phase: CheckpointPhase, chapterNumber = 0): Promise<T | undefined> {
+    await this.load()
+    return this.cache.get(this.key(phase, chapterNumber))?.data as T | undefined
+  }
+
+  async save<T>(phase: CheckpointPhase, data: T, chapterNumber = 0): Promise<void> {
+    const json = JSON.parse(JSON.stringify(data))
+
+    const row = await prisma.generationCheckpoint.upsert({
+      where: {
+        storyId_phase_chapterNumber: { storyId: this.storyId, phase, chapterNumber }
+      },
+      create: { storyId: this.storyId, phase, chapterNumber, data: json },
+      update: { data: json }
+    })
+
+    this.cache.set(this.key(phase, chapterNumber), {
+      phase,
+      chapterNumber,
+      data: json,
+      updatedAt: row.updatedAt
+    })
+  }
+
+  /**
+   * Chapter numbers that already have a finished checkpoint
+   */
+  async completedChapters(): Promise<number[]> {
+    const records = await this.load()
+    return records
+      .filter(record => record.phase === 'chapter')
+      .map(record => record.chapterNumber)
+      .sort((a, b) => a - b)
+  }
+
+  /**
+   * The most recent point a resumed run would continue from
+   */
+  async lastCompletedStep(): Promise<string | null> {
+    const order: CheckpointPhase[] = ['reflection', 'chapter', 'introduction', 'toc', 'outline']
+    const records = await this.load()
+
+    for (const phase of order) {
+      const matches = records.filter(record => record.phase === phase)
+      if (matches.length === 0) continue
+      if (phase !== 'chapter') return phase
+
+      const lastChapter = Math.max(...matches.map(record => record.chapterNumber))
+      return `chapter ${lastChapter}`
+    }
+    return null
+  }
+
+  async clear(): Promise<void> {
+    await prisma.generationCheckpoint.deleteMany({ where: { storyId: this.storyId } })
+    this.cache.clear()
+  }
+
+  private key(phase: CheckpointPhase, chapterNumber: number): string {
+    return `${phase}:${chapterNumber}`
+  }
+}
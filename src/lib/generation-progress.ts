@@ -0,0 +1,176 @@
+/**
+ * Generation Progress - The heartbeat of a story being born
+ *
+ * Shared shape for pipeline progress updates, plus the helpers that turn a stream
+ * of snapshots into the small events the progress stream sends to the flipbook.
+ * Chapter text rides along with progress so readers can start before the last page is written.
+ */
+
+export type GenerationPhase = 'initializing' | 'outline' | 'toc' | 'outline_review' | 'introduction' | 'chapters' | 'review' | 'audio' | 'complete'
+
+export type ChapterGenerationStatus = 'pending' | 'generating' | 'reviewing' | 'complete'
+
+export interface ChapterPreview {
+  number: number
+  title: string
+  content: string
+  summary?: string
+  keyLessons?: string[]
+}
+
+export interface GenerationProgress {
+  phase: GenerationPhase
+  currentStep: string
+  completedSteps: string[]
+  estimatedTimeRemaining: number
+  chapterProgress: { [chapterNumber: number]: ChapterGenerationStatus }
+  errors: Array<{ step: string; error: string; resolved: boolean }>
+  chapterPreviews?: { [chapterNumber: number]: ChapterPreview }
+}
+
+/**
+ * Progress without the chapter text - what the overlay needs
+ */
+export type GenerationProgressSummary = Omit<GenerationProgress, 'chapterPreviews'>
+
+export interface ChapterStreamEvent {
+  number: number
+  title: string
+  status: ChapterGenerationStatus
+  // Either the full text, or only what was appended since the last event
+  content: string
+  append: boolean
+  summary?: string
+  keyLessons?: string[]
+}
+
+export type GenerationStreamEvent =
+  | { event: 'progress'; data: GenerationProgressSummary }
+  | { event: 'chapter'; data: ChapterStreamEvent }
+
+export function summarizeProgress(progress: GenerationProgress): GenerationProgressSummary {
+  const summary: GenerationProgressSummary & Pick<GenerationProgress, 'chapterPreviews'> = { ...progress }
+  delete summary.chapterPreviews
+  return summary
+}
+
+/**
+ * The chapter progress is about right now: the one being written, or else the
+ * last one that has text
+ */
+export function currentChapterPreview(progress: GenerationProgress): ChapterPreview | undefined {
+  const previews = Object.values(progress.chapterPreviews || {})
+  const inProgress = previews.find(preview => {
+    const status = progress.chapterProgress[preview.number]
+    return status === 'generating' || status === 'reviewing'
+  })
+  return inProgress ?? previews.reduce<ChapterPreview | undefined>(
+    (latest, preview) => (!latest || preview.number > latest.number ? preview : latest),
+    undefined
+  )
+}
+
+/**
+ * Progress with the text of the current chapter only - what is worth storing.
+ * Earlier chapters were streamed while they were current; a snapshot without
+ * them sends no chapter events for them, so listeners keep what they have.
+ */
+export function withCurrentChapterOnly(progress: GenerationProgress): GenerationProgress {
+  const current = currentChapterPreview(progress)
+  return { ...progress, chapterPreviews: current ? { [current.number]: current } : {} }
+}
+
+/**
+ * Compare two snapshots and return only what changed. Growing chapters are sent
+ * as appended text so a long chapter is not re-sent on every update.
+ */
+export function diffGenerationProgress(
+  previous: GenerationProgress | null,
+  next: GenerationProgress
+): GenerationStreamEvent[] {
+  const events: GenerationStreamEvent[] = []
+
+  const summary = summarizeProgress(next)
+  if (!previous || JSON.stringify(summarizeProgress(previous)) !== JSON.stringify(summary)) {
+    events.push({ event: 'progress', data: summary })
+  }
+
+  const previews = next.chapterPreviews || {}
+  Object.values(previews).forEach(preview => {
+    const before = previous?.chapterPreviews?.[preview.number]
+    const status = next.chapterProgress[preview.number] || 'generating'
+    const previousStatus = previous?.chapterProgress[preview.number]
+
+    if (
+      before &&
+      before.content === preview.content &&
+      before.title === preview.title &&
+      previousStatus === status &&
+      JSON.stringify(before.keyLessons) === JSON.stringify(preview.keyLessons)
+    ) {
+      return
+    }
+
+    const append = !!before && preview.content.startsWith(before.content)
+    events.push({
+      event: 'chapter',
+      data: {
+        number: preview.number,
+        title: preview.title,
+        status,
+        content: append && before ? preview.content.slice(before.content.length) : preview.content,
+        append,
+        summary: preview.summary,
+        keyLessons: preview.keyLessons
+      }
+    })
+  })
+
+  return events
+}
+
+/**
+ * Coalesce rapid progress updates into at most one publish per interval.
+ * Phase changes and completion are always published straight away.
+ */
+export function throttleProgress(
+  publish: (progress: GenerationProgress) => Promise<void> | void,
+  intervalMs = 1000
+): { update: (progress: GenerationProgress) => void; flush: () => Promise<void> } {
+  let pending: GenerationProgress | null = null
+  let lastPhase: GenerationPhase | null = null
+  let lastPublishedAt = 0
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let inFlight: Promise<void> = Promise.resolve()
+
+  const send = () => {
+    if (timer) {
+      clearTimeout(timer)
+      timer = null
+    }
+    if (!pending) return inFlight
+
+    const snapshot = pending
+    pending = null
+    lastPublishedAt = Date.now()
+    inFlight = inFlight
+      .then(() => publish(snapshot))
+      .catch(error => console.error('Failed to publish generation progress:', error))
+    return inFlight
+  }
+
+  return {
+    update: (progress) => {
+      pending = progress
+      const phaseChanged = progress.phase !== lastPhase
+      lastPhase = progress.phase
+
+      if (phaseChanged || progress.phase === 'complete' || Date.now() - lastPublishedAt >= intervalMs) {
+        send()
+      } else if (!timer) {
+        timer = setTimeout(send, intervalMs - (Date.now() - lastPublishedAt))
+      }
+    },
+    flush: () => send()
+  }
+}
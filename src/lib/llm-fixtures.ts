@@ -0,0 +1,172 @@
+import { createHash } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { ChatMessage } from './llm-providers'
+
+/**
+ * LLM Fixtures - Deterministic record/replay for agent calls
+ *
+ * In 'record' mode every agent request/response pair is written to the fixture
+ * directory, keyed by a hash of the request. In 'replay' mode the same requests are
+ * answered from disk without touching the network, so the full pipeline can run in
+ * CI and on laptops. 'auto' replays when a fixture exists and records otherwise.
+ */
+
+export type FixtureMode = 'live' | 'record' | 'replay' | 'auto'
+
+export interface FixtureRequest {
+  agentType: string
+  messages: ChatMessage[]
+  temperature: number
+  maxTokens: number
+}
+
+export interface FixtureResponse {
+  content: string
+  tokensUsed: number
+  promptTokens?: number
+  completionTokens?: number
+  model?: string
+}
+
+export type FixtureStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; response: FixtureResponse }
+
+export interface AgentFixture {
+  key: string
+  request: FixtureRequest
+  response: FixtureResponse
+  recordedAt: string
+}
+
+export interface FixtureConfig {
+  mode: FixtureMode
+  directory: string
+}
+
+export class FixtureMissingError extends Error {
+  constructor(public readonly key: string, public readonly agentType: string, directory: string) {
+    super(`No recorded fixture for ${agentType} request ${key} in ${directory}. Re-run with SOULSCRIBE_LLM_MODE=record to capture it.`)
+    this.name = 'FixtureMissingError'
+  }
+}
+
+const DEFAULT_FIXTURE_DIR = '__fixtures__/llm'
+
+let configOverride: Partial<FixtureConfig> = {}
+
+export function configureFixtures(config: Partial<FixtureConfig>): void {
+  configOverride = { ...configOverride, ...config }
+}
+
+export function resetFixtureConfig(): void {
+  configOverride = {}
+}
+
+export function getFixtureConfig(): FixtureConfig {
+  return {
+    mode: configOverride.mode || (process.env.SOULSCRIBE_LLM_MODE as FixtureMode) || 'live',
+    directory: configOverride.directory || process.env.SOULSCRIBE_FIXTURE_DIR || DEFAULT_FIXTURE_DIR
+  }
+}
+
+/**
+ * Content hash of everything that shapes a completion
+ */
+export function hashFixtureRequest(request: FixtureRequest): string {
+  const canonical = JSON.stringify({
+    agentType: request.agentType,
+    messages: request.messages.map(m => ({ role: m.role, content: m.content })),
+    temperature: request.temperature,
+    maxTokens: request.maxTokens
+  })
+  return createHash('sha256').update(canonical).digest('hex').slice(0, 24)
+}
+
+export function fixturePath(directory: string, request: FixtureRequest, key = hashFixtureRequest(request)): string {
+  return path.join(directory, request.agentType, `${key}.json`)
+}
+
+export async function loadFixture(directory: string, request: FixtureRequest): Promise<AgentFixture | null> {
+  try {
+    const raw = await fs.readFile(fixturePath(directory, request), 'utf8')
+    return JSON.parse(raw) as AgentFixture
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw error
+  }
+}
+
+export async function saveFixture(directory: string, request: FixtureRequest, response: FixtureResponse): Promise<AgentFixture> {
+  const key = hashFixtureRequest(request)
+  const fixture: AgentFixture = {
+    key,
+    request,
+    response,
+    recordedAt: new Date().toISOString()
+  }
+
+  const filePath = fixturePath(directory, request, key)
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  await fs.writeFile(filePath, JSON.stringify(fixture, null, 2) + '\n', 'utf8')
+  return fixture
+}
+
+/**
+ * Answer a request from fixtures, the live provider, or both - depending on mode
+ */
+export async function withFixtures(
+  request: FixtureRequest,
+  live: () => Promise<FixtureResponse>
+): Promise<FixtureResponse> {
+  const { mode, directory } = getFixtureConfig()
+
+  if (mode === 'live') {
+    return live()
+  }
+
+  if (mode === 'replay' || mode === 'auto') {
+    const fixture = await loadFixture(directory, request)
+    if (fixture) {
+      return fixture.response
+    }
+    if (mode === 'replay') {
+      throw new FixtureMissingError(hashFixtureRequest(request), request.agentType, directory)
+    }
+  }
+
+  const response = await live()
+  await saveFixture(directory, request, response)
+  return response
+}
+
+/**
+ * Streaming counterpart of withFixtures. Streams share fixtures with regular calls -
+ * a replayed stream yields the recorded completion as a single delta.
+ */
+export async function* streamWithFixtures(
+  request: FixtureRequest,
+  live: () => AsyncIterable<FixtureStreamEvent>
+): AsyncIterable<FixtureStreamEvent> {
+  const { mode, directory } = getFixtureConfig()
+
+  if (mode === 'replay' || mode === 'auto') {
+    const fixture = await loadFixture(directory, request)
+    if (fixture) {
+      yield { type: 'delta', text: fixture.response.content }
+      yield { type: 'done', response: fixture.response }
+      return
+    }
+    if (mode === 'replay') {
+      throw new FixtureMissingError(hashFixtureRequest(request), request.agentType, directory)
+    }
+  }
+
+  for await (const event of live()) {
+    if (event.type === 'done' && mode !== 'live') {
+      await saveFixture(directory, request, event.response)
+    }
+    yield event
+  }
+}
@@ -0,0 +1,404 @@
+/**
+ * LLM Providers - One doorway to every model SoulScribe speaks through
+ *
+ * Every agent call flows through an LLMProvider, so the whole agent stack can run
+ * against OpenAI, Anthropic, or an OpenAI-compatible local endpoint (Ollama,
+ * llama.cpp server) without touching agent code. Providers read their keys when a
+ * request is made, never at import time.
+ */
+
+export type ChatRole = 'system' | 'user' | 'assistant'
+
+export interface ChatMessage {
+  role: ChatRole
+  content: string
+}
+
+export interface CompletionRequest {
+  model: string
+  system?: string
+  messages: ChatMessage[]
+  temperature: number
+  maxTokens: number
+  jsonMode?: boolean
+}
+
+export interface CompletionResult {
+  content: string
+  model: string
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+}
+
+export type CompletionStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; result: CompletionResult }
+
+export interface LLMProvider {
+  readonly name: string
+  readonly defaultModel: string
+  complete(request: CompletionRequest): Promise<CompletionResult>
+  // Optional token streaming - providers without it are streamed as a single delta
+  stream?(request: CompletionRequest): AsyncIterable<CompletionStreamEvent>
+}
+
+export type BuiltInProviderName = 'openai' | 'anthropic' | 'local'
+
+export class ProviderError extends Error {
+  constructor(
+    public readonly provider: string,
+    message: string,
+    public readonly status?: number
+  ) {
+    super(`${provider}: ${message}`)
+    this.name = 'ProviderError'
+  }
+}
+
+interface OpenAICompatibleOptions {
+  name?: string
+  baseUrl?: string
+  apiKey?: string
+  apiKeyEnv?: string
+  defaultModel?: string
+}
+
+/**
+ * Speaks the OpenAI chat completions protocol - also used for local servers
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string
+  readonly defaultModel: string
+  private baseUrl: string
+  private apiKey?: string
+  private apiKeyEnv?: string
+
+  constructor(options: OpenAICompatibleOptions = {}) {
+    this.name = options.name || 'openai'
+    this.baseUrl = (options.baseUrl || process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/$/, '')
+    this.defaultModel = options.defaultModel || 'gpt-4o'
+    this.apiKey = options.apiKey
+    this.apiKeyEnv = options.apiKeyEnv ?? 'OPENAI_API_KEY'
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.buildHeaders(),
+      body: JSON.stringify(this.buildBody(request))
+    })
+
+    if (!response.ok) {
+      throw new ProviderError(this.name, `API error: ${response.status} ${response.statusText}`, response.status)
+    }
+
+    const data = await response.json()
+    const promptTokens = data.usage?.prompt_tokens || 0
+    const completionTokens = data.usage?.completion_tokens || 0
+
+    return {
+      content: data.choices?.[0]?.message?.content || '',
+      model: data.model || request.model,
+      promptTokens,
+      completionTokens,
+      totalTokens: data.usage?.total_tokens || promptTokens + completionTokens
+    }
+  }
+
+  async *stream(request: CompletionRequest): AsyncIterable<CompletionStreamEvent> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.buildHeaders(),
+      body: JSON.stringify({
+        ...this.buildBody(request),
+        stream: true,
+        stream_options: { include_usage: true }
+      })
+    })
+
+    if (!response.ok) {
+      throw new ProviderError(this.name, `API error: ${response.status} ${response.statusText}`, response.status)
+    }
+
+    let content = ''
+    let model = request.model
+    let usage: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number } | undefined
+
+    for await (const data of readServerSentData(response, this.name)) {
+      if (data === '[DONE]') break
+
+      const chunk = JSON.parse(data)
+      model = chunk.model || model
+      usage = chunk.usage || usage
+
+      const text = chunk.choices?.[0]?.delta?.content
+      if (text) {
+        content += text
+        yield { type: 'delta', text }
+      }
+    }
+
+    // Some OpenAI-compatible servers never send usage on streams
+    const promptTokens = usage?.prompt_tokens ?? estimateTokens(request.messages.map(m => m.content).join('\n'))
+    const completionTokens = usage?.completion_tokens ?? estimateTokens(content)
+
+    yield {
+      type: 'done',
+      result: {
+        content,
+        model,
+        promptTokens,
+        completionTokens,
+        totalTokens: usage?.total_tokens || promptTokens + completionTokens
+      }
+    }
+  }
+
+  protected buildBody(request: CompletionRequest): Record<string, unknown> {
+    return {
+      model: request.model,
+      messages: [
+        ...(request.system ? [{ role: 'system', content: request.system }] : []),
+        ...request.messages
+      ],
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(request.jsonMode && { response_format: { type: 'json_object' } })
+    }
+  }
+
+  private buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    const apiKey = this.resolveApiKey()
+    if (apiKey) {
+      headers.Authorization = `Bearer ${apiKey}`
+    }
+    return headers
+  }
+
+  private resolveApiKey(): string | undefined {
+    if (this.apiKey) return this.apiKey
+    if (!this.apiKeyEnv) return undefined
+
+    const apiKey = process.env[this.apiKeyEnv]
+    if (!apiKey && this.name === 'openai') {
+      throw new ProviderError(this.name, `Missing ${this.apiKeyEnv} environment variable`)
+    }
+    return apiKey
+  }
+}
+
+/**
+ * OpenAI-compatible local endpoint (Ollama, llama.cpp, LM Studio) - no key required
+ */
+export class LocalProvider extends OpenAIProvider {
+  constructor(options: OpenAICompatibleOptions = {}) {
+    super({
+      name: 'local',
+      baseUrl: options.baseUrl || process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+      apiKey: options.apiKey,
+      apiKeyEnv: options.apiKeyEnv ?? 'LOCAL_LLM_API_KEY',
+      defaultModel: options.defaultModel || process.env.LOCAL_LLM_MODEL || 'llama3.1'
+    })
+  }
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic'
+  readonly defaultModel: string
+  private baseUrl: string
+  private apiKey?: string
+
+  constructor(options: { apiKey?: string; baseUrl?: string; defaultModel?: string } = {}) {
+    this.apiKey = options.apiKey
+    this.baseUrl = (options.baseUrl || process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com/v1').replace(/\/$/, '')
+    this.defaultModel = options.defaultModel || 'claude-3-haiku-20240307'
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const response = await this.send(request, false)
+    const data = await response.json()
+    const promptTokens = data.usage?.input_tokens || 0
+    const completionTokens = data.usage?.output_tokens || 0
+    const content = (data.content || [])
+      .filter((block: { type: string }) => block.type === 'text')
+      .map((block: { text: string }) => block.text)
+      .join('')
+
+    return {
+      content,
+      model: data.model || request.model,
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens
+    }
+  }
+
+  async *stream(request: CompletionRequest): AsyncIterable<CompletionStreamEvent> {
+    const response = await this.send(request, true)
+
+    let content = ''
+    let model = request.model
+    let promptTokens = 0
+    let completionTokens = 0
+
+    for await (const data of readServerSentData(response, this.name)) {
+      const event = JSON.parse(data)
+
+      switch (event.type) {
+        case 'message_start':
+          model = event.message?.model || model
+          promptTokens = event.message?.usage?.input_tokens || 0
+          break
+        case 'content_block_delta':
+          if (event.delta?.type === 'text_delta' && event.delta.text) {
+            content += event.delta.text
+            yield { type: 'delta', text: event.delta.text }
+          }
+          break
+        case 'message_delta':
+          completionTokens = event.usage?.output_tokens || completionTokens
+          break
+        case 'error':
+          throw new ProviderError(this.name, event.error?.message || 'Stream error')
+      }
+    }
+
+    yield {
+      type: 'done',
+      result: { content, model, promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+    }
+  }
+
+  private async send(request: CompletionRequest, stream: boolean): Promise<Response> {
+    const apiKey = this.apiKey || process.env.ANTHROPIC_API_KEY
+    if (!apiKey) {
+      throw new ProviderError(this.name, 'Missing ANTHROPIC_API_KEY environment variable')
+    }
+
+    // Anthropic takes the system prompt separately and has no system role in messages
+    const system = [request.system, ...request.messages.filter(m => m.role === 'system').map(m => m.content)]
+      .filter(Boolean)
+      .join('\n\n')
+
+    const response = await fetch(`${this.baseUrl}/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01'
+      },
+      body: JSON.stringify({
+        model: request.model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        ...(system && { system }),
+        messages: request.messages.filter(m => m.role !== 'system'),
+        ...(stream && { stream: true })
+      })
+    })
+
+    if (!response.ok) {
+      throw new ProviderError(this.name, `API error: ${response.status} ${response.statusText}`, response.status)
+    }
+    return response
+  }
+}
+
+/**
+ * Stream a completion from any provider - falls back to one delta holding the
+ * whole completion for providers that cannot stream
+ */
+export async function* streamCompletion(
+  provider: LLMProvider,
+  request: CompletionRequest
+): AsyncIterable<CompletionStreamEvent> {
+  if (provider.stream) {
+    yield* provider.stream(request)
+    return
+  }
+
+  const result = await provider.complete(request)
+  if (result.content) {
+    yield { type: 'delta', text: result.content }
+  }
+  yield { type: 'done', result }
+}
+
+/**
+ * Yield the data payload of each server-sent event in a streaming response
+ */
+async function* readServerSentData(response: Response, provider: string): AsyncIterable<string> {
+  if (!response.body) {
+    throw new ProviderError(provider, 'Streaming response has no body')
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      buffer += decoder.decode(value, { stream: !done })
+
+      const lines = buffer.split(/\r?\n/)
+      buffer = done ? '' : lines.pop() || ''
+
+      for (const line of lines) {
+        if (line.startsWith('data:')) {
+          const data = line.slice(5).trim()
+          if (data) yield data
+        }
+      }
+
+      if (done) break
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+// Rough token count (~4 characters per token) for servers that do not report usage
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+const providerRegistry = new Map<string, LLMProvider>()
+
+/**
+ * Get a provider by name, creating built-in providers lazily from the environment
+ */
+export function getProvider(name: string): LLMProvider {
+  const registered = providerRegistry.get(name)
+  if (registered) return registered
+
+  const provider = createBuiltInProvider(name)
+  providerRegistry.set(name, provider)
+  return provider
+}
+
+/**
+ * Register (or replace) a provider - used for fixtures, tests and custom endpoints
+ */
+export function registerProvider(name: string, provider: LLMProvider): void {
+  providerRegistry.set(name, provider)
+}
+
+export function resetProviders(): void {
+  providerRegistry.clear()
+}
+
+function createBuiltInProvider(name: string): LLMProvider {
+  switch (name) {
+    case 'openai':
+      return new OpenAIProvider()
+    case 'anthropic':
+      return new AnthropicProvider()
+    case 'local':
+      return new LocalProvider()
+    default:
+      throw new ProviderError(name, 'Unknown LLM provider. Register it with registerProvider() first')
+  }
+}
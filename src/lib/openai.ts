@@ -1,27 +1,114 @@
-import OpenAI from 'openai'
 import { SOULSCRIBE_SYSTEM_PROMPT, AGENT_PROMPTS } from './soulscribe-prompt'
+import { getProvider, streamCompletion, ChatMessage, CompletionResult } from './llm-providers'
+import { withFixtures, streamWithFixtures, FixtureResponse } from './llm-fixtures'
+import { currentBudget } from './token-budget'
+import { schema, parseStructuredOutput, formatIssues, Schema, SchemaIssue, StructuredOutputError } from './agent-schemas'
 
-if (!process.env.OPENAI_API_KEY) {
-  throw new Error('Missing OPENAI_API_KEY environment variable')
-}
-
-export const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-})
-
-export type AgentType = 'soulscribe' | 'wisdom_weaver' | 'metaphor_architect' | 'character_soul' | 'learning_synthesis' | 'quality_guardian'
+export type AgentType =
+  | 'soulscribe'
+  | 'wisdom_weaver'
+  | 'metaphor_architect'
+  | 'character_soul'
+  | 'learning_synthesis'
+  | 'quality_guardian'
+  | 'encouragement_agent'
+  | 'content_parser'
+  | 'toc_processor'
+  | 'chapter_analyzer'
+  | 'voice_character_agent'
+  | 'story_bible'
+  | 'continuity_checker'
+  | 'content_safety'
 
 export interface AgentRequest {
   agentType: AgentType
-  messages: OpenAI.Chat.ChatCompletionMessageParam[]
+  messages: ChatMessage[]
   temperature?: number
   maxTokens?: number
 }
 
+export interface AgentUsage {
+  model: string
+  promptTokens: number
+  completionTokens: number
+}
+
 export interface AgentResponse {
   content: string
   tokensUsed: number
   agentType: AgentType
+  usage: AgentUsage
+}
+
+export type AgentStreamEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'done'; response: AgentResponse }
+
+export interface StructuredAgentRequest<T> extends AgentRequest {
+  schema: Schema<T>
+  // Extra attempts after the first when the reply cannot be repaired into the schema
+  maxRetries?: number
+}
+
+export interface StructuredAgentResponse<T> extends AgentResponse {
+  data: T
+  attempts: number
+}
+
+export interface AgentModelConfig {
+  provider: string
+  model?: string
+}
+
+const DEFAULT_PROVIDER = 'openai'
+
+let agentModelOverrides: Partial<Record<AgentType, AgentModelConfig>> = {}
+
+/**
+ * Override the provider/model used for specific agents at runtime.
+ * Takes precedence over SOULSCRIBE_MODEL_<AGENT_TYPE> environment variables.
+ */
+export function configureAgentModels(overrides: Partial<Record<AgentType, AgentModelConfig>>): void {
+  agentModelOverrides = { ...agentModelOverrides, ...overrides }
+}
+
+export function resetAgentModels(): void {
+  agentModelOverrides = {}
+}
+
+/**
+ * Resolve which provider and model an agent should use.
+ *
+ * Lookup order: configureAgentModels() override, then SOULSCRIBE_MODEL_<AGENT_TYPE>
+ * (e.g. SOULSCRIBE_MODEL_WISDOM_WEAVER="anthropic:claude-3-5-sonnet-latest"), then
+ * SOULSCRIBE_LLM_PROVIDER / SOULSCRIBE_LLM_MODEL, then the provider's default model.
+ */
+export function resolveAgentModel(agentType: AgentType): { provider: string; model: string } {
+  const override = agentModelOverrides[agentType] || parseModelSpec(process.env[`SOULSCRIBE_MODEL_${agentType.toUpperCase()}`])
+  const providerName = override?.provider || process.env.SOULSCRIBE_LLM_PROVIDER || DEFAULT_PROVIDER
+  const model = override?.model || process.env.SOULSCRIBE_LLM_MODEL || getProvider(providerName).defaultModel
+
+  return { provider: providerName, model }
+}
+
+function parseModelSpec(spec?: string): AgentModelConfig | undefined {
+  if (!spec) return undefined
+
+  const separator = spec.indexOf(':')
+  if (separator === -1) {
+    return { provider: spec.trim() }
+  }
+
+  return {
+    provider: spec.slice(0, separator).trim(),
+    model: spec.slice(separator + 1).trim() || undefined
+  }
+}
+
+export function getAgentSystemPrompt(agentType: AgentType): string {
+  if (agentType === 'soulscribe') return SOULSCRIBE_SYSTEM_PROMPT
+
+  return AGENT_PROMPTS[agentType.toUpperCase() as keyof typeof AGENT_PROMPTS] || SOULSCRIBE_SYSTEM_PROMPT
 }
 
 export async function callAgent({
@@ -30,30 +117,168 @@ export async function callAgent({
   temperature = 0.8,
   maxTokens = 2000
 }: AgentRequest): Promise<AgentResponse> {
-  const systemPrompt = agentType === 'soulscribe' 
-    ? SOULSCRIBE_SYSTEM_PROMPT 
-    : AGENT_PROMPTS[agentType.toUpperCase() as keyof typeof AGENT_PROMPTS]
-
-  const completion = await openai.chat.completions.create({
-    model: 'gpt-4o',
-    messages: [
-      { role: 'system', content: systemPrompt },
-      ...messages
-    ],
-    temperature,
-    max_tokens: maxTokens,
+  const response = await withFixtures({ agentType, messages, temperature, maxTokens }, async () => {
+    const { provider, model } = resolveAgentModel(agentType)
+    currentBudget()?.assertAvailable()
+
+    const completion = await getProvider(provider).complete({
+      model,
+      system: getAgentSystemPrompt(agentType),
+      messages,
+      temperature,
+      maxTokens
+    })
+
+    await recordUsage(agentType, provider, completion)
+    return toFixtureResponse(completion)
+  })
+
+  return toAgentResponse(agentType, response)
+}
+
+/**
+ * Streaming variant of callAgent - yields token deltas as the model writes, then a
+ * final 'done' event carrying the full response and tokensUsed for session logging
+ */
+export async function* streamAgent({
+  agentType,
+  messages,
+  temperature = 0.8,
+  maxTokens = 2000
+}: AgentRequest): AsyncIterable<AgentStreamEvent> {
+  const events = streamWithFixtures({ agentType, messages, temperature, maxTokens }, async function* () {
+    const { provider, model } = resolveAgentModel(agentType)
+    currentBudget()?.assertAvailable()
+
+    const completion = streamCompletion(getProvider(provider), {
+      model,
+      system: getAgentSystemPrompt(agentType),
+      messages,
+      temperature,
+      maxTokens
+    })
+
+    for await (const event of completion) {
+      if (event.type === 'delta') {
+        yield event
+      } else {
+        await recordUsage(agentType, provider, event.result)
+        yield { type: 'done', response: toFixtureResponse(event.result) }
+      }
+    }
+  })
+
+  for await (const event of events) {
+    if (event.type === 'delta') {
+      yield { type: 'delta', content: event.text }
+    } else {
+      yield { type: 'done', response: toAgentResponse(agentType, event.response) }
+    }
+  }
+}
+
+/**
+ * Call an agent with token streaming, handing each delta to onDelta as it arrives
+ */
+export async function callAgentStreaming(
+  request: AgentRequest,
+  onDelta: (delta: string) => void
+): Promise<AgentResponse> {
+  for await (const event of streamAgent(request)) {
+    if (event.type === 'delta') {
+      onDelta(event.content)
+    } else {
+      return event.response
+    }
+  }
+
+  throw new Error(`${request.agentType} stream ended without a final response`)
+}
+
+/**
+ * Call an agent that answers in JSON. The reply is repaired and validated against
+ * the schema; if it still does not fit, the agent is shown what was wrong and asked
+ * again. Throws StructuredOutputError once retries run out - never a placeholder.
+ */
+export async function callAgentStructured<T>({
+  schema: outputSchema,
+  maxRetries = 1,
+  ...request
+}: StructuredAgentRequest<T>): Promise<StructuredAgentResponse<T>> {
+  const messages = [...request.messages]
+  let tokensUsed = 0
+  const usage: AgentUsage = { model: '', promptTokens: 0, completionTokens: 0 }
+  let issues: SchemaIssue[] = []
+  let content = ''
+
+  for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+    const response = await callAgent({ ...request, messages })
+    tokensUsed += response.tokensUsed
+    usage.model = response.usage.model
+    usage.promptTokens += response.usage.promptTokens
+    usage.completionTokens += response.usage.completionTokens
+    content = response.content
+
+    const result = parseStructuredOutput(content, outputSchema)
+    if (!('issues' in result)) {
+      return { content, tokensUsed, agentType: request.agentType, usage, data: result.data, attempts: attempt }
+    }
+
+    issues = result.issues
+    messages.push(
+      { role: 'assistant', content },
+      {
+        role: 'user',
+        content: `That reply did not match the required JSON format (${formatIssues(issues)}). Respond again with only the corrected JSON - no commentary, no code fences.`
+      }
+    )
+  }
+
+  throw new StructuredOutputError(request.agentType, issues, content, maxRetries + 1)
+}
+
+/**
+ * Count a live call against the active token budget, if any. Replayed fixtures cost nothing.
+ */
+async function recordUsage(agentType: AgentType, provider: string, completion: CompletionResult): Promise<void> {
+  await currentBudget()?.record({
+    agentType,
+    provider,
+    model: completion.model,
+    promptTokens: completion.promptTokens,
+    completionTokens: completion.completionTokens
   })
+}
 
-  const content = completion.choices[0]?.message?.content || ''
-  const tokensUsed = completion.usage?.total_tokens || 0
+function toFixtureResponse(completion: CompletionResult): FixtureResponse {
+  return {
+    content: completion.content,
+    tokensUsed: completion.totalTokens,
+    promptTokens: completion.promptTokens,
+    completionTokens: completion.completionTokens,
+    model: completion.model
+  }
+}
 
+function toAgentResponse(agentType: AgentType, response: FixtureResponse): AgentResponse {
   return {
-    content,
-    tokensUsed,
-    agentType
+    content: response.content,
+    tokensUsed: response.tokensUsed,
+    agentType,
+    usage: {
+      // Fixtures recorded before usage was split only know the total
+      model: response.model || resolveAgentModel(agentType).model,
+      promptTokens: response.promptTokens ?? 0,
+      completionTokens: response.completionTokens ?? response.tokensUsed
+    }
   }
 }
 
+export const learningSynthesisSchema = schema.object({
+  summary: schema.string({ minLength: 1 }),
+  lessons: schema.array(schema.string({ minLength: 1 }), { minItems: 1 })
+})
+
 export async function generateStoryOutline(questionnaire: any): Promise<string> {
   const prompt = `Based on this story questionnaire, create a detailed story outline:
 
@@ -102,11 +327,7 @@ Write a complete chapter that:
 2. Contains rich, sensory descriptions
 3. Includes meaningful dialogue
 4. Weaves in spiritual themes naturally
-5. Maintains the SoulScribe tone and style
-
-After the chapter content, provide:
-- A brief summary (2-3 sentences)
-- Key lessons/insights from this chapter (2-3 bullet points)`
+5. Maintains the SoulScribe tone and style`
 
   const response = await callAgent({
     agentType: 'soulscribe',
@@ -115,13 +336,27 @@ After the chapter content, provide:
     maxTokens: 4000
   })
 
-  // Parse the response to extract content, summary, and lessons
-  const content = response.content
-  // This would need more sophisticated parsing in a real implementation
-  
+  // Summary and lessons come from the learning synthesis agent as validated JSON
+  const synthesis = await callAgentStructured({
+    agentType: 'learning_synthesis',
+    messages: [{
+      role: 'user',
+      content: `Create a learning synthesis for this chapter:
+
+${response.content}
+
+Provide a brief summary (2-3 sentences) and 2-3 key lessons/insights.
+
+Respond with JSON: {"summary": "...", "lessons": ["...", "..."]}`
+    }],
+    schema: learningSynthesisSchema,
+    temperature: 0.4,
+    maxTokens: 1000
+  })
+
   return {
-    content,
-    summary: "Chapter summary would be extracted here",
-    keyLessons: ["Lesson 1", "Lesson 2"]
+    content: response.content,
+    summary: synthesis.data.summary,
+    keyLessons: synthesis.data.lessons
   }
 }
\ No newline at end of file
@@ -0,0 +1,343 @@
+import { createHash } from 'crypto'
+import { prisma } from '@/lib/prisma'
+
+/**
+ * Passage Index - The story remembers every page, not just the summaries
+ *
+ * Finished chapters are cut into passages of a few paragraphs and stored in the
+ * story_passages table. Before a chapter is written, the earlier passages most
+ * relevant to it are retrieved and handed to SoulScribe, so callbacks and
+ * foreshadowing point at what was actually written and the context stays the
+ * same size however long the book gets. Passages are ranked with embeddings from
+ * a local OpenAI-compatible endpoint when SOULSCRIBE_EMBEDDING_MODEL is set, and
+ * with TF-IDF otherwise (or whenever the endpoint is unavailable).
+ */
+
+export interface Passage {
+  chapterNumber: number
+  position: number
+  content: string
+}
+
+export interface RetrievedPassage extends Passage {
+  score: number
+}
+
+export interface IndexedPassage extends Passage {
+  terms: { [term: string]: number }
+  embedding: number[]
+  embeddingModel: string | null
+}
+
+export interface Embedder {
+  model: string
+  embed(texts: string[]): Promise<number[][]>
+}
+
+export interface RetrievalOptions {
+  // Only chapters before this one are searched
+  beforeChapter: number
+  limit?: number
+}
+
+const TARGET_PASSAGE_WORDS = 150
+const DEFAULT_RETRIEVAL_LIMIT = 4
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'but', 'for', 'nor', 'yet', 'with', 'from', 'into', 'onto', 'upon', 'over', 'under',
+  'this', 'that', 'these', 'those', 'there', 'here', 'then', 'than', 'when', 'where', 'what', 'which',
+  'who', 'whom', 'whose', 'why', 'how', 'all', 'any', 'each', 'every', 'some', 'such', 'very', 'just',
+  'was', 'were', 'are', 'is', 'been', 'being', 'have', 'has', 'had', 'having', 'does', 'did', 'doing',
+  'will', 'would', 'could', 'should', 'shall', 'may', 'might', 'must', 'can', 'not', 'now', 'out',
+  'she', 'her', 'hers', 'him', 'his', 'they', 'them', 'their', 'theirs', 'you', 'your', 'yours', 'our',
+  'ours', 'its', 'it\'s', 'i\'m', 'one', 'said', 'too', 'also', 'again', 'about', 'after', 'before',
+  'chapter', 'like', 'only', 'own', 'same', 'so', 'off', 'down', 'back', 'still', 'even', 'more'
+])
+
+/**
+ * Cut chapter text into passages of roughly targetWords, never splitting a paragraph
+ */
+export function splitIntoPassages(content: string, targetWords = TARGET_PASSAGE_WORDS): string[] {
+  const paragraphs = content.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean)
+  const passages: string[] = []
+  let current: string[] = []
+  let words = 0
+
+  paragraphs.forEach(paragraph => {
+    current.push(paragraph)
+    words += paragraph.split(/\s+/).length
+
+    if (words >= targetWords) {
+      passages.push(current.join('\n\n'))
+      current = []
+      words = 0
+    }
+  })
+
+  if (current.length > 0) {
+    // A short tail belongs with the passage before it
+    if (passages.length > 0 && words < targetWords / 3) {
+      passages[passages.length - 1] += `\n\n${current.join('\n\n')}`
+    } else {
+      passages.push(current.join('\n\n'))
+    }
+  }
+
+  return passages
+}
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9']+/g) || [])
+    .map(word => word.replace(/'s$/, '').replace(/^'+|'+$/g, ''))
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+    // Light stemming so "lanterns" finds "lantern"
+    .map(word => word.length > 4 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word)
+}
+
+export function termFrequencies(text: string): { [term: string]: number } {
+  const terms: { [term: string]: number } = {}
+  tokenize(text).forEach(term => {
+    terms[term] = (terms[term] || 0) + 1
+  })
+  return terms
+}
+
+/**
+ * Rank passages against a query by TF-IDF cosine similarity. Document frequencies
+ * come from the passages themselves, so stored term counts never go stale.
+ */
+export function rankByTfIdf(query: string, passages: Array<Passage & { terms: { [term: string]: number } }>): RetrievedPassage[] {
+  const documentFrequency: { [term: string]: number } = {}
+  passages.forEach(passage => {
+    Object.keys(passage.terms).forEach(term => {
+      documentFrequency[term] = (documentFrequency[term] || 0) + 1
+    })
+  })
+
+  const idf = (term: string) => Math.log((passages.length + 1) / ((documentFrequency[term] || 0) + 1)) + 1
+  const weigh = (terms: { [term: string]: number }) => {
+    const weights: { [term: string]: number } = {}
+    Object.entries(terms).forEach(([term, count]) => {
+      weights[term] = (1 + Math.log(count)) * idf(term)
+    })
+    return weights
+  }
+
+  const queryWeights = weigh(termFrequencies(query))
+  const queryNorm = norm(Object.values(queryWeights))
+
+  return passages.map(passage => {
+    const weights = weigh(passage.terms)
+    const dot = Object.entries(queryWeights).reduce((sum, [term, weight]) => sum + weight * (weights[term] || 0), 0)
+    const denominator = queryNorm * norm(Object.values(weights))
+    return { chapterNumber: passage.chapterNumber, position: passage.position, content: passage.content, score: denominator > 0 ? dot / denominator : 0 }
+  })
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0
+  const dot = a.reduce((sum, value, index) => sum + value * b[index], 0)
+  const denominator = norm(a) * norm(b)
+  return denominator > 0 ? dot / denominator : 0
+}
+
+/**
+ * Embeddings from an OpenAI-compatible /embeddings endpoint - Ollama with
+ * nomic-embed-text or all-minilm runs comfortably on a CPU
+ */
+export class LocalEmbedder implements Embedder {
+  readonly model: string
+  private baseUrl: string
+
+  constructor(model: string, baseUrl = process.env.SOULSCRIBE_EMBEDDING_BASE_URL || process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1') {
+    this.model = model
+    this.baseUrl = baseUrl.replace(/\/$/, '')
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await fetch(`${this.baseUrl}/embeddings`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: this.model, input: texts })
+    })
+
+    if (!response.ok) {
+      throw new Error(`Embedding endpoint error: ${response.status} ${response.statusText}`)
+    }
+
+    const body = await response.json() as { data: Array<{ index: number; embedding: number[] }> }
+    return [...body.data].sort((a, b) => a.index - b.index).map(entry => entry.embedding)
+  }
+}
+
+/**
+ * The embedder configured by SOULSCRIBE_EMBEDDING_MODEL, or null for TF-IDF only
+ */
+export function defaultEmbedder(): Embedder | null {
+  const model = process.env.SOULSCRIBE_EMBEDDING_MODEL
+  return model ? new LocalEmbedder(model) : null
+}
+
+export class PassageIndex {
+  private storyId: string
+  private embedder: Embedder | null
+
+  constructor(storyId: string, embedder: Embedder | null = defaultEmbedder()) {
+    this.storyId = storyId
+    this.embedder = embedder
+  }
+
+  /**
+   * Index (or re-index) a chapter. Unchanged chapters are skipped.
+   */
+  async indexChapter(chapterNumber: number, content: string): Promise<void> {
+    const contentHash = hashContent(content)
+    const existing = await prisma.storyPassage.findFirst({
+      where: { storyId: this.storyId, chapterNumber },
+      select: { contentHash: true, embeddingModel: true }
+    })
+
+    if (existing?.contentHash === contentHash && existing.embeddingModel === (this.embedder?.model ?? null)) {
+      return
+    }
+
+    const texts = splitIntoPassages(content)
+    const embeddings = await this.tryEmbed(texts)
+
+    await prisma.$transaction([
+      prisma.storyPassage.deleteMany({ where: { storyId: this.storyId, chapterNumber } }),
+      prisma.storyPassage.createMany({
+        data: texts.map((text, position) => ({
+          storyId: this.storyId,
+          chapterNumber,
+          position,
+          content: text,
+          contentHash,
+          terms: termFrequencies(text),
+          embedding: embeddings?.[position] ?? [],
+          embeddingModel: embeddings ? this.embedder?.model ?? null : null
+        }))
+      })
+    ])
+  }
+
+  /**
+   * Bring the index up to date with chapters that were written or edited elsewhere
+   */
+  async syncChapters(chapters: Array<{ number: number; content: string }>): Promise<void> {
+    for (const chapter of chapters) {
+      await this.indexChapter(chapter.number, chapter.content)
+    }
+  }
+
+  /**
+   * The earlier passages most relevant to a query, best first
+   */
+  async retrieve(query: string, options: RetrievalOptions): Promise<RetrievedPassage[]> {
+    const rows = await prisma.storyPassage.findMany({
+      where: { storyId: this.storyId, chapterNumber: { lt: options.beforeChapter } },
+      orderBy: [{ chapterNumber: 'asc' }, { position: 'asc' }]
+    })
+    if (rows.length === 0) return []
+
+    const passages: IndexedPassage[] = rows.map(row => ({
+      chapterNumber: row.chapterNumber,
+      position: row.position,
+      content: row.content,
+      terms: row.terms as { [term: string]: number },
+      embedding: row.embedding,
+      embeddingModel: row.embeddingModel
+    }))
+
+    return rankPassages(query, passages, await this.embedQuery(query, passages))
+      .filter(passage => passage.score > 0)
+      .slice(0, options.limit ?? DEFAULT_RETRIEVAL_LIMIT)
+  }
+
+  /**
+   * Prompt section for the next chapter: where the story left off, plus the
+   * earlier passages that matter most for what happens next
+   */
+  async contextFor(chapter: { number: number; title: string; plan?: string }, options: { limit?: number } = {}): Promise<string> {
+    if (chapter.number <= 1) return ''
+
+    const lastPassage = await prisma.storyPassage.findFirst({
+      where: { storyId: this.storyId, chapterNumber: chapter.number - 1 },
+      orderBy: { position: 'desc' }
+    })
+    const retrieved = await this.retrieve(`${chapter.title}\n${chapter.plan || ''}`, {
+      beforeChapter: chapter.number,
+      limit: options.limit
+    })
+
+    return formatRetrievedPassages(
+      retrieved.filter(passage => !(lastPassage && passage.chapterNumber === lastPassage.chapterNumber && passage.position === lastPassage.position)),
+      lastPassage ?? undefined
+    )
+  }
+
+  private async embedQuery(query: string, passages: IndexedPassage[]): Promise<number[] | null> {
+    const embedder = this.embedder
+    if (!embedder || !passages.every(passage => passage.embeddingModel === embedder.model)) {
+      return null
+    }
+    const embeddings = await this.tryEmbed([query])
+    return embeddings?.[0] ?? null
+  }
+
+  private async tryEmbed(texts: string[]): Promise<number[][] | null> {
+    if (!this.embedder || texts.length === 0) return null
+
+    try {
+      return await this.embedder.embed(texts)
+    } catch (error) {
+      console.warn('Embedding failed, falling back to TF-IDF retrieval:', error instanceof Error ? error.message : error)
+      return null
+    }
+  }
+}
+
+/**
+ * Rank by embedding similarity when a query embedding is available, by TF-IDF otherwise
+ */
+export function rankPassages(query: string, passages: IndexedPassage[], queryEmbedding: number[] | null): RetrievedPassage[] {
+  const ranked = queryEmbedding
+    ? passages.map(passage => ({
+        chapterNumber: passage.chapterNumber,
+        position: passage.position,
+        content: passage.content,
+        score: cosineSimilarity(queryEmbedding, passage.embedding)
+      }))
+    : rankByTfIdf(query, passages)
+
+  return ranked.sort((a, b) => b.score - a.score)
+}
+
+/**
+ * Render retrieved passages in reading order (empty string when there are none)
+ */
+export function formatRetrievedPassages(passages: Passage[], leftOff?: Passage): string {
+  const sections: string[] = []
+
+  if (passages.length > 0) {
+    const inReadingOrder = [...passages].sort((a, b) => a.chapterNumber - b.chapterNumber || a.position - b.position)
+    sections.push(
+      'EARLIER PASSAGES (recall these for callbacks and foreshadowing):',
+      ...inReadingOrder.map(passage => `[Chapter ${passage.chapterNumber}]\n${passage.content}`)
+    )
+  }
+
+  if (leftOff) {
+    sections.push(`WHERE CHAPTER ${leftOff.chapterNumber} LEFT OFF:\n${leftOff.content}`)
+  }
+
+  return sections.join('\n\n')
+}
+
+function hashContent(content: string): string {
+  return createHash('sha1').update(content).digest('hex')
+}
+
+function norm(values: number[]): number {
+  return Math.sqrt(values.reduce((sum, value) => sum + value * value, 0))
+}
@@ -0,0 +1,188 @@
+import { schema, Infer } from '@/lib/agent-schemas'
+import { prisma } from '@/lib/prisma'
+import type { AgentType } from '@/lib/openai'
+
+/**
+ * Pipeline Stages - Every pass a chapter takes, written down
+ *
+ * Between SoulScribe's first draft and the learning synthesis, a chapter goes
+ * through a list of enhancement stages. The list is data rather than code: each
+ * quality level has a default, and a story can carry its own list (in
+ * Story.pipelineStages) that adds, removes, reorders or re-prompts stages. Each
+ * stage's output is kept as a chapter revision tagged with the stage id.
+ */
+
+export type QualityLevel = 'fast' | 'balanced' | 'premium'
+
+export const STAGE_AGENT_TYPES = [
+  'soulscribe',
+  'metaphor_architect',
+  'wisdom_weaver',
+  'character_soul',
+  'quality_guardian'
+] as const satisfies readonly AgentType[]
+
+export interface PipelineStage {
+  id: string
+  label: string
+  agentType: typeof STAGE_AGENT_TYPES[number]
+  // {{chapter}} is replaced by the text so far, {{context}} by the story context
+  prompt: string
+  temperature: number
+  maxTokens: number
+  // Polish that is skipped when the token budget runs low
+  optional: boolean
+}
+
+export const stageConfigSchema = schema.object({
+  id: schema.string({ minLength: 1 }),
+  label: schema.string().optional(),
+  agentType: schema.enum(STAGE_AGENT_TYPES).optional(),
+  prompt: schema.string({ minLength: 1 }).optional(),
+  temperature: schema.number({ min: 0, max: 2 }).optional(),
+  maxTokens: schema.number({ min: 1, max: 8000 }).optional(),
+  optional: schema.boolean().optional(),
+  enabled: schema.boolean().optional()
+})
+
+/**
+ * One entry of a story's stage list: a built-in stage id with optional
+ * overrides, or a new stage with its own id, agentType and prompt
+ */
+export type StageConfig = Infer<typeof stageConfigSchema>
+
+export const BUILT_IN_STAGES: { [id: string]: PipelineStage } = {
+  metaphor: {
+    id: 'metaphor',
+    label: 'Metaphor pass',
+    agentType: 'metaphor_architect',
+    prompt: `Review and enhance the metaphorical depth of this chapter:
+
+    Context: {{context}}
+    Chapter: {{chapter}}
+
+    Strengthen symbolic language and archetypal elements while maintaining natural flow.`,
+    temperature: 0.7,
+    maxTokens: 4000,
+    optional: true
+  },
+  character: {
+    id: 'character',
+    label: 'Character pass',
+    agentType: 'character_soul',
+    prompt: `Deepen the characters in this chapter:
+
+    Context: {{context}}
+    Chapter: {{chapter}}
+
+    Make each voice distinct and each choice feel earned, without changing what happens.`,
+    temperature: 0.7,
+    maxTokens: 4000,
+    optional: true
+  },
+  wisdom: {
+    id: 'wisdom',
+    label: 'Wisdom pass',
+    agentType: 'wisdom_weaver',
+    prompt: `Ensure this chapter carries meaningful spiritual lessons naturally:
+
+    Enhanced Chapter: {{chapter}}
+
+    Verify that wisdom is woven organically into the narrative without being preachy.`,
+    temperature: 0.6,
+    maxTokens: 4000,
+    optional: true
+  },
+  quality: {
+    id: 'quality',
+    label: 'Quality review',
+    agentType: 'quality_guardian',
+    prompt: `Perform a final quality review of this chapter:
+
+    {{chapter}}
+
+    Check for:
+    - Narrative consistency
+    - Character voice authenticity
+    - Spiritual theme integration
+    - Readability and flow
+    - SoulScribe tone adherence`,
+    temperature: 0.5,
+    maxTokens: 4000,
+    optional: false
+  }
+}
+
+export const QUALITY_LEVEL_STAGES: { [level in QualityLevel]: string[] } = {
+  fast: ['quality'],
+  balanced: ['metaphor', 'wisdom', 'quality'],
+  premium: ['metaphor', 'character', 'wisdom', 'quality']
+}
+
+export class InvalidPipelineError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'InvalidPipelineError'
+  }
+}
+
+export function isQualityLevel(value: unknown): value is QualityLevel {
+  return typeof value === 'string' && Object.hasOwn(QUALITY_LEVEL_STAGES, value)
+}
+
+/**
+ * The stages a chapter goes through, in order. Without a story-specific list the
+ * quality level's default is used. Throws InvalidPipelineError for a list that
+ * cannot run (unknown stage without agent and prompt, duplicate ids, no {{chapter}}).
+ */
+export function resolveStages(configs: StageConfig[] | null | undefined, qualityLevel: QualityLevel = 'balanced'): PipelineStage[] {
+  if (!configs) {
+    return QUALITY_LEVEL_STAGES[qualityLevel].map(id => BUILT_IN_STAGES[id])
+  }
+
+  const seen = new Set<string>()
+  return configs.flatMap(config => {
+    if (seen.has(config.id)) throw new InvalidPipelineError(`Stage "${config.id}" appears more than once`)
+    seen.add(config.id)
+
+    const base = BUILT_IN_STAGES[config.id]
+    const agentType = config.agentType ?? base?.agentType
+    const prompt = config.prompt ?? base?.prompt
+    if (!agentType || !prompt) {
+      throw new InvalidPipelineError(`Stage "${config.id}" is not built in, so it needs an agentType and a prompt`)
+    }
+    if (!prompt.includes('{{chapter}}')) {
+      throw new InvalidPipelineError(`The prompt for stage "${config.id}" must include {{chapter}}`)
+    }
+    if (config.enabled === false) return []
+
+    return [{
+      id: config.id,
+      label: config.label ?? base?.label ?? config.id,
+      agentType,
+      prompt,
+      temperature: config.temperature ?? base?.temperature ?? 0.7,
+      maxTokens: config.maxTokens ?? base?.maxTokens ?? 4000,
+      optional: config.optional ?? base?.optional ?? true
+    }]
+  })
+}
+
+export function renderStagePrompt(stage: PipelineStage, values: { chapter: string; context: string }): string {
+  return stage.prompt.replace(/\{\{(chapter|context)\}\}/g, (_, key: 'chapter' | 'context') => values[key])
+}
+
+/**
+ * The stages configured for a story (its own list, or its quality level's default)
+ */
+export async function loadStoryStages(storyId: string): Promise<PipelineStage[]> {
+  const story = await prisma.story.findUnique({
+    where: { id: storyId },
+    select: { qualityLevel: true, pipelineStages: true }
+  })
+
+  return resolveStages(
+    story?.pipelineStages as StageConfig[] | null | undefined,
+    isQualityLevel(story?.qualityLevel) ? story.qualityLevel : 'balanced'
+  )
+}
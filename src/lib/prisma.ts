@@ -1,4 +1,5 @@
-import { PrismaClient } from '@prisma/client'
+// The app owns the schema (soulscribe/prisma/schema.prisma) - agents share its generated client
+import { PrismaClient } from '../../soulscribe/src/generated/prisma'
 
 const globalForPrisma = globalThis as unknown as {
   prisma: PrismaClient | undefined
@@ -6,4 +7,4 @@ const globalForPrisma = globalThis as unknown as {
 
 export const prisma = globalForPrisma.prisma ?? new PrismaClient()
 
-if (process.env.NODE_ENV !== 'production') globalForPrisma.prisma = prisma
\ No newline at end of file
+if (process.env.NODE_ENV !== 'production') globalForPrisma.prisma = prisma
@@ -0,0 +1,412 @@
+import { schema, Infer } from '@/lib/agent-schemas'
+import type { BeatSheet } from '@/lib/beat-sheet'
+import type { ProcessedTOC, ThematicArc } from '@/agents/toc-processor-agent'
+
+/**
+ * Story Templates - Shapes a story can take
+ *
+ * A template is a story structure: acts made of chapter roles, each with the
+ * purpose the chapter serves and the beats it should hit. The outline, the table
+ * of contents and the TOC processor all follow the chosen template, so a Hero's
+ * Journey really does cross the threshold and a fable really does end on its
+ * moral. Roles are stretched or merged to fit the story's chapter count. Authors
+ * can save any finished story's structure as their own template.
+ */
+
+export type ArcType = ThematicArc['arcType']
+export type StoryStructure = ProcessedTOC['storyStructure']
+
+export interface TemplateRole {
+  role: string
+  purpose: string
+  beats: string[]
+}
+
+export interface TemplateAct {
+  title: string
+  arcType: ArcType
+  summary: string
+  roles: TemplateRole[]
+}
+
+export interface StoryTemplate {
+  id: string
+  name: string
+  description: string
+  structure: StoryStructure
+  recommendedChapters: number
+  acts: TemplateAct[]
+  builtIn: boolean
+}
+
+/**
+ * What one chapter of the story does under a template. A chapter can carry
+ * several roles (few chapters) or one part of a role (many chapters).
+ */
+export interface TemplateChapterPlan {
+  number: number
+  act: TemplateAct
+  roles: TemplateRole[]
+  part?: { index: number; of: number }
+}
+
+const ARC_TYPES = ['introduction', 'exploration', 'challenge', 'revelation', 'integration'] as const
+
+export const storyTemplateInputSchema = schema.object({
+  name: schema.string({ minLength: 1 }),
+  description: schema.string().optional(),
+  structure: schema.enum(['linear', 'episodic', 'cyclical', 'spiral'] as const).optional(),
+  recommendedChapters: schema.number({ min: 1, max: 30 }).optional(),
+  acts: schema.array(schema.object({
+    title: schema.string({ minLength: 1 }),
+    arcType: schema.enum(ARC_TYPES).optional(),
+    summary: schema.string().optional(),
+    roles: schema.array(schema.object({
+      role: schema.string({ minLength: 1 }),
+      purpose: schema.string({ minLength: 1 }),
+      beats: schema.array(schema.string()).optional()
+    }), { minItems: 1 })
+  }), { minItems: 1 })
+})
+
+export type StoryTemplateInput = Infer<typeof storyTemplateInputSchema>
+
+const role = (name: string, purpose: string, beats: string[]): TemplateRole => ({ role: name, purpose, beats })
+
+export const BUILT_IN_TEMPLATES: { [id: string]: StoryTemplate } = {
+  heros_journey: {
+    id: 'heros_journey',
+    name: "Hero's Journey",
+    description: 'The hero leaves the ordinary world, is tested and transformed, and brings a gift home.',
+    structure: 'linear',
+    recommendedChapters: 12,
+    builtIn: true,
+    acts: [
+      {
+        title: 'Departure',
+        arcType: 'introduction',
+        summary: 'The hero is called away from the life they know',
+        roles: [
+          role('The Ordinary World', 'Show the hero at home and what is missing in their life', ['Daily life and its comforts', 'A hint of the hero\'s longing or flaw']),
+          role('The Call to Adventure', 'Something disrupts the ordinary world and invites the hero out', ['The disruption arrives', 'What is at stake becomes clear']),
+          role('Refusal of the Call', 'Fear or duty makes the hero hesitate', ['The hero doubts', 'Someone or something makes staying costly']),
+          role('Meeting the Mentor', 'A guide gives the hero wisdom, a gift or courage', ['The mentor appears', 'A lesson or gift for the road']),
+          role('Crossing the Threshold', 'The hero commits and enters the unknown world', ['The last step out of the familiar', 'First sight of the new world'])
+        ]
+      },
+      {
+        title: 'Initiation',
+        arcType: 'challenge',
+        summary: 'The hero is tested and faces their greatest fear',
+        roles: [
+          role('Tests, Allies and Enemies', 'The hero learns the rules of the new world and who to trust', ['A first test', 'An ally is found', 'An enemy shows itself']),
+          role('Approach to the Inmost Cave', 'The hero prepares for the central ordeal', ['Plans and doubts', 'The danger draws near']),
+          role('The Ordeal', 'The hero faces death, loss or their deepest fear', ['Everything seems lost', 'The hero finds a strength they did not know']),
+          role('The Reward', 'Having survived, the hero claims the treasure or insight', ['The reward is taken', 'A moment of celebration or rest'])
+        ]
+      },
+      {
+        title: 'Return',
+        arcType: 'integration',
+        summary: 'The changed hero brings what they found back home',
+        roles: [
+          role('The Road Back', 'The hero turns for home, and the journey is not over', ['The decision to return', 'A final pursuit or complication']),
+          role('Resurrection', 'A last test where the hero proves they are transformed', ['The final confrontation', 'The old self is left behind']),
+          role('Return with the Elixir', 'The hero returns home with something that heals their world', ['Home again, seen with new eyes', 'The gift is shared'])
+        ]
+      }
+    ]
+  },
+  save_the_cat: {
+    id: 'save_the_cat',
+    name: 'Save the Cat',
+    description: 'Fifteen beats from the opening image to the final image, with a clear midpoint and dark night of the soul.',
+    structure: 'linear',
+    recommendedChapters: 10,
+    builtIn: true,
+    acts: [
+      {
+        title: 'Act One',
+        arcType: 'introduction',
+        summary: 'The world before, and the event that breaks it open',
+        roles: [
+          role('Opening Image', 'A snapshot of the hero\'s world and problem before anything changes', ['An image that sets the tone']),
+          role('Theme Stated', 'Someone states the lesson the hero will have to learn', ['The theme is spoken, usually to the hero']),
+          role('Set-Up', 'The hero\'s life, flaws and the things that need fixing', ['Home, work or play', 'What the hero wants versus needs']),
+          role('Catalyst', 'The event that knocks the hero\'s life off course', ['The life-changing moment']),
+          role('Debate', 'The hero wrestles with what to do', ['Should I go?', 'The cost of each choice'])
+        ]
+      },
+      {
+        title: 'Act Two',
+        arcType: 'challenge',
+        summary: 'The upside-down world, its fun, its false victory and its collapse',
+        roles: [
+          role('Break into Two', 'The hero chooses to enter a new world or way of being', ['A clear decision']),
+          role('B Story', 'A new relationship that carries the theme', ['A friend, love or mentor enters']),
+          role('Fun and Games', 'The promise of the premise - the hero explores the new world', ['Delight and discovery', 'Small wins and stumbles']),
+          role('Midpoint', 'A false victory or false defeat raises the stakes', ['The stakes rise', 'The clock starts']),
+          role('Bad Guys Close In', 'Doubt, jealousy and outside forces squeeze the hero', ['Pressure from outside', 'Cracks from within']),
+          role('All Is Lost', 'The lowest point - something or someone is lost', ['The whiff of death']),
+          role('Dark Night of the Soul', 'The hero sits with the loss and finally sees the lesson', ['Grief and reflection', 'The realisation'])
+        ]
+      },
+      {
+        title: 'Act Three',
+        arcType: 'integration',
+        summary: 'The hero acts on the lesson and the world changes',
+        roles: [
+          role('Break into Three', 'The hero finds the solution by joining A and B stories', ['The new idea']),
+          role('Finale', 'The hero puts the lesson into action and wins the day', ['The plan', 'The twist', 'The victory']),
+          role('Final Image', 'The opposite of the opening image - proof of change', ['The world after'])
+        ]
+      }
+    ]
+  },
+  fable: {
+    id: 'fable',
+    name: 'Fable with a Moral',
+    description: 'A short tale, often with animals, where a choice and its consequence teach one clear moral.',
+    structure: 'linear',
+    recommendedChapters: 3,
+    builtIn: true,
+    acts: [
+      {
+        title: 'The Tale',
+        arcType: 'exploration',
+        summary: 'A character, a choice and what comes of it',
+        roles: [
+          role('The Character and Their Way', 'Introduce the main character and the trait the moral is about', ['Where they live', 'The habit or flaw that matters']),
+          role('The Choice', 'A situation tempts or tests the character and they choose', ['The temptation or test', 'The choice is made']),
+          role('The Consequence', 'The result of the choice plays out, good or bad', ['What follows from the choice', 'How others are affected'])
+        ]
+      },
+      {
+        title: 'The Moral',
+        arcType: 'revelation',
+        summary: 'The lesson, stated simply',
+        roles: [
+          role('The Moral', 'End with the lesson in one memorable line', ['The character understands', 'The moral, stated plainly'])
+        ]
+      }
+    ]
+  },
+  bedtime_loop: {
+    id: 'bedtime_loop',
+    name: 'Bedtime Story Loop',
+    description: 'A gentle, circular tale that sets out from a cosy place and comes home to sleep.',
+    structure: 'cyclical',
+    recommendedChapters: 4,
+    builtIn: true,
+    acts: [
+      {
+        title: 'The Gentle Circle',
+        arcType: 'exploration',
+        summary: 'From the cosy beginning, out into wonder, and home again',
+        roles: [
+          role('Settling In', 'A cosy, safe opening that slows the reader down', ['Soft sounds and warm light', 'A small wish or question']),
+          role('The Little Adventure', 'A calm journey with wonder and no real danger', ['Something gently wondrous', 'A friendly helper']),
+          role('The Way Home', 'Turning back toward home, with repetition the child can join in', ['A repeated refrain', 'Familiar places return']),
+          role('Drifting to Sleep', 'Back where it began; everything is safe and still', ['The opening image returns', 'Eyes close, the world rests'])
+        ]
+      }
+    ]
+  },
+  meditation_series: {
+    id: 'meditation_series',
+    name: '7-Day Meditation Series',
+    description: 'Seven short chapters, one a day, each a story that carries a single meditation practice.',
+    structure: 'episodic',
+    recommendedChapters: 7,
+    builtIn: true,
+    acts: [
+      {
+        title: 'Arriving',
+        arcType: 'introduction',
+        summary: 'Coming into the breath and the body',
+        roles: [
+          role('Day 1: The Breath', 'A story that ends in a simple breathing practice', ['Noticing the breath', 'A closing practice of a few breaths']),
+          role('Day 2: The Body', 'A story about listening to the body', ['A body scan woven into the story'])
+        ]
+      },
+      {
+        title: 'Opening',
+        arcType: 'exploration',
+        summary: 'Senses, feelings and kindness',
+        roles: [
+          role('Day 3: The Senses', 'A story rich in sound, touch and smell', ['A listening or seeing practice']),
+          role('Day 4: Feelings', 'A story about welcoming a difficult feeling', ['Naming the feeling', 'Breathing with it']),
+          role('Day 5: Kindness', 'A story of kindness toward self and others', ['A loving-kindness practice'])
+        ]
+      },
+      {
+        title: 'Resting',
+        arcType: 'integration',
+        summary: 'Letting go and carrying the practice on',
+        roles: [
+          role('Day 6: Letting Go', 'A story about releasing what we hold on to', ['A letting-go practice']),
+          role('Day 7: Coming Home', 'A story that gathers the week together', ['Remembering each day', 'A practice to keep'])
+        ]
+      }
+    ]
+  }
+}
+
+export function isBuiltInTemplate(id: string): boolean {
+  return Object.hasOwn(BUILT_IN_TEMPLATES, id)
+}
+
+function templateRoles(template: StoryTemplate): Array<{ act: TemplateAct; role: TemplateRole }> {
+  return template.acts.flatMap(act => act.roles.map(role => ({ act, role })))
+}
+
+/**
+ * Lay the template's roles over the story's chapters in order. With fewer chapters
+ * than roles, neighbouring roles share a chapter; with more, a role spans several.
+ */
+export function fitTemplate(template: StoryTemplate, chapterCount: number): TemplateChapterPlan[] {
+  const roles = templateRoles(template)
+  const count = Math.max(1, Math.round(chapterCount))
+  // The chapter each role starts in - several roles can start in the same one
+  const starts = roles.map((_, roleIndex) => Math.floor(roleIndex * count / roles.length))
+
+  return Array.from({ length: count }, (_, index) => {
+    const assigned = roles.filter((_, roleIndex) => starts[roleIndex] === index)
+    if (count <= roles.length) {
+      return { number: index + 1, act: assigned[0].act, roles: assigned.map(entry => entry.role) }
+    }
+
+    // With more chapters than roles, a role runs on until the next one starts
+    const roleIndex = starts.filter(start => start <= index).length - 1
+    const end = roleIndex + 1 < roles.length ? starts[roleIndex + 1] : count
+    const span = end - starts[roleIndex]
+    return {
+      number: index + 1,
+      act: roles[roleIndex].act,
+      roles: [roles[roleIndex].role],
+      ...(span > 1 ? { part: { index: index - starts[roleIndex] + 1, of: span } } : {})
+    }
+  })
+}
+
+/**
+ * The fitted template as instructions for the outline and TOC prompts
+ */
+export function formatTemplateGuide(template: StoryTemplate, chapterCount: number): string {
+  const plan = fitTemplate(template, chapterCount)
+  const lines = [`STORY STRUCTURE: ${template.name} - ${template.description}`]
+  let currentAct: TemplateAct | null = null
+
+  plan.forEach(chapter => {
+    if (chapter.act !== currentAct) {
+      currentAct = chapter.act
+      lines.push('', `${chapter.act.title}: ${chapter.act.summary}`)
+    }
+    const names = chapter.roles.map(role => role.role).join(' + ')
+    const part = chapter.part ? ` (part ${chapter.part.index} of ${chapter.part.of})` : ''
+    lines.push(`Chapter ${chapter.number} - ${names}${part}: ${chapter.roles.map(role => role.purpose).join(' Then: ')}`)
+    const beats = chapter.roles.flatMap(role => role.beats)
+    if (beats.length > 0) lines.push(`  Beats: ${beats.join('; ')}`)
+  })
+  return lines.join('\n')
+}
+
+/**
+ * The template's acts as thematic arcs over the story's chapters
+ */
+export function templateThematicArcs(template: StoryTemplate, chapterCount: number): ThematicArc[] {
+  const plan = fitTemplate(template, chapterCount)
+  return template.acts
+    .map(act => ({
+      name: act.title,
+      chapters: plan.filter(chapter => chapter.act === act).map(chapter => chapter.number),
+      centralLesson: act.summary,
+      arcType: act.arcType
+    }))
+    .filter(arc => arc.chapters.length > 0)
+}
+
+/**
+ * The role names each chapter plays, for labelling the TOC
+ */
+export function chapterRoleLabel(plan: TemplateChapterPlan): string {
+  return plan.roles.map(role => role.role).join(' + ') + (plan.part ? ` (${plan.part.index}/${plan.part.of})` : '')
+}
+
+/**
+ * A validated definition as a template the pipeline can follow
+ */
+export function templateFromInput(id: string, input: StoryTemplateInput): StoryTemplate {
+  const roleCount = input.acts.reduce((sum, act) => sum + act.roles.length, 0)
+  return {
+    id,
+    name: input.name.trim(),
+    description: input.description?.trim() || '',
+    structure: input.structure ?? 'linear',
+    recommendedChapters: Math.round(input.recommendedChapters ?? roleCount),
+    builtIn: false,
+    acts: input.acts.map(act => ({
+      title: act.title.trim(),
+      arcType: act.arcType ?? 'exploration',
+      summary: act.summary?.trim() || '',
+      roles: act.roles.map(entry => role(entry.role.trim(), entry.purpose.trim(), (entry.beats || []).map(beat => beat.trim()).filter(Boolean)))
+    }))
+  }
+}
+
+/**
+ * A template made from a story's beat sheet: its acts stay acts and every chapter
+ * becomes a role, with the chapter's summary and lesson as its purpose
+ */
+export function templateInputFromBeatSheet(
+  beatSheet: BeatSheet,
+  details: { name: string; description?: string; structure?: StoryStructure }
+): StoryTemplateInput {
+  const chapterCount = beatSheet.acts.reduce((sum, act) => sum + act.chapters.length, 0)
+  return {
+    name: details.name,
+    description: details.description,
+    structure: details.structure,
+    recommendedChapters: chapterCount,
+    acts: beatSheet.acts
+      .filter(act => act.chapters.length > 0)
+      .map(act => ({
+        title: act.title,
+        arcType: act.arcType,
+        summary: act.summary,
+        roles: act.chapters.map(chapter => ({
+          role: chapter.title,
+          purpose: [chapter.summary, chapter.lesson && `Lesson: ${chapter.lesson}`].filter(Boolean).join(' - ') || chapter.title,
+          beats: chapter.beats.map(beat => beat.description)
+        }))
+      }))
+  }
+}
+
+/**
+ * A template made from a story's written chapters, for stories with no beat sheet
+ * or table of contents: one act, every chapter a role with its summary as purpose
+ */
+export function templateInputFromChapters(
+  chapters: { number: number; title: string; summary: string | null; keyLessons: string[] }[],
+  details: { name: string; description?: string; structure?: StoryStructure }
+): StoryTemplateInput {
+  return {
+    name: details.name,
+    description: details.description,
+    structure: details.structure,
+    recommendedChapters: chapters.length,
+    acts: [{
+      title: 'The Journey',
+      arcType: 'exploration',
+      summary: '',
+      roles: [...chapters]
+        .sort((a, b) => a.number - b.number)
+        .map(chapter => ({
+          role: chapter.title,
+          purpose: [chapter.summary, chapter.keyLessons[0] && `Lesson: ${chapter.keyLessons[0]}`].filter(Boolean).join(' - ') || chapter.title,
+          beats: []
+        }))
+    }]
+  }
+}
@@ -0,0 +1,298 @@
+/**
+ * Text Analytics - Counting what can be counted, so the models only judge what can't
+ *
+ * Pure, deterministic measurements of chapter text: sentence and paragraph stats,
+ * Flesch-Kincaid and Dale-Chall readability, how much of the text is dialogue,
+ * phrases that repeat too often, and whether the vocabulary suits the story's
+ * audience. No model calls - the same text always gets the same numbers.
+ *
+ * Dale-Chall is approximated: a word counts as familiar when it has one syllable
+ * or appears in a core list of common longer words, instead of the full 3,000-word list.
+ */
+
+export type Audience = 'child' | 'teen' | 'adult' | 'all_ages'
+
+export interface TextStats {
+  wordCount: number
+  sentenceCount: number
+  paragraphCount: number
+  syllableCount: number
+  averageSentenceLength: number // words
+  averageParagraphLength: number // sentences
+  longestSentenceLength: number // words
+}
+
+export interface Readability {
+  fleschReadingEase: number // 0-100, higher is easier
+  fleschKincaidGrade: number
+  daleChallScore: number // 4.9 and below reads easily at grade 4
+  difficultWordRatio: number
+}
+
+export interface RepeatedPhrase {
+  phrase: string
+  count: number
+}
+
+export interface VocabularyFit {
+  audience: Audience
+  gradeLevel: number
+  maxGrade: number
+  difficultWordRatio: number
+  maxDifficultWordRatio: number
+  fits: boolean
+  issues: string[]
+}
+
+export interface TextAnalysis {
+  stats: TextStats
+  readability: Readability
+  dialogueRatio: number
+  repeatedPhrases: RepeatedPhrase[]
+  vocabulary: VocabularyFit
+}
+
+export const VOCABULARY_LEVELS: { [audience in Audience]: { maxGrade: number; maxDifficultWordRatio: number; maxSentenceLength: number } } = {
+  child: { maxGrade: 5, maxDifficultWordRatio: 0.12, maxSentenceLength: 15 },
+  all_ages: { maxGrade: 7, maxDifficultWordRatio: 0.15, maxSentenceLength: 18 },
+  teen: { maxGrade: 10, maxDifficultWordRatio: 0.22, maxSentenceLength: 22 },
+  adult: { maxGrade: 14, maxDifficultWordRatio: 0.3, maxSentenceLength: 28 }
+}
+
+const MIN_PHRASE_WORDS = 3
+const MAX_PHRASE_WORDS = 5
+const MIN_PHRASE_REPEATS = 3
+const MAX_REPEATED_PHRASES = 10
+
+// Common words of two or more syllables that young readers know
+const FAMILIAR_WORDS = new Set([
+  'about', 'above', 'across', 'after', 'afternoon', 'again', 'against', 'along', 'alone', 'already',
+  'also', 'always', 'among', 'animal', 'another', 'answer', 'any', 'anyone', 'anything', 'apple',
+  'around', 'asleep', 'away', 'awake', 'baby', 'basket', 'because', 'become', 'bedroom', 'before',
+  'began', 'begin', 'behind', 'believe', 'below', 'beside', 'better', 'between', 'birthday', 'blanket',
+  'body', 'bottle', 'bottom', 'brother', 'butter', 'butterfly', 'button', 'candle', 'careful', 'carry',
+  'castle', 'center', 'children', 'circle', 'city', 'clever', 'color', 'colour', 'corner', 'country',
+  'cousin', 'cover', 'dinner', 'doctor', 'dragon', 'during', 'early', 'easy', 'elephant', 'empty',
+  'enough', 'even', 'evening', 'ever', 'every', 'everyone', 'everything', 'fairy', 'family', 'farmer',
+  'father', 'feather', 'finger', 'finish', 'flower', 'follow', 'forest', 'forget', 'forgot', 'forward',
+  'garden', 'gather', 'gentle', 'giant', 'golden', 'goodbye', 'grandfather', 'grandmother', 'happen',
+  'happy', 'heavy', 'hello', 'herself', 'himself', 'hollow', 'honey', 'however', 'hundred', 'hungry',
+  'hurry', 'inside', 'into', 'island', 'itself', 'jacket', 'kitchen', 'kitten', 'ladder', 'lady',
+  'later', 'lesson', 'letter', 'little', 'lonely', 'lovely', 'magic', 'many', 'maybe', 'meadow',
+  'middle', 'minute', 'mirror', 'moment', 'money', 'monkey', 'morning', 'mother', 'mountain', 'music',
+  'myself', 'narrow', 'never', 'nothing', 'number', 'ocean', 'often', 'only', 'open', 'orange',
+  'other', 'outside', 'over', 'paper', 'party', 'people', 'perhaps', 'picture', 'pillow', 'pocket',
+  'pony', 'present', 'pretty', 'problem', 'promise', 'puppy', 'quiet', 'rabbit', 'rainbow', 'ready',
+  'really', 'remember', 'river', 'second', 'secret', 'seven', 'shadow', 'shoulder', 'silver', 'simple',
+  'sister', 'sleepy', 'slowly', 'something', 'sometimes', 'somewhere', 'sorry', 'special', 'spider',
+  'story', 'sudden', 'suddenly', 'summer', 'supper', 'table', 'teacher', 'today', 'together', 'tomorrow',
+  'tonight', 'toward', 'towards', 'travel', 'treasure', 'under', 'until', 'upon', 'very', 'village',
+  'visit', 'wagon', 'water', 'whisper', 'window', 'winter', 'wonder', 'wonderful', 'yellow', 'yesterday'
+])
+
+// Phrases made only of these are too ordinary to count as repetition
+const FUNCTION_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'but', 'or', 'of', 'to', 'in', 'on', 'at', 'by', 'for', 'with', 'from',
+  'as', 'is', 'was', 'were', 'are', 'be', 'been', 'it', 'its', 'he', 'she', 'they', 'we', 'i', 'you',
+  'his', 'her', 'their', 'our', 'my', 'your', 'him', 'them', 'us', 'me', 'that', 'this', 'there',
+  'had', 'has', 'have', 'did', 'do', 'not', 'so', 'if', 'then', 'up', 'out', 'into', 'said'
+])
+
+export function audienceFor(targetAge: string | null | undefined): Audience {
+  const age = (targetAge || '').toLowerCase()
+  if (/child|kid|young reader/.test(age)) return 'child'
+  if (/teen|young adult|ya\b/.test(age)) return 'teen'
+  if (/adult/.test(age)) return 'adult'
+  return 'all_ages'
+}
+
+export function splitParagraphs(text: string): string[] {
+  return text.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean)
+}
+
+/**
+ * Split on sentence-ending punctuation, but only where the next sentence starts with
+ * a capital - so `"Wait!" she said.` and `Dr. Moss` stay one sentence
+ */
+export function splitSentences(text: string): string[] {
+  return splitParagraphs(text).flatMap(paragraph =>
+    paragraph
+      .split(/(?<!\b(?:Mr|Mrs|Ms|Dr|St|Mt|Jr|Sr)\.)(?<=[.!?…]['"”’)]*)\s+(?=['"“‘(]?[A-Z0-9[])/)
+      .map(sentence => sentence.trim())
+      .filter(sentence => countWordsIn(sentence) > 0)
+  )
+}
+
+export function tokenizeWords(text: string): string[] {
+  return text.replace(/\[S\d+\]/g, ' ').match(/[A-Za-z]+(?:['’][A-Za-z]+)*/g) || []
+}
+
+function countWordsIn(text: string): number {
+  return tokenizeWords(text).length
+}
+
+/**
+ * Vowel-group estimate of a word's syllables - close enough for readability formulas
+ */
+export function countSyllables(word: string): number {
+  const letters = word.toLowerCase().replace(/['’].*$/, '').replace(/[^a-z]/g, '')
+  if (!letters) return 0
+  if (letters.length <= 3) return 1
+
+  const trimmed = letters.replace(/(?:[^laeiouy]es|[^laeiouy]ed|[^laeiouy]e)$/, '').replace(/^y/, '')
+  const groups = trimmed.match(/[aeiouy]{1,2}/g)
+  return Math.max(1, groups ? groups.length : 0)
+}
+
+function baseForms(word: string): string[] {
+  const lower = word.toLowerCase().replace(/['’](?:s|d|ll|ve|re|t)$/, '').replace(/n['’]t$/, '')
+  const forms = [lower]
+  if (lower.endsWith('ies')) forms.push(lower.slice(0, -3) + 'y')
+  if (lower.endsWith('ied')) forms.push(lower.slice(0, -3) + 'y')
+  for (const suffix of ['es', 's', 'ed', 'd', 'ing', 'er', 'est', 'ly']) {
+    if (lower.endsWith(suffix) && lower.length > suffix.length + 2) forms.push(lower.slice(0, -suffix.length))
+  }
+  return forms
+}
+
+export function isDifficultWord(word: string): boolean {
+  return !baseForms(word).some(form => countSyllables(form) <= 1 || FAMILIAR_WORDS.has(form))
+}
+
+export function computeStats(text: string): TextStats {
+  const paragraphs = splitParagraphs(text)
+  const sentenceLengths = splitSentences(text).map(countWordsIn)
+  const words = tokenizeWords(text)
+  const sentenceCount = sentenceLengths.length
+
+  return {
+    wordCount: words.length,
+    sentenceCount,
+    paragraphCount: paragraphs.length,
+    syllableCount: words.reduce((sum, word) => sum + countSyllables(word), 0),
+    averageSentenceLength: round(sentenceCount ? words.length / sentenceCount : 0),
+    averageParagraphLength: round(paragraphs.length ? sentenceCount / paragraphs.length : 0),
+    longestSentenceLength: sentenceLengths.length ? Math.max(...sentenceLengths) : 0
+  }
+}
+
+export function computeReadability(text: string, stats = computeStats(text)): Readability {
+  if (stats.wordCount === 0 || stats.sentenceCount === 0) {
+    return { fleschReadingEase: 100, fleschKincaidGrade: 0, daleChallScore: 0, difficultWordRatio: 0 }
+  }
+
+  const wordsPerSentence = stats.wordCount / stats.sentenceCount
+  const syllablesPerWord = stats.syllableCount / stats.wordCount
+  const difficultWordRatio = tokenizeWords(text).filter(isDifficultWord).length / stats.wordCount
+  const daleChall = 0.1579 * difficultWordRatio * 100 + 0.0496 * wordsPerSentence + (difficultWordRatio > 0.05 ? 3.6365 : 0)
+
+  return {
+    fleschReadingEase: round(Math.min(100, Math.max(0, 206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord))),
+    fleschKincaidGrade: round(Math.max(0, 0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59)),
+    daleChallScore: round(daleChall),
+    difficultWordRatio: round(difficultWordRatio)
+  }
+}
+
+/**
+ * Share of the words spoken aloud - inside quotation marks or on a [S1]-tagged line
+ */
+export function computeDialogueRatio(text: string): number {
+  const total = countWordsIn(text)
+  if (total === 0) return 0
+
+  let spoken = 0
+  for (const line of text.split('\n')) {
+    const quoted = line.match(/“[^”]*”|"[^"]*"/g)
+    if (quoted) {
+      spoken += quoted.reduce((sum, quote) => sum + countWordsIn(quote), 0)
+    } else if (/^\s*\[S\d+\]/.test(line)) {
+      spoken += countWordsIn(line)
+    }
+  }
+  return round(Math.min(1, spoken / total))
+}
+
+/**
+ * Three- to five-word phrases used at least minCount times, longest and most frequent first.
+ * A phrase is dropped when a longer repeated phrase that contains it accounts for all its uses.
+ */
+export function findRepeatedPhrases(text: string, minCount = MIN_PHRASE_REPEATS): RepeatedPhrase[] {
+  const counts = new Map<string, number>()
+  for (const sentence of splitSentences(text)) {
+    const words = tokenizeWords(sentence).map(word => word.toLowerCase())
+    for (let size = MIN_PHRASE_WORDS; size <= MAX_PHRASE_WORDS; size++) {
+      for (let start = 0; start + size <= words.length; start++) {
+        const phraseWords = words.slice(start, start + size)
+        if (phraseWords.every(word => FUNCTION_WORDS.has(word))) continue
+        const phrase = phraseWords.join(' ')
+        counts.set(phrase, (counts.get(phrase) || 0) + 1)
+      }
+    }
+  }
+
+  const repeated = [...counts.entries()]
+    .filter(([, count]) => count >= minCount)
+    .map(([phrase, count]) => ({ phrase, count }))
+    .sort((a, b) => b.phrase.split(' ').length - a.phrase.split(' ').length || b.count - a.count)
+
+  const kept: RepeatedPhrase[] = []
+  for (const candidate of repeated) {
+    const covered = kept.some(longer => longer.count >= candidate.count && ` ${longer.phrase} `.includes(` ${candidate.phrase} `))
+    if (!covered) kept.push(candidate)
+  }
+
+  return kept
+    .sort((a, b) => b.count * b.phrase.split(' ').length - a.count * a.phrase.split(' ').length)
+    .slice(0, MAX_REPEATED_PHRASES)
+}
+
+/**
+ * Whether the reading level suits the audience, with what is off when it doesn't
+ */
+export function assessVocabulary(stats: TextStats, readability: Readability, targetAge: string | null | undefined): VocabularyFit {
+  const audience = audienceFor(targetAge)
+  const level = VOCABULARY_LEVELS[audience]
+  const issues: string[] = []
+
+  if (readability.fleschKincaidGrade > level.maxGrade) {
+    issues.push(`Reads at about grade ${readability.fleschKincaidGrade.toFixed(1)}; aim for grade ${level.maxGrade} or below`)
+  }
+  if (readability.difficultWordRatio > level.maxDifficultWordRatio) {
+    issues.push(`${Math.round(readability.difficultWordRatio * 100)}% of words are uncommon; aim for ${Math.round(level.maxDifficultWordRatio * 100)}% or fewer`)
+  }
+  if (stats.averageSentenceLength > level.maxSentenceLength) {
+    issues.push(`Sentences average ${stats.averageSentenceLength.toFixed(1)} words; aim for ${level.maxSentenceLength} or fewer`)
+  }
+
+  return {
+    audience,
+    gradeLevel: readability.fleschKincaidGrade,
+    maxGrade: level.maxGrade,
+    difficultWordRatio: readability.difficultWordRatio,
+    maxDifficultWordRatio: level.maxDifficultWordRatio,
+    fits: issues.length === 0,
+    issues
+  }
+}
+
+/**
+ * Everything above in one pass over the text
+ */
+export function analyzeText(text: string, targetAge?: string | null): TextAnalysis {
+  const stats = computeStats(text)
+  const readability = computeReadability(text, stats)
+
+  return {
+    stats,
+    readability,
+    dialogueRatio: computeDialogueRatio(text),
+    repeatedPhrases: findRepeatedPhrases(text),
+    vocabulary: assessVocabulary(stats, readability, targetAge)
+  }
+}
+
+function round(value: number, places = 2): number {
+  const factor = 10 ** places
+  return Math.round(value * factor) / factor
+}
@@ -0,0 +1,117 @@
+/**
+ * Text Diff - What changed, word by word
+ *
+ * A small word-level diff for showing rewrites to authors: the common prefix and
+ * suffix are trimmed, the middle is compared with a longest-common-subsequence
+ * table, and neighbouring segments of the same kind are merged. Very large
+ * middles are compared paragraph by paragraph instead to keep memory bounded.
+ */
+
+export type DiffOperation = 'equal' | 'insert' | 'delete'
+
+export interface DiffSegment {
+  type: DiffOperation
+  text: string
+}
+
+export interface DiffStats {
+  insertedWords: number
+  deletedWords: number
+}
+
+// Above this many cells the LCS table is skipped in favour of paragraph tokens
+const MAX_LCS_CELLS = 4_000_000
+
+export function diffWords(before: string, after: string): DiffSegment[] {
+  return diffTokens(tokenizeWords(before), tokenizeWords(after), () => diffTokens(tokenizeParagraphs(before), tokenizeParagraphs(after)))
+}
+
+export function diffStats(segments: DiffSegment[]): DiffStats {
+  const count = (text: string) => (text.match(/\S+/g) || []).length
+  return segments.reduce((stats, segment) => ({
+    insertedWords: stats.insertedWords + (segment.type === 'insert' ? count(segment.text) : 0),
+    deletedWords: stats.deletedWords + (segment.type === 'delete' ? count(segment.text) : 0)
+  }), { insertedWords: 0, deletedWords: 0 })
+}
+
+export function hasChanges(segments: DiffSegment[]): boolean {
+  return segments.some(segment => segment.type !== 'equal')
+}
+
+function diffTokens(before: string[], after: string[], tooLarge?: () => DiffSegment[]): DiffSegment[] {
+  let prefix = 0
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) prefix++
+
+  let suffix = 0
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) suffix++
+
+  const oldMiddle = before.slice(prefix, before.length - suffix)
+  const newMiddle = after.slice(prefix, after.length - suffix)
+
+  if (tooLarge && (oldMiddle.length + 1) * (newMiddle.length + 1) > MAX_LCS_CELLS) {
+    return tooLarge()
+  }
+
+  const segments: DiffSegment[] = []
+  push(segments, 'equal', before.slice(0, prefix).join(''))
+  lcsDiff(oldMiddle, newMiddle).forEach(segment => push(segments, segment.type, segment.text))
+  push(segments, 'equal', before.slice(before.length - suffix).join(''))
+  return segments
+}
+
+function lcsDiff(before: string[], after: string[]): DiffSegment[] {
+  const rows = before.length + 1
+  const columns = after.length + 1
+  // lengths[i * columns + j] = LCS length of before[i:] and after[j:]
+  const lengths = new Uint32Array(rows * columns)
+
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i * columns + j] = before[i] === after[j]
+        ? lengths[(i + 1) * columns + j + 1] + 1
+        : Math.max(lengths[(i + 1) * columns + j], lengths[i * columns + j + 1])
+    }
+  }
+
+  const segments: DiffSegment[] = []
+  let i = 0
+  let j = 0
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      push(segments, 'equal', before[i])
+      i++
+      j++
+    } else if (lengths[(i + 1) * columns + j] >= lengths[i * columns + j + 1]) {
+      push(segments, 'delete', before[i++])
+    } else {
+      push(segments, 'insert', after[j++])
+    }
+  }
+  while (i < before.length) push(segments, 'delete', before[i++])
+  while (j < after.length) push(segments, 'insert', after[j++])
+
+  return segments
+}
+
+function push(segments: DiffSegment[], type: DiffOperation, text: string): void {
+  if (!text) return
+  const last = segments[segments.length - 1]
+  if (last && last.type === type) {
+    last.text += text
+  } else {
+    segments.push({ type, text })
+  }
+}
+
+// Words and the whitespace between them are separate tokens, so joins are lossless
+function tokenizeWords(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) || []
+}
+
+function tokenizeParagraphs(text: string): string[] {
+  return text.match(/\n\s*\n|\n|[^\n]+(?:\n(?!\s*\n)[^\n]*)*/g) || []
+}
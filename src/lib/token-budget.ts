@@ -0,0 +1,304 @@
+import { AsyncLocalStorage } from 'async_hooks'
+import { prisma } from '@/lib/prisma'
+
+/**
+ * Token Budgets - Every story gets a generous cup, never a bottomless one
+ *
+ * Each LLM call made inside a budget scope is written to the token_usage ledger
+ * (prompt and completion tokens, model, estimated cost). Budgets are enforced per
+ * story (Story.tokenBudget) and per user per calendar month (User.monthlyTokenBudget),
+ * falling back to SOULSCRIBE_STORY_TOKEN_BUDGET / SOULSCRIBE_USER_MONTHLY_TOKEN_BUDGET.
+ * A missing limit means unlimited.
+ */
+
+export interface ModelPricing {
+  // USD per million tokens
+  promptPerMillion: number
+  completionPerMillion: number
+}
+
+export interface TokenUsageInput {
+  agentType: string
+  provider: string
+  model: string
+  promptTokens: number
+  completionTokens: number
+}
+
+export type BudgetStatus = 'ok' | 'low' | 'exhausted'
+
+export interface BudgetLimits {
+  storyLimit?: number | null
+  userLimit?: number | null
+  // Fraction of a limit left at which callers should start saving tokens
+  lowWatermark?: number
+}
+
+export interface UsageTotals {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  costUsd: number
+  calls: number
+}
+
+export interface UsageReport {
+  totals: UsageTotals
+  byStory: Array<UsageTotals & { storyId: string | null }>
+  byAgentType: Array<UsageTotals & { agentType: string }>
+  byModel: Array<UsageTotals & { model: string }>
+}
+
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gpt-4o': { promptPerMillion: 2.5, completionPerMillion: 10 },
+  'gpt-4o-mini': { promptPerMillion: 0.15, completionPerMillion: 0.6 },
+  'gpt-4-turbo': { promptPerMillion: 10, completionPerMillion: 30 },
+  'claude-3-haiku-20240307': { promptPerMillion: 0.25, completionPerMillion: 1.25 },
+  'claude-3-5-haiku-latest': { promptPerMillion: 0.8, completionPerMillion: 4 },
+  'claude-3-5-sonnet-latest': { promptPerMillion: 3, completionPerMillion: 15 },
+  'claude-3-opus-20240229': { promptPerMillion: 15, completionPerMillion: 75 }
+}
+
+export class BudgetExceededError extends Error {
+  constructor(
+    public readonly scope: 'story' | 'user',
+    public readonly limit: number,
+    public readonly used: number
+  ) {
+    super(`${scope === 'story' ? 'Story' : 'Monthly user'} token budget exhausted (${used}/${limit} tokens used)`)
+    this.name = 'BudgetExceededError'
+  }
+}
+
+/**
+ * Add or override pricing for a model (e.g. a fine-tune or a new release)
+ */
+export function registerModelPricing(model: string, pricing: ModelPricing): void {
+  MODEL_PRICING[model] = pricing
+}
+
+/**
+ * Estimated USD cost of a call. Local and unknown models cost nothing.
+ */
+export function estimateCostUsd(provider: string, model: string, promptTokens: number, completionTokens: number): number {
+  if (provider === 'local') return 0
+
+  const pricing = MODEL_PRICING[model]
+  if (!pricing) return 0
+
+  return (promptTokens * pricing.promptPerMillion + completionTokens * pricing.completionPerMillion) / 1_000_000
+}
+
+export class TokenBudget {
+  readonly storyId: string | null
+  readonly userId: string | null
+  private storyLimit: number | null
+  private userLimit: number | null
+  private lowWatermark: number
+  private storyUsed: number
+  private userUsed: number
+
+  constructor(
+    owner: { storyId?: string | null; userId?: string | null },
+    limits: BudgetLimits = {},
+    used: { story?: number; user?: number } = {}
+  ) {
+    this.storyId = owner.storyId ?? null
+    this.userId = owner.userId ?? null
+    this.storyLimit = limits.storyLimit ?? null
+    this.userLimit = limits.userLimit ?? null
+    this.lowWatermark = limits.lowWatermark ?? 0.15
+    this.storyUsed = used.story ?? 0
+    this.userUsed = used.user ?? 0
+  }
+
+  /**
+   * Load limits and spend so far for a story and its owner
+   */
+  static async forStory(storyId: string): Promise<TokenBudget> {
+    const story = await prisma.story.findUnique({
+      where: { id: storyId },
+      select: { userId: true, tokenBudget: true, user: { select: { monthlyTokenBudget: true } } }
+    })
+
+    const [storyUsed, userUsed] = await Promise.all([
+      sumTokens({ storyId }),
+      story ? sumTokens({ userId: story.userId, createdAt: { gte: startOfMonth() } }) : Promise.resolve(0)
+    ])
+
+    return new TokenBudget(
+      { storyId, userId: story?.userId },
+      {
+        storyLimit: story?.tokenBudget ?? envLimit('SOULSCRIBE_STORY_TOKEN_BUDGET'),
+        userLimit: story?.user?.monthlyTokenBudget ?? envLimit('SOULSCRIBE_USER_MONTHLY_TOKEN_BUDGET')
+      },
+      { story: storyUsed, user: userUsed }
+    )
+  }
+
+  /**
+   * Load a user's monthly budget - for work that has no story yet
+   */
+  static async forUser(userId: string): Promise<TokenBudget> {
+    const [user, userUsed] = await Promise.all([
+      prisma.user.findUnique({ where: { id: userId }, select: { monthlyTokenBudget: true } }),
+      sumTokens({ userId, createdAt: { gte: startOfMonth() } })
+    ])
+
+    return new TokenBudget(
+      { userId },
+      { userLimit: user?.monthlyTokenBudget ?? envLimit('SOULSCRIBE_USER_MONTHLY_TOKEN_BUDGET') },
+      { user: userUsed }
+    )
+  }
+
+  /**
+   * Tokens left before the tightest limit is hit (null when unlimited)
+   */
+  remaining(): number | null {
+    const left = [
+      this.storyLimit !== null ? this.storyLimit - this.storyUsed : null,
+      this.userLimit !== null ? this.userLimit - this.userUsed : null
+    ].filter((value): value is number => value !== null)
+
+    return left.length > 0 ? Math.max(0, Math.min(...left)) : null
+  }
+
+  status(): BudgetStatus {
+    const checks = [
+      { limit: this.storyLimit, used: this.storyUsed },
+      { limit: this.userLimit, used: this.userUsed }
+    ]
+
+    let status: BudgetStatus = 'ok'
+    for (const { limit, used } of checks) {
+      if (limit === null) continue
+      if (used >= limit) return 'exhausted'
+      if (limit - used <= limit * this.lowWatermark) status = 'low'
+    }
+    return status
+  }
+
+  /**
+   * True when optional passes (enhancement, polish, retries) should be skipped
+   */
+  isNearlySpent(): boolean {
+    return this.status() !== 'ok'
+  }
+
+  /**
+   * Throw before a call when no tokens are left
+   */
+  assertAvailable(): void {
+    if (this.storyLimit !== null && this.storyUsed >= this.storyLimit) {
+      throw new BudgetExceededError('story', this.storyLimit, this.storyUsed)
+    }
+    if (this.userLimit !== null && this.userUsed >= this.userLimit) {
+      throw new BudgetExceededError('user', this.userLimit, this.userUsed)
+    }
+  }
+
+  /**
+   * Count a finished call against the budget and write it to the ledger
+   */
+  async record(usage: TokenUsageInput): Promise<void> {
+    const totalTokens = usage.promptTokens + usage.completionTokens
+    this.storyUsed += totalTokens
+    this.userUsed += totalTokens
+
+    await recordTokenUsage({ ...usage, storyId: this.storyId, userId: this.userId })
+  }
+}
+
+/**
+ * Write one LLM call to the token_usage ledger
+ */
+export async function recordTokenUsage(
+  usage: TokenUsageInput & { storyId?: string | null; userId?: string | null }
+): Promise<void> {
+  await prisma.tokenUsage.create({
+    data: {
+      storyId: usage.storyId ?? null,
+      userId: usage.userId ?? null,
+      agentType: usage.agentType,
+      provider: usage.provider,
+      model: usage.model,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      costUsd: estimateCostUsd(usage.provider, usage.model, usage.promptTokens, usage.completionTokens)
+    }
+  })
+}
+
+const budgetScope = new AsyncLocalStorage<TokenBudget>()
+
+/**
+ * Run work with a budget - every agent call inside is checked and recorded against it
+ */
+export function runWithBudget<T>(budget: TokenBudget, run: () => Promise<T>): Promise<T> {
+  return budgetScope.run(budget, run)
+}
+
+export function currentBudget(): TokenBudget | undefined {
+  return budgetScope.getStore()
+}
+
+/**
+ * Spend broken down by story, agent type and model
+ */
+export async function getUsageReport(where: { userId?: string; storyId?: string; since?: Date }): Promise<UsageReport> {
+  const filter = {
+    ...(where.userId && { userId: where.userId }),
+    ...(where.storyId && { storyId: where.storyId }),
+    ...(where.since && { createdAt: { gte: where.since } })
+  }
+  const sums = { _sum: { promptTokens: true, completionTokens: true, costUsd: true }, _count: { _all: true } } as const
+
+  const [totals, byStory, byAgentType, byModel] = await Promise.all([
+    prisma.tokenUsage.aggregate({ where: filter, ...sums }),
+    prisma.tokenUsage.groupBy({ by: ['storyId'], where: filter, ...sums }),
+    prisma.tokenUsage.groupBy({ by: ['agentType'], where: filter, ...sums }),
+    prisma.tokenUsage.groupBy({ by: ['model'], where: filter, ...sums })
+  ])
+
+  return {
+    totals: toTotals(totals),
+    byStory: byStory.map((row: UsageRow & { storyId: string | null }) => ({ storyId: row.storyId, ...toTotals(row) })),
+    byAgentType: byAgentType.map((row: UsageRow & { agentType: string }) => ({ agentType: row.agentType, ...toTotals(row) })),
+    byModel: byModel.map((row: UsageRow & { model: string }) => ({ model: row.model, ...toTotals(row) }))
+  }
+}
+
+export function startOfMonth(date = new Date()): Date {
+  return new Date(date.getFullYear(), date.getMonth(), 1)
+}
+
+interface UsageRow {
+  _sum: { promptTokens: number | null; completionTokens: number | null; costUsd: number | null }
+  _count: { _all: number }
+}
+
+function toTotals(row: UsageRow): UsageTotals {
+  const promptTokens = row._sum.promptTokens ?? 0
+  const completionTokens = row._sum.completionTokens ?? 0
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+    costUsd: Number((row._sum.costUsd ?? 0).toFixed(6)),
+    calls: row._count._all
+  }
+}
+
+async function sumTokens(where: { storyId?: string; userId?: string; createdAt?: { gte: Date } }): Promise<number> {
+  const result = await prisma.tokenUsage.aggregate({
+    where,
+    _sum: { promptTokens: true, completionTokens: true }
+  })
+  return (result._sum.promptTokens ?? 0) + (result._sum.completionTokens ?? 0)
+}
+
+function envLimit(name: string): number | null {
+  const value = parseInt(process.env[name] || '')
+  return Number.isNaN(value) ? null : value
+}
@@ -0,0 +1,267 @@
+import { prisma } from '@/lib/prisma'
+import { countWords } from '@/lib/utils'
+import { Chapter, ChapterVersion, Prisma } from '../../soulscribe/src/generated/prisma'
+
+/**
+ * Version History - Every draft is a page worth keeping
+ *
+ * Chapter text is never overwritten without a trace: each agent pass, author
+ * edit and rollback bumps the chapter's revision and is stored as a
+ * ChapterVersion saying who wrote it. Story titles and summaries keep the same
+ * kind of history in StoryVersion. Rolling back writes the old text as a new
+ * revision, so the way back is kept too.
+ */
+
+export type VersionSource = 'original' | 'agent' | 'human' | 'rollback'
+
+export interface VersionAttribution {
+  source: VersionSource
+  agentType?: string
+  stage?: string
+  userId?: string
+  note?: string
+}
+
+/**
+ * One pass over a chapter's text, in the order the passes ran
+ */
+export interface ChapterDraft {
+  content: string
+  agentType: string
+  stage: string
+  note: string
+}
+
+export interface ChapterFields {
+  title?: string
+  content: string
+  summary?: string | null
+  keyLessons?: string[]
+  wordCount?: number
+  // Analyzer score for this text - left out, a changed text drops the old score
+  qualityScore?: number | null
+  status?: string
+}
+
+export interface StoryFields {
+  title?: string
+  summary?: string | null
+}
+
+type VersionClient = Prisma.TransactionClient
+
+type VersionedChapter = Pick<Chapter, 'id' | 'revision' | 'title' | 'content' | 'summary'>
+
+/**
+ * Keep the chapter's current text as the version for its current revision
+ */
+export async function recordChapterVersion(
+  db: VersionClient,
+  chapter: VersionedChapter,
+  attribution: VersionAttribution
+): Promise<ChapterVersion> {
+  return db.chapterVersion.create({
+    data: {
+      chapterId: chapter.id,
+      revision: chapter.revision,
+      title: chapter.title,
+      content: chapter.content,
+      summary: chapter.summary,
+      source: attribution.source,
+      agentType: attribution.agentType,
+      stage: attribution.stage,
+      userId: attribution.userId,
+      note: attribution.note
+    }
+  })
+}
+
+/**
+ * Chapters written before history was kept (or by a path that skipped it) get
+ * their current text recorded before anything replaces it
+ */
+export async function ensureChapterBaseline(db: VersionClient, chapter: VersionedChapter): Promise<void> {
+  const existing = await db.chapterVersion.findUnique({
+    where: { chapterId_revision: { chapterId: chapter.id, revision: chapter.revision } },
+    select: { id: true }
+  })
+  if (!existing) {
+    await recordChapterVersion(db, chapter, { source: 'original' })
+  }
+}
+
+function changesChapter(chapter: VersionedChapter, fields: ChapterFields): boolean {
+  return chapter.content !== fields.content ||
+    (fields.title !== undefined && fields.title !== chapter.title) ||
+    (fields.summary !== undefined && fields.summary !== chapter.summary)
+}
+
+async function writeChapterRevision(
+  db: VersionClient,
+  storyId: string,
+  chapterNumber: number,
+  fields: ChapterFields,
+  attribution: VersionAttribution
+): Promise<Chapter> {
+  const data = { ...fields, wordCount: fields.wordCount ?? countWords(fields.content) }
+  const existing = await db.chapter.findUnique({
+    where: { storyId_number: { storyId, number: chapterNumber } }
+  })
+
+  if (!existing) {
+    const chapter = await db.chapter.create({
+      data: { storyId, number: chapterNumber, ...data, title: fields.title ?? `Chapter ${chapterNumber}` }
+    })
+    await recordChapterVersion(db, chapter, attribution)
+    return chapter
+  }
+
+  // Same text again (a resumed run re-saving its chapters) - nothing new to keep
+  if (!changesChapter(existing, fields)) {
+    return db.chapter.update({ where: { id: existing.id }, data })
+  }
+
+  await ensureChapterBaseline(db, existing)
+  const chapter = await db.chapter.update({
+    where: { id: existing.id },
+    data: {
+      ...data,
+      ...(fields.qualityScore === undefined && existing.content !== fields.content && { qualityScore: null }),
+      revision: { increment: 1 }
+    }
+  })
+  await recordChapterVersion(db, chapter, attribution)
+  return chapter
+}
+
+/**
+ * Create or change a chapter, keeping the new text as its next revision
+ */
+export async function saveChapterRevision(
+  storyId: string,
+  chapterNumber: number,
+  fields: ChapterFields,
+  attribution: VersionAttribution
+): Promise<Chapter> {
+  return prisma.$transaction(tx => writeChapterRevision(tx, storyId, chapterNumber, fields, attribution))
+}
+
+/**
+ * Save a freshly written chapter with one revision per pass that shaped it.
+ * The last draft is the finished text in `fields`.
+ */
+export async function saveChapterDrafts(
+  storyId: string,
+  chapterNumber: number,
+  fields: ChapterFields,
+  drafts: ChapterDraft[]
+): Promise<Chapter> {
+  const attributionFor = (draft?: ChapterDraft): VersionAttribution =>
+    draft ? { source: 'agent', agentType: draft.agentType, stage: draft.stage, note: draft.note } : { source: 'agent' }
+
+  return prisma.$transaction(async tx => {
+    const existing = await tx.chapter.findUnique({
+      where: { storyId_number: { storyId, number: chapterNumber } },
+      select: { content: true }
+    })
+
+    // A chapter that already holds this text was saved before - its passes are already kept
+    const passes = existing?.content === fields.content ? [] : drafts.slice(0, -1)
+    for (const draft of passes) {
+      await writeChapterRevision(tx, storyId, chapterNumber, { title: fields.title, content: draft.content }, attributionFor(draft))
+    }
+    return writeChapterRevision(tx, storyId, chapterNumber, fields, attributionFor(drafts[drafts.length - 1]))
+  })
+}
+
+/**
+ * Put an earlier revision's text back as a new revision. Returns null when the
+ * chapter has no such revision.
+ */
+export async function rollbackChapter(chapterId: string, revision: number, userId?: string): Promise<Chapter | null> {
+  return prisma.$transaction(async tx => {
+    const version = await tx.chapterVersion.findUnique({
+      where: { chapterId_revision: { chapterId, revision } },
+      include: { chapter: { select: { storyId: true, number: true } } }
+    })
+    if (!version) return null
+
+    return writeChapterRevision(
+      tx,
+      version.chapter.storyId,
+      version.chapter.number,
+      { title: version.title, content: version.content, summary: version.summary },
+      { source: 'rollback', userId, note: `Rolled back to revision ${revision}` }
+    )
+  })
+}
+
+/**
+ * Change a story's title or summary, keeping the result as its next version.
+ * Returns the new version number, or null when nothing changed.
+ */
+export async function saveStoryRevision(
+  storyId: string,
+  fields: StoryFields,
+  attribution: VersionAttribution
+): Promise<number | null> {
+  return prisma.$transaction(async tx => {
+    const story = await tx.story.findUniqueOrThrow({
+      where: { id: storyId },
+      select: { title: true, summary: true }
+    })
+    const changed = (fields.title !== undefined && fields.title !== story.title) ||
+      (fields.summary !== undefined && fields.summary !== story.summary)
+    if (!changed) return null
+
+    const latest = await tx.storyVersion.findFirst({
+      where: { storyId },
+      orderBy: { version: 'desc' },
+      select: { version: true }
+    })
+    let version = latest?.version ?? 0
+    if (!latest) {
+      version = 1
+      await tx.storyVersion.create({
+        data: { storyId, version, title: story.title, summary: story.summary, source: 'original' }
+      })
+    }
+
+    const updated = await tx.story.update({
+      where: { id: storyId },
+      data: fields,
+      select: { title: true, summary: true }
+    })
+    await tx.storyVersion.create({
+      data: {
+        storyId,
+        version: version + 1,
+        title: updated.title,
+        summary: updated.summary,
+        source: attribution.source,
+        agentType: attribution.agentType,
+        userId: attribution.userId,
+        note: attribution.note
+      }
+    })
+    return version + 1
+  })
+}
+
+/**
+ * Put an earlier version's title and summary back as a new version. Returns
+ * false when the story has no such version.
+ */
+export async function rollbackStory(storyId: string, version: number, userId?: string): Promise<boolean> {
+  const target = await prisma.storyVersion.findUnique({
+    where: { storyId_version: { storyId, version } }
+  })
+  if (!target) return false
+
+  await saveStoryRevision(
+    storyId,
+    { title: target.title, summary: target.summary },
+    { source: 'rollback', userId, note: `Rolled back to version ${version}` }
+  )
+  return true
+}
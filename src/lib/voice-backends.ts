@@ -0,0 +1,94 @@
+import { VoiceBackend } from '@/agents/voice-backend'
+import { DiaMetistroVoiceBackend } from '@/agents/dia-meistro-backend'
+import { LocalTTSVoiceBackend } from '@/agents/local-tts-backend'
+import { ToneVoiceBackend } from '@/agents/tone-voice-backend'
+
+/**
+ * Voice Backends - Whichever voice this machine has
+ *
+ * SOULSCRIBE_VOICE_BACKEND picks the engine: dia-meistro, piper, espeak-ng, tone,
+ * silence, or auto (the default). Auto uses Dia-Meistro when its model is
+ * installed, then Piper when a voice model is configured, then espeak-ng. The
+ * chosen backend is initialized once and shared, so Dia-Meistro's worker keeps
+ * its model loaded between chapters.
+ */
+
+export type VoiceBackendName = 'dia-meistro' | 'piper' | 'espeak-ng' | 'tone' | 'silence'
+
+const AUTO_ORDER: VoiceBackendName[] = ['dia-meistro', 'piper', 'espeak-ng']
+
+export class VoiceBackendUnavailableError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'VoiceBackendUnavailableError'
+  }
+}
+
+let activeBackend: Promise<VoiceBackend> | null = null
+
+export function createVoiceBackend(name: string): VoiceBackend {
+  switch (name) {
+    case 'dia-meistro':
+      return new DiaMetistroVoiceBackend(process.env.DIA_MEISTRO_PATH || './dia-meistro')
+    case 'piper':
+    case 'espeak-ng':
+      return new LocalTTSVoiceBackend({ engine: name })
+    case 'tone':
+    case 'silence':
+      return new ToneVoiceBackend({ mode: name })
+    default:
+      throw new VoiceBackendUnavailableError(`Unknown voice backend "${name}". Use auto, ${[...AUTO_ORDER, 'tone', 'silence'].join(', ')}`)
+  }
+}
+
+/**
+ * The initialized backend for this process - resolved on first use
+ */
+export function getVoiceBackend(): Promise<VoiceBackend> {
+  if (!activeBackend) {
+    activeBackend = resolveVoiceBackend(process.env.SOULSCRIBE_VOICE_BACKEND || 'auto').catch(error => {
+      activeBackend = null
+      throw error
+    })
+  }
+  return activeBackend
+}
+
+/**
+ * Use this backend from now on - for tests and custom engines
+ */
+export function registerVoiceBackend(backend: VoiceBackend): void {
+  activeBackend = Promise.resolve(backend)
+}
+
+/**
+ * Release the active backend (stopping Dia-Meistro's worker) so the next call resolves again
+ */
+export async function resetVoiceBackend(): Promise<void> {
+  const backend = activeBackend
+  activeBackend = null
+  await (await backend?.catch(() => null))?.cleanup()
+}
+
+async function resolveVoiceBackend(preference: string): Promise<VoiceBackend> {
+  if (preference === 'piper' && !process.env.PIPER_MODEL) {
+    throw new VoiceBackendUnavailableError('The piper voice backend needs PIPER_MODEL set to an .onnx voice')
+  }
+
+  const candidates = preference === 'auto'
+    ? AUTO_ORDER.filter(name => name !== 'piper' || process.env.PIPER_MODEL)
+    : [preference]
+
+  for (const name of candidates) {
+    const backend = createVoiceBackend(name)
+    if (await backend.initialize()) {
+      return backend
+    }
+  }
+
+  throw new VoiceBackendUnavailableError(
+    preference === 'auto'
+      ? `No voice engine available (tried ${candidates.join(', ')}). Install Dia-Meistro, Piper or espeak-ng, or set SOULSCRIBE_VOICE_BACKEND=tone`
+      : `The ${preference} voice backend could not be initialized`
+  )
+}
@@ -0,0 +1,126 @@
+/**
+ * WAV - Just enough of the format to write, measure and join speech audio
+ *
+ * Every voice backend writes 16-bit PCM WAV files. Reading the header is enough to
+ * know a file's length, and files in the same format can be joined by appending
+ * their samples, so a chapter can be assembled without ffmpeg.
+ */
+
+export interface WavFormat {
+  sampleRate: number
+  channels: number
+  bitsPerSample: number
+}
+
+export interface WavInfo extends WavFormat {
+  // Where the sample data starts and how many bytes it has
+  dataOffset: number
+  dataLength: number
+  durationMs: number
+}
+
+const HEADER_SIZE = 44
+
+/**
+ * Wrap 16-bit mono samples in a WAV file
+ */
+export function encodeWav(samples: Int16Array, sampleRate: number): Buffer {
+  const header = wavHeader({ sampleRate, channels: 1, bitsPerSample: 16 }, samples.length * 2)
+  return Buffer.concat([header, Buffer.from(samples.buffer, samples.byteOffset, samples.byteLength)])
+}
+
+/**
+ * Read a WAV file's format and where its samples are - null for anything that
+ * isn't uncompressed PCM WAV
+ */
+export function readWavInfo(file: Buffer): WavInfo | null {
+  if (file.length < 12 || file.toString('ascii', 0, 4) !== 'RIFF' || file.toString('ascii', 8, 12) !== 'WAVE') {
+    return null
+  }
+
+  let format: WavFormat | null = null
+  let offset = 12
+  while (offset + 8 <= file.length) {
+    const chunkId = file.toString('ascii', offset, offset + 4)
+    const chunkSize = file.readUInt32LE(offset + 4)
+    const body = offset + 8
+
+    if (chunkId === 'fmt ' && body + 16 <= file.length) {
+      if (file.readUInt16LE(body) !== 1) return null // Not PCM
+      format = {
+        channels: file.readUInt16LE(body + 2),
+        sampleRate: file.readUInt32LE(body + 4),
+        bitsPerSample: file.readUInt16LE(body + 14)
+      }
+    } else if (chunkId === 'data' && format) {
+      // Streaming writers leave the size at 0 or 0xFFFFFFFF - the data runs to the end
+      const dataLength = Math.min(chunkSize || file.length - body, file.length - body)
+      const bytesPerSecond = format.sampleRate * format.channels * (format.bitsPerSample / 8)
+      return {
+        ...format,
+        dataOffset: body,
+        dataLength,
+        durationMs: bytesPerSecond > 0 ? Math.round(dataLength / bytesPerSecond * 1000) : 0
+      }
+    }
+
+    offset = body + chunkSize + (chunkSize % 2)
+  }
+
+  return null
+}
+
+/**
+ * The samples of a 16-bit WAV file (the first channel when there are several) -
+ * null for any other format
+ */
+export function readWavSamples(file: Buffer): { samples: Int16Array; sampleRate: number } | null {
+  const info = readWavInfo(file)
+  if (!info || info.bitsPerSample !== 16 || info.channels < 1) return null
+
+  const frameCount = Math.floor(info.dataLength / (2 * info.channels))
+  const samples = new Int16Array(frameCount)
+  for (let i = 0; i < frameCount; i++) {
+    samples[i] = file.readInt16LE(info.dataOffset + i * 2 * info.channels)
+  }
+  return { samples, sampleRate: info.sampleRate }
+}
+
+/**
+ * Join WAV files that share a format into one. Returns null when the formats
+ * differ or a file isn't PCM WAV, so the caller can fall back to a real encoder.
+ */
+export function concatWav(files: Buffer[]): Buffer | null {
+  const infos = files.map(readWavInfo)
+  if (infos.length === 0 || infos.some(info => info === null)) return null
+
+  const [first] = infos as WavInfo[]
+  const sameFormat = (infos as WavInfo[]).every(info =>
+    info.sampleRate === first.sampleRate && info.channels === first.channels && info.bitsPerSample === first.bitsPerSample
+  )
+  if (!sameFormat) return null
+
+  const data = files.map((file, i) => file.subarray(infos[i]!.dataOffset, infos[i]!.dataOffset + infos[i]!.dataLength))
+  const dataLength = data.reduce((sum, chunk) => sum + chunk.length, 0)
+  return Buffer.concat([wavHeader(first, dataLength), ...data])
+}
+
+function wavHeader(format: WavFormat, dataLength: number): Buffer {
+  const header = Buffer.alloc(HEADER_SIZE)
+  const blockAlign = format.channels * (format.bitsPerSample / 8)
+
+  header.write('RIFF', 0, 'ascii')
+  header.writeUInt32LE(HEADER_SIZE - 8 + dataLength, 4)
+  header.write('WAVE', 8, 'ascii')
+  header.write('fmt ', 12, 'ascii')
+  header.writeUInt32LE(16, 16)
+  header.writeUInt16LE(1, 20) // PCM
+  header.writeUInt16LE(format.channels, 22)
+  header.writeUInt32LE(format.sampleRate, 24)
+  header.writeUInt32LE(format.sampleRate * blockAlign, 28)
+  header.writeUInt16LE(blockAlign, 32)
+  header.writeUInt16LE(format.bitsPerSample, 34)
+  header.write('data', 36, 'ascii')
+  header.writeUInt32LE(dataLength, 40)
+  return header
+}
@@ -0,0 +1,237 @@
+/**
+ * Word Alignment - Which word is being spoken, and where it is on the page
+ *
+ * Read-along highlighting needs a start and end time for every word of a chapter,
+ * tied to that word's place in the chapter text. Engines that know their own word
+ * timings report them; for everything else a local aligner estimates them from the
+ * text and the audio. Words share their segment's speech in proportion to their
+ * length, punctuation leaves room for a breath, and the breaths are pinned to the
+ * silences actually found in the recording, so the estimate is corrected at every
+ * comma and full stop instead of drifting across a long paragraph.
+ */
+
+export interface SpokenWord {
+  word: string
+  // Milliseconds from the start of the audio the word was spoken in
+  start: number
+  end: number
+}
+
+export interface WordTiming extends SpokenWord {
+  // Where the word is in the chapter content, as [charStart, charEnd)
+  charStart: number
+  charEnd: number
+}
+
+export interface Pause {
+  start: number
+  end: number
+}
+
+export interface AlignableSegment {
+  text: string
+  // Where the segment sits in the chapter audio, in milliseconds
+  startTime: number
+  duration: number
+  // The engine's own timings - estimated from text and pauses when missing
+  words?: SpokenWord[]
+  pauses?: Pause[]
+}
+
+export interface PauseDetectionOptions {
+  frameMs?: number
+  minPauseMs?: number
+  // Frames quieter than this share of the loudest frame count as silence
+  relativeThreshold?: number
+}
+
+// Room left after a word, in the same units as its letters
+const SENTENCE_BREAK = 6
+const CLAUSE_BREAK = 3
+// Silences at the very edge of a recording are lead-in or tail, not breaths
+const EDGE_MS = 20
+// How far a silence may sit from where a breath was expected and still be used
+const MIN_SNAP_TOLERANCE_MS = 400
+const SNAP_TOLERANCE_SHARE = 0.15
+// Chapter words skipped looking for a spoken word - speaker tags and stage directions
+const LOOKAHEAD_TOKENS = 12
+
+/**
+ * The silences in 16-bit mono audio, in order
+ */
+export function findPauses(samples: Int16Array, sampleRate: number, options: PauseDetectionOptions = {}): Pause[] {
+  const frameMs = options.frameMs ?? 10
+  const minPauseMs = options.minPauseMs ?? 120
+  const frameSize = Math.max(1, Math.round(sampleRate * frameMs / 1000))
+  const frameCount = Math.floor(samples.length / frameSize)
+  if (frameCount === 0) return []
+
+  const levels = new Float64Array(frameCount)
+  let loudest = 0
+  for (let frame = 0; frame < frameCount; frame++) {
+    let sum = 0
+    for (let i = frame * frameSize; i < (frame + 1) * frameSize; i++) {
+      sum += samples[i] * samples[i]
+    }
+    levels[frame] = Math.sqrt(sum / frameSize)
+    loudest = Math.max(loudest, levels[frame])
+  }
+
+  const threshold = Math.max(200, loudest * (options.relativeThreshold ?? 0.05))
+  const pauses: Pause[] = []
+  let silentFrom = -1
+  for (let frame = 0; frame <= frameCount; frame++) {
+    const silent = frame < frameCount && levels[frame] < threshold
+    if (silent && silentFrom < 0) {
+      silentFrom = frame
+    } else if (!silent && silentFrom >= 0) {
+      const start = Math.round(silentFrom * frameSize / sampleRate * 1000)
+      const end = Math.round(frame * frameSize / sampleRate * 1000)
+      if (end - start >= minPauseMs) pauses.push({ start, end })
+      silentFrom = -1
+    }
+  }
+  return pauses
+}
+
+/**
+ * Estimate when each word of a segment is spoken. Pauses found in its audio pin
+ * the gaps after punctuation; without them the words share the duration evenly by
+ * length.
+ */
+export function estimateWordTimings(text: string, durationMs: number, pauses: Pause[] = []): SpokenWord[] {
+  const words = text.match(/\S+/g) || []
+  if (words.length === 0 || durationMs <= 0) return []
+
+  let speechStart = 0
+  let speechEnd = durationMs
+  const leading = pauses.find(pause => pause.start <= EDGE_MS)
+  const trailing = pauses.find(pause => pause.end >= durationMs - EDGE_MS)
+  if (leading) speechStart = leading.end
+  if (trailing) speechEnd = trailing.start
+  if (speechEnd - speechStart < words.length) {
+    // Nothing but silence - the pauses can't be trusted
+    speechStart = 0
+    speechEnd = durationMs
+    pauses = []
+  }
+
+  const interior = pauses.filter(pause => pause !== leading && pause !== trailing && pause.start >= speechStart && pause.end <= speechEnd)
+  const letters = words.map(word => Math.max(1, normalizeWord(word).length))
+  const breaks = words.map((word, i) => i === words.length - 1 ? 0 : breakAfter(word))
+  const tolerance = Math.max(MIN_SNAP_TOLERANCE_MS, (speechEnd - speechStart) * SNAP_TOLERANCE_SHARE)
+
+  // Split the words into runs between the breaths that matched a real silence
+  const runs: { from: number; to: number; start: number; end: number }[] = []
+  let from = 0
+  let runStart = speechStart
+  let nextPause = 0
+  for (let i = 0; i < words.length - 1; i++) {
+    if (breaks[i] === 0 || nextPause >= interior.length) continue
+
+    const expected = runStart + (speechEnd - runStart) * weightOf(letters, breaks, from, i) / weightOf(letters, breaks, from, words.length - 1)
+    let best = -1
+    for (let p = nextPause; p < interior.length; p++) {
+      const distance = Math.abs((interior[p].start + interior[p].end) / 2 - expected)
+      if (distance <= tolerance && (best < 0 || distance < Math.abs((interior[best].start + interior[best].end) / 2 - expected))) {
+        best = p
+      }
+    }
+    if (best < 0) continue
+
+    runs.push({ from, to: i, start: runStart, end: interior[best].start })
+    runStart = interior[best].end
+    from = i + 1
+    nextPause = best + 1
+  }
+  runs.push({ from, to: words.length - 1, start: runStart, end: speechEnd })
+
+  const timings: SpokenWord[] = []
+  for (const run of runs) {
+    // The last word of a run is followed by the silence itself, not by its break
+    const total = weightOf(letters, breaks, run.from, run.to)
+    const msPerUnit = (run.end - run.start) / total
+    let time = run.start
+    for (let i = run.from; i <= run.to; i++) {
+      const end = time + letters[i] * msPerUnit
+      timings.push({ word: words[i], start: Math.round(time), end: Math.round(end) })
+      time = end + (i < run.to ? breaks[i] * msPerUnit : 0)
+    }
+  }
+  return timings
+}
+
+/**
+ * Place every segment's words on the chapter's timeline and find them in the
+ * chapter content. Words that can't be found in the text (a cue the engine added,
+ * say) are left out rather than guessed at.
+ */
+export function alignChapterWords(content: string, segments: AlignableSegment[]): WordTiming[] {
+  const tokens: { text: string; key: string; index: number }[] = []
+  const pattern = /\S+/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(content))) {
+    tokens.push({ text: match[0], key: normalizeWord(match[0]), index: match.index })
+  }
+
+  const timings: WordTiming[] = []
+  let cursor = 0
+  for (const segment of segments) {
+    const spoken = segment.words ?? estimateWordTimings(segment.text, segment.duration, segment.pauses)
+    for (const word of spoken) {
+      const key = normalizeWord(word.word)
+      if (!key) continue
+
+      const limit = Math.min(tokens.length, cursor + LOOKAHEAD_TOKENS)
+      for (let i = cursor; i < limit; i++) {
+        if (tokens[i].key !== key) continue
+        timings.push({
+          word: word.word,
+          start: segment.startTime + word.start,
+          end: segment.startTime + word.end,
+          charStart: tokens[i].index,
+          charEnd: tokens[i].index + tokens[i].text.length
+        })
+        cursor = i + 1
+        break
+      }
+    }
+  }
+  return timings
+}
+
+/**
+ * The word being spoken at a point in the chapter audio - the last one started,
+ * held through the pause after it. -1 before the first word and after the last.
+ */
+export function findWordAt(words: WordTiming[], timeMs: number): number {
+  if (words.length === 0 || timeMs < words[0].start || timeMs > words[words.length - 1].end) return -1
+
+  let low = 0
+  let high = words.length - 1
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2)
+    if (words[middle].start <= timeMs) low = middle
+    else high = middle - 1
+  }
+  return low
+}
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[’‘]/g, "'").replace(/^[^a-z0-9\u00c0-\uffff]+|[^a-z0-9\u00c0-\uffff]+$/g, '')
+}
+
+function breakAfter(word: string): number {
+  if (/[.!?…]["'”’)\]]*$/.test(word)) return SENTENCE_BREAK
+  if (/[,;:—–]["'”’)\]]*$/.test(word)) return CLAUSE_BREAK
+  return 0
+}
+
+// Letters of words from..to plus the breaks between them
+function weightOf(letters: number[], breaks: number[], from: number, to: number): number {
+  let weight = 0
+  for (let i = from; i <= to; i++) {
+    weight += letters[i] + (i < to ? breaks[i] : 0)
+  }
+  return weight
+}
@@ -1,3 +1,5 @@
+import type { BeatSheet } from '@/lib/beat-sheet';
+
 export interface Story {
   id: string;
   title: string;
@@ -6,7 +8,8 @@ export interface Story {
   targetAge: 'child' | 'teen' | 'adult' | 'all_ages';
   tone: string[];
   chapterCount: number;
-  status: 'planning' | 'writing' | 'reviewing' | 'completed';
+  status: 'DRAFT' | 'PUBLISHED' | 'ARCHIVED';
+  generationStatus: 'planning' | 'writing' | 'outline_review' | 'reviewing' | 'completed';
   createdAt: Date;
   updatedAt: Date;
   userId: string;
@@ -15,10 +18,13 @@ export interface Story {
   themes: string[];
   characters: Character[];
   settings: Setting[];
+  facts: StoryFact[];
   learningObjectives: string[];
   
   // Generated content
   outline: string;
+  beatSheet?: BeatSheet | null;
+  beatSheetApprovedAt?: Date | null;
   chapters: Chapter[];
   
   // Agent session tracking
@@ -33,6 +39,7 @@ export interface Chapter {
   content: string;
   status: 'draft' | 'reviewed' | 'final';
   wordCount: number;
+  revision: number;
   createdAt: Date;
   updatedAt: Date;
   
@@ -40,6 +47,7 @@ export interface Chapter {
   illustration?: string;
   summary: string;
   keyLessons: string[];
+  qualityScore?: number | null; // Chapter Analyzer's score for the current text
 }
 
 export interface Character {
@@ -50,6 +58,9 @@ export interface Character {
   description: string;
   growthArc: string;
   symbolism: string;
+  status: 'alive' | 'dead' | 'departed' | 'unknown';
+  firstChapter?: number;
+  lastChapter?: number;
 }
 
 export interface Setting {
@@ -58,6 +69,32 @@ export interface Setting {
   description: string;
   symbolism: string;
   mood: string;
+  firstChapter?: number;
+  lastChapter?: number;
+}
+
+export interface StoryFact {
+  id: string;
+  storyId: string;
+  kind: 'object' | 'fact';
+  subject: string;
+  detail: string;
+  chapterNumber: number;
+}
+
+export interface ChapterVersion {
+  id: string;
+  chapterId: string;
+  revision: number;
+  title: string;
+  content: string;
+  summary?: string;
+  source: 'original' | 'agent' | 'human' | 'rollback';
+  agentType?: string;
+  stage?: string;
+  userId?: string;
+  note?: string;
+  createdAt: Date;
 }
 
 export interface AgentSession {